@@ -8,7 +8,7 @@ validateEnv(['TWILIO_ACCOUNT_SID', 'TWILIO_AUTH_TOKEN', 'DB_HOST', 'DB_USER', 'D
 
 import { sequelize } from '../src/models';
 import { TrackingNumber, Company, Call, CallRecording, SipEvent } from '../src/models';
-import TwilioService from '../src/services/TwilioService';
+import { getTwilioService } from '../src/services/TwilioService';
 
 async function cleanupTestNumber(sid?: string): Promise<void> {
   try {
@@ -30,7 +30,7 @@ async function cleanupTestNumber(sid?: string): Promise<void> {
         console.log('❌ Tracking number not found in database');
         console.log('🔍 Attempting to release from Twilio anyway...');
         try {
-          await TwilioService.releaseNumber(sid);
+          await getTwilioService().releaseNumber(sid);
           console.log('✅ Released from Twilio');
         } catch (error) {
           console.log('❌ Failed to release from Twilio:', error);
@@ -96,7 +96,7 @@ async function cleanupTrackingNumber(trackingNumber: TrackingNumber): Promise<vo
   // Release from Twilio
   if (trackingNumber.provider_sid) {
     try {
-      await TwilioService.releaseNumber(trackingNumber.provider_sid);
+      await getTwilioService().releaseNumber(trackingNumber.provider_sid);
       console.log('   ✅ Released from Twilio');
     } catch (error) {
       console.log('   ❌ Failed to release from Twilio:', error);
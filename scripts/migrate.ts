@@ -55,7 +55,7 @@ async function runMigration() {
       `CREATE TYPE lead_status AS ENUM ('new', 'contacted', 'qualified', 'unqualified', 'lost', 'customer')`,
       `CREATE TYPE lifecycle_stage AS ENUM ('subscriber', 'lead', 'opportunity', 'customer', 'evangelist')`,
       `CREATE TYPE message_direction AS ENUM ('inbound', 'outbound')`,
-      `CREATE TYPE message_status AS ENUM ('pending', 'sending', 'sent', 'delivered', 'failed', 'received', 'read')`,
+      `CREATE TYPE message_status AS ENUM ('queued', 'pending', 'sending', 'sent', 'delivered', 'failed', 'received', 'read')`,
       `CREATE TYPE conversation_status AS ENUM ('active', 'archived', 'spam')`,
       `CREATE TYPE webhook_status AS ENUM ('active', 'inactive', 'failed')`,
       `CREATE TYPE webhook_event AS ENUM ('call.started', 'call.completed', 'call.recorded', 'text.received', 'text.sent', 'lead.created', 'form.submitted')`,
@@ -131,6 +131,20 @@ async function runMigration() {
       }
     }
 
+    // Values added to existing types (scheduled text-backs wait as 'queued')
+    const enumValues = [
+      `ALTER TYPE message_status ADD VALUE IF NOT EXISTS 'queued' BEFORE 'pending'`
+    ];
+
+    for (const sql of enumValues) {
+      try {
+        await client.query(sql);
+        console.log(`   ✅ ${sql}`);
+      } catch (error: any) {
+        console.error(`   ❌ ${error.message}`);
+      }
+    }
+
     // Create tables in order
     console.log('\n📦 Creating tables...');
 
@@ -685,6 +699,8 @@ async function runMigration() {
         delete_after TIMESTAMP,
         archived BOOLEAN DEFAULT false,
         archived_at TIMESTAMP,
+        retention_failures INTEGER DEFAULT 0,
+        retention_retry_at TIMESTAMP,
         status VARCHAR(50) DEFAULT 'pending',
         metadata JSONB DEFAULT '{}',
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -698,7 +714,9 @@ async function runMigration() {
       { name: 'company_id', sql: 'ALTER TABLE call_recordings ADD COLUMN IF NOT EXISTS company_id INTEGER REFERENCES companies(id) ON DELETE CASCADE' },
       { name: 'recording_sid', sql: 'ALTER TABLE call_recordings ADD COLUMN IF NOT EXISTS recording_sid VARCHAR(100)' },
       { name: 'status', sql: 'ALTER TABLE call_recordings ADD COLUMN IF NOT EXISTS status VARCHAR(50) DEFAULT \'pending\'' },
-      { name: 'metadata', sql: 'ALTER TABLE call_recordings ADD COLUMN IF NOT EXISTS metadata JSONB DEFAULT \'{}\'::jsonb' }
+      { name: 'metadata', sql: 'ALTER TABLE call_recordings ADD COLUMN IF NOT EXISTS metadata JSONB DEFAULT \'{}\'::jsonb' },
+      { name: 'retention_failures', sql: 'ALTER TABLE call_recordings ADD COLUMN IF NOT EXISTS retention_failures INTEGER DEFAULT 0' },
+      { name: 'retention_retry_at', sql: 'ALTER TABLE call_recordings ADD COLUMN IF NOT EXISTS retention_retry_at TIMESTAMP' }
     ];
 
     for (const column of recordingColumns) {
@@ -773,6 +791,21 @@ async function runMigration() {
     `);
     console.log('   ✅ Created sip_events table');
 
+    // Callback claims are unique per call and key (see the index below): drop duplicates from before it existed
+    try {
+      await client.query(`
+        DELETE FROM sip_events a
+        USING sip_events b
+        WHERE a.event_type = 'callback_claimed'
+          AND b.event_type = 'callback_claimed'
+          AND a.call_id = b.call_id
+          AND a.event_data->>'key' = b.event_data->>'key'
+          AND a.id > b.id
+      `);
+    } catch (error: any) {
+      console.log(`   ⏭️  ${error.message}`);
+    }
+
     // Text conversations table
     await client.query(`
       CREATE TABLE IF NOT EXISTS text_conversations (
@@ -1079,6 +1112,400 @@ async function runMigration() {
     `);
     console.log('   ✅ Created webhook_deliveries table');
 
+    // Business-hours schedules
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schedules (
+        id SERIAL PRIMARY KEY,
+        company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        timezone VARCHAR(50),
+        weekly_hours JSONB DEFAULT '{}'::jsonb,
+        holidays JSONB DEFAULT '[]'::jsonb,
+        closures JSONB DEFAULT '[]'::jsonb,
+        created_by INTEGER REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    console.log('   ✅ Created schedules table');
+
+    // Ring groups
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ring_groups (
+        id SERIAL PRIMARY KEY,
+        company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        strategy VARCHAR(20) DEFAULT 'simultaneous',
+        ring_timeout_seconds INTEGER DEFAULT 20,
+        fallback_destination JSONB,
+        is_active BOOLEAN DEFAULT true,
+        created_by INTEGER REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    console.log('   ✅ Created ring_groups table');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ring_group_members (
+        id SERIAL PRIMARY KEY,
+        ring_group_id INTEGER NOT NULL REFERENCES ring_groups(id) ON DELETE CASCADE,
+        user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+        phone_number VARCHAR(20),
+        position INTEGER DEFAULT 0,
+        is_active BOOLEAN DEFAULT true,
+        last_call_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        CHECK (user_id IS NOT NULL OR phone_number IS NOT NULL)
+      )
+    `);
+    console.log('   ✅ Created ring_group_members table');
+
+    // Call queues
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS call_queues (
+        id SERIAL PRIMARY KEY,
+        company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        hold_music_url TEXT,
+        announce_position BOOLEAN DEFAULT true,
+        announce_wait_time BOOLEAN DEFAULT true,
+        announcement_interval_seconds INTEGER DEFAULT 60,
+        max_wait_seconds INTEGER DEFAULT 600,
+        max_size INTEGER DEFAULT 50,
+        overflow_destination JSONB,
+        voicemail_digit VARCHAR(1),
+        service_level_seconds INTEGER DEFAULT 20,
+        agent_ids JSONB DEFAULT '[]',
+        twilio_queue_sid VARCHAR(50),
+        is_active BOOLEAN DEFAULT true,
+        created_by INTEGER REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    console.log('   ✅ Created call_queues table');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS queue_entries (
+        id SERIAL PRIMARY KEY,
+        queue_id INTEGER NOT NULL REFERENCES call_queues(id) ON DELETE CASCADE,
+        company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+        call_id INTEGER NOT NULL REFERENCES calls(id) ON DELETE CASCADE,
+        status VARCHAR(20) DEFAULT 'waiting',
+        agent_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        enqueued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        answered_at TIMESTAMP,
+        left_at TIMESTAMP,
+        wait_seconds INTEGER,
+        last_announced_at TIMESTAMP,
+        skipped_agent_ids JSONB DEFAULT '[]',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    console.log('   ✅ Created queue_entries table');
+
+    // Caller blocklist / allowlist
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS caller_list_entries (
+        id SERIAL PRIMARY KEY,
+        company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+        list_type VARCHAR(10) NOT NULL CHECK (list_type IN ('block', 'allow')),
+        pattern VARCHAR(32) NOT NULL,
+        pattern_type VARCHAR(10) NOT NULL,
+        reason VARCHAR(255),
+        expires_at TIMESTAMP,
+        hit_count INTEGER DEFAULT 0,
+        last_hit_at TIMESTAMP,
+        created_by INTEGER REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(company_id, list_type, pattern)
+      )
+    `);
+    console.log('   ✅ Created caller_list_entries table');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS call_flow_versions (
+        id SERIAL PRIMARY KEY,
+        company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+        tracking_number_id INTEGER NOT NULL REFERENCES tracking_numbers(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'archived')),
+        call_flow JSONB NOT NULL,
+        notes VARCHAR(500),
+        restored_from INTEGER,
+        published_at TIMESTAMP,
+        published_by INTEGER REFERENCES users(id),
+        created_by INTEGER REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(tracking_number_id, version)
+      )
+    `);
+    console.log('   ✅ Created call_flow_versions table');
+
+    // Outbound dialer campaigns
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS dialer_campaigns (
+        id SERIAL PRIMARY KEY,
+        company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        tracking_number_id INTEGER NOT NULL REFERENCES tracking_numbers(id) ON DELETE CASCADE,
+        status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'active', 'paused', 'completed')),
+        agent_ids JSONB DEFAULT '[]',
+        calling_window JSONB DEFAULT '{"start": "09:00", "end": "20:00"}',
+        timezone VARCHAR(50),
+        max_attempts INTEGER DEFAULT 3,
+        retry_delay_minutes INTEGER DEFAULT 60,
+        retry_results JSONB DEFAULT '["no_answer", "busy"]',
+        ring_timeout_seconds INTEGER DEFAULT 30,
+        dispositions JSONB DEFAULT '["interested", "not_interested", "callback", "wrong_number", "do_not_call"]',
+        started_at TIMESTAMP,
+        completed_at TIMESTAMP,
+        created_by INTEGER REFERENCES users(id),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    console.log('   ✅ Created dialer_campaigns table');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS dialer_contacts (
+        id SERIAL PRIMARY KEY,
+        campaign_id INTEGER NOT NULL REFERENCES dialer_campaigns(id) ON DELETE CASCADE,
+        company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+        customer_profile_id INTEGER REFERENCES customer_profiles(id) ON DELETE SET NULL,
+        phone_number VARCHAR(20) NOT NULL,
+        name VARCHAR(255),
+        timezone VARCHAR(50),
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        attempts INTEGER DEFAULT 0,
+        next_attempt_at TIMESTAMP,
+        last_attempt_at TIMESTAMP,
+        last_result VARCHAR(20),
+        agent_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        call_id INTEGER REFERENCES calls(id) ON DELETE SET NULL,
+        disposition VARCHAR(50),
+        disposition_notes TEXT,
+        disposed_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(campaign_id, phone_number)
+      )
+    `);
+    console.log('   ✅ Created dialer_contacts table');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS voicemails (
+        id SERIAL PRIMARY KEY,
+        company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+        call_id INTEGER NOT NULL UNIQUE REFERENCES calls(id) ON DELETE CASCADE,
+        tracking_number_id INTEGER REFERENCES tracking_numbers(id) ON DELETE SET NULL,
+        caller_number VARCHAR(20),
+        caller_name VARCHAR(255),
+        recording_sid VARCHAR(100),
+        duration INTEGER,
+        file_url VARCHAR(500),
+        storage_key VARCHAR(500),
+        storage_provider VARCHAR(50) DEFAULT 'remote',
+        transcription_status VARCHAR(20),
+        transcription TEXT,
+        is_read BOOLEAN DEFAULT false,
+        read_at TIMESTAMP,
+        read_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        assigned_to INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        assigned_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    console.log('   ✅ Created voicemails table');
+
+    // Audit log of recordings archived or deleted by retention policies (no FK on recording_id: entries outlive recordings)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS recording_purge_logs (
+        id SERIAL PRIMARY KEY,
+        company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+        call_id INTEGER REFERENCES calls(id) ON DELETE SET NULL,
+        recording_id INTEGER NOT NULL,
+        recording_sid VARCHAR(100),
+        action VARCHAR(20) NOT NULL,
+        storage_key VARCHAR(500),
+        archive_key VARCHAR(500),
+        storage_provider VARCHAR(50),
+        policy_source VARCHAR(20) NOT NULL,
+        policy_days INTEGER NOT NULL,
+        recorded_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    console.log('   ✅ Created recording_purge_logs table');
+
+    // Per-company recording data keys, stored wrapped by the master key
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS recording_data_keys (
+        id SERIAL PRIMARY KEY,
+        company_id INTEGER NOT NULL UNIQUE REFERENCES companies(id) ON DELETE CASCADE,
+        wrapped_key TEXT NOT NULL,
+        master_key_id VARCHAR(50) NOT NULL,
+        rotated_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    console.log('   ✅ Created recording_data_keys table');
+
+    const scheduleColumns = [
+      { name: 'tracking_numbers.schedule_id', sql: 'ALTER TABLE tracking_numbers ADD COLUMN IF NOT EXISTS schedule_id INTEGER REFERENCES schedules(id) ON DELETE SET NULL' },
+      { name: 'companies.schedule_id', sql: 'ALTER TABLE companies ADD COLUMN IF NOT EXISTS schedule_id INTEGER REFERENCES schedules(id) ON DELETE SET NULL' }
+    ];
+
+    for (const column of scheduleColumns) {
+      try {
+        await client.query(column.sql);
+        console.log(`   ✅ Added schedule column: ${column.name}`);
+      } catch (error: any) {
+        console.log(`   ⏭️  Column ${column.name} already exists or error: ${error.message}`);
+      }
+    }
+
+    const consentColumns = [
+      { name: 'calls.recording_consent', sql: 'ALTER TABLE calls ADD COLUMN IF NOT EXISTS recording_consent VARCHAR(30)' }
+    ];
+
+    for (const column of consentColumns) {
+      try {
+        await client.query(column.sql);
+        console.log(`   ✅ Added recording column: ${column.name}`);
+      } catch (error: any) {
+        console.log(`   ⏭️  Column ${column.name} already exists or error: ${error.message}`);
+      }
+    }
+
+    const routingColumns = [
+      { name: 'calls.routing_rule', sql: 'ALTER TABLE calls ADD COLUMN IF NOT EXISTS routing_rule VARCHAR(64)' }
+    ];
+
+    for (const column of routingColumns) {
+      try {
+        await client.query(column.sql);
+        console.log(`   ✅ Added routing column: ${column.name}`);
+      } catch (error: any) {
+        console.log(`   ⏭️  Column ${column.name} already exists or error: ${error.message}`);
+      }
+    }
+
+    const textBackColumns = [
+      { name: 'text_messages.call_id', sql: 'ALTER TABLE text_messages ADD COLUMN IF NOT EXISTS call_id INTEGER REFERENCES calls(id) ON DELETE SET NULL' },
+      { name: 'text_messages.scheduled_at', sql: 'ALTER TABLE text_messages ADD COLUMN IF NOT EXISTS scheduled_at TIMESTAMP' }
+    ];
+
+    for (const column of textBackColumns) {
+      try {
+        await client.query(column.sql);
+        console.log(`   ✅ Added text message column: ${column.name}`);
+      } catch (error: any) {
+        console.log(`   ⏭️  Column ${column.name} already exists or error: ${error.message}`);
+      }
+    }
+
+    const callFlowVersionColumns = [
+      { name: 'tracking_numbers.call_flow_version', sql: 'ALTER TABLE tracking_numbers ADD COLUMN IF NOT EXISTS call_flow_version INTEGER' },
+      { name: 'calls.call_flow_version', sql: 'ALTER TABLE calls ADD COLUMN IF NOT EXISTS call_flow_version INTEGER' }
+    ];
+
+    for (const column of callFlowVersionColumns) {
+      try {
+        await client.query(column.sql);
+        console.log(`   ✅ Added call flow version column: ${column.name}`);
+      } catch (error: any) {
+        console.log(`   ⏭️  Column ${column.name} already exists or error: ${error.message}`);
+      }
+    }
+
+    // Existing call flows become published version 1
+    const backfilledFlows = await client.query(`
+      INSERT INTO call_flow_versions (company_id, tracking_number_id, version, status, call_flow, notes, published_at)
+      SELECT company_id, id, 1, 'published', COALESCE(call_flow, '{}'::jsonb), 'Initial call flow', CURRENT_TIMESTAMP
+      FROM tracking_numbers tn
+      WHERE NOT EXISTS (SELECT 1 FROM call_flow_versions v WHERE v.tracking_number_id = tn.id)
+    `);
+    await client.query(`
+      UPDATE tracking_numbers SET call_flow_version = 1
+      WHERE call_flow_version IS NULL
+        AND EXISTS (SELECT 1 FROM call_flow_versions v WHERE v.tracking_number_id = tracking_numbers.id AND v.version = 1)
+    `);
+    console.log(`   ✅ Backfilled ${backfilledFlows.rowCount} call flow versions`);
+
+    const callerIdColumns = [
+      { name: 'user_companies.outbound_tracking_number_id', sql: 'ALTER TABLE user_companies ADD COLUMN IF NOT EXISTS outbound_tracking_number_id INTEGER REFERENCES tracking_numbers(id) ON DELETE SET NULL' },
+      { name: 'calls.caller_id_reason', sql: 'ALTER TABLE calls ADD COLUMN IF NOT EXISTS caller_id_reason VARCHAR(20)' },
+      { name: 'text_messages.caller_id_reason', sql: 'ALTER TABLE text_messages ADD COLUMN IF NOT EXISTS caller_id_reason VARCHAR(20)' }
+    ];
+
+    for (const column of callerIdColumns) {
+      try {
+        await client.query(column.sql);
+        console.log(`   ✅ Added caller ID column: ${column.name}`);
+      } catch (error: any) {
+        console.log(`   ⏭️  Column ${column.name} already exists or error: ${error.message}`);
+      }
+    }
+
+    const surveyColumns = [
+      { name: 'calls.survey_status', sql: 'ALTER TABLE calls ADD COLUMN IF NOT EXISTS survey_status VARCHAR(20)' },
+      { name: 'calls.survey_answers', sql: 'ALTER TABLE calls ADD COLUMN IF NOT EXISTS survey_answers JSONB' },
+      { name: 'calls.csat_score', sql: 'ALTER TABLE calls ADD COLUMN IF NOT EXISTS csat_score INTEGER' }
+    ];
+
+    for (const column of surveyColumns) {
+      try {
+        await client.query(column.sql);
+        console.log(`   ✅ Added survey column: ${column.name}`);
+      } catch (error: any) {
+        console.log(`   ⏭️  Column ${column.name} already exists or error: ${error.message}`);
+      }
+    }
+
+    // Speaker-labelled transcript segments
+    const transcriptColumns = [
+      { name: 'calls.transcript_segments', sql: 'ALTER TABLE calls ADD COLUMN IF NOT EXISTS transcript_segments JSONB' }
+    ];
+
+    for (const column of transcriptColumns) {
+      try {
+        await client.query(column.sql);
+        console.log(`   ✅ Added transcript column: ${column.name}`);
+      } catch (error: any) {
+        console.log(`   ⏭️  Column ${column.name} already exists or error: ${error.message}`);
+      }
+    }
+
+    // Recording retention policies and legal holds
+    const retentionColumns = [
+      { name: 'tracking_numbers.recording_retention', sql: 'ALTER TABLE tracking_numbers ADD COLUMN IF NOT EXISTS recording_retention JSONB' },
+      { name: 'calls.legal_hold', sql: 'ALTER TABLE calls ADD COLUMN IF NOT EXISTS legal_hold BOOLEAN DEFAULT false' },
+      { name: 'calls.legal_hold_reason', sql: 'ALTER TABLE calls ADD COLUMN IF NOT EXISTS legal_hold_reason TEXT' },
+      { name: 'calls.legal_hold_by', sql: 'ALTER TABLE calls ADD COLUMN IF NOT EXISTS legal_hold_by INTEGER REFERENCES users(id) ON DELETE SET NULL' },
+      { name: 'calls.legal_hold_at', sql: 'ALTER TABLE calls ADD COLUMN IF NOT EXISTS legal_hold_at TIMESTAMP' }
+    ];
+
+    for (const column of retentionColumns) {
+      try {
+        await client.query(column.sql);
+        console.log(`   ✅ Added retention column: ${column.name}`);
+      } catch (error: any) {
+        console.log(`   ⏭️  Column ${column.name} already exists or error: ${error.message}`);
+      }
+    }
+
     // Create DNI-specific function to get available pool numbers
     await client.query(`
       CREATE OR REPLACE FUNCTION get_available_pool_numbers(
@@ -1177,7 +1604,10 @@ async function runMigration() {
       'companies', 'users', 'tags', 'tracking_numbers', 'calls',
       'call_recordings', 'text_conversations', 'customer_profiles',
       'visitors', 'page_views', 'form_submissions', 'webhooks',
-      'webhook_deliveries', 'visitor_number_history', 'call_tags', 'agent_sessions'
+      'webhook_deliveries', 'visitor_number_history', 'call_tags', 'agent_sessions',
+      'schedules', 'ring_groups', 'ring_group_members', 'call_queues', 'queue_entries',
+      'caller_list_entries', 'call_flow_versions', 'dialer_campaigns', 'dialer_contacts', 'voicemails',
+      'recording_data_keys'
     ];
 
     for (const table of tablesWithUpdatedAt) {
@@ -1281,9 +1711,36 @@ async function runMigration() {
       'CREATE INDEX IF NOT EXISTS idx_visitors_company ON visitors(company_id)',
       'CREATE INDEX IF NOT EXISTS idx_page_views_visitor ON page_views(visitor_id)',
       'CREATE INDEX IF NOT EXISTS idx_tags_company_deleted ON tags(company_id, is_deleted)',
+      'CREATE INDEX IF NOT EXISTS idx_schedules_company ON schedules(company_id)',
+      'CREATE INDEX IF NOT EXISTS idx_ring_groups_company ON ring_groups(company_id)',
+      'CREATE INDEX IF NOT EXISTS idx_ring_group_members_group ON ring_group_members(ring_group_id, position)',
+      'CREATE INDEX IF NOT EXISTS idx_tracking_numbers_schedule ON tracking_numbers(schedule_id) WHERE schedule_id IS NOT NULL',
+      'CREATE INDEX IF NOT EXISTS idx_call_queues_company ON call_queues(company_id)',
+      'CREATE INDEX IF NOT EXISTS idx_queue_entries_queue_status ON queue_entries(queue_id, status, enqueued_at)',
+      'CREATE INDEX IF NOT EXISTS idx_queue_entries_call ON queue_entries(call_id)',
+      'CREATE INDEX IF NOT EXISTS idx_caller_list_entries_company ON caller_list_entries(company_id, list_type)',
+      'CREATE INDEX IF NOT EXISTS idx_calls_company_caller_start ON calls(company_id, caller_number, start_time)',
+      "CREATE INDEX IF NOT EXISTS idx_text_messages_scheduled ON text_messages(scheduled_at) WHERE status = 'queued'",
+      'CREATE INDEX IF NOT EXISTS idx_calls_company_routing_rule ON calls(company_id, routing_rule) WHERE routing_rule IS NOT NULL',
+      "CREATE UNIQUE INDEX IF NOT EXISTS idx_sip_events_callback_claim ON sip_events(call_id, (event_data->>'key')) WHERE event_type = 'callback_claimed'",
+      'CREATE INDEX IF NOT EXISTS idx_calls_tracking_flow_version ON calls(tracking_number_id, call_flow_version)',
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_call_flow_versions_published ON call_flow_versions(tracking_number_id) WHERE status = \'published\'',
+      'CREATE INDEX IF NOT EXISTS idx_dialer_campaigns_company_status ON dialer_campaigns(company_id, status)',
+      'CREATE INDEX IF NOT EXISTS idx_dialer_contacts_campaign_status ON dialer_contacts(campaign_id, status, next_attempt_at)',
+      "CREATE INDEX IF NOT EXISTS idx_dialer_contacts_agent_open ON dialer_contacts(company_id, agent_id) WHERE status IN ('dialing', 'connected', 'wrap_up')",
+      'CREATE INDEX IF NOT EXISTS idx_calls_company_destination_start ON calls(company_id, destination_number, start_time)',
+      'CREATE INDEX IF NOT EXISTS idx_voicemails_company_created ON voicemails(company_id, created_at)',
+      'CREATE INDEX IF NOT EXISTS idx_voicemails_company_unread ON voicemails(company_id) WHERE is_read = false',
+      'CREATE INDEX IF NOT EXISTS idx_voicemails_assigned_to ON voicemails(assigned_to)',
+      'CREATE INDEX IF NOT EXISTS idx_calls_survey_status ON calls(company_id, survey_status) WHERE survey_status IS NOT NULL',
+      'CREATE INDEX IF NOT EXISTS idx_calls_agent_csat ON calls(agent_id, start_time) WHERE csat_score IS NOT NULL',
+      'CREATE INDEX IF NOT EXISTS idx_call_recordings_status_created ON call_recordings(status, created_at)',
+      'CREATE INDEX IF NOT EXISTS idx_recording_purge_logs_company_created ON recording_purge_logs(company_id, created_at)',
+      'CREATE INDEX IF NOT EXISTS idx_recording_purge_logs_call ON recording_purge_logs(call_id)',
 
       // GIN indexes for JSONB columns
       'CREATE INDEX IF NOT EXISTS idx_calls_custom_fields_gin ON calls USING gin(custom_fields)',
+      'CREATE INDEX IF NOT EXISTS idx_calls_survey_answers_gin ON calls USING gin(survey_answers)',
       'CREATE INDEX IF NOT EXISTS idx_calls_metadata_gin ON calls USING gin(metadata)',
       'CREATE INDEX IF NOT EXISTS idx_form_submissions_fields_gin ON form_submissions USING gin(fields)',
       'CREATE INDEX IF NOT EXISTS idx_webhooks_events_gin ON webhooks USING gin(events)'
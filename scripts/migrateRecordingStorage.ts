@@ -0,0 +1,76 @@
+// backend/scripts/migrateRecordingStorage.ts - Move call recordings to another storage driver
+//
+// Usage: npm run recordings:migrate-storage -- --to s3 [--from digitalocean] [--company 5] [--limit 1000] [--delete-source]
+//
+// Files are copied as stored (encrypted recordings stay encrypted). Without --delete-source the
+// old copies are kept, so the run can be repeated or rolled back by migrating back.
+
+import '../src/config/env';
+import { Op, WhereOptions } from 'sequelize';
+import { sequelize, CallRecording } from '../src/models';
+import RecordingService from '../src/services/RecordingService';
+import StorageService, { STORAGE_DRIVERS } from '../src/services/StorageService';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index > -1 ? process.argv[index + 1] : undefined;
+}
+
+async function migrateRecordingStorage() {
+  try {
+    const to = getArg('to');
+    const from = getArg('from');
+    const companyId = getArg('company');
+    const limit = getArg('limit');
+    const deleteSource = process.argv.includes('--delete-source');
+
+    if (!StorageService.isDriver(to) || (from && !StorageService.isDriver(from))) {
+      console.error(`❌ --to (and --from) must be one of: ${STORAGE_DRIVERS.join(', ')}`);
+      process.exit(1);
+    }
+
+    console.log(`🚚 Moving recordings to ${to}${from ? ` from ${from}` : ''}...\n`);
+
+    await sequelize.authenticate();
+    console.log('✅ Database connected');
+
+    const target = StorageService.getDriver(to);
+    if (!(await target.checkConnection())) {
+      process.exit(1);
+    }
+
+    const recordings = await CallRecording.findAll({
+      where: {
+        storage_provider: from || { [Op.in]: STORAGE_DRIVERS.filter(name => name !== to) },
+        storage_key: { [Op.ne]: null },
+        status: 'completed',
+        ...(companyId && { company_id: parseInt(companyId) })
+      } as WhereOptions<CallRecording>,
+      order: [['id', 'ASC']],
+      ...(limit && { limit: parseInt(limit) })
+    });
+
+    let moved = 0;
+    let failed = 0;
+
+    for (const recording of recordings) {
+      const source = recording.storage_provider;
+      try {
+        await RecordingService.moveToStorage(recording, to, deleteSource);
+        moved++;
+        console.log(`   ✅ Recording ${recording.id}: ${source} → ${to}`);
+      } catch (error: any) {
+        failed++;
+        console.error(`   ❌ Recording ${recording.id}: ${error.message}`);
+      }
+    }
+
+    console.log(`\n✅ Moved ${moved} of ${recordings.length} recordings`);
+    process.exit(failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('❌ Error migrating recording storage:', error);
+    process.exit(1);
+  }
+}
+
+migrateRecordingStorage();
@@ -0,0 +1,33 @@
+// backend/scripts/rotateRecordingKeys.ts - Re-wrap recording data keys with the current master key
+//
+// To rotate the master key: set the new key in RECORDING_ENCRYPTION_KEY / RECORDING_ENCRYPTION_KEY_ID,
+// move the old one to RECORDING_ENCRYPTION_PREVIOUS_KEYS ("id:base64key"), run this script, then drop
+// the old key once every data key is re-wrapped. Recording files are not touched.
+
+import '../src/config/env';
+import { sequelize } from '../src/models';
+import RecordingEncryptionService from '../src/services/RecordingEncryptionService';
+
+async function rotateRecordingKeys() {
+  try {
+    console.log('🔑 Re-wrapping recording data keys...\n');
+
+    await sequelize.authenticate();
+    console.log('✅ Database connected');
+
+    const { rewrapped, failed } = await RecordingEncryptionService.rewrapDataKeys();
+
+    console.log(`\n✅ Re-wrapped ${rewrapped} data keys`);
+    if (failed > 0) {
+      console.error(`❌ ${failed} data keys could not be re-wrapped: check that their master key is in RECORDING_ENCRYPTION_PREVIOUS_KEYS`);
+      process.exit(1);
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error rotating recording keys:', error);
+    process.exit(1);
+  }
+}
+
+rotateRecordingKeys();
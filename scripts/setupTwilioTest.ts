@@ -7,7 +7,7 @@ validateEnv(['TWILIO_ACCOUNT_SID', 'TWILIO_AUTH_TOKEN', 'DB_HOST', 'DB_USER', 'D
 
 import { sequelize } from '../src/models';
 import { TrackingNumber, Company } from '../src/models';
-import TwilioService from '../src/services/TwilioService';
+import { getTwilioService } from '../src/services/TwilioService';
 
 interface SetupResult {
   trackingNumber: string;
@@ -42,7 +42,7 @@ async function setupTestNumber(): Promise<SetupResult> {
       console.log(`Checking area code ${areaCode}...`);
       
       try {
-        const numbers = await TwilioService.searchAvailableNumbers(areaCode);
+        const numbers = await getTwilioService().searchAvailableNumbers(areaCode);
         
         if (numbers.length > 0) {
           availableNumber = numbers[0];
@@ -67,7 +67,7 @@ async function setupTestNumber(): Promise<SetupResult> {
 
     // Provision the number
     console.log('\n💳 Purchasing number from Twilio...');
-    const provisioned = await TwilioService.provisionNumber(
+    const provisioned = await getTwilioService().provisionNumber(
       availableNumber.phoneNumber,
       `Test Tracking - ${selectedAreaCode}`
     );
@@ -106,7 +106,7 @@ async function setupTestNumber(): Promise<SetupResult> {
     console.log('\n🔧 Configuring Twilio webhooks...');
     const baseUrl = process.env.BASE_URL || 'http://localhost:3001';
     
-    await TwilioService.updateNumberConfiguration(provisioned.phoneNumber, {
+    await getTwilioService().updateNumberConfiguration(provisioned.phoneNumber, {
       voiceUrl: `${baseUrl}/api/sip/incoming`,
       smsUrl: `${baseUrl}/api/texts/webhook/receive`,
       friendlyName: provisioned.friendlyName
@@ -3,7 +3,6 @@ import express, { Express, Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import http from 'http';
-import path from 'path';
 import dotenv from 'dotenv';
 import { QueryTypes } from 'sequelize';
 
@@ -24,10 +23,16 @@ import { rateLimiter } from './middleware/rateLimiter';
 
 // Import routes
 import routes from './routes';
+import storageRoutes from './routes/storage';
 
 // Import socket manager
 import SocketManager from './socket/SocketManager';
+import DialerService from './services/DialerService';
+import VoicemailService from './services/VoicemailService';
 import { DniCleanupJob } from './jobs/dniCleanup';
+import { TextBackJob } from './jobs/textBack';
+import { DialerJob } from './jobs/dialer';
+import { RecordingRetentionJob } from './jobs/recordingRetention';
 
 process.env.TZ = 'America/New_York';
 
@@ -47,6 +52,8 @@ const server = http.createServer(app);
 
 // Initialize Socket.io
 const socketManager = new SocketManager(server);
+DialerService.setSocketManager(socketManager);
+VoicemailService.setSocketManager(socketManager);
 
 // CORS Configuration - MUST be before other middleware
 const corsOptions = {
@@ -177,8 +184,8 @@ app.use((req: Request, _res: Response, next: NextFunction) => {
   next();
 });
 
-// Static files
-app.use('/storage', express.static(path.join(__dirname, '../storage')));
+// Files of the local storage driver (signed links only)
+app.use('/storage', storageRoutes);
 
 // API Routes
 app.use('/api', routes);
@@ -260,6 +267,9 @@ async function startServer() {
       console.log(`🌐 CORS: Firebase and ngrok origins enabled`);
 
       DniCleanupJob.start();
+      TextBackJob.start();
+      DialerJob.start();
+      RecordingRetentionJob.start();
     });
   } catch (error) {
     console.error('❌ Failed to start server:', error);
@@ -273,6 +283,9 @@ startServer();
 process.on('SIGTERM', () => {
   console.log('SIGTERM signal received: closing HTTP server');
   DniCleanupJob.stop();
+  TextBackJob.stop();
+  DialerJob.stop();
+  RecordingRetentionJob.stop();
   server.close(() => {
     console.log('HTTP server closed');
   });
@@ -281,6 +294,9 @@ process.on('SIGTERM', () => {
 process.on('SIGINT', () => {
   console.log('SIGINT signal received: closing HTTP server');
   DniCleanupJob.stop();
+  TextBackJob.stop();
+  DialerJob.stop();
+  RecordingRetentionJob.stop();
   server.close(() => {
     console.log('HTTP server closed');
   });
@@ -1,13 +1,30 @@
+import path from 'path';
+
 export const storageConfig = {
-  provider: process.env.STORAGE_PROVIDER || 'spaces',
+  // Driver for new files: local, s3 or digitalocean ("spaces" is accepted for digitalocean)
+  provider: process.env.STORAGE_PROVIDER || 'digitalocean',
   spaces: {
     key: process.env.DO_SPACES_KEY!,
     secret: process.env.DO_SPACES_SECRET!,
-    endpoint: process.env.DO_SPACES_ENDPOINT!,
-    bucket: process.env.DO_SPACES_BUCKET!,
-    region: process.env.DO_SPACES_REGION!,
+    endpoint: process.env.DO_SPACES_ENDPOINT || 'https://nyc3.digitaloceanspaces.com',
+    bucket: process.env.DO_SPACES_BUCKET || 'crc-bucket',
+    region: process.env.DO_SPACES_REGION || 'nyc3',
     cdnEndpoint: process.env.DO_SPACES_CDN_ENDPOINT!
   },
+  // Any S3-compatible service: AWS S3 (leave the endpoint empty), MinIO, ...
+  s3: {
+    key: process.env.S3_ACCESS_KEY_ID!,
+    secret: process.env.S3_SECRET_ACCESS_KEY!,
+    endpoint: process.env.S3_ENDPOINT,
+    bucket: process.env.S3_BUCKET!,
+    region: process.env.S3_REGION || 'us-east-1',
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true' // MinIO needs path-style URLs
+  },
+  local: {
+    root: path.resolve(process.env.STORAGE_PATH || path.join(__dirname, '../../storage')),
+    // Signs the /storage links handed out for local files
+    signingSecret: process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || 'your-secret-key-change-in-production'
+  },
   paths: {
     calls: 'calls',
     transcripts: 'transcripts',
@@ -20,4 +37,4 @@ export const storageConfig = {
     analytics: parseInt(process.env.ANALYTICS_RETENTION_DAYS || '730'),
     exports: parseInt(process.env.EXPORT_RETENTION_DAYS || '30')
   }
-};
\ No newline at end of file
+};
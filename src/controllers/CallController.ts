@@ -2,11 +2,16 @@ import { CallDisposition } from '../types/enums';
 import { Response } from 'express';
 import { Op, QueryTypes, Sequelize } from 'sequelize';
 import { AuthRequest } from '../middleware/auth';
-import { Call, Tag, CallTag, CallRecording, TrackingNumber, Company, sequelize, Visitor } from '../models';
-import { CallStatus } from '../types/enums';
+import { Call, Tag, CallTag, CallRecording, TrackingNumber, Company, sequelize, Visitor, SipEvent } from '../models';
+import { CallStatus, CallDirection } from '../types/enums';
 import WebhookService from '../services/WebhookService';
 import SipService from '../services/SipService';
+import SpamService from '../services/SpamService';
+import CallControlService, { TransferTarget } from '../services/CallControlService';
+import SupervisionService, { SupervisionMode } from '../services/SupervisionService';
+import RecordingRetentionService from '../services/RecordingRetentionService';
 import { StorageService } from '../services/StorageService';
+import { sendRecordingAudio } from '../utils/recordingAudio';
 
 import { format, parseISO, startOfDay, endOfDay } from 'date-fns';
 import { toZonedTime } from 'date-fns-tz';
@@ -44,6 +49,12 @@ class CallController {
         date_to,
         tags,
         tracking_number_id,
+        routing_rule,
+        call_flow_version,
+        survey_status,
+        csat_min,
+        csat_max,
+        survey_answer,
         page = 1,
         limit = 50,
         sort_by = 'start_time',
@@ -61,6 +72,22 @@ class CallController {
       // Apply filters
       if (status) where.status = status;
       if (tracking_number_id) where.tracking_number_id = tracking_number_id;
+      if (routing_rule) where.routing_rule = routing_rule;
+      if (call_flow_version) where.call_flow_version = parseInt(call_flow_version as string);
+
+      // Post-call survey: status, rating range and answers (survey_answer[question_id]=value)
+      if (survey_status) where.survey_status = survey_status;
+      if (csat_min || csat_max) {
+        where.csat_score = {};
+        if (csat_min) where.csat_score[Op.gte] = parseInt(csat_min as string);
+        if (csat_max) where.csat_score[Op.lte] = parseInt(csat_max as string);
+      }
+      if (survey_answer && typeof survey_answer === 'object' && !Array.isArray(survey_answer)) {
+        const answers = Object.fromEntries(Object.entries(survey_answer).map(([questionId, value]) =>
+          [questionId, /^\d+$/.test(String(value)) ? parseInt(String(value)) : String(value)]
+        ));
+        where.survey_answers = { [Op.contains]: answers };
+      }
 
       // Handle date filters
       if (date_from || date_to) {
@@ -232,16 +259,21 @@ class CallController {
 
       // Generate appropriate URL based on download flag
       let signedUrl: string;
-      if (download === 'true') {
+      if (recording.encrypted) {
+        // Encrypted at rest: only the API can decrypt it
+        signedUrl = `${process.env.BASE_URL}/api/recordings/${recording.id}/${download === 'true' ? 'download' : 'play'}`;
+      } else if (download === 'true') {
         const filename = `call-${call.call_sid}-recording.mp3`;
         signedUrl = await this.storageService.getDownloadUrl(
           recording.storage_key,
-          filename
+          filename,
+          recording.storage_provider
         );
       } else {
         signedUrl = await this.storageService.getSignedUrl(
           recording.storage_key,
-          3600 // 1 hour expiration
+          3600, // 1 hour expiration
+          recording.storage_provider
         );
       }
 
@@ -259,7 +291,7 @@ class CallController {
   }
 
   /**
-   * Stream recording (alternative approach)
+   * Stream recording through the API, with Range support for seeking
    */
   async streamRecording(req: AuthRequest, res: Response): Promise<void> {
     try {
@@ -269,19 +301,26 @@ class CallController {
         where: {
           id: parseInt(id),
           company_id: req.user!.company_id
-        }
+        },
+        include: [
+          {
+            model: CallRecording,
+            as: 'recording'
+          }
+        ]
       });
 
-      if (!call || !call.recording_key) {
+      const recording = call?.recording;
+      if (!call || !recording || (!recording.storage_key && !recording.file_url)) {
         res.status(404).json({ error: 'Recording not found' });
         return;
       }
 
-      // Get a signed URL for streaming
-      const signedUrl = await this.storageService.getSignedUrl(call.recording_key, 300);
-
-      // Redirect to the signed URL
-      res.redirect(signedUrl);
+      await sendRecordingAudio(req, res, recording, {
+        filename: `call-${call.call_sid}-recording.${recording.format}`,
+        disposition: 'inline',
+        preview: req.query.preview === 'true'
+      });
     } catch (error) {
       console.error('Error streaming recording:', error);
       res.status(500).json({ error: 'Failed to stream recording' });
@@ -401,6 +440,93 @@ class CallController {
     }
   }
 
+  /**
+   * Block the other party of a call from calling the company again
+   */
+  async blockCaller(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { reason, pattern } = req.body;
+
+      const call = await Call.findOne({
+        where: {
+          id: parseInt(id),
+          company_id: req.user!.company_id
+        }
+      });
+
+      if (!call) {
+        res.status(404).json({ error: 'Call not found' });
+        return;
+      }
+
+      // Defaults to the exact number; a pattern such as "+1416XXXXXXX" blocks more widely
+      const number = call.direction === CallDirection.OUTBOUND ? call.destination_number : call.caller_number;
+      const target = pattern || number;
+
+      const errors = SpamService.validatePattern(target);
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid pattern', details: errors });
+        return;
+      }
+
+      const entry = await SpamService.blockCaller(
+        req.user!.company_id,
+        target,
+        req.user!.id,
+        reason || `Blocked from call ${call.id}`
+      );
+
+      await call.update({ is_spam: true });
+      await SipService.recordCallEvent(call, 'caller_blocked', {
+        user_id: req.user!.id,
+        pattern: entry.pattern,
+        list_entry_id: entry.id
+      });
+
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error('Error blocking caller:', error);
+      res.status(500).json({ error: 'Failed to block caller' });
+    }
+  }
+
+  /**
+   * Timeline of SIP/IVR events recorded for a call
+   */
+  async getCallEvents(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const call = await Call.findOne({
+        where: {
+          id: parseInt(id),
+          company_id: req.user!.company_id
+        },
+        attributes: ['id', 'call_sid', 'metadata']
+      });
+
+      if (!call) {
+        res.status(404).json({ error: 'Call not found' });
+        return;
+      }
+
+      const events = await SipEvent.findAll({
+        where: { call_id: call.id },
+        order: [['event_timestamp', 'ASC']]
+      });
+
+      res.json({
+        call_id: call.id,
+        ivr_path: call.metadata?.ivr_path || [],
+        events
+      });
+    } catch (error) {
+      console.error('Error fetching call events:', error);
+      res.status(500).json({ error: 'Failed to fetch call events' });
+    }
+  }
+
   async createCall(req: AuthRequest, res: Response): Promise<void> {
     try {
       const { to, from, caller_id } = req.body;
@@ -476,6 +602,11 @@ class CallController {
         return;
       }
 
+      if (call.legal_hold) {
+        res.status(409).json({ error: 'Call is on legal hold' });
+        return;
+      }
+
       await call.destroy();
       res.json({ message: 'Call deleted successfully' });
     } catch (error) {
@@ -484,6 +615,49 @@ class CallController {
     }
   }
 
+  /**
+   * Place or release a legal hold. Held calls keep their recording whatever the retention policy.
+   */
+  async setLegalHold(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { enabled, reason } = req.body;
+
+      if (typeof enabled !== 'boolean') {
+        res.status(400).json({ error: 'enabled must be true or false' });
+        return;
+      }
+
+      const call = await Call.findOne({
+        where: {
+          id: parseInt(id),
+          company_id: req.user!.company_id
+        }
+      });
+
+      if (!call) {
+        res.status(404).json({ error: 'Call not found' });
+        return;
+      }
+
+      await RecordingRetentionService.setLegalHold(call, enabled, req.user!.id, reason);
+      await SipService.recordCallEvent(call, enabled ? 'legal_hold_placed' : 'legal_hold_released', {
+        user_id: req.user!.id,
+        ...(enabled && reason && { reason })
+      });
+
+      res.json({
+        legal_hold: call.legal_hold,
+        legal_hold_reason: call.legal_hold_reason,
+        legal_hold_by: call.legal_hold_by,
+        legal_hold_at: call.legal_hold_at
+      });
+    } catch (error) {
+      console.error('Error updating legal hold:', error);
+      res.status(500).json({ error: 'Failed to update legal hold' });
+    }
+  }
+
   async addTags(req: AuthRequest, res: Response): Promise<void> {
     try {
       const { id } = req.params;
@@ -738,6 +912,28 @@ class CallController {
         type: QueryTypes.SELECT
       });
 
+      // Geo routing decisions (calls on numbers without geo routing are left out)
+      const callsByRoutingRule = await sequelize.query(`
+      SELECT 
+        routing_rule,
+        COUNT(*)::integer as total,
+        COUNT(CASE WHEN status = 'completed' THEN 1 END)::integer as answered
+      FROM calls
+      WHERE company_id = :companyId
+        AND routing_rule IS NOT NULL
+        ${from_date ? 'AND start_time >= :fromDate' : ''}
+        ${to_date ? 'AND start_time <= :toDate' : ''}
+      GROUP BY routing_rule
+      ORDER BY total DESC
+    `, {
+        replacements: {
+          companyId: req.user!.company_id,
+          ...(from_date && { fromDate: new Date(from_date as string) }),
+          ...(to_date && { toDate: new Date(to_date as string) })
+        },
+        type: QueryTypes.SELECT
+      });
+
       // Get first-time vs repeat callers
       const callerTypes = await sequelize.query(`
       WITH caller_stats AS (
@@ -806,6 +1002,7 @@ class CallController {
         by_tracking_number: callsByNumber,
         day_of_week: dayOfWeekDistribution,
         caller_types: callerTypes,
+        calls_by_routing_rule: callsByRoutingRule,
         date_range: {
           from: from_date || 'all',
           to: to_date || 'all'
@@ -898,51 +1095,210 @@ class CallController {
   async transferCall(req: AuthRequest, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { transfer_to } = req.body;
+      const { transfer_to, mode = 'blind' } = req.body;
+      // transfer_to (plain number) kept for older clients
+      const target: TransferTarget | undefined = req.body.target
+        || (transfer_to ? { type: 'number', number: transfer_to } : undefined);
 
-      // Implementation would interact with SIP service
-      res.json({ message: 'Call transfer initiated' });
-    } catch (error) {
+      if (!target || !['user', 'ring_group', 'number'].includes(target.type)) {
+        res.status(400).json({ error: 'target must be a user, ring_group or number' });
+        return;
+      }
+      if (mode !== 'blind' && mode !== 'warm') {
+        res.status(400).json({ error: 'mode must be blind or warm' });
+        return;
+      }
+
+      const call = await this.findActiveCall(req);
+      if (!call) {
+        res.status(404).json({ error: 'Call not found' });
+        return;
+      }
+
+      await CallControlService.transfer(call, target, mode, req.user!.id);
+
+      this.emitCallControl(req, call, mode === 'blind' ? 'call:transferred' : 'call:transfer:started', {
+        mode,
+        target
+      });
+
+      res.json({
+        message: mode === 'blind' ? 'Call transferred' : 'Transfer target is being dialed',
+        call_id: call.id,
+        transfer: call.metadata?.transfer || null
+      });
+    } catch (error: any) {
       console.error('Error transferring call:', error);
-      res.status(500).json({ error: 'Failed to transfer call' });
+      res.status(error.statusCode || 500).json({ error: error.statusCode ? error.message : 'Failed to transfer call' });
+    }
+  }
+
+  async completeTransfer(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const call = await this.findActiveCall(req);
+      if (!call) {
+        res.status(404).json({ error: 'Call not found' });
+        return;
+      }
+
+      await CallControlService.completeTransfer(call, req.user!.id);
+
+      this.emitCallControl(req, call, 'call:transferred', { mode: 'warm', agent_id: call.agent_id });
+
+      res.json({ message: 'Transfer completed', call_id: call.id, agent_id: call.agent_id });
+    } catch (error: any) {
+      console.error('Error completing transfer:', error);
+      res.status(error.statusCode || 500).json({ error: error.statusCode ? error.message : 'Failed to complete transfer' });
+    }
+  }
+
+  async cancelTransfer(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const call = await this.findActiveCall(req);
+      if (!call) {
+        res.status(404).json({ error: 'Call not found' });
+        return;
+      }
+
+      await CallControlService.cancelTransfer(call, req.user!.id);
+
+      this.emitCallControl(req, call, 'call:transfer:cancelled', {});
+
+      res.json({ message: 'Transfer cancelled', call_id: call.id });
+    } catch (error: any) {
+      console.error('Error cancelling transfer:', error);
+      res.status(error.statusCode || 500).json({ error: error.statusCode ? error.message : 'Failed to cancel transfer' });
     }
   }
 
   async holdCall(req: AuthRequest, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
+      const call = await this.findActiveCall(req);
+      if (!call) {
+        res.status(404).json({ error: 'Call not found' });
+        return;
+      }
 
-      // Implementation would interact with SIP service
-      res.json({ message: 'Call placed on hold' });
-    } catch (error) {
+      await CallControlService.hold(call, req.user!.id);
+
+      this.emitCallControl(req, call, 'call:hold', {});
+
+      res.json({ message: 'Call placed on hold', call_id: call.id });
+    } catch (error: any) {
       console.error('Error holding call:', error);
-      res.status(500).json({ error: 'Failed to hold call' });
+      res.status(error.statusCode || 500).json({ error: error.statusCode ? error.message : 'Failed to hold call' });
     }
   }
 
   async unholdCall(req: AuthRequest, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
+      const call = await this.findActiveCall(req);
+      if (!call) {
+        res.status(404).json({ error: 'Call not found' });
+        return;
+      }
 
-      // Implementation would interact with SIP service
-      res.json({ message: 'Call resumed' });
-    } catch (error) {
+      const heldSeconds = await CallControlService.unhold(call, req.user!.id);
+
+      this.emitCallControl(req, call, 'call:unhold', { held_seconds: heldSeconds, hold_time: call.hold_time });
+
+      res.json({ message: 'Call resumed', call_id: call.id, held_seconds: heldSeconds, hold_time: call.hold_time });
+    } catch (error: any) {
       console.error('Error unholding call:', error);
-      res.status(500).json({ error: 'Failed to unhold call' });
+      res.status(error.statusCode || 500).json({ error: error.statusCode ? error.message : 'Failed to unhold call' });
     }
   }
 
   async hangupCall(req: AuthRequest, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
+      const call = await this.findActiveCall(req);
+      if (!call) {
+        res.status(404).json({ error: 'Call not found' });
+        return;
+      }
 
-      // Implementation would interact with SIP service
-      res.json({ message: 'Call terminated' });
-    } catch (error) {
+      await CallControlService.hangup(call, req.user!.id);
+
+      this.emitCallControl(req, call, 'call:hangup', {});
+
+      res.json({ message: 'Call terminated', call_id: call.id });
+    } catch (error: any) {
       console.error('Error hanging up call:', error);
-      res.status(500).json({ error: 'Failed to hangup call' });
+      res.status(error.statusCode || 500).json({ error: error.statusCode ? error.message : 'Failed to hangup call' });
+    }
+  }
+
+  /**
+   * Start supervising a call, or switch mode if already supervising (ADMIN/MANAGER)
+   */
+  async superviseCall(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const mode = req.params.mode as SupervisionMode;
+      const { to } = req.body;
+
+      const call = await this.findActiveCall(req);
+      if (!call) {
+        res.status(404).json({ error: 'Call not found' });
+        return;
+      }
+
+      const session = SupervisionService.getSession(call, req.user!.id)
+        ? await SupervisionService.changeMode(call, req.user!.id, mode)
+        : await SupervisionService.start(call, req.user!.id, mode, to);
+
+      // Silent monitoring is not announced to the agent
+      if (mode !== 'monitor') {
+        this.emitCallControl(req, call, 'call:supervision', { mode });
+      }
+
+      res.json({ message: `Supervision mode: ${mode}`, call_id: call.id, session });
+    } catch (error: any) {
+      console.error('Error supervising call:', error);
+      res.status(error.statusCode || 500).json({ error: error.statusCode ? error.message : 'Failed to supervise call' });
+    }
+  }
+
+  async stopSupervision(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const call = await this.findActiveCall(req);
+      if (!call) {
+        res.status(404).json({ error: 'Call not found' });
+        return;
+      }
+
+      const session = SupervisionService.getSession(call, req.user!.id);
+      await SupervisionService.stop(call, req.user!.id);
+
+      if (session && session.mode !== 'monitor') {
+        this.emitCallControl(req, call, 'call:supervision:ended', {});
+      }
+
+      res.json({ message: 'Supervision ended', call_id: call.id });
+    } catch (error: any) {
+      console.error('Error stopping supervision:', error);
+      res.status(error.statusCode || 500).json({ error: error.statusCode ? error.message : 'Failed to stop supervision' });
     }
   }
+
+  private async findActiveCall(req: AuthRequest): Promise<Call | null> {
+    return await Call.findOne({
+      where: {
+        id: parseInt(req.params.id),
+        company_id: req.user!.company_id
+      }
+    });
+  }
+
+  // Broadcast a live call control action to everyone subscribed to the call
+  private emitCallControl(req: AuthRequest, call: Call, event: string, data: Record<string, any>): void {
+    req.socketManager?.emitToCall(String(call.id), event, {
+      callId: call.id,
+      callSid: call.call_sid,
+      userId: req.user!.id,
+      ...data,
+      timestamp: new Date()
+    });
+  }
 }
 
 export default new CallController();
\ No newline at end of file
@@ -0,0 +1,131 @@
+// backend/src/controllers/CallerListController.ts
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { CallerListEntry, Company } from '../models';
+import { CallerListType } from '../types/enums';
+import SpamService from '../services/SpamService';
+
+class CallerListController {
+  async getEntries(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { list_type } = req.query;
+
+      const entries = await CallerListEntry.findAll({
+        where: {
+          company_id: req.user!.company_id,
+          ...(list_type && { list_type: list_type as string })
+        },
+        order: [['list_type', 'ASC'], ['created_at', 'DESC']]
+      });
+
+      res.json(entries);
+    } catch (error) {
+      console.error('Error fetching caller lists:', error);
+      res.status(500).json({ error: 'Failed to fetch caller lists' });
+    }
+  }
+
+  /**
+   * Show how an inbound call from a number would be screened right now
+   */
+  async checkNumber(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { number } = req.query;
+
+      if (!number) {
+        res.status(400).json({ error: 'number is required' });
+        return;
+      }
+
+      const company = await Company.findByPk(req.user!.company_id);
+      if (!company) {
+        res.status(404).json({ error: 'Company not found' });
+        return;
+      }
+
+      const normalized = SpamService.normalizeNumber(number as string);
+      const allowed = await SpamService.findListMatch(company.id, CallerListType.ALLOW, normalized);
+      const blocked = await SpamService.findListMatch(company.id, CallerListType.BLOCK, normalized);
+      const { score, reasons } = await SpamService.scoreCaller(company.id, normalized);
+
+      res.json({
+        number,
+        allowlist_entry: allowed,
+        blocklist_entry: blocked,
+        spam_score: score,
+        reasons
+      });
+    } catch (error) {
+      console.error('Error checking number:', error);
+      res.status(500).json({ error: 'Failed to check number' });
+    }
+  }
+
+  async createEntry(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { list_type, pattern, reason, expires_at } = req.body;
+
+      const errors = SpamService.validatePattern(pattern);
+      if (!Object.values(CallerListType).includes(list_type)) {
+        errors.push('list_type must be "block" or "allow"');
+      }
+      if (expires_at && isNaN(new Date(expires_at).getTime())) {
+        errors.push('expires_at must be a valid date');
+      }
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid caller list entry', details: errors });
+        return;
+      }
+
+      const normalized = SpamService.normalizePattern(pattern);
+
+      const existing = await CallerListEntry.findOne({
+        where: { company_id: req.user!.company_id, list_type, pattern: normalized }
+      });
+      if (existing) {
+        res.status(409).json({ error: 'Pattern is already on this list' });
+        return;
+      }
+
+      const entry = await CallerListEntry.create({
+        company_id: req.user!.company_id,
+        list_type,
+        pattern: normalized,
+        pattern_type: SpamService.getPatternType(normalized),
+        reason,
+        expires_at,
+        created_by: req.user!.id
+      } as any);
+
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error('Error creating caller list entry:', error);
+      res.status(500).json({ error: 'Failed to create caller list entry' });
+    }
+  }
+
+  async deleteEntry(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const entry = await CallerListEntry.findOne({
+        where: {
+          id: parseInt(req.params.id),
+          company_id: req.user!.company_id
+        }
+      });
+
+      if (!entry) {
+        res.status(404).json({ error: 'Caller list entry not found' });
+        return;
+      }
+
+      await entry.destroy();
+
+      res.json({ message: 'Caller list entry deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting caller list entry:', error);
+      res.status(500).json({ error: 'Failed to delete caller list entry' });
+    }
+  }
+}
+
+export default new CallerListController();
@@ -0,0 +1,455 @@
+// backend/src/controllers/DialerController.ts
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { DialerCampaign, DialerContact, TrackingNumber, UserCompany } from '../models';
+import { DialerCampaignStatus, DialerContactStatus, UserRole } from '../types/enums';
+import DialerService from '../services/DialerService';
+
+class DialerController {
+  async getCampaigns(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const campaigns = await DialerCampaign.findAll({
+        where: { company_id: req.user!.company_id },
+        order: [['created_at', 'DESC']]
+      });
+
+      const withProgress = await Promise.all(campaigns.map(async campaign => ({
+        ...campaign.toJSON(),
+        progress: await DialerService.getProgress(campaign)
+      })));
+
+      res.json(withProgress);
+    } catch (error) {
+      console.error('Error fetching dialer campaigns:', error);
+      res.status(500).json({ error: 'Failed to fetch dialer campaigns' });
+    }
+  }
+
+  async getCampaign(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const campaign = await this.findCampaign(req);
+
+      if (!campaign) {
+        res.status(404).json({ error: 'Campaign not found' });
+        return;
+      }
+
+      res.json({
+        ...campaign.toJSON(),
+        progress: await DialerService.getProgress(campaign)
+      });
+    } catch (error) {
+      console.error('Error fetching dialer campaign:', error);
+      res.status(500).json({ error: 'Failed to fetch dialer campaign' });
+    }
+  }
+
+  /**
+   * Contact counts by status, call result and disposition
+   */
+  async getCampaignProgress(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const campaign = await this.findCampaign(req);
+
+      if (!campaign) {
+        res.status(404).json({ error: 'Campaign not found' });
+        return;
+      }
+
+      res.json(await DialerService.getProgress(campaign));
+    } catch (error) {
+      console.error('Error fetching dialer campaign progress:', error);
+      res.status(500).json({ error: 'Failed to fetch campaign progress' });
+    }
+  }
+
+  async createCampaign(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { name, tracking_number_id, agent_ids = [] } = req.body;
+
+      if (!name || name.trim().length === 0) {
+        res.status(400).json({ error: 'Campaign name is required' });
+        return;
+      }
+
+      if (!tracking_number_id) {
+        res.status(400).json({ error: 'tracking_number_id is required' });
+        return;
+      }
+
+      const errors = await this.validate(req.user!.company_id, { ...req.body, agent_ids });
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid campaign', details: errors });
+        return;
+      }
+
+      const campaign = await DialerCampaign.create({
+        ...this.pickSettings(req.body),
+        company_id: req.user!.company_id,
+        name: name.trim(),
+        tracking_number_id,
+        agent_ids,
+        status: DialerCampaignStatus.DRAFT,
+        created_by: req.user!.id
+      } as any);
+
+      res.status(201).json(campaign);
+    } catch (error) {
+      console.error('Error creating dialer campaign:', error);
+      res.status(500).json({ error: 'Failed to create dialer campaign' });
+    }
+  }
+
+  async updateCampaign(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { name, tracking_number_id, agent_ids } = req.body;
+
+      const campaign = await this.findCampaign(req);
+
+      if (!campaign) {
+        res.status(404).json({ error: 'Campaign not found' });
+        return;
+      }
+
+      const errors = await this.validate(req.user!.company_id, req.body);
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid campaign', details: errors });
+        return;
+      }
+
+      await campaign.update({
+        ...this.pickSettings(req.body),
+        ...(name !== undefined && { name: name.trim() }),
+        ...(tracking_number_id !== undefined && { tracking_number_id }),
+        ...(agent_ids !== undefined && { agent_ids })
+      });
+
+      // New agents or a wider calling window may free up work right away
+      if (campaign.status === DialerCampaignStatus.ACTIVE) {
+        DialerService.dispatch(campaign.company_id)
+          .catch(error => console.error('Error dispatching dialer contacts:', error));
+      }
+
+      res.json(campaign);
+    } catch (error) {
+      console.error('Error updating dialer campaign:', error);
+      res.status(500).json({ error: 'Failed to update dialer campaign' });
+    }
+  }
+
+  async deleteCampaign(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const campaign = await this.findCampaign(req);
+
+      if (!campaign) {
+        res.status(404).json({ error: 'Campaign not found' });
+        return;
+      }
+
+      const inProgress = await DialerContact.count({
+        where: {
+          campaign_id: campaign.id,
+          status: [DialerContactStatus.DIALING, DialerContactStatus.CONNECTED, DialerContactStatus.WRAP_UP]
+        }
+      });
+      if (campaign.status === DialerCampaignStatus.ACTIVE || inProgress > 0) {
+        res.status(409).json({ error: 'Pause the campaign and finish its open calls before deleting it' });
+        return;
+      }
+
+      await DialerContact.destroy({ where: { campaign_id: campaign.id } });
+      await campaign.destroy();
+
+      res.json({ message: 'Campaign deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting dialer campaign:', error);
+      res.status(500).json({ error: 'Failed to delete dialer campaign' });
+    }
+  }
+
+  /**
+   * Start or resume dialing
+   */
+  async startCampaign(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const campaign = await this.findCampaign(req);
+
+      if (!campaign) {
+        res.status(404).json({ error: 'Campaign not found' });
+        return;
+      }
+
+      if (campaign.status === DialerCampaignStatus.ACTIVE) {
+        res.status(409).json({ error: 'Campaign is already running' });
+        return;
+      }
+
+      if (!campaign.agent_ids?.length) {
+        res.status(400).json({ error: 'Assign at least one agent before starting the campaign' });
+        return;
+      }
+
+      const remaining = await DialerContact.count({
+        where: { campaign_id: campaign.id, status: DialerContactStatus.PENDING }
+      });
+      if (remaining === 0) {
+        res.status(400).json({ error: 'Campaign has no contacts left to dial' });
+        return;
+      }
+
+      await campaign.update({
+        status: DialerCampaignStatus.ACTIVE,
+        started_at: campaign.started_at || new Date(),
+        completed_at: null
+      } as any);
+
+      this.emitStatus(req, campaign);
+
+      DialerService.dispatch(campaign.company_id)
+        .catch(error => console.error('Error dispatching dialer contacts:', error));
+
+      res.json(campaign);
+    } catch (error) {
+      console.error('Error starting dialer campaign:', error);
+      res.status(500).json({ error: 'Failed to start dialer campaign' });
+    }
+  }
+
+  /**
+   * Stop handing out new contacts. Calls already under way finish normally.
+   */
+  async pauseCampaign(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const campaign = await this.findCampaign(req);
+
+      if (!campaign) {
+        res.status(404).json({ error: 'Campaign not found' });
+        return;
+      }
+
+      if (campaign.status !== DialerCampaignStatus.ACTIVE) {
+        res.status(409).json({ error: 'Campaign is not running' });
+        return;
+      }
+
+      await campaign.update({ status: DialerCampaignStatus.PAUSED });
+
+      this.emitStatus(req, campaign);
+
+      res.json(campaign);
+    } catch (error) {
+      console.error('Error pausing dialer campaign:', error);
+      res.status(500).json({ error: 'Failed to pause dialer campaign' });
+    }
+  }
+
+  async getContacts(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { status, page = 1, limit = 50 } = req.query;
+
+      const campaign = await this.findCampaign(req);
+
+      if (!campaign) {
+        res.status(404).json({ error: 'Campaign not found' });
+        return;
+      }
+
+      const where: any = { campaign_id: campaign.id };
+      if (status) where.status = status;
+
+      const offset = ((page as number) - 1) * (limit as number);
+
+      const { rows: contacts, count } = await DialerContact.findAndCountAll({
+        where,
+        limit: parseInt(limit as string),
+        offset,
+        order: [['id', 'ASC']]
+      });
+
+      res.json({
+        contacts,
+        pagination: {
+          total: count,
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          pages: Math.ceil(count / (limit as number))
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching dialer contacts:', error);
+      res.status(500).json({ error: 'Failed to fetch dialer contacts' });
+    }
+  }
+
+  /**
+   * Add contacts from customer profiles (customer_profile_ids) and/or an uploaded list (contacts)
+   */
+  async addContacts(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { customer_profile_ids = [], contacts = [] } = req.body;
+
+      const campaign = await this.findCampaign(req);
+
+      if (!campaign) {
+        res.status(404).json({ error: 'Campaign not found' });
+        return;
+      }
+
+      const errors: string[] = [];
+      if (!Array.isArray(customer_profile_ids) || customer_profile_ids.some((id: any) => !Number.isInteger(id))) {
+        errors.push('customer_profile_ids must be a list of customer profile ids');
+      }
+      if (!Array.isArray(contacts) || contacts.some((contact: any) => !contact?.phone_number)) {
+        errors.push('contacts must be a list of objects with a phone_number');
+      }
+      if (errors.length === 0 && customer_profile_ids.length + contacts.length === 0) {
+        errors.push('Provide customer_profile_ids or contacts to add');
+      }
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid contacts', details: errors });
+        return;
+      }
+
+      const result = await DialerService.addContacts(campaign, customer_profile_ids, contacts);
+
+      if (campaign.status === DialerCampaignStatus.ACTIVE) {
+        DialerService.dispatch(campaign.company_id)
+          .catch(error => console.error('Error dispatching dialer contacts:', error));
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      console.error('Error adding dialer contacts:', error);
+      res.status(500).json({ error: 'Failed to add dialer contacts' });
+    }
+  }
+
+  /**
+   * The signed-in agent's current dialer contact (the one a disposition is owed for)
+   */
+  async getCurrentContact(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const contact = await DialerService.getAgentContact(req.user!.company_id, req.user!.id);
+      res.json({ contact });
+    } catch (error) {
+      console.error('Error fetching current dialer contact:', error);
+      res.status(500).json({ error: 'Failed to fetch current dialer contact' });
+    }
+  }
+
+  /**
+   * Record the outcome of a connected call. Required before the agent is dialed again.
+   */
+  async submitDisposition(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { disposition, notes, retry_at } = req.body;
+
+      const contact = await DialerContact.findOne({
+        where: { id: parseInt(req.params.contactId), company_id: req.user!.company_id },
+        include: [{ model: DialerCampaign }]
+      });
+
+      if (!contact) {
+        res.status(404).json({ error: 'Contact not found' });
+        return;
+      }
+
+      const isSupervisor = [UserRole.ADMIN, UserRole.MANAGER].includes(req.user!.role as UserRole);
+      if (contact.agent_id !== req.user!.id && !isSupervisor) {
+        res.status(403).json({ error: 'Only the agent on the call can submit its disposition' });
+        return;
+      }
+
+      if (contact.status !== DialerContactStatus.WRAP_UP) {
+        res.status(409).json({ error: 'Contact is not waiting for a disposition' });
+        return;
+      }
+
+      const errors: string[] = [];
+      if (!disposition || !contact.campaign.dispositions.includes(disposition)) {
+        errors.push(`disposition must be one of: ${contact.campaign.dispositions.join(', ')}`);
+      }
+      const retryAt = retry_at ? new Date(retry_at) : undefined;
+      if (retryAt && (isNaN(retryAt.getTime()) || retryAt <= new Date())) {
+        errors.push('retry_at must be a future timestamp');
+      }
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid disposition', details: errors });
+        return;
+      }
+
+      await DialerService.submitDisposition(contact, disposition, notes, retryAt);
+
+      res.json(contact);
+    } catch (error) {
+      console.error('Error submitting dialer disposition:', error);
+      res.status(500).json({ error: 'Failed to submit disposition' });
+    }
+  }
+
+  private async findCampaign(req: AuthRequest): Promise<DialerCampaign | null> {
+    return await DialerCampaign.findOne({
+      where: {
+        id: parseInt(req.params.id),
+        company_id: req.user!.company_id
+      }
+    });
+  }
+
+  private pickSettings(body: any): Partial<DialerCampaign> {
+    const keys = [
+      'description',
+      'calling_window',
+      'timezone',
+      'max_attempts',
+      'retry_delay_minutes',
+      'retry_results',
+      'ring_timeout_seconds',
+      'dispositions'
+    ] as const;
+
+    return keys.reduce((settings, key) => {
+      if (body[key] !== undefined) (settings as any)[key] = body[key];
+      return settings;
+    }, {} as Partial<DialerCampaign>);
+  }
+
+  private async validate(companyId: number, body: any): Promise<string[]> {
+    const errors = DialerService.validateCampaign(body);
+
+    if (body.tracking_number_id !== undefined) {
+      const trackingNumber = await TrackingNumber.findOne({
+        where: { id: body.tracking_number_id, company_id: companyId },
+        attributes: ['id']
+      });
+      if (!trackingNumber) {
+        errors.push(`Tracking number ${body.tracking_number_id} not found`);
+      }
+    }
+
+    // Agents must belong to the company
+    const agentIds: number[] = Array.isArray(body.agent_ids) ? body.agent_ids : [];
+    if (agentIds.length > 0) {
+      const memberships = await UserCompany.findAll({
+        where: { company_id: companyId, user_id: agentIds, is_active: true },
+        attributes: ['user_id']
+      });
+      const validIds = new Set(memberships.map(m => m.user_id));
+      agentIds
+        .filter(id => !validIds.has(id))
+        .forEach(id => errors.push(`User ${id} is not a member of this company`));
+    }
+
+    return errors;
+  }
+
+  private emitStatus(req: AuthRequest, campaign: DialerCampaign): void {
+    req.socketManager?.emitToCompany(campaign.company_id, 'dialer:campaign:status', {
+      campaignId: campaign.id,
+      status: campaign.status,
+      timestamp: new Date()
+    });
+  }
+}
+
+export default new DialerController();
@@ -0,0 +1,116 @@
+// backend/src/controllers/MockTelephonyController.ts
+import { Request, Response } from 'express';
+import MockTelephonyProvider from '../services/MockTelephonyProvider';
+
+/**
+ * Drives the in-memory telephony provider: start calls, press keys, end dials,
+ * post status and recording callbacks, and inspect what the app answered.
+ * Simulation problems (e.g. the call is not dialing) come back as 400s.
+ */
+class MockTelephonyController {
+  async getCalls(req: Request, res: Response): Promise<void> {
+    res.json(MockTelephonyProvider.listCalls());
+  }
+
+  async getCall(req: Request, res: Response): Promise<void> {
+    const call = MockTelephonyProvider.getCall(req.params.sid);
+
+    if (!call) {
+      res.status(404).json({ error: 'Mock call not found' });
+      return;
+    }
+
+    res.json(call);
+  }
+
+  async startCall(req: Request, res: Response): Promise<void> {
+    try {
+      const { from, to } = req.body;
+
+      if (!from || !to) {
+        res.status(400).json({ error: 'from and to are required' });
+        return;
+      }
+
+      const call = await MockTelephonyProvider.simulateInboundCall(req.body);
+      res.status(201).json(call);
+    } catch (error: any) {
+      console.error('Error simulating inbound call:', error);
+      res.status(400).json({ error: error.message || 'Failed to simulate call' });
+    }
+  }
+
+  async gather(req: Request, res: Response): Promise<void> {
+    try {
+      const { digits, speech } = req.body;
+      const document = await MockTelephonyProvider.simulateGather(req.params.sid, { digits, speech });
+      res.json(document);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message || 'Failed to simulate input' });
+    }
+  }
+
+  async dialResult(req: Request, res: Response): Promise<void> {
+    try {
+      const { status = 'completed', duration } = req.body;
+      const document = await MockTelephonyProvider.simulateDialResult(req.params.sid, status, duration);
+      res.json(document);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message || 'Failed to simulate dial result' });
+    }
+  }
+
+  async status(req: Request, res: Response): Promise<void> {
+    try {
+      const { status, duration } = req.body;
+
+      if (!status) {
+        res.status(400).json({ error: 'status is required' });
+        return;
+      }
+
+      const document = await MockTelephonyProvider.simulateStatus(req.params.sid, status, duration);
+      res.json(document);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message || 'Failed to simulate status callback' });
+    }
+  }
+
+  async recording(req: Request, res: Response): Promise<void> {
+    try {
+      const document = await MockTelephonyProvider.simulateRecording(req.params.sid, req.body.duration);
+      res.json(document);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message || 'Failed to simulate recording' });
+    }
+  }
+
+  /**
+   * Audio for a simulated recording (the recording processor appends .mp3 to the URL)
+   */
+  async getRecordingAudio(req: Request, res: Response): Promise<void> {
+    const audio = MockTelephonyProvider.getRecordingAudio(req.params.file.replace(/\.\w+$/, ''));
+
+    if (!audio) {
+      res.status(404).json({ error: 'Mock recording not found' });
+      return;
+    }
+
+    res.type('audio/wav').send(audio);
+  }
+
+  async getMessages(req: Request, res: Response): Promise<void> {
+    res.json(MockTelephonyProvider.listMessages());
+  }
+
+  async getNumbers(req: Request, res: Response): Promise<void> {
+    res.json(MockTelephonyProvider.listNumbers());
+  }
+
+  async reset(req: Request, res: Response): Promise<void> {
+    MockTelephonyProvider.reset();
+    res.json({ message: 'Mock telephony state cleared' });
+  }
+}
+
+export default new MockTelephonyController();
@@ -0,0 +1,254 @@
+// backend/src/controllers/QueueController.ts
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { Call, CallQueue, QueueEntry, User, UserCompany } from '../models';
+import { QueueEntryStatus } from '../types/enums';
+import QueueService from '../services/QueueService';
+import CallFlowService from '../services/CallFlowService';
+
+class QueueController {
+  async getQueues(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const queues = await CallQueue.findAll({
+        where: { company_id: req.user!.company_id },
+        order: [['name', 'ASC']]
+      });
+
+      // Live counts so the list can show which queues need attention
+      const withMetrics = await Promise.all(queues.map(async queue => {
+        const metrics = await QueueService.getMetrics(queue, new Date(new Date().setHours(0, 0, 0, 0)));
+        return {
+          ...queue.toJSON(),
+          waiting_count: metrics.waiting_count,
+          longest_wait_seconds: metrics.longest_wait_seconds
+        };
+      }));
+
+      res.json(withMetrics);
+    } catch (error) {
+      console.error('Error fetching queues:', error);
+      res.status(500).json({ error: 'Failed to fetch queues' });
+    }
+  }
+
+  async getQueue(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const queue = await this.findQueue(req);
+
+      if (!queue) {
+        res.status(404).json({ error: 'Queue not found' });
+        return;
+      }
+
+      res.json(queue);
+    } catch (error) {
+      console.error('Error fetching queue:', error);
+      res.status(500).json({ error: 'Failed to fetch queue' });
+    }
+  }
+
+  /**
+   * Waiting count, longest wait, abandonment rate and service level.
+   * Rates cover callers who left the queue in the period (default: today).
+   */
+  async getQueueMetrics(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { date_from, date_to } = req.query;
+
+      const queue = await this.findQueue(req);
+
+      if (!queue) {
+        res.status(404).json({ error: 'Queue not found' });
+        return;
+      }
+
+      const metrics = await QueueService.getMetrics(
+        queue,
+        date_from ? new Date(date_from as string) : new Date(new Date().setHours(0, 0, 0, 0)),
+        date_to ? new Date(date_to as string) : undefined
+      );
+
+      res.json({
+        ...metrics,
+        service_level_seconds: queue.service_level_seconds
+      });
+    } catch (error) {
+      console.error('Error fetching queue metrics:', error);
+      res.status(500).json({ error: 'Failed to fetch queue metrics' });
+    }
+  }
+
+  /**
+   * Callers currently in the queue, longest waiting first
+   */
+  async getQueueEntries(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const queue = await this.findQueue(req);
+
+      if (!queue) {
+        res.status(404).json({ error: 'Queue not found' });
+        return;
+      }
+
+      const entries = await QueueEntry.findAll({
+        where: { queue_id: queue.id, status: [QueueEntryStatus.WAITING, QueueEntryStatus.CONNECTING] },
+        include: [
+          { model: Call, attributes: ['id', 'uuid', 'caller_number', 'caller_name', 'tracking_number_id'] },
+          { model: User, attributes: ['id', 'first_name', 'last_name'] }
+        ],
+        order: [['enqueued_at', 'ASC']]
+      });
+
+      res.json(entries.map((entry, index) => ({
+        ...entry.toJSON(),
+        position: index + 1,
+        wait_seconds: QueueService.getWaitSeconds(entry)
+      })));
+    } catch (error) {
+      console.error('Error fetching queue entries:', error);
+      res.status(500).json({ error: 'Failed to fetch queue entries' });
+    }
+  }
+
+  async createQueue(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { name, overflow_destination, agent_ids = [] } = req.body;
+
+      if (!name || name.trim().length === 0) {
+        res.status(400).json({ error: 'Queue name is required' });
+        return;
+      }
+
+      const errors = await this.validate(req.user!.company_id, { ...req.body, agent_ids });
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid queue', details: errors });
+        return;
+      }
+
+      const queue = await CallQueue.create({
+        ...this.pickSettings(req.body),
+        company_id: req.user!.company_id,
+        name: name.trim(),
+        overflow_destination,
+        agent_ids,
+        created_by: req.user!.id
+      } as any);
+
+      res.status(201).json(queue);
+    } catch (error) {
+      console.error('Error creating queue:', error);
+      res.status(500).json({ error: 'Failed to create queue' });
+    }
+  }
+
+  async updateQueue(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { name, overflow_destination, agent_ids, is_active } = req.body;
+
+      const queue = await this.findQueue(req);
+
+      if (!queue) {
+        res.status(404).json({ error: 'Queue not found' });
+        return;
+      }
+
+      const errors = await this.validate(req.user!.company_id, req.body);
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid queue', details: errors });
+        return;
+      }
+
+      await queue.update({
+        ...this.pickSettings(req.body),
+        ...(name !== undefined && { name: name.trim() }),
+        ...(overflow_destination !== undefined && { overflow_destination }),
+        ...(agent_ids !== undefined && { agent_ids }),
+        ...(is_active !== undefined && { is_active })
+      });
+
+      res.json(queue);
+    } catch (error) {
+      console.error('Error updating queue:', error);
+      res.status(500).json({ error: 'Failed to update queue' });
+    }
+  }
+
+  async deleteQueue(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const queue = await this.findQueue(req);
+
+      if (!queue) {
+        res.status(404).json({ error: 'Queue not found' });
+        return;
+      }
+
+      const waiting = await QueueEntry.count({
+        where: { queue_id: queue.id, status: [QueueEntryStatus.WAITING, QueueEntryStatus.CONNECTING] }
+      });
+      if (waiting > 0) {
+        res.status(409).json({ error: 'Queue still has callers waiting' });
+        return;
+      }
+
+      await queue.destroy();
+
+      res.json({ message: 'Queue deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting queue:', error);
+      res.status(500).json({ error: 'Failed to delete queue' });
+    }
+  }
+
+  private async findQueue(req: AuthRequest): Promise<CallQueue | null> {
+    return await CallQueue.findOne({
+      where: {
+        id: parseInt(req.params.id),
+        company_id: req.user!.company_id
+      }
+    });
+  }
+
+  private pickSettings(body: any): Partial<CallQueue> {
+    const keys = [
+      'description',
+      'hold_music_url',
+      'announce_position',
+      'announce_wait_time',
+      'announcement_interval_seconds',
+      'max_wait_seconds',
+      'max_size',
+      'voicemail_digit',
+      'service_level_seconds'
+    ] as const;
+
+    return keys.reduce((settings, key) => {
+      if (body[key] !== undefined) (settings as any)[key] = body[key];
+      return settings;
+    }, {} as Partial<CallQueue>);
+  }
+
+  private async validate(companyId: number, body: any): Promise<string[]> {
+    const errors = QueueService.validateQueue(body);
+
+    if (body.overflow_destination) {
+      errors.push(...CallFlowService.validateStandaloneDestination(body.overflow_destination, 'overflow'));
+    }
+
+    // Agents must belong to the company
+    const agentIds: number[] = Array.isArray(body.agent_ids) ? body.agent_ids : [];
+    if (agentIds.length > 0) {
+      const memberships = await UserCompany.findAll({
+        where: { company_id: companyId, user_id: agentIds, is_active: true },
+        attributes: ['user_id']
+      });
+      const validIds = new Set(memberships.map(m => m.user_id));
+      agentIds
+        .filter(id => !validIds.has(id))
+        .forEach(id => errors.push(`User ${id} is not a member of this company`));
+    }
+
+    return errors;
+  }
+}
+
+export default new QueueController();
@@ -1,12 +1,122 @@
 import { Response } from 'express';
+import { Op } from 'sequelize';
 import { sequelize } from '../models';
 import { AuthRequest } from '../middleware/auth';
-import { Call, CallRecording } from '../models';
+import { Call, CallRecording, Company, RecordingPurgeLog } from '../models';
 import RecordingService from '../services/RecordingService';
+import StorageService from '../services/StorageService';
+import RecordingConsentService from '../services/RecordingConsentService';
+import TranscriptionService from '../services/TranscriptionService';
+import RecordingRetentionService from '../services/RecordingRetentionService';
+import { RecordingPurgeAction, TranscriptionStatus } from '../types/enums';
+import { RecordingConsentRule } from '../types/interfaces';
+import { sendRecordingAudio } from '../utils/recordingAudio';
 import fs from 'fs';
 import path from 'path';
 
 class RecordingController {
+  /**
+   * Company recording, disclaimer and per-jurisdiction consent settings
+   */
+  async getSettings(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const company = await Company.findByPk(req.user!.company_id);
+
+      if (!company) {
+        res.status(404).json({ error: 'Company not found' });
+        return;
+      }
+
+      res.json(this.serializeSettings(company));
+    } catch (error) {
+      console.error('Error fetching recording settings:', error);
+      res.status(500).json({ error: 'Failed to fetch recording settings' });
+    }
+  }
+
+  async updateSettings(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const {
+        recording_enabled,
+        recording_disclaimer,
+        disclaimer_message,
+        disclaimer_audio_url,
+        consent_rules,
+        transcription_enabled,
+        retention_policy
+      } = req.body;
+
+      const company = await Company.findByPk(req.user!.company_id);
+
+      if (!company) {
+        res.status(404).json({ error: 'Company not found' });
+        return;
+      }
+
+      // null resets the rules to the built-in two-party consent defaults
+      if (consent_rules !== undefined && consent_rules !== null) {
+        const errors = RecordingConsentService.validateRules(consent_rules);
+        if (errors.length > 0) {
+          res.status(400).json({ error: 'Invalid consent rules', details: errors });
+          return;
+        }
+      }
+
+      // null removes the policy: recordings are kept until deleted by hand
+      if (retention_policy !== undefined && retention_policy !== null) {
+        const errors = RecordingRetentionService.validatePolicy(retention_policy);
+        if (errors.length > 0) {
+          res.status(400).json({ error: 'Invalid retention policy', details: errors });
+          return;
+        }
+      }
+
+      if (recording_enabled !== undefined && typeof recording_enabled !== 'boolean') {
+        res.status(400).json({ error: 'recording_enabled must be true or false' });
+        return;
+      }
+
+      // null or an empty string removes the audio: the disclaimer text is read instead
+      if (disclaimer_audio_url && (typeof disclaimer_audio_url !== 'string' || !/^https?:\/\//.test(disclaimer_audio_url))) {
+        res.status(400).json({ error: 'disclaimer_audio_url must be an http(s) URL' });
+        return;
+      }
+
+      if (transcription_enabled !== undefined && typeof transcription_enabled !== 'boolean') {
+        res.status(400).json({ error: 'transcription_enabled must be true or false' });
+        return;
+      }
+
+      const settings = { ...company.settings };
+      if (disclaimer_message !== undefined) settings.recording_disclaimer_message = disclaimer_message || undefined;
+      if (disclaimer_audio_url !== undefined) settings.recording_disclaimer_audio_url = disclaimer_audio_url || undefined;
+      if (transcription_enabled !== undefined) settings.call_transcription = transcription_enabled;
+      if (retention_policy !== undefined) {
+        settings.recording_retention = RecordingRetentionService.normalizePolicy(retention_policy) || undefined;
+      }
+      if (consent_rules !== undefined) {
+        settings.recording_consent_rules = consent_rules === null
+          ? undefined
+          : (consent_rules as RecordingConsentRule[]).map((rule): RecordingConsentRule => ({
+            country: rule.country.toUpperCase(),
+            ...(rule.state && { state: rule.state.toUpperCase() }),
+            action: rule.action
+          }));
+      }
+
+      await company.update({
+        ...(recording_enabled !== undefined && { recording_enabled }),
+        ...(recording_disclaimer !== undefined && { recording_disclaimer }),
+        settings
+      });
+
+      res.json(this.serializeSettings(company));
+    } catch (error) {
+      console.error('Error updating recording settings:', error);
+      res.status(500).json({ error: 'Failed to update recording settings' });
+    }
+  }
+
   async getRecording(req: AuthRequest, res: Response): Promise<void> {
     try {
       const { id } = req.params;
@@ -48,11 +158,17 @@ class RecordingController {
         return;
       }
 
-      // Get signed URL for streaming (handles both DO and legacy)
-      const streamUrl = await RecordingService.getRecordingUrl(recording);
+      if (!recording.storage_key && !recording.file_url) {
+        res.status(404).json({ error: 'Recording file not found' });
+        return;
+      }
 
-      // Redirect to the streaming URL
-      res.redirect(streamUrl);
+      // Proxied rather than redirected, so players can seek with Range requests
+      await sendRecordingAudio(req, res, recording, {
+        filename: `call-recording-${recording.call.call_sid}.${recording.format}`,
+        disposition: 'inline',
+        preview: req.query.preview === 'true'
+      });
     } catch (error) {
       console.error('Error playing recording:', error);
       res.status(500).json({ error: 'Failed to play recording' });
@@ -76,8 +192,16 @@ class RecordingController {
         return;
       }
 
-      // For Digital Ocean storage, generate signed URL and redirect
-      if (recording.storage_provider === 'digitalocean' || recording.file_url?.startsWith('http')) {
+      if (recording.encrypted) {
+        await sendRecordingAudio(req, res, recording, {
+          filename: `call-recording-${recording.call.call_sid}.${recording.format}`,
+          disposition: 'attachment'
+        });
+        return;
+      }
+
+      // For files in a storage driver, generate signed URL and redirect
+      if (StorageService.isDriver(recording.storage_provider) || recording.file_url?.startsWith('http')) {
         const downloadUrl = await RecordingService.getRecordingUrl(recording);
         res.redirect(downloadUrl);
         return;
@@ -131,6 +255,9 @@ class RecordingController {
   //   }
   // }
 
+  /**
+   * Speaker-labelled transcript of a call. 202 while the transcription job is still queued or running.
+   */
   async getTranscription(req: AuthRequest, res: Response): Promise<void> {
     try {
       const { id } = req.params;
@@ -147,13 +274,25 @@ class RecordingController {
         return;
       }
 
+      const pending = call.transcription_status === TranscriptionStatus.QUEUED
+        || call.transcription_status === TranscriptionStatus.PROCESSING;
+
+      if (pending) {
+        res.status(202).json({ status: call.transcription_status });
+        return;
+      }
+
       if (!call.transcription) {
-        res.status(404).json({ error: 'Transcription not available' });
+        res.status(404).json({
+          error: 'Transcription not available',
+          ...(call.transcription_status && { status: call.transcription_status })
+        });
         return;
       }
 
       res.json({
         transcription: call.transcription,
+        segments: call.transcript_segments || [],
         confidence: call.transcription_confidence,
         status: call.transcription_status
       });
@@ -162,6 +301,111 @@ class RecordingController {
       res.status(500).json({ error: 'Failed to fetch transcription' });
     }
   }
+
+  /**
+   * Queue (or re-run) transcription of the call's latest recording
+   */
+  async requestTranscription(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const call = await Call.findOne({
+        where: {
+          id: parseInt(id),
+          company_id: req.user!.company_id
+        }
+      });
+
+      if (!call) {
+        res.status(404).json({ error: 'Call not found' });
+        return;
+      }
+
+      const recording = await CallRecording.findOne({
+        where: { call_id: call.id, status: 'completed' },
+        order: [['created_at', 'DESC']]
+      });
+
+      if (!recording) {
+        res.status(404).json({ error: 'Call has no recording to transcribe' });
+        return;
+      }
+
+      if (call.transcription_status === TranscriptionStatus.QUEUED
+        || call.transcription_status === TranscriptionStatus.PROCESSING) {
+        res.status(409).json({ error: 'Transcription already in progress' });
+        return;
+      }
+
+      await TranscriptionService.enqueue(recording, call);
+
+      res.status(202).json({ status: call.transcription_status, recording_id: recording.id });
+    } catch (error) {
+      console.error('Error requesting transcription:', error);
+      res.status(500).json({ error: 'Failed to request transcription' });
+    }
+  }
+
+  /**
+   * Audit log of recordings archived or deleted by retention policies, newest first
+   */
+  async getPurgeLog(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { action, call_id, date_from, date_to, page = 1, limit = 50 } = req.query;
+
+      if (action && !Object.values(RecordingPurgeAction).includes(action as RecordingPurgeAction)) {
+        res.status(400).json({ error: `action must be one of: ${Object.values(RecordingPurgeAction).join(', ')}` });
+        return;
+      }
+
+      const where: any = {
+        company_id: req.user!.company_id
+      };
+
+      if (action) where.action = action;
+      if (call_id) where.call_id = parseInt(call_id as string);
+      if (date_from || date_to) {
+        where.created_at = {};
+        if (date_from) where.created_at[Op.gte] = new Date(date_from as string);
+        if (date_to) where.created_at[Op.lte] = new Date(date_to as string);
+      }
+
+      const offset = (parseInt(page as string) - 1) * parseInt(limit as string);
+
+      const { rows: entries, count } = await RecordingPurgeLog.findAndCountAll({
+        where,
+        limit: parseInt(limit as string),
+        offset,
+        order: [['created_at', 'DESC']]
+      });
+
+      res.json({
+        entries,
+        pagination: {
+          total: count,
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          pages: Math.ceil(count / parseInt(limit as string))
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching recording purge log:', error);
+      res.status(500).json({ error: 'Failed to fetch recording purge log' });
+    }
+  }
+
+  private serializeSettings(company: Company) {
+    return {
+      recording_enabled: company.recording_enabled,
+      recording_disclaimer: company.recording_disclaimer,
+      disclaimer_message: company.settings?.recording_disclaimer_message || null,
+      disclaimer_audio_url: company.settings?.recording_disclaimer_audio_url || null,
+      consent_rules: RecordingConsentService.getRules(company),
+      uses_default_rules: !company.settings?.recording_consent_rules,
+      transcription_enabled: !!company.settings?.call_transcription,
+      retention_policy: company.settings?.recording_retention || null
+    };
+  }
 }
 
 export default new RecordingController();
\ No newline at end of file
@@ -0,0 +1,196 @@
+// backend/src/controllers/RingGroupController.ts
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { RingGroup, RingGroupMember, User, UserCompany } from '../models';
+import { RingStrategy } from '../types/enums';
+import RingGroupService, { RingGroupMemberInput } from '../services/RingGroupService';
+import AgentSessionService from '../services/AgentSessionService';
+
+class RingGroupController {
+  async getRingGroups(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const groups = await RingGroup.findAll({
+        where: { company_id: req.user!.company_id },
+        include: [{
+          model: RingGroupMember,
+          include: [{
+            model: User,
+            attributes: ['id', 'first_name', 'last_name', 'email', 'extension']
+          }]
+        }],
+        order: [['name', 'ASC'], [RingGroupMember, 'position', 'ASC']]
+      });
+
+      res.json(groups);
+    } catch (error) {
+      console.error('Error fetching ring groups:', error);
+      res.status(500).json({ error: 'Failed to fetch ring groups' });
+    }
+  }
+
+  async getRingGroup(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const group = await this.findGroup(req);
+
+      if (!group) {
+        res.status(404).json({ error: 'Ring group not found' });
+        return;
+      }
+
+      // Include live availability so the UI can show who will actually ring
+      const userIds = group.members
+        .filter(member => member.user_id)
+        .map(member => member.user_id!);
+      const statuses = await AgentSessionService.getAgentStatuses(group.company_id, userIds);
+
+      res.json({
+        ...group.toJSON(),
+        members: group.members.map(member => ({
+          ...member.toJSON(),
+          agent_status: member.user_id ? statuses.get(member.user_id) : null
+        }))
+      });
+    } catch (error) {
+      console.error('Error fetching ring group:', error);
+      res.status(500).json({ error: 'Failed to fetch ring group' });
+    }
+  }
+
+  async createRingGroup(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const {
+        name,
+        description,
+        strategy = RingStrategy.SIMULTANEOUS,
+        ring_timeout_seconds,
+        fallback_destination,
+        members = []
+      } = req.body;
+
+      if (!name || name.trim().length === 0) {
+        res.status(400).json({ error: 'Ring group name is required' });
+        return;
+      }
+
+      const errors = [
+        ...RingGroupService.validateRingGroup({ strategy, ring_timeout_seconds, members }),
+        ...await this.validateMemberUsers(req.user!.company_id, members)
+      ];
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid ring group', details: errors });
+        return;
+      }
+
+      const group = await RingGroup.create({
+        company_id: req.user!.company_id,
+        name: name.trim(),
+        description,
+        strategy,
+        ring_timeout_seconds,
+        fallback_destination,
+        created_by: req.user!.id
+      } as any);
+
+      await RingGroupService.setMembers(group, members);
+
+      res.status(201).json(await group.reload({ include: [RingGroupMember] }));
+    } catch (error) {
+      console.error('Error creating ring group:', error);
+      res.status(500).json({ error: 'Failed to create ring group' });
+    }
+  }
+
+  async updateRingGroup(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { name, description, strategy, ring_timeout_seconds, fallback_destination, is_active, members } = req.body;
+
+      const group = await this.findGroup(req);
+
+      if (!group) {
+        res.status(404).json({ error: 'Ring group not found' });
+        return;
+      }
+
+      const errors = [
+        ...RingGroupService.validateRingGroup({ strategy, ring_timeout_seconds, members }),
+        ...await this.validateMemberUsers(req.user!.company_id, members || [])
+      ];
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid ring group', details: errors });
+        return;
+      }
+
+      await group.update({
+        ...(name !== undefined && { name: name.trim() }),
+        ...(description !== undefined && { description }),
+        ...(strategy !== undefined && { strategy }),
+        ...(ring_timeout_seconds !== undefined && { ring_timeout_seconds }),
+        ...(fallback_destination !== undefined && { fallback_destination }),
+        ...(is_active !== undefined && { is_active })
+      });
+
+      if (Array.isArray(members)) {
+        await RingGroupService.setMembers(group, members);
+      }
+
+      res.json(await group.reload({ include: [RingGroupMember] }));
+    } catch (error) {
+      console.error('Error updating ring group:', error);
+      res.status(500).json({ error: 'Failed to update ring group' });
+    }
+  }
+
+  async deleteRingGroup(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const group = await this.findGroup(req);
+
+      if (!group) {
+        res.status(404).json({ error: 'Ring group not found' });
+        return;
+      }
+
+      await RingGroupMember.destroy({ where: { ring_group_id: group.id } });
+      await group.destroy();
+
+      res.json({ message: 'Ring group deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting ring group:', error);
+      res.status(500).json({ error: 'Failed to delete ring group' });
+    }
+  }
+
+  private async findGroup(req: AuthRequest): Promise<RingGroup | null> {
+    return await RingGroup.findOne({
+      where: {
+        id: parseInt(req.params.id),
+        company_id: req.user!.company_id
+      },
+      include: [{
+        model: RingGroupMember,
+        include: [{
+          model: User,
+          attributes: ['id', 'first_name', 'last_name', 'email', 'extension']
+        }]
+      }],
+      order: [[RingGroupMember, 'position', 'ASC']]
+    });
+  }
+
+  // Members must belong to the company
+  private async validateMemberUsers(companyId: number, members: RingGroupMemberInput[]): Promise<string[]> {
+    const userIds = members.filter(m => m.user_id).map(m => m.user_id!);
+    if (userIds.length === 0) return [];
+
+    const memberships = await UserCompany.findAll({
+      where: { company_id: companyId, user_id: userIds, is_active: true },
+      attributes: ['user_id']
+    });
+    const validIds = new Set(memberships.map(m => m.user_id));
+
+    return userIds
+      .filter(id => !validIds.has(id))
+      .map(id => `User ${id} is not a member of this company`);
+  }
+}
+
+export default new RingGroupController();
@@ -0,0 +1,232 @@
+// backend/src/controllers/ScheduleController.ts
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { Company, Schedule, TrackingNumber } from '../models';
+import ScheduleService from '../services/ScheduleService';
+
+class ScheduleController {
+  async getSchedules(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const [schedules, company] = await Promise.all([
+        Schedule.findAll({
+          where: { company_id: req.user!.company_id },
+          order: [['name', 'ASC']]
+        }),
+        Company.findByPk(req.user!.company_id, { attributes: ['id', 'schedule_id'] })
+      ]);
+
+      res.json({
+        schedules,
+        default_schedule_id: company?.schedule_id || null
+      });
+    } catch (error) {
+      console.error('Error fetching schedules:', error);
+      res.status(500).json({ error: 'Failed to fetch schedules' });
+    }
+  }
+
+  async getSchedule(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const schedule = await Schedule.findOne({
+        where: {
+          id: parseInt(id),
+          company_id: req.user!.company_id
+        },
+        include: [{
+          model: TrackingNumber,
+          attributes: ['id', 'phone_number', 'friendly_name']
+        }]
+      });
+
+      if (!schedule) {
+        res.status(404).json({ error: 'Schedule not found' });
+        return;
+      }
+
+      res.json(schedule);
+    } catch (error) {
+      console.error('Error fetching schedule:', error);
+      res.status(500).json({ error: 'Failed to fetch schedule' });
+    }
+  }
+
+  async createSchedule(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { name, description, timezone, weekly_hours, holidays, closures } = req.body;
+
+      if (!name || name.trim().length === 0) {
+        res.status(400).json({ error: 'Schedule name is required' });
+        return;
+      }
+
+      const errors = ScheduleService.validateSchedule({ timezone, weekly_hours, holidays, closures });
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid schedule', details: errors });
+        return;
+      }
+
+      const schedule = await Schedule.create({
+        company_id: req.user!.company_id,
+        name: name.trim(),
+        description,
+        timezone,
+        weekly_hours: weekly_hours || {},
+        holidays: holidays || [],
+        closures: closures || [],
+        created_by: req.user!.id
+      } as any);
+
+      res.status(201).json(schedule);
+    } catch (error) {
+      console.error('Error creating schedule:', error);
+      res.status(500).json({ error: 'Failed to create schedule' });
+    }
+  }
+
+  async updateSchedule(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { name, description, timezone, weekly_hours, holidays, closures } = req.body;
+
+      const schedule = await Schedule.findOne({
+        where: {
+          id: parseInt(id),
+          company_id: req.user!.company_id
+        }
+      });
+
+      if (!schedule) {
+        res.status(404).json({ error: 'Schedule not found' });
+        return;
+      }
+
+      const errors = ScheduleService.validateSchedule({ timezone, weekly_hours, holidays, closures });
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid schedule', details: errors });
+        return;
+      }
+
+      await schedule.update({
+        ...(name !== undefined && { name: name.trim() }),
+        ...(description !== undefined && { description }),
+        ...(timezone !== undefined && { timezone }),
+        ...(weekly_hours !== undefined && { weekly_hours }),
+        ...(holidays !== undefined && { holidays }),
+        ...(closures !== undefined && { closures })
+      });
+
+      res.json(schedule);
+    } catch (error) {
+      console.error('Error updating schedule:', error);
+      res.status(500).json({ error: 'Failed to update schedule' });
+    }
+  }
+
+  async deleteSchedule(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const schedule = await Schedule.findOne({
+        where: {
+          id: parseInt(id),
+          company_id: req.user!.company_id
+        }
+      });
+
+      if (!schedule) {
+        res.status(404).json({ error: 'Schedule not found' });
+        return;
+      }
+
+      // Numbers using this schedule go back to the company default
+      await TrackingNumber.update(
+        { schedule_id: null } as any,
+        { where: { schedule_id: schedule.id, company_id: req.user!.company_id } }
+      );
+      await Company.update(
+        { schedule_id: null } as any,
+        { where: { id: req.user!.company_id, schedule_id: schedule.id } }
+      );
+
+      await schedule.destroy();
+
+      res.json({ message: 'Schedule deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting schedule:', error);
+      res.status(500).json({ error: 'Failed to delete schedule' });
+    }
+  }
+
+  /**
+   * Set (or clear) the company-wide default schedule
+   */
+  async setDefaultSchedule(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { schedule_id } = req.body;
+
+      if (schedule_id) {
+        const schedule = await Schedule.findOne({
+          where: { id: schedule_id, company_id: req.user!.company_id }
+        });
+
+        if (!schedule) {
+          res.status(404).json({ error: 'Schedule not found' });
+          return;
+        }
+      }
+
+      await Company.update(
+        { schedule_id: schedule_id || null } as any,
+        { where: { id: req.user!.company_id } }
+      );
+
+      res.json({ default_schedule_id: schedule_id || null });
+    } catch (error) {
+      console.error('Error setting default schedule:', error);
+      res.status(500).json({ error: 'Failed to set default schedule' });
+    }
+  }
+
+  /**
+   * Is the schedule open right now (or at ?at=ISO timestamp)?
+   */
+  async getScheduleStatus(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { at } = req.query;
+
+      const schedule = await Schedule.findOne({
+        where: {
+          id: parseInt(id),
+          company_id: req.user!.company_id
+        }
+      });
+
+      if (!schedule) {
+        res.status(404).json({ error: 'Schedule not found' });
+        return;
+      }
+
+      const moment = at ? new Date(at as string) : new Date();
+      if (isNaN(moment.getTime())) {
+        res.status(400).json({ error: 'Invalid "at" timestamp' });
+        return;
+      }
+
+      const status = await ScheduleService.evaluate(schedule, moment);
+
+      res.json({
+        schedule_id: schedule.id,
+        evaluated_at: moment,
+        ...status
+      });
+    } catch (error) {
+      console.error('Error evaluating schedule:', error);
+      res.status(500).json({ error: 'Failed to evaluate schedule' });
+    }
+  }
+}
+
+export default new ScheduleController();
@@ -1,6 +1,7 @@
 // backend/src/controllers/SipController.ts - Enhanced version with live streaming
 import { Request, Response } from 'express';
 import twilio from 'twilio';
+import VoiceResponse from 'twilio/lib/twiml/VoiceResponse';
 import WebSocket from 'ws';
 import { AuthRequest } from '../middleware/auth';
 import {
@@ -10,19 +11,43 @@ import {
   CallRecording,
   CustomerProfile,
   SipEvent,
-  Visitor
+  Visitor,
+  RingGroup,
+  RingGroupMember,
+  CallQueue,
+  QueueEntry,
+  DialerContact
 } from '../models';
 import {
   CallStatus,
   CallDirection,
   CallDisposition,
   WebhookEvent,
-  LeadStatus
+  LeadStatus,
+  RingStrategy,
+  QueueEntryStatus,
+  SurveyStatus,
+  VoicemailTranscriptionStatus
 } from '../types/enums';
-import TwilioService from '../services/TwilioService';
+import { CallerIdReason } from '../types/interfaces';
 import WebhookService from '../services/WebhookService';
 import CallerIdService from '../services/CallerIdService';
 import RecordingService from '../services/RecordingService';
+import CallFlowService, { HOLD_MUSIC_URL } from '../services/CallFlowService';
+import IvrService from '../services/IvrService';
+import RingGroupService from '../services/RingGroupService';
+import QueueService from '../services/QueueService';
+import SpamService, { ScreeningResult } from '../services/SpamService';
+import RecordingConsentService from '../services/RecordingConsentService';
+import CallControlService from '../services/CallControlService';
+import TextBackService from '../services/TextBackService';
+import DialerService from '../services/DialerService';
+import LocalPresenceService from '../services/LocalPresenceService';
+import VoicemailService from '../services/VoicemailService';
+import SurveyService from '../services/SurveyService';
+import TelephonyService from '../services/TelephonyService';
+import CallbackGuardService from '../services/CallbackGuardService';
+import SipService from '../services/SipService';
 import { StorageService } from '../services/StorageService';
 import SocketManager from '../socket/SocketManager';
 import { generateCallSid } from '../utils/helpers';
@@ -74,6 +99,15 @@ interface TwilioRecordingCallbackRequest {
   AccountSid: string;
 }
 
+interface TwilioTranscriptionCallbackRequest {
+  TranscriptionSid: string;
+  TranscriptionText?: string;
+  TranscriptionStatus: string;
+  RecordingSid: string;
+  CallSid: string;
+  AccountSid: string;
+}
+
 interface TwilioDialCallbackRequest {
   CallSid: string;
   DialCallStatus: string;
@@ -84,6 +118,27 @@ interface TwilioDialCallbackRequest {
   RecordingSid?: string;
 }
 
+interface TwilioDialStatusRequest extends TwilioVoiceRequest {
+  DialCallStatus: string;
+  DialCallSid?: string;
+  DialCallDuration?: string;
+}
+
+interface TwilioIvrRequest extends TwilioVoiceRequest {
+  Digits?: string;
+  SpeechResult?: string;
+  Confidence?: string;
+}
+
+interface TwilioQueueRequest extends TwilioVoiceRequest {
+  QueueSid?: string;
+  QueueResult?: string;
+  QueueTime?: string;
+  QueuePosition?: string;
+  CurrentQueueSize?: string;
+  Digits?: string;
+}
+
 interface TwilioFallbackRequest extends TwilioVoiceRequest {
   ErrorCode?: string;
   ErrorUrl?: string;
@@ -134,6 +189,17 @@ class SipController {
         return;
       }
 
+      // Screen the caller against the company lists and spam heuristics
+      const screening = await SpamService.screenCall(trackingNumber.company, From, CallerName);
+      if (screening.action === 'block') {
+        await this.recordBlockedCall(req.body, trackingNumber, screening);
+
+        const twiml = CallFlowService.createResponse();
+        twiml.reject({ reason: 'rejected' });
+        res.type('text/xml').send(twiml.toString());
+        return;
+      }
+
       // NEW: Find visitor with this tracking number assigned
       let visitorId: string | undefined;
       let visitorRecord: Visitor | null = null;
@@ -183,6 +249,12 @@ class SipController {
       // Check for first-time caller
       const isFirstCall = created || customer.total_calls === 0;
 
+      // Recording and disclaimer depend on company settings and the caller's jurisdiction
+      const consent = RecordingConsentService.resolve(trackingNumber.company, trackingNumber, {
+        state: CallerState,
+        country: CallerCountry
+      });
+
       // Create call record
       const call = await Call.create({
         call_sid: CallSid,
@@ -199,7 +271,11 @@ class SipController {
         status: CallStatus.RINGING,
         start_time: new Date(),
         is_first_call: isFirstCall,
-        recording_enabled: true,
+        is_spam: screening.action === 'flag',
+        spam_score: screening.score,
+        recording_enabled: consent.record,
+        recording_consent: consent.path,
+        call_flow_version: trackingNumber.call_flow_version,
         source: visitorRecord?.first_source || trackingNumber.source,
         medium: visitorRecord?.first_medium || trackingNumber.medium,
         campaign: visitorRecord?.first_campaign || trackingNumber.campaign,
@@ -211,6 +287,8 @@ class SipController {
         metadata: {
           customer_id: customer.id,
           twilio_data: req.body,
+          ...(screening.reasons.length > 0 && { spam: screening }),
+          recording_consent: consent,
           caller_location: {
             city: CallerCity,
             state: CallerState,
@@ -292,7 +370,7 @@ class SipController {
       CallerIdService.enrichCall(call.id).catch(console.error);
 
       // Generate TwiML response to forward to SIP with recording and streaming
-      const twiml = this.generateSipForwardResponse(trackingNumber, call);
+      const twiml = await CallFlowService.generateInboundResponse(trackingNumber, call);
 
       res.type('text/xml');
       res.send(twiml);
@@ -304,45 +382,892 @@ class SipController {
   }
 
   /**
-   * Generate TwiML to forward call to SIP with recording and live streaming
+   * Store a rejected caller so blocked attempts show up in the call log
    */
-  private generateSipForwardResponse(trackingNumber: TrackingNumber, call: Call): string {
-    const twiml = new twilio.twiml.VoiceResponse();
+  private async recordBlockedCall(
+    body: TwilioVoiceRequest,
+    trackingNumber: TrackingNumber,
+    screening: ScreeningResult
+  ): Promise<void> {
+    const now = new Date();
+
+    const call = await Call.create({
+      call_sid: body.CallSid,
+      company_id: trackingNumber.company_id,
+      tracking_number_id: trackingNumber.id,
+      caller_number: body.From,
+      caller_name: body.CallerName,
+      caller_city: body.CallerCity,
+      caller_state: body.CallerState,
+      caller_country: body.CallerCountry,
+      caller_zip: body.CallerZip,
+      destination_number: body.To,
+      direction: CallDirection.INBOUND,
+      status: CallStatus.CANCELED,
+      disposition: CallDisposition.BLOCKED,
+      start_time: now,
+      end_time: now,
+      is_spam: true,
+      spam_score: screening.score,
+      recording_enabled: false,
+      source: trackingNumber.source,
+      medium: trackingNumber.medium,
+      campaign: trackingNumber.campaign,
+      metadata: {
+        twilio_data: body,
+        spam: screening
+      }
+    } as any);
+
+    await SipEvent.create({
+      company_id: trackingNumber.company_id,
+      call_id: call.id,
+      event_type: 'call_blocked',
+      event_timestamp: now,
+      event_data: screening,
+      sip_call_id: body.CallSid,
+      from_uri: body.From,
+      to_uri: body.To
+    } as any);
+
+    console.log(`Blocked call from ${body.From} (${screening.reasons.join(', ')}, score ${screening.score})`);
+
+    if (this.socketManager) {
+      this.socketManager.emitToCompany(trackingNumber.company_id, 'call:blocked', {
+        callId: call.id,
+        callSid: body.CallSid,
+        from: body.From,
+        to: body.To,
+        reasons: screening.reasons,
+        score: screening.score,
+        timestamp: now
+      });
+    }
+  }
+
+  /**
+   * Handle IVR menu requests: render a node or route the caller's input
+   */
+  async handleIvrRequest(
+    req: Request<{ trackingNumberId: string; nodeId: string }, {}, TwilioIvrRequest>,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { trackingNumberId, nodeId } = req.params;
+      const { CallSid, Digits, SpeechResult, Confidence } = req.body;
+      const attempt = parseInt(req.query.attempt as string) || 1;
+
+      const [trackingNumber, call] = await Promise.all([
+        TrackingNumber.findByPk(trackingNumberId),
+        Call.findOne({ where: { call_sid: CallSid } })
+      ]);
+
+      const ivr = trackingNumber?.call_flow?.ivr;
+      const node = IvrService.findNode(ivr, nodeId);
+
+      if (!trackingNumber || !call || !node) {
+        console.error(`IVR node ${nodeId} not found for tracking number ${trackingNumberId}`);
+        res.type('text/xml').send(this.generateErrorResponse());
+        return;
+      }
+
+      if (call.tracking_number_id !== trackingNumber.id) {
+        console.error(`Call ${CallSid} does not belong to tracking number ${trackingNumberId}`);
+        res.type('text/xml').send(this.generateErrorResponse());
+        return;
+      }
+
+      const twiml = CallFlowService.createResponse();
+
+      // First visit to this node (jumped to from another menu)
+      if (req.query.gathered !== 'true') {
+        IvrService.appendNode(twiml, trackingNumber, node, attempt);
+        res.type('text/xml').send(twiml.toString());
+        return;
+      }
+
+      const option = await CallFlowService.appendIvrInput(twiml, trackingNumber, call, node, {
+        digits: Digits,
+        speech: SpeechResult,
+        confidence: Confidence ? parseFloat(Confidence) : undefined
+      }, attempt);
+
+      if (option && this.socketManager) {
+        this.socketManager.emitToCompany(call.company_id, 'call:ivr_selection', {
+          callId: call.id,
+          callSid: call.call_sid,
+          nodeId: node.id,
+          option: option.label,
+          destination: option.destination.type,
+          timestamp: new Date()
+        });
+      }
+
+      res.type('text/xml').send(twiml.toString());
+    } catch (error) {
+      console.error('Error handling IVR request:', error);
+      res.type('text/xml').send(this.generateErrorResponse());
+    }
+  }
+
+  /**
+   * Keypress for a post-call survey question
+   */
+  async handleSurveyAnswer(
+    req: Request<{ trackingNumberId: string; questionIndex: string }, {}, TwilioIvrRequest>,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { trackingNumberId, questionIndex } = req.params;
+      const { CallSid, Digits } = req.body;
+      const attempt = parseInt(req.query.attempt as string) || 1;
+
+      const [trackingNumber, call] = await Promise.all([
+        TrackingNumber.findByPk(trackingNumberId),
+        Call.findOne({ where: { call_sid: CallSid } })
+      ]);
+
+      const twiml = CallFlowService.createResponse();
 
-    // Start media stream for live listening if WebSocket is available
-    if (process.env.ENABLE_LIVE_STREAMING === 'true') {
-      const stream = twiml.start();
-      stream.stream({
-        url: `wss://${process.env.BASE_DOMAIN}/api/sip/stream/${call.call_sid}`,
-        name: `stream_${call.call_sid}`,
-        track: 'both_tracks'
+      if (!trackingNumber || !call || call.tracking_number_id !== trackingNumber.id) {
+        twiml.hangup();
+        res.type('text/xml').send(twiml.toString());
+        return;
+      }
+
+      await SurveyService.handleAnswer(twiml, trackingNumber, call, parseInt(questionIndex), Digits, attempt);
+
+      if (call.survey_status === SurveyStatus.COMPLETED && this.socketManager) {
+        this.socketManager.emitToCompany(call.company_id, 'call:survey:completed', {
+          callId: call.id,
+          callSid: call.call_sid,
+          agentId: call.agent_id,
+          csatScore: call.csat_score,
+          answers: call.survey_answers,
+          timestamp: new Date()
+        });
+      }
+
+      res.type('text/xml').send(twiml.toString());
+    } catch (error) {
+      console.error('Error handling survey answer:', error);
+      res.type('text/xml').send(this.generateErrorResponse());
+    }
+  }
+
+  /**
+   * Ring group dial finished: continue with the next member or fall back when nobody answered
+   */
+  async handleRingGroupStatus(
+    req: Request<{ ringGroupId: string }, {}, TwilioDialStatusRequest>,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { ringGroupId } = req.params;
+      const { CallSid, DialCallStatus } = req.body;
+      const index = parseInt(req.query.index as string) || 0;
+
+      console.log(`Ring group ${ringGroupId} dial status: ${CallSid} -> ${DialCallStatus}`);
+
+      const twiml = CallFlowService.createResponse();
+      const call = await Call.findOne({ where: { call_sid: CallSid } });
+
+      // The agent leg was moved into a conference (hold / transfer): the caller follows
+      if (call && CallControlService.isInConference(call)) {
+        res.type('text/xml').send(CallControlService.buildConferenceTwiml(call));
+        return;
+      }
+
+      const declined = !!call && CallFlowService.wasScreenDeclined(call, req.body.DialCallSid);
+
+      // Remembered so the final status callback can tell a missed call from an answered one
+      if (call) {
+        await call.update({ metadata: { ...call.metadata, dial_status: declined ? 'no-answer' : DialCallStatus } });
+      }
+
+      // Someone picked up and the conversation is over (unless they declined the screen)
+      if ((DialCallStatus === 'completed' || DialCallStatus === 'answered') && !declined) {
+        await this.appendAnsweredDialEnd(twiml, call, req.body.CallStatus);
+        res.type('text/xml').send(twiml.toString());
+        return;
+      }
+
+      const [group, trackingNumber] = call
+        ? await Promise.all([
+          RingGroup.findOne({ where: { id: parseInt(ringGroupId), company_id: call.company_id } }),
+          TrackingNumber.findByPk(call.tracking_number_id)
+        ])
+        : [null, null];
+
+      if (!call || !group || !trackingNumber) {
+        twiml.hangup();
+        res.type('text/xml').send(twiml.toString());
+        return;
+      }
+
+      if (group.strategy === RingStrategy.SIMULTANEOUS) {
+        await CallFlowService.appendRingGroupFallback(twiml, trackingNumber, call, group);
+      } else {
+        // Keep the order chosen when the call entered the group
+        const memberIds: number[] = call.metadata?.ring_group?.member_ids || [];
+        const members = await RingGroupMember.findAll({ where: { id: memberIds } });
+        const ordered = memberIds
+          .map(id => members.find(member => member.id === id))
+          .filter((member): member is RingGroupMember => !!member);
+
+        await CallFlowService.appendRingGroupAttempt(twiml, trackingNumber, call, group, ordered, index + 1);
+      }
+
+      res.type('text/xml').send(twiml.toString());
+    } catch (error) {
+      console.error('Error handling ring group status:', error);
+      res.type('text/xml').send(this.generateErrorResponse());
+    }
+  }
+
+  /**
+   * A ring group member picked up (Dial noun url): play the whisper and record who answered
+   */
+  async handleRingGroupAnswered(
+    req: Request<{ ringGroupId: string }, {}, TwilioVoiceRequest & { ParentCallSid?: string }>,
+    res: Response
+  ): Promise<void> {
+    const twiml = CallFlowService.createResponse();
+
+    try {
+      const { ringGroupId } = req.params;
+      const { CallSid, ParentCallSid, To } = req.body;
+      const memberId = parseInt(req.query.member_id as string);
+
+      const call = await Call.findOne({ where: { call_sid: ParentCallSid || CallSid } });
+      const member = call
+        ? await RingGroupMember.findOne({
+          where: { id: memberId, ring_group_id: parseInt(ringGroupId) },
+          include: [{ model: RingGroup, where: { company_id: call.company_id }, required: true }]
+        })
+        : null;
+
+      if (call && member) {
+        const trackingNumber = await TrackingNumber.findByPk(call.tracking_number_id);
+        if (trackingNumber) {
+          CallFlowService.appendWhisper(twiml, trackingNumber, call, {
+            ring_group_id: member.ring_group_id,
+            member_id: member.id
+          });
+        }
+
+        // A screened member has not taken the call yet: it is recorded when they press 1
+        if (!trackingNumber || !CallFlowService.isScreening(trackingNumber)) {
+          await this.recordRingGroupAnswer(call, member, To);
+        }
+      }
+    } catch (error) {
+      // Never block the bridge because of bookkeeping
+      console.error('Error handling ring group answer:', error);
+    }
+
+    res.type('text/xml').send(twiml.toString());
+  }
+
+  /**
+   * Queue wait loop: enforce max wait, hand callers to free agents and play
+   * hold music with position / ETA announcements every announcement interval
+   */
+  async handleQueueWait(
+    req: Request<{ queueId: string }, {}, TwilioQueueRequest>,
+    res: Response
+  ): Promise<void> {
+    const twiml = CallFlowService.createResponse();
+
+    try {
+      const { queueId } = req.params;
+      const { CallSid, QueueSid } = req.body;
+
+      const call = await Call.findOne({ where: { call_sid: CallSid } });
+      const queue = call
+        ? await CallQueue.findOne({ where: { id: parseInt(queueId), company_id: call.company_id } })
+        : null;
+      const entry = call && queue ? await QueueService.findOpenEntry(queue.id, call.id) : null;
+
+      if (!call || !queue || !entry) {
+        twiml.leave();
+        res.type('text/xml').send(twiml.toString());
+        return;
+      }
+
+      if (!queue.twilio_queue_sid && QueueSid) {
+        await queue.update({ twilio_queue_sid: QueueSid });
+      }
+
+      if (entry.status === QueueEntryStatus.WAITING &&
+        QueueService.getWaitSeconds(entry) >= queue.max_wait_seconds) {
+        await QueueService.markLeft(entry, call, QueueEntryStatus.OVERFLOWED);
+        twiml.leave();
+        res.type('text/xml').send(twiml.toString());
+        return;
+      }
+
+      // The caller is in the Twilio queue now, so they can be handed to an agent
+      QueueService.dispatch(call.company_id)
+        .catch(error => console.error('Error dispatching queue calls:', error));
+
+      const now = new Date();
+      const announcementDue = !entry.last_announced_at ||
+        now.getTime() - new Date(entry.last_announced_at).getTime() >= queue.announcement_interval_seconds * 1000;
+
+      let announcement: string | null = null;
+      if (announcementDue) {
+        announcement = await this.buildQueueAnnouncement(queue, entry);
+        await entry.update({ last_announced_at: now });
+      }
+
+      CallFlowService.appendQueueWait(twiml, queue, announcement);
+      res.type('text/xml').send(twiml.toString());
+    } catch (error) {
+      console.error('Error handling queue wait:', error);
+      twiml.play(HOLD_MUSIC_URL);
+      res.type('text/xml').send(twiml.toString());
+    }
+  }
+
+  /**
+   * Key pressed while holding: leave the queue for voicemail, anything else keeps waiting
+   */
+  async handleQueueOption(
+    req: Request<{ queueId: string }, {}, TwilioQueueRequest>,
+    res: Response
+  ): Promise<void> {
+    const twiml = CallFlowService.createResponse();
+
+    try {
+      const { queueId } = req.params;
+      const { CallSid, Digits } = req.body;
+
+      const call = await Call.findOne({ where: { call_sid: CallSid } });
+      const queue = call
+        ? await CallQueue.findOne({ where: { id: parseInt(queueId), company_id: call.company_id } })
+        : null;
+      const entry = call && queue ? await QueueService.findOpenEntry(queue.id, call.id) : null;
+
+      if (call && queue && entry && queue.voicemail_digit && Digits === queue.voicemail_digit) {
+        await QueueService.markLeft(entry, call, QueueEntryStatus.VOICEMAIL);
+        twiml.leave();
+      } else {
+        twiml.redirect({ method: 'POST' }, QueueService.getQueueUrl(parseInt(queueId), 'wait'));
+      }
+
+      res.type('text/xml').send(twiml.toString());
+    } catch (error) {
+      console.error('Error handling queue option:', error);
+      twiml.redirect({ method: 'POST' }, QueueService.getQueueUrl(parseInt(req.params.queueId), 'wait'));
+      res.type('text/xml').send(twiml.toString());
+    }
+  }
+
+  /**
+   * Enqueue action: the caller left the queue. Decide where they go next.
+   */
+  async handleQueueLeave(
+    req: Request<{ queueId: string }, {}, TwilioQueueRequest>,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { queueId } = req.params;
+      const { CallSid, QueueResult } = req.body;
+
+      console.log(`Queue ${queueId} leave: ${CallSid} -> ${QueueResult}`);
+
+      const twiml = CallFlowService.createResponse();
+      const call = await Call.findOne({ where: { call_sid: CallSid } });
+      const queue = call
+        ? await CallQueue.findOne({ where: { id: parseInt(queueId), company_id: call.company_id } })
+        : null;
+      const entry = call && queue && call.metadata?.queue?.entry_id
+        ? await QueueEntry.findOne({ where: { id: call.metadata.queue.entry_id, queue_id: queue.id } })
+        : null;
+
+      if (!call || !queue || !entry) {
+        twiml.hangup();
+        res.type('text/xml').send(twiml.toString());
+        return;
+      }
+
+      switch (QueueResult) {
+        case 'hangup':
+          await QueueService.abandonOpenEntries(call);
+          res.type('text/xml').send(twiml.toString());
+          return;
+
+        // Bridged call with an agent ended: the caller may still take the survey
+        case 'bridged': {
+          const trackingNumber = await TrackingNumber.findByPk(call.tracking_number_id);
+          if (trackingNumber && req.body.CallStatus === 'in-progress' && SurveyService.shouldOffer(call, trackingNumber)) {
+            await SurveyService.start(twiml, trackingNumber, call);
+          }
+          res.type('text/xml').send(twiml.toString());
+          return;
+        }
+
+        // Dequeued to an agent: the connect callback takes over
+        case 'bridging-in-process':
+        case 'redirected':
+          res.type('text/xml').send(twiml.toString());
+          return;
+      }
+
+      const trackingNumber = await TrackingNumber.findByPk(call.tracking_number_id);
+      if (!trackingNumber) {
+        twiml.hangup();
+        res.type('text/xml').send(twiml.toString());
+        return;
+      }
+
+      if (entry.status === QueueEntryStatus.VOICEMAIL) {
+        CallFlowService.appendVoicemail(twiml, trackingNumber.call_flow);
+      } else {
+        // Max wait reached, queue full or a Twilio error
+        if (entry.status === QueueEntryStatus.WAITING || entry.status === QueueEntryStatus.CONNECTING) {
+          await QueueService.markLeft(entry, call, QueueEntryStatus.OVERFLOWED);
+        }
+        await CallFlowService.appendQueueOverflow(twiml, trackingNumber, call, queue);
+      }
+
+      await SipService.recordCallEvent(call, 'queue_leave', {
+        queue_id: queue.id,
+        result: QueueResult,
+        status: entry.status,
+        wait_seconds: entry.wait_seconds
       });
+
+      res.type('text/xml').send(twiml.toString());
+    } catch (error) {
+      console.error('Error handling queue leave:', error);
+      res.type('text/xml').send(this.generateErrorResponse());
     }
+  }
 
-    // Configure dial with recording
-    const dial = twiml.dial({
-      timeout: trackingNumber.call_flow?.timeout_seconds || 30,
-      action: `${process.env.BASE_URL}/api/sip/dial-status`,
-      method: 'POST',
-      callerId: call.caller_number,
-      record: 'record-from-answer-dual', // Records both channels
-      recordingStatusCallback: `${process.env.BASE_URL}/api/sip/recording-status`,
-      recordingStatusCallbackMethod: 'POST',
-      recordingStatusCallbackEvent: ['completed', 'in-progress']
-    });
+  /**
+   * A queued caller was dequeued for an agent: ring that agent
+   */
+  async handleQueueConnect(
+    req: Request<{ queueId: string }, {}, TwilioQueueRequest>,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { queueId } = req.params;
+      const { CallSid } = req.body;
+      const entryId = parseInt(req.query.entry_id as string);
+
+      const twiml = CallFlowService.createResponse();
+      const call = await Call.findOne({ where: { call_sid: CallSid } });
+      const [queue, entry, trackingNumber] = call
+        ? await Promise.all([
+          CallQueue.findOne({ where: { id: parseInt(queueId), company_id: call.company_id } }),
+          QueueEntry.findOne({ where: { id: entryId, call_id: call.id } }),
+          TrackingNumber.findByPk(call.tracking_number_id)
+        ])
+        : [null, null, null];
+
+      if (!call || !queue || !entry || !trackingNumber) {
+        twiml.hangup();
+        res.type('text/xml').send(twiml.toString());
+        return;
+      }
+
+      const endpoint = entry.status === QueueEntryStatus.CONNECTING && entry.agent_id
+        ? await CallFlowService.resolveUserEndpoint(call.company_id, entry.agent_id)
+        : null;
+
+      if (!endpoint) {
+        await QueueService.requeue(entry);
+        await CallFlowService.appendQueue(twiml, trackingNumber, call, queue);
+      } else {
+        CallFlowService.appendQueueConnect(twiml, trackingNumber, call, entry, endpoint);
+      }
+
+      res.type('text/xml').send(twiml.toString());
+    } catch (error) {
+      console.error('Error handling queue connect:', error);
+      res.type('text/xml').send(this.generateErrorResponse());
+    }
+  }
+
+  /**
+   * Dial action after ringing a queue agent. A missed agent sends the caller back to the queue.
+   */
+  async handleQueueConnectStatus(
+    req: Request<{ queueId: string }, {}, TwilioDialStatusRequest>,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { queueId } = req.params;
+      const { CallSid, DialCallStatus } = req.body;
+      const entryId = parseInt(req.query.entry_id as string);
+
+      console.log(`Queue ${queueId} agent dial status: ${CallSid} -> ${DialCallStatus}`);
+
+      const twiml = CallFlowService.createResponse();
+      const call = await Call.findOne({ where: { call_sid: CallSid } });
+
+      // The agent leg was moved into a conference (hold / transfer): the caller follows
+      if (call && CallControlService.isInConference(call)) {
+        res.type('text/xml').send(CallControlService.buildConferenceTwiml(call));
+        return;
+      }
+
+      if ((DialCallStatus === 'completed' || DialCallStatus === 'answered') &&
+        !(call && CallFlowService.wasScreenDeclined(call, req.body.DialCallSid))) {
+        await this.appendAnsweredDialEnd(twiml, call, req.body.CallStatus);
+        res.type('text/xml').send(twiml.toString());
+        return;
+      }
+
+      const [queue, entry, trackingNumber] = call
+        ? await Promise.all([
+          CallQueue.findOne({ where: { id: parseInt(queueId), company_id: call.company_id } }),
+          QueueEntry.findOne({ where: { id: entryId, call_id: call.id } }),
+          TrackingNumber.findByPk(call.tracking_number_id)
+        ])
+        : [null, null, null];
+
+      if (!call || !queue || !entry || !trackingNumber) {
+        twiml.hangup();
+        res.type('text/xml').send(twiml.toString());
+        return;
+      }
+
+      await SipService.recordCallEvent(call, 'queue_agent_missed', {
+        queue_id: queue.id,
+        agent_id: entry.agent_id,
+        dial_status: DialCallStatus
+      });
+
+      await QueueService.requeue(entry);
+      await CallFlowService.appendQueue(twiml, trackingNumber, call, queue);
+
+      res.type('text/xml').send(twiml.toString());
+    } catch (error) {
+      console.error('Error handling queue connect status:', error);
+      res.type('text/xml').send(this.generateErrorResponse());
+    }
+  }
+
+  /**
+   * A queue agent picked up (Dial noun url): play the whisper and stop the queue clock
+   */
+  async handleQueueAnswered(
+    req: Request<{ queueId: string }, {}, TwilioVoiceRequest & { ParentCallSid?: string }>,
+    res: Response
+  ): Promise<void> {
+    const twiml = CallFlowService.createResponse();
 
-    // Add SIP endpoint
-    if (this.SIP_USERNAME && this.SIP_PASSWORD) {
-      dial.sip({
-        username: this.SIP_USERNAME,
-        password: this.SIP_PASSWORD
-      }, `sip:${this.SIP_ENDPOINT}`);
+    try {
+      const { queueId } = req.params;
+      const { CallSid, ParentCallSid, To } = req.body;
+      const entryId = parseInt(req.query.entry_id as string);
+
+      const call = await Call.findOne({ where: { call_sid: ParentCallSid || CallSid } });
+      const entry = call
+        ? await QueueEntry.findOne({ where: { id: entryId, call_id: call.id, queue_id: parseInt(queueId) } })
+        : null;
+
+      if (call && entry) {
+        const trackingNumber = await TrackingNumber.findByPk(call.tracking_number_id);
+        if (trackingNumber) {
+          CallFlowService.appendWhisper(twiml, trackingNumber, call, {
+            queue_id: entry.queue_id,
+            entry_id: entry.id
+          });
+        }
+
+        // A screened agent has not taken the call yet: it is recorded when they press 1
+        if (!trackingNumber || !CallFlowService.isScreening(trackingNumber)) {
+          await this.recordQueueAnswer(call, entry, To);
+        }
+      }
+    } catch (error) {
+      // Never block the bridge because of bookkeeping
+      console.error('Error handling queue answer:', error);
+    }
+
+    res.type('text/xml').send(twiml.toString());
+  }
+
+  /**
+   * A dialer agent picked up: dial their contact
+   */
+  async handleDialerConnect(
+    req: Request<{ contactId: string }, {}, TwilioVoiceRequest>,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { CallSid } = req.body;
+
+      const twiml = CallFlowService.createResponse();
+      const call = await Call.findOne({ where: { call_sid: CallSid } });
+      const contact = call
+        ? await DialerContact.findOne({ where: { id: parseInt(req.params.contactId), call_id: call.id } })
+        : null;
+
+      if (!call || !contact || !(await DialerService.appendContactDial(twiml, contact, call))) {
+        twiml.say({ voice: 'alice' }, 'There is no contact to dial right now.');
+        twiml.hangup();
+      }
+
+      res.type('text/xml').send(twiml.toString());
+    } catch (error) {
+      console.error('Error handling dialer connect:', error);
+      res.type('text/xml').send(this.generateErrorResponse());
+    }
+  }
+
+  /**
+   * A dialer contact picked up (Dial noun url): mark them connected before bridging
+   */
+  async handleDialerAnswered(
+    req: Request<{ contactId: string }, {}, TwilioVoiceRequest & { ParentCallSid?: string }>,
+    res: Response
+  ): Promise<void> {
+    const twiml = CallFlowService.createResponse();
+
+    try {
+      const { CallSid, ParentCallSid, To } = req.body;
+
+      const call = await Call.findOne({ where: { call_sid: ParentCallSid || CallSid } });
+      const contact = call
+        ? await DialerContact.findOne({ where: { id: parseInt(req.params.contactId), call_id: call.id } })
+        : null;
+
+      if (call && contact) {
+        await DialerService.markConnected(contact, call);
+
+        await SipService.recordCallEvent(call, 'answer', {
+          answered_by: To,
+          dialer_campaign_id: contact.campaign_id,
+          dialer_contact_id: contact.id
+        });
+      }
+    } catch (error) {
+      // Never block the bridge because of bookkeeping
+      console.error('Error handling dialer answer:', error);
+    }
+
+    res.type('text/xml').send(twiml.toString());
+  }
+
+  /**
+   * Dial action after ringing a dialer contact: record the result and let the agent go
+   */
+  async handleDialerResult(
+    req: Request<{ contactId: string }, {}, TwilioDialStatusRequest>,
+    res: Response
+  ): Promise<void> {
+    try {
+      const { CallSid, DialCallStatus } = req.body;
+
+      console.log(`Dialer contact ${req.params.contactId} dial status: ${CallSid} -> ${DialCallStatus}`);
+
+      const twiml = CallFlowService.createResponse();
+      const call = await Call.findOne({ where: { call_sid: CallSid } });
+      const contact = call
+        ? await DialerContact.findOne({ where: { id: parseInt(req.params.contactId), call_id: call.id } })
+        : null;
+
+      if (call && contact) {
+        const result = await DialerService.recordResult(contact, call, DialCallStatus);
+        twiml.say({ voice: 'alice' }, DialerService.describeResult(result));
+      }
+
+      twiml.hangup();
+      res.type('text/xml').send(twiml.toString());
+    } catch (error) {
+      console.error('Error handling dialer result:', error);
+      res.type('text/xml').send(this.generateErrorResponse());
+    }
+  }
+
+  private async buildQueueAnnouncement(queue: CallQueue, entry: QueueEntry): Promise<string | null> {
+    const parts: string[] = [];
+
+    if (!entry.last_announced_at) {
+      parts.push('All of our agents are currently busy. Please stay on the line.');
+    }
+
+    if (queue.announce_position) {
+      const position = await QueueService.getPosition(entry);
+      parts.push(`You are caller number ${position} in line.`);
+    }
+
+    if (queue.announce_wait_time) {
+      const eta = await QueueService.estimateWaitSeconds(entry);
+      if (eta) {
+        const minutes = Math.max(1, Math.round(eta / 60));
+        parts.push(`Your estimated wait time is about ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+      }
+    }
+
+    if (queue.voicemail_digit) {
+      parts.push(`To leave a voicemail instead, press ${queue.voicemail_digit} at any time.`);
+    }
+
+    return parts.length > 0 ? parts.join(' ') : null;
+  }
+
+  /**
+   * Dial noun url for direct dials: play the whisper to the answering party before bridging
+   */
+  async handleWhisper(
+    req: Request<{ trackingNumberId: string }, {}, TwilioVoiceRequest & { ParentCallSid?: string }>,
+    res: Response
+  ): Promise<void> {
+    const twiml = CallFlowService.createResponse();
+
+    try {
+      const { trackingNumberId } = req.params;
+      const { CallSid, ParentCallSid } = req.body;
+
+      const call = await Call.findOne({ where: { call_sid: ParentCallSid || CallSid } });
+      const trackingNumber = call
+        ? await TrackingNumber.findOne({ where: { id: parseInt(trackingNumberId), company_id: call.company_id } })
+        : null;
+
+      if (call && trackingNumber) {
+        CallFlowService.appendWhisper(twiml, trackingNumber, call);
+      }
+    } catch (error) {
+      // Never block the bridge because of the announcement
+      console.error('Error handling whisper:', error);
+    }
+
+    res.type('text/xml').send(twiml.toString());
+  }
+
+  /**
+   * The answering party's response to the screening prompt. Anything but 1 (or no
+   * key at all) declines: the leg hangs up and the caller's dial moves on.
+   */
+  async handleWhisperAccept(
+    req: Request<{ trackingNumberId: string }, {}, TwilioIvrRequest & { ParentCallSid?: string }>,
+    res: Response
+  ): Promise<void> {
+    const twiml = CallFlowService.createResponse();
+
+    try {
+      const { CallSid, ParentCallSid, Digits, To } = req.body;
+      const accepted = Digits === '1';
+
+      const call = ParentCallSid ? await Call.findOne({ where: { call_sid: ParentCallSid } }) : null;
+
+      if (call) {
+        if (!accepted) {
+          await call.update({
+            metadata: {
+              ...call.metadata,
+              screen_declined: [...(call.metadata?.screen_declined || []), CallSid]
+            }
+          });
+        }
+
+        await SipService.recordCallEvent(call, accepted ? 'screen_accepted' : 'screen_declined', {
+          agent_call_sid: CallSid,
+          answered_by: To,
+          digits: Digits
+        });
+
+        // Ring group and queue answers wait for the accept (see handleRingGroupAnswered / handleQueueAnswered)
+        if (accepted) {
+          await this.recordScreenedAnswer(call, req.query, To);
+        }
+      }
+
+      if (!accepted) {
+        twiml.hangup();
+      }
+    } catch (error) {
+      console.error('Error handling screening response:', error);
+    }
+
+    res.type('text/xml').send(twiml.toString());
+  }
+
+  /**
+   * An agent hung up an answered ring group or queue dial: offer the post-call survey
+   * while the caller is still on the line, otherwise hang up
+   */
+  private async appendAnsweredDialEnd(twiml: VoiceResponse, call: Call | null, callStatus?: string): Promise<void> {
+    const trackingNumber = call && callStatus === 'in-progress'
+      ? await TrackingNumber.findByPk(call.tracking_number_id)
+      : null;
+
+    if (call && trackingNumber && SurveyService.shouldOffer(call, trackingNumber)) {
+      await SurveyService.start(twiml, trackingNumber, call);
     } else {
-      dial.sip(`sip:${this.SIP_ENDPOINT}`);
+      twiml.hangup();
     }
+  }
 
-    console.log('Generated TwiML for SIP routing:', twiml.toString());
-    return twiml.toString();
+  /**
+   * Ring group or queue answer deferred until the agent accepted the screening prompt
+   */
+  private async recordScreenedAnswer(call: Call, query: Request['query'], answeredBy: string): Promise<void> {
+    const memberId = parseInt(query.member_id as string);
+    const entryId = parseInt(query.entry_id as string);
+
+    if (memberId) {
+      const member = await RingGroupMember.findOne({
+        where: { id: memberId, ring_group_id: parseInt(query.ring_group_id as string) },
+        include: [{ model: RingGroup, where: { company_id: call.company_id }, required: true }]
+      });
+      if (member) await this.recordRingGroupAnswer(call, member, answeredBy);
+    } else if (entryId) {
+      const entry = await QueueEntry.findOne({
+        where: { id: entryId, call_id: call.id, queue_id: parseInt(query.queue_id as string) }
+      });
+      if (entry) await this.recordQueueAnswer(call, entry, answeredBy);
+    }
+  }
+
+  private async recordRingGroupAnswer(call: Call, member: RingGroupMember, answeredBy: string): Promise<void> {
+    await RingGroupService.recordAnswer(call, member);
+
+    await SipService.recordCallEvent(call, 'answer', {
+      answered_by: answeredBy,
+      ring_group_id: member.ring_group_id,
+      member_id: member.id,
+      agent_id: member.user_id
+    });
+
+    if (this.socketManager) {
+      this.socketManager.emitToCompany(call.company_id, 'call:answered', {
+        callId: call.id,
+        callSid: call.call_sid,
+        agentId: member.user_id,
+        ringGroupId: member.ring_group_id,
+        timestamp: new Date()
+      });
+    }
+  }
+
+  private async recordQueueAnswer(call: Call, entry: QueueEntry, answeredBy: string): Promise<void> {
+    await QueueService.markAnswered(entry, call);
+
+    await SipService.recordCallEvent(call, 'answer', {
+      answered_by: answeredBy,
+      queue_id: entry.queue_id,
+      agent_id: entry.agent_id,
+      queue_time: entry.wait_seconds
+    });
+
+    if (this.socketManager) {
+      this.socketManager.emitToCompany(call.company_id, 'call:answered', {
+        callId: call.id,
+        callSid: call.call_sid,
+        agentId: entry.agent_id,
+        queueId: entry.queue_id,
+        queueTime: entry.wait_seconds,
+        timestamp: new Date()
+      });
+    }
   }
 
   /**
@@ -468,8 +1393,20 @@ class SipController {
         return;
       }
 
+      // The agent leg was moved into a conference (hold / transfer): the caller follows
+      if (CallControlService.isInConference(call)) {
+        res.type('text/xml').send(CallControlService.buildConferenceTwiml(call));
+        return;
+      }
+
+      const declined = CallFlowService.wasScreenDeclined(call, DialCallSid);
+
+      // Remembered so the final status callback can tell a missed call from an answered one
+      await call.update({ metadata: { ...call.metadata, dial_status: declined ? 'no-answer' : DialCallStatus } });
+
       // Update call status based on dial result
-      if (DialCallStatus === 'answered') {
+      if (DialCallStatus === 'answered' && !declined &&
+        CallbackGuardService.canTransition(call.status, CallStatus.IN_PROGRESS)) {
         await call.update({
           status: CallStatus.IN_PROGRESS,
           answer_time: new Date()
@@ -492,26 +1429,37 @@ class SipController {
       // Handle voicemail if call wasn't answered and voicemail is enabled
       const trackingNumber = await TrackingNumber.findByPk(call.tracking_number_id);
 
+      // The agent declined the screening prompt: move on to the decline destination
+      if (trackingNumber && declined) {
+        const twiml = CallFlowService.createResponse();
+        await CallFlowService.appendDestination(
+          twiml,
+          trackingNumber,
+          call,
+          trackingNumber.call_flow?.whisper?.decline_destination ||
+            (trackingNumber.call_flow?.voicemail_enabled ? { type: 'voicemail' } : { type: 'hangup' })
+        );
+
+        res.type('text/xml').send(twiml.toString());
+        return;
+      }
+
+      // The agent hung up an answered call while the caller is still on the line
+      if (trackingNumber && (DialCallStatus === 'completed' || DialCallStatus === 'answered') &&
+        req.body.CallStatus === 'in-progress' && SurveyService.shouldOffer(call, trackingNumber)) {
+        const twiml = CallFlowService.createResponse();
+        await SurveyService.start(twiml, trackingNumber, call);
+
+        res.type('text/xml').send(twiml.toString());
+        return;
+      }
+
       if (trackingNumber &&
         trackingNumber.call_flow?.voicemail_enabled &&
-        (DialCallStatus === 'no_answer' || DialCallStatus === 'busy')) {
-
-        const twiml = new twilio.twiml.VoiceResponse();
-
-        // Play voicemail greeting
-        twiml.say({
-          voice: 'alice'
-        }, trackingNumber.call_flow.voicemail_greeting || 'Please leave a message after the beep.');
-
-        // Record voicemail
-        twiml.record({
-          maxLength: 120, // 2 minutes max for voicemail
-          playBeep: true,
-          transcribe: trackingNumber.call_flow.voicemail_transcribe || false,
-          transcribeCallback: `${process.env.BASE_URL}/api/sip/voicemail-transcription`,
-          recordingStatusCallback: `${process.env.BASE_URL}/api/sip/voicemail-recording`,
-          recordingStatusCallbackMethod: 'POST'
-        });
+        (DialCallStatus === 'no-answer' || DialCallStatus === 'busy')) {
+
+        const twiml = CallFlowService.createResponse();
+        CallFlowService.appendVoicemail(twiml, trackingNumber.call_flow);
 
         res.type('text/xml').send(twiml.toString());
       } else {
@@ -528,6 +1476,8 @@ class SipController {
    * Handle call status updates from Twilio
    */
   async handleCallStatus(req: Request<{}, {}, TwilioStatusCallbackRequest>, res: Response): Promise<void> {
+    let claim: { call: Call; key: string } | null = null;
+
     try {
       const {
         CallSid,
@@ -535,7 +1485,8 @@ class SipController {
         CallDuration,
         RecordingUrl,
         RecordingSid,
-        RecordingDuration
+        RecordingDuration,
+        SequenceNumber
       } = req.body;
 
       console.log(`Call status update: ${CallSid} - ${TwilioStatus}`);
@@ -549,7 +1500,7 @@ class SipController {
 
       // Map Twilio status to our status
       let newStatus: CallStatus = call.status;
-      let disposition: CallDisposition | undefined;
+      let disposition: CallDisposition | undefined = call.disposition;
 
       switch (TwilioStatus) {
         case 'ringing':
@@ -564,6 +1515,7 @@ class SipController {
         case 'busy':
           newStatus = CallStatus.BUSY;
           break;
+        case 'no-answer':
         case 'no_answer':
           newStatus = CallStatus.NO_ANSWER;
           break;
@@ -575,6 +1527,29 @@ class SipController {
           break;
       }
 
+      // Twilio retries and reorders callbacks: skip old ones and repeats
+      if (CallbackGuardService.isStale(call, newStatus, SequenceNumber)) {
+        console.log(`Ignoring out-of-order status ${TwilioStatus} for ${CallSid} (call is ${call.status})`);
+        res.sendStatus(200);
+        return;
+      }
+
+      const callbackKey = CallbackGuardService.statusCallbackKey(CallSid, TwilioStatus, SequenceNumber);
+      if (!(await CallbackGuardService.claim(call, callbackKey))) {
+        console.log(`Duplicate status callback acknowledged: ${callbackKey}`);
+        res.sendStatus(200);
+        return;
+      }
+      claim = { call, key: callbackKey };
+
+      const ended = [CallStatus.COMPLETED, CallStatus.FAILED, CallStatus.CANCELED].includes(newStatus);
+
+      // Caller hung up while waiting in a queue
+      if (ended) {
+        await QueueService.abandonOpenEntries(call);
+        disposition = call.disposition;
+      }
+
       // Calculate call duration and times
       const endTime = new Date();
       const duration = CallDuration ? parseInt(CallDuration) : 0;
@@ -591,6 +1566,7 @@ class SipController {
         metadata: {
           ...call.metadata,
           twilio_final_status: TwilioStatus,
+          status_sequence: SequenceNumber !== undefined ? parseInt(SequenceNumber) : call.metadata?.status_sequence,
           recording_url: RecordingUrl,
           recording_sid: RecordingSid,
           recording_duration: RecordingDuration
@@ -613,6 +1589,31 @@ class SipController {
         );
       }
 
+      // An agent may have just freed up for queued callers
+      if (ended) {
+        QueueService.dispatch(call.company_id)
+          .catch(error => console.error('Error dispatching queue calls:', error));
+      }
+
+      // The caller hung up during the post-call survey
+      if (call.survey_status && CallbackGuardService.isFinal(newStatus)) {
+        SurveyService.finalize(call)
+          .catch(error => console.error('Error closing call survey:', error));
+      }
+
+      // Dialer calls: clean up after the agent's leg and dial the next contact
+      if (call.metadata?.dialer && CallbackGuardService.isFinal(newStatus)) {
+        DialerService.handleCallEnded(call)
+          .catch(error => console.error('Error handling dialer call end:', error));
+      }
+
+      // Follow up on missed inbound calls by text
+      if ((ended || newStatus === CallStatus.BUSY || newStatus === CallStatus.NO_ANSWER) &&
+        call.direction === CallDirection.INBOUND) {
+        TextBackService.scheduleForCall(call)
+          .catch(error => console.error('Error scheduling missed-call text:', error));
+      }
+
       // Trigger webhook
       await WebhookService.triggerWebhooks(
         call.company_id,
@@ -630,6 +1631,7 @@ class SipController {
       res.sendStatus(200);
     } catch (error) {
       console.error('Error handling call status:', error);
+      if (claim) await CallbackGuardService.release(claim.call, claim.key);
       res.sendStatus(200);
     }
   }
@@ -638,6 +1640,8 @@ class SipController {
    * Enhanced recording status handler with real-time notifications
    */
   async handleRecordingStatus(req: Request<{}, {}, TwilioRecordingCallbackRequest>, res: Response): Promise<void> {
+    let claim: { call: Call; key: string } | null = null;
+
     try {
       const {
         RecordingSid,
@@ -672,6 +1676,14 @@ class SipController {
         return;
       }
 
+      const callbackKey = CallbackGuardService.recordingCallbackKey(CallSid, RecordingSid, RecordingStatus);
+      if (!(await CallbackGuardService.claim(call, callbackKey))) {
+        console.log(`Duplicate recording callback acknowledged: ${callbackKey}`);
+        res.sendStatus(200);
+        return;
+      }
+      claim = { call, key: callbackKey };
+
       // Process the recording
       const recording = await RecordingService.processCallRecording(
         call.id,
@@ -714,9 +1726,83 @@ class SipController {
       res.sendStatus(200);
     } catch (error) {
       console.error('Error handling recording status:', error);
+      if (claim) await CallbackGuardService.release(claim.call, claim.key);
       res.sendStatus(200);
     }
   }
+
+  /**
+   * Voicemail recording finished: save it to the inbox
+   */
+  async handleVoicemailRecording(req: Request<{}, {}, TwilioRecordingCallbackRequest>, res: Response): Promise<void> {
+    let claim: { call: Call; key: string } | null = null;
+
+    try {
+      const { RecordingSid, RecordingUrl, RecordingStatus, RecordingDuration, CallSid } = req.body;
+
+      if (RecordingStatus !== 'completed') {
+        if (RecordingStatus === 'failed') console.error(`Voicemail recording failed for call: ${CallSid}`);
+        res.sendStatus(200);
+        return;
+      }
+
+      const call = await Call.findOne({ where: { call_sid: CallSid } });
+      if (!call) {
+        console.error(`Call not found for voicemail: ${CallSid}`);
+        res.sendStatus(200);
+        return;
+      }
+
+      const callbackKey = CallbackGuardService.recordingCallbackKey(CallSid, RecordingSid, RecordingStatus);
+      if (!(await CallbackGuardService.claim(call, callbackKey))) {
+        console.log(`Duplicate voicemail callback acknowledged: ${callbackKey}`);
+        res.sendStatus(200);
+        return;
+      }
+      claim = { call, key: callbackKey };
+
+      await VoicemailService.recordVoicemail(call, {
+        recordingSid: RecordingSid,
+        recordingUrl: RecordingUrl,
+        duration: parseInt(RecordingDuration) || 0
+      });
+
+      console.log(`Voicemail saved for call ${CallSid}`);
+      res.sendStatus(200);
+    } catch (error) {
+      console.error('Error handling voicemail recording:', error);
+      if (claim) await CallbackGuardService.release(claim.call, claim.key);
+      res.sendStatus(200);
+    }
+  }
+
+  /**
+   * Voicemail transcription finished (or failed)
+   */
+  async handleVoicemailTranscription(req: Request<{}, {}, TwilioTranscriptionCallbackRequest>, res: Response): Promise<void> {
+    try {
+      const { TranscriptionStatus, TranscriptionText, CallSid } = req.body;
+
+      const call = await Call.findOne({ where: { call_sid: CallSid } });
+      if (!call) {
+        console.error(`Call not found for voicemail transcription: ${CallSid}`);
+        res.sendStatus(200);
+        return;
+      }
+
+      await VoicemailService.applyTranscription(
+        call,
+        TranscriptionStatus === 'completed' ? VoicemailTranscriptionStatus.COMPLETED : VoicemailTranscriptionStatus.FAILED,
+        TranscriptionText
+      );
+
+      res.sendStatus(200);
+    } catch (error) {
+      console.error('Error handling voicemail transcription:', error);
+      res.sendStatus(200);
+    }
+  }
+
   /**
    * Handle fallback webhook
    */
@@ -780,33 +1866,53 @@ class SipController {
     try {
       const { to, from, caller_id } = req.body;
 
-      if (!to || !from) {
-        res.status(400).json({ error: 'To and From numbers are required' });
+      if (!to) {
+        res.status(400).json({ error: 'To number is required' });
         return;
       }
 
-      // Find tracking number
-      const trackingNumber = await TrackingNumber.findOne({
-        where: {
-          phone_number: from,
-          company_id: req.user!.company_id
+      // An explicit from number wins; otherwise pick the closest company number to the destination
+      let trackingNumber: TrackingNumber | null;
+      let callerIdReason: CallerIdReason;
+
+      if (from) {
+        trackingNumber = await TrackingNumber.findOne({
+          where: {
+            phone_number: from,
+            company_id: req.user!.company_id
+          }
+        });
+        callerIdReason = 'requested';
+
+        if (!trackingNumber) {
+          res.status(400).json({ error: 'Invalid from number' });
+          return;
         }
-      });
+      } else {
+        const selection = await LocalPresenceService.selectNumber(req.user!.company_id, to, {
+          userId: req.user!.id,
+          channel: 'voice'
+        });
 
-      if (!trackingNumber) {
-        res.status(400).json({ error: 'Invalid from number' });
-        return;
+        if (!selection) {
+          res.status(400).json({ error: 'No active tracking number available to call from' });
+          return;
+        }
+
+        trackingNumber = selection.tracking_number;
+        callerIdReason = selection.reason;
       }
 
-      // Create call through Twilio
-      const twilioCall = await TwilioService.getClient().calls.create({
+      const fromNumber = trackingNumber.phone_number;
+
+      // Create call through the number's provider
+      const callSid = await TelephonyService.forTrackingNumber(trackingNumber).createCall({
         url: `${process.env.BASE_URL}/api/sip/outbound-handler`,
         to,
-        from: from,
-        callerId: caller_id || from,
+        from: fromNumber,
+        callerId: caller_id || fromNumber,
         record: true,
         recordingStatusCallback: `${process.env.BASE_URL}/api/sip/recording-status`,
-        recordingStatusCallbackMethod: 'POST',
         statusCallback: `${process.env.BASE_URL}/api/sip/status`,
         statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed']
       });
@@ -814,19 +1920,20 @@ class SipController {
       // Create call record in database
       const call = await Call.create({
         //uuid: generateCallSid(),
-        call_sid: twilioCall.sid,
+        call_sid: callSid,
         company_id: req.user!.company_id,
         tracking_number_id: trackingNumber.id,
-        caller_number: from,
+        caller_number: fromNumber,
         destination_number: to,
         direction: CallDirection.OUTBOUND,
         status: CallStatus.RINGING,
         start_time: new Date(),
         agent_id: req.user!.id,
         recording_enabled: true,
+        caller_id_reason: callerIdReason,
         metadata: {
           initiated_by: req.user!.id,
-          caller_id: caller_id || from
+          caller_id: caller_id || fromNumber
         }
       } as any);
 
@@ -837,8 +1944,8 @@ class SipController {
           'call:outbound:initiated',
           {
             callId: call.id,
-            callSid: twilioCall.sid,
-            from,
+            callSid: callSid,
+            from: fromNumber,
             to,
             agentId: req.user!.id,
             timestamp: new Date()
@@ -848,7 +1955,9 @@ class SipController {
 
       res.json({
         call_id: call.id,
-        call_sid: twilioCall.sid,
+        call_sid: callSid,
+        caller_id: fromNumber,
+        caller_id_reason: callerIdReason,
         status: 'initiated'
       });
     } catch (error) {
@@ -0,0 +1,42 @@
+// backend/src/controllers/StorageController.ts
+import { Request, Response } from 'express';
+import StorageService from '../services/StorageService';
+import { LocalStorageDriver } from '../services/LocalStorageDriver';
+
+class StorageController {
+  /**
+   * Serve a file of the local storage driver. Only signed links are served.
+   */
+  async serveLocalFile(req: Request, res: Response): Promise<void> {
+    try {
+      const key = req.params[0];
+      const { signature, expires, download } = req.query as Record<string, string | undefined>;
+      const driver = StorageService.getDriver('local') as LocalStorageDriver;
+
+      if (!key || !driver.verifySignature(key, signature, expires, download)) {
+        res.status(403).json({ error: 'Invalid or expired link' });
+        return;
+      }
+
+      const filePath = driver.resolvePath(key);
+      const onError = (error?: Error) => {
+        if (error && !res.headersSent) {
+          res.status(404).json({ error: 'File not found' });
+        }
+      };
+
+      res.setHeader('Cache-Control', expires ? 'private, no-store' : 'public, max-age=86400');
+
+      if (download) {
+        res.download(filePath, download, onError);
+      } else {
+        res.sendFile(filePath, onError);
+      }
+    } catch (error) {
+      console.error('Error serving stored file:', error);
+      res.status(500).json({ error: 'Failed to serve file' });
+    }
+  }
+}
+
+export default new StorageController();
@@ -2,10 +2,12 @@
 import { Request as ExpressRequest, Response } from 'express';
 import { AuthRequest } from '../middleware/auth';
 import WebhookService from '../services/WebhookService';
+import LocalPresenceService from '../services/LocalPresenceService';
 import { WebhookEvent } from '../types/enums';
 import { Op } from 'sequelize';
 import { TextConversation, TextMessage, TrackingNumber } from '../models';
 import { MessageDirection, MessageStatus } from '../types/enums';
+import { CallerIdReason } from '../types/interfaces';
 
 class TextController {
   async getConversations(req: AuthRequest, res: Response): Promise<void> {
@@ -123,7 +125,9 @@ class TextController {
       const { conversation_id, to_number, body } = req.body;
 
       let conversation: TextConversation | null = null;
-      
+      let fromNumber: string;
+      let callerIdReason: CallerIdReason;
+
       if (conversation_id) {
         conversation = await TextConversation.findOne({
           where: { 
@@ -137,18 +141,18 @@ class TextController {
           res.status(404).json({ error: 'Conversation not found' });
           return;
         }
+
+        // Replies stay on the number the conversation is already on
+        fromNumber = conversation.tracking_number?.phone_number || '';
+        callerIdReason = 'conversation';
       } else if (to_number) {
-        // Find an SMS-enabled tracking number
-        const trackingNumber = await TrackingNumber.findOne({
-          where: { 
-            company_id: req.user!.company_id,
-            sms_enabled: true,
-            status: 'active'
-          },
-          order: [['created_at', 'DESC']]
+        // Pick the SMS-enabled number closest to the customer
+        const selection = await LocalPresenceService.selectNumber(req.user!.company_id, to_number, {
+          userId: req.user!.id,
+          channel: 'sms'
         });
 
-        if (!trackingNumber) {
+        if (!selection) {
           res.status(400).json({ error: 'No SMS-enabled tracking number available' });
           return;
         }
@@ -157,7 +161,7 @@ class TextController {
         [conversation] = await TextConversation.findOrCreate({
           where: {
             company_id: req.user!.company_id,
-            tracking_number_id: trackingNumber.id,
+            tracking_number_id: selection.tracking_number.id,
             customer_number: to_number
           },
           defaults: {
@@ -165,6 +169,9 @@ class TextController {
             last_message_at: new Date()
           }
         });
+
+        fromNumber = selection.tracking_number.phone_number;
+        callerIdReason = selection.reason;
       } else {
         res.status(400).json({ error: 'Conversation ID or phone number required' });
         return;
@@ -175,11 +182,12 @@ class TextController {
         conversation_id: conversation.id,
         company_id: req.user!.company_id,
         direction: MessageDirection.OUTBOUND,
-        from_number: conversation.tracking_number?.phone_number || '',
+        from_number: fromNumber,
         to_number: conversation.customer_number,
         body,
         agent_id: req.user!.id,
         status: MessageStatus.SENDING,
+        caller_id_reason: callerIdReason,
         sent_at: new Date()
       });
 
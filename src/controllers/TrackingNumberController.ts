@@ -1,9 +1,17 @@
 // backend/src/controllers/TrackingNumberController.ts (Enhanced version with Twilio integration)
 import { Response } from 'express';
 import { AuthRequest } from '../middleware/auth';
-import { TrackingNumber, Company, Call, sequelize } from '../models';
+import { TrackingNumber, Company, Call, Schedule, CallFlowVersion, sequelize } from '../models';
 import { Op } from 'sequelize';
-import TwilioService from '../services/TwilioService';
+import TelephonyService from '../services/TelephonyService';
+import CallFlowService from '../services/CallFlowService';
+import CallFlowSimulatorService from '../services/CallFlowSimulatorService';
+import CallFlowVersionService from '../services/CallFlowVersionService';
+import RecordingRetentionService from '../services/RecordingRetentionService';
+import { StorageService } from '../services/StorageService';
+import { CallFlowVersionStatus } from '../types/enums';
+
+const storage = new StorageService();
 
 class TrackingNumberController {
   async getAll(req: AuthRequest, res: Response): Promise<void> {
@@ -135,9 +143,11 @@ class TrackingNumberController {
         verified_at: new Date()
       } as any);
 
-      // Configure the number with Twilio
+      await CallFlowVersionService.createInitialVersion(trackingNumber, req.user!.id);
+
+      // Configure the number with its provider
       try {
-        await TwilioService.updateNumberConfiguration(phone_number, {
+        await TelephonyService.forTrackingNumber(trackingNumber).updateNumberConfiguration(phone_number, {
           voiceUrl: `${process.env.BASE_URL}/api/sip/incoming`,
           smsUrl: sms_enabled ? `${process.env.BASE_URL}/api/texts/webhook/receive` : undefined,
           friendlyName: friendly_name
@@ -174,12 +184,40 @@ class TrackingNumberController {
       // Don't allow changing the phone number
       delete updates.phone_number;
 
+      // Call flows go through drafts and publishing (validated and versioned), retention through its own endpoint
+      const details: string[] = [];
+      if (updates.call_flow !== undefined || updates.call_flow_version !== undefined) {
+        details.push('call_flow cannot be changed here: use PUT /tracking/:id/call-flow or the call flow version endpoints');
+      }
+      if (updates.recording_retention !== undefined) {
+        details.push('recording_retention cannot be changed here: use PUT /tracking/:id/recording-retention');
+      }
+      // The provider is where the number was provisioned: moving it would leave its calls on the old carrier
+      if (updates.provider !== undefined && updates.provider !== trackingNumber.provider) {
+        details.push('provider cannot be changed: it is set when the number is provisioned');
+      }
+      if (details.length > 0) {
+        res.status(400).json({ error: 'Invalid tracking number update', details });
+        return;
+      }
+
+      if (updates.schedule_id) {
+        const schedule = await Schedule.findOne({
+          where: { id: updates.schedule_id, company_id: req.user!.company_id }
+        });
+
+        if (!schedule) {
+          res.status(400).json({ error: 'Schedule not found' });
+          return;
+        }
+      }
+
       await trackingNumber.update(updates);
 
       // Update Twilio configuration if needed
       if (updates.friendly_name || updates.sms_enabled !== undefined) {
         try {
-          await TwilioService.updateNumberConfiguration(trackingNumber.phone_number, {
+          await TelephonyService.forTrackingNumber(trackingNumber).updateNumberConfiguration(trackingNumber.phone_number, {
             friendlyName: updates.friendly_name || trackingNumber.friendly_name,
             smsUrl: updates.sms_enabled ? `${process.env.BASE_URL}/api/texts/webhook/receive` : undefined
           });
@@ -282,12 +320,20 @@ class TrackingNumberController {
         return;
       }
 
-      await trackingNumber.update({
-        call_flow: {
-          ...trackingNumber.call_flow,
-          ...call_flow
-        }
-      });
+      const updatedFlow = {
+        ...trackingNumber.call_flow,
+        ...call_flow
+      };
+
+      const errors = CallFlowService.validateCallFlow(updatedFlow);
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid call flow', details: errors });
+        return;
+      }
+
+      // Saved as a new version and published straight away, so the edit stays in history
+      const draft = await CallFlowVersionService.createDraft(trackingNumber, updatedFlow, req.user!.id, req.body.notes);
+      await CallFlowVersionService.publish(trackingNumber, draft.id, req.user!.id);
 
       res.json(trackingNumber);
     } catch (error) {
@@ -296,6 +342,425 @@ class TrackingNumberController {
     }
   }
 
+  /**
+   * Dry-run a call through the call flow (or an unsaved draft of it) without placing a call
+   */
+  async simulateCallFlow(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { call_flow, caller_number, at, inputs, ...caller } = req.body;
+
+      const trackingNumber = await TrackingNumber.findOne({
+        where: {
+          id: parseInt(id),
+          company_id: req.user!.company_id
+        },
+        include: [Company]
+      });
+
+      if (!trackingNumber) {
+        res.status(404).json({ error: 'Tracking number not found' });
+        return;
+      }
+
+      const errors: string[] = [];
+      const callTime = at ? new Date(at) : new Date();
+
+      if (!caller_number || typeof caller_number !== 'string') {
+        errors.push('caller_number is required');
+      }
+      if (isNaN(callTime.getTime())) {
+        errors.push('at must be an ISO timestamp');
+      }
+      if (inputs !== undefined && (!Array.isArray(inputs) || inputs.some((value: unknown) => typeof value !== 'string'))) {
+        errors.push('inputs must be a list of strings');
+      }
+
+      // Try a draft without saving it (merged the same way as PUT /:id/call-flow)
+      if (call_flow) {
+        const draft = { ...trackingNumber.call_flow, ...call_flow };
+        errors.push(...CallFlowService.validateCallFlow(draft));
+        trackingNumber.set('call_flow', draft);
+      }
+
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid simulation', details: errors });
+        return;
+      }
+
+      const simulation = await CallFlowSimulatorService.simulate(trackingNumber, {
+        caller_number,
+        caller_name: caller.caller_name,
+        caller_city: caller.caller_city,
+        caller_state: caller.caller_state,
+        caller_zip: caller.caller_zip,
+        caller_country: caller.caller_country,
+        at: callTime,
+        inputs
+      });
+
+      res.json(simulation);
+    } catch (error) {
+      console.error('Error simulating call flow:', error);
+      res.status(500).json({ error: 'Failed to simulate call flow' });
+    }
+  }
+
+  async getCallFlowVersions(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const trackingNumber = await TrackingNumber.findOne({
+        where: { id: parseInt(req.params.id), company_id: req.user!.company_id }
+      });
+
+      if (!trackingNumber) {
+        res.status(404).json({ error: 'Tracking number not found' });
+        return;
+      }
+
+      const versions = await CallFlowVersionService.list(trackingNumber);
+
+      res.json({
+        published_version: trackingNumber.call_flow_version,
+        versions
+      });
+    } catch (error) {
+      console.error('Error getting call flow versions:', error);
+      res.status(500).json({ error: 'Failed to get call flow versions' });
+    }
+  }
+
+  async getCallFlowVersion(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const trackingNumber = await TrackingNumber.findOne({
+        where: { id: parseInt(req.params.id), company_id: req.user!.company_id }
+      });
+      const version = trackingNumber
+        ? await CallFlowVersionService.get(trackingNumber, parseInt(req.params.version))
+        : null;
+
+      if (!version) {
+        res.status(404).json({ error: 'Call flow version not found' });
+        return;
+      }
+
+      res.json(version);
+    } catch (error) {
+      console.error('Error getting call flow version:', error);
+      res.status(500).json({ error: 'Failed to get call flow version' });
+    }
+  }
+
+  /**
+   * Save a draft, merged over the published call flow. Live routing is unchanged until it is published.
+   */
+  async createCallFlowDraft(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { call_flow, notes } = req.body;
+
+      const trackingNumber = await TrackingNumber.findOne({
+        where: { id: parseInt(req.params.id), company_id: req.user!.company_id }
+      });
+
+      if (!trackingNumber) {
+        res.status(404).json({ error: 'Tracking number not found' });
+        return;
+      }
+
+      const draftFlow = { ...trackingNumber.call_flow, ...call_flow };
+
+      const errors = CallFlowService.validateCallFlow(draftFlow);
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid call flow', details: errors });
+        return;
+      }
+
+      const draft = await CallFlowVersionService.createDraft(trackingNumber, draftFlow, req.user!.id, notes);
+
+      res.status(201).json(draft);
+    } catch (error) {
+      console.error('Error creating call flow draft:', error);
+      res.status(500).json({ error: 'Failed to create call flow draft' });
+    }
+  }
+
+  async updateCallFlowDraft(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { call_flow, notes } = req.body;
+
+      const trackingNumber = await TrackingNumber.findOne({
+        where: { id: parseInt(req.params.id), company_id: req.user!.company_id }
+      });
+      const draft = trackingNumber
+        ? await CallFlowVersionService.get(trackingNumber, parseInt(req.params.version))
+        : null;
+
+      if (!draft) {
+        res.status(404).json({ error: 'Call flow version not found' });
+        return;
+      }
+
+      if (draft.status !== CallFlowVersionStatus.DRAFT) {
+        res.status(409).json({ error: 'Only drafts can be edited' });
+        return;
+      }
+
+      const draftFlow = { ...draft.call_flow, ...call_flow };
+
+      const errors = CallFlowService.validateCallFlow(draftFlow);
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid call flow', details: errors });
+        return;
+      }
+
+      await draft.update({
+        call_flow: draftFlow,
+        ...(notes !== undefined && { notes })
+      });
+
+      res.json(draft);
+    } catch (error) {
+      console.error('Error updating call flow draft:', error);
+      res.status(500).json({ error: 'Failed to update call flow draft' });
+    }
+  }
+
+  async publishCallFlowVersion(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const trackingNumber = await TrackingNumber.findOne({
+        where: { id: parseInt(req.params.id), company_id: req.user!.company_id }
+      });
+      const draft = trackingNumber
+        ? await CallFlowVersionService.get(trackingNumber, parseInt(req.params.version))
+        : null;
+
+      if (!trackingNumber || !draft) {
+        res.status(404).json({ error: 'Call flow version not found' });
+        return;
+      }
+
+      // Referenced menus, queues and groups may have changed since the draft was saved
+      const errors = CallFlowService.validateCallFlow(draft.call_flow);
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid call flow', details: errors });
+        return;
+      }
+
+      const published = await CallFlowVersionService.publish(trackingNumber, draft.id, req.user!.id);
+      if (!published) {
+        res.status(409).json({ error: 'Only drafts can be published; use rollback for earlier versions' });
+        return;
+      }
+
+      res.json(published);
+    } catch (error) {
+      console.error('Error publishing call flow version:', error);
+      res.status(500).json({ error: 'Failed to publish call flow version' });
+    }
+  }
+
+  /**
+   * Republish an earlier version (defaults to the one published before the current one)
+   */
+  async rollbackCallFlow(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { version } = req.body;
+
+      const trackingNumber = await TrackingNumber.findOne({
+        where: { id: parseInt(req.params.id), company_id: req.user!.company_id }
+      });
+
+      if (!trackingNumber) {
+        res.status(404).json({ error: 'Tracking number not found' });
+        return;
+      }
+
+      const target = version !== undefined
+        ? await CallFlowVersionService.get(trackingNumber, parseInt(version))
+        : await CallFlowVersion.findOne({
+          where: { tracking_number_id: trackingNumber.id, status: CallFlowVersionStatus.ARCHIVED },
+          order: [['version', 'DESC']]
+        });
+
+      if (!target) {
+        res.status(404).json({ error: 'No earlier call flow version to roll back to' });
+        return;
+      }
+
+      if (target.version === trackingNumber.call_flow_version) {
+        res.status(409).json({ error: 'That version is already published' });
+        return;
+      }
+
+      const published = await CallFlowVersionService.rollback(trackingNumber, target, req.user!.id);
+
+      res.json(published);
+    } catch (error) {
+      console.error('Error rolling back call flow:', error);
+      res.status(500).json({ error: 'Failed to roll back call flow' });
+    }
+  }
+
+  /**
+   * Upload an audio voicemail greeting and publish it in a new call flow version
+   */
+  async uploadVoicemailGreeting(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const trackingNumber = await TrackingNumber.findOne({
+        where: { id: parseInt(req.params.id), company_id: req.user!.company_id }
+      });
+
+      if (!trackingNumber) {
+        res.status(404).json({ error: 'Tracking number not found' });
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({ error: 'Greeting audio file is required' });
+        return;
+      }
+
+      const { url } = await storage.uploadGreeting(
+        req.file.buffer,
+        req.file.mimetype,
+        trackingNumber.company_id,
+        trackingNumber.id
+      );
+
+      const draft = await CallFlowVersionService.createDraft(
+        trackingNumber,
+        { ...trackingNumber.call_flow, voicemail_greeting_audio_url: url },
+        req.user!.id,
+        'Uploaded voicemail greeting'
+      );
+      await CallFlowVersionService.publish(trackingNumber, draft.id, req.user!.id);
+
+      res.json({ voicemail_greeting_audio_url: url, call_flow: trackingNumber.call_flow });
+    } catch (error) {
+      console.error('Error uploading voicemail greeting:', error);
+      res.status(500).json({ error: 'Failed to upload voicemail greeting' });
+    }
+  }
+
+  /**
+   * Go back to the text-to-speech voicemail greeting
+   */
+  async removeVoicemailGreeting(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const trackingNumber = await TrackingNumber.findOne({
+        where: { id: parseInt(req.params.id), company_id: req.user!.company_id }
+      });
+
+      if (!trackingNumber) {
+        res.status(404).json({ error: 'Tracking number not found' });
+        return;
+      }
+
+      if (!trackingNumber.call_flow?.voicemail_greeting_audio_url) {
+        res.status(404).json({ error: 'No voicemail greeting uploaded' });
+        return;
+      }
+
+      const { voicemail_greeting_audio_url, ...callFlow } = trackingNumber.call_flow;
+      const draft = await CallFlowVersionService.createDraft(
+        trackingNumber,
+        callFlow,
+        req.user!.id,
+        'Removed voicemail greeting'
+      );
+      await CallFlowVersionService.publish(trackingNumber, draft.id, req.user!.id);
+
+      res.json({ call_flow: trackingNumber.call_flow });
+    } catch (error) {
+      console.error('Error removing voicemail greeting:', error);
+      res.status(500).json({ error: 'Failed to remove voicemail greeting' });
+    }
+  }
+
+  /**
+   * Set the number's own recording retention policy (null falls back to the company policy)
+   */
+  async setRecordingRetention(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { retention_policy } = req.body;
+
+      if (retention_policy === undefined) {
+        res.status(400).json({ error: 'retention_policy is required (null to use the company policy)' });
+        return;
+      }
+
+      if (retention_policy !== null) {
+        const errors = RecordingRetentionService.validatePolicy(retention_policy);
+        if (errors.length > 0) {
+          res.status(400).json({ error: 'Invalid retention policy', details: errors });
+          return;
+        }
+      }
+
+      const trackingNumber = await TrackingNumber.findOne({
+        where: { id: parseInt(req.params.id), company_id: req.user!.company_id }
+      });
+
+      if (!trackingNumber) {
+        res.status(404).json({ error: 'Tracking number not found' });
+        return;
+      }
+
+      await trackingNumber.update({
+        recording_retention: RecordingRetentionService.normalizePolicy(retention_policy)
+      });
+
+      res.json({ recording_retention: trackingNumber.recording_retention });
+    } catch (error) {
+      console.error('Error updating recording retention:', error);
+      res.status(500).json({ error: 'Failed to update recording retention' });
+    }
+  }
+
+  /**
+   * Differences between two versions (to defaults to the published version)
+   */
+  async diffCallFlowVersions(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { from, to } = req.query;
+
+      const trackingNumber = await TrackingNumber.findOne({
+        where: { id: parseInt(req.params.id), company_id: req.user!.company_id }
+      });
+
+      if (!trackingNumber) {
+        res.status(404).json({ error: 'Tracking number not found' });
+        return;
+      }
+
+      const fromVersion = parseInt(from as string);
+      const toVersion = to !== undefined ? parseInt(to as string) : trackingNumber.call_flow_version;
+
+      if (isNaN(fromVersion) || !toVersion || isNaN(toVersion)) {
+        res.status(400).json({ error: 'from (and to, when nothing is published) must be version numbers' });
+        return;
+      }
+
+      const [before, after] = await Promise.all([
+        CallFlowVersionService.get(trackingNumber, fromVersion),
+        CallFlowVersionService.get(trackingNumber, toVersion)
+      ]);
+
+      if (!before || !after) {
+        res.status(404).json({ error: 'Call flow version not found' });
+        return;
+      }
+
+      res.json({
+        from: before.version,
+        to: after.version,
+        changes: CallFlowVersionService.diff(before.call_flow, after.call_flow)
+      });
+    } catch (error) {
+      console.error('Error comparing call flow versions:', error);
+      res.status(500).json({ error: 'Failed to compare call flow versions' });
+    }
+  }
+
   async getStats(req: AuthRequest, res: Response): Promise<void> {
     try {
       const { id } = req.params;
@@ -356,35 +821,31 @@ class TrackingNumberController {
   }
 
   /**
-   * Search available numbers from Twilio
+   * Search available numbers from a telephony provider (default: TELEPHONY_PROVIDER)
    */
   async searchAvailableNumbers(req: AuthRequest, res: Response): Promise<void> {
     try {
-      const { area_code, contains } = req.query;
+      const { area_code, contains, provider } = req.query;
 
-      const availableNumbers = await TwilioService.searchAvailableNumbers(area_code as string);
+      if (provider && !TelephonyService.isProvider(provider)) {
+        res.status(400).json({ error: 'Unknown telephony provider' });
+        return;
+      }
+
+      const availableNumbers = await TelephonyService.getProvider(provider as string).searchAvailableNumbers(area_code as string);
 
       // Filter by contains if provided
       let filtered = availableNumbers;
       if (contains) {
         const searchPattern = (contains as string).replace(/\D/g, '');
         filtered = availableNumbers.filter(num =>
-          num.phoneNumber.includes(searchPattern)
+          num.phone_number.includes(searchPattern)
         );
       }
 
       res.json({
         numbers: filtered.map(num => ({
-          phone_number: num.phoneNumber,
-          friendly_name: num.friendlyName,
-          locality: num.locality,
-          region: num.region,
-          country: num.isoCountry,
-          capabilities: {
-            voice: num.capabilities.voice,
-            sms: num.capabilities.SMS,
-            mms: num.capabilities.MMS
-          },
+          ...num,
           monthly_fee: 1.00, // Twilio typically charges $1/month for local numbers
           per_minute_rate: 0.0140 // Typical Twilio rate
         }))
@@ -396,7 +857,7 @@ class TrackingNumberController {
   }
 
   /**
- * Provision a new number from Twilio
+ * Provision a new number from a telephony provider (default: TELEPHONY_PROVIDER)
  */
   async provisionNumber(req: AuthRequest, res: Response): Promise<void> {
     try {
@@ -408,9 +869,16 @@ class TrackingNumberController {
         campaign,
         description,
         call_flow,
-        sms_enabled = false
+        sms_enabled = false,
+        provider: providerName = TelephonyService.getDefaultProviderName()
       } = req.body;
 
+      if (!TelephonyService.isProvider(providerName)) {
+        res.status(400).json({ error: 'Unknown telephony provider' });
+        return;
+      }
+      const provider = TelephonyService.getProvider(providerName);
+
       // Validate company
       const company = await Company.findByPk(req.user!.company_id);
       if (!company) {
@@ -428,11 +896,11 @@ class TrackingNumberController {
         return;
       }
 
-      // IMPORTANT: Provision the number through Twilio FIRST
+      // IMPORTANT: Provision the number through the provider FIRST
       // If this fails, we don't want to create a database record
       let provisionedNumber;
       try {
-        provisionedNumber = await TwilioService.provisionNumber(
+        provisionedNumber = await provider.provisionNumber(
           phone_number,
           friendly_name
         );
@@ -469,13 +937,15 @@ class TrackingNumberController {
           description,
           call_flow: mergedCallFlow,
           sms_enabled: sms_enabled && provisionedNumber.capabilities.sms,
-          provider: 'twilio',
+          provider: provider.name,
           provider_sid: provisionedNumber.sid,
           status: 'active',
           verified: true,
           verified_at: new Date()
         } as any);
 
+        await CallFlowVersionService.createInitialVersion(trackingNumber, req.user!.id);
+
         res.status(201).json({
           tracking_number: trackingNumber,
           message: 'Number provisioned successfully'
@@ -485,7 +955,7 @@ class TrackingNumberController {
         console.error('Database error after Twilio provisioning:', dbError);
 
         try {
-          await TwilioService.releaseNumber(provisionedNumber.sid);
+          await provider.releaseNumber(provisionedNumber.sid);
           console.log('Successfully released number from Twilio after database error');
         } catch (releaseError) {
           console.error('Failed to release number from Twilio after database error:', releaseError);
@@ -537,7 +1007,7 @@ class TrackingNumberController {
       // IMPORTANT: Release from Twilio FIRST
       if (trackingNumber.provider_sid) {
         try {
-          await TwilioService.releaseNumber(trackingNumber.provider_sid);
+          await TelephonyService.forTrackingNumber(trackingNumber).releaseNumber(trackingNumber.provider_sid);
         } catch (twilioError: any) {
           console.error('Failed to release from Twilio:', twilioError);
           res.status(400).json({
@@ -573,6 +1043,17 @@ export default {
   delete: controller.delete.bind(controller),
   getCallFlow: controller.getCallFlow.bind(controller),
   updateCallFlow: controller.updateCallFlow.bind(controller),
+  simulateCallFlow: controller.simulateCallFlow.bind(controller),
+  getCallFlowVersions: controller.getCallFlowVersions.bind(controller),
+  getCallFlowVersion: controller.getCallFlowVersion.bind(controller),
+  createCallFlowDraft: controller.createCallFlowDraft.bind(controller),
+  updateCallFlowDraft: controller.updateCallFlowDraft.bind(controller),
+  publishCallFlowVersion: controller.publishCallFlowVersion.bind(controller),
+  rollbackCallFlow: controller.rollbackCallFlow.bind(controller),
+  uploadVoicemailGreeting: controller.uploadVoicemailGreeting.bind(controller),
+  removeVoicemailGreeting: controller.removeVoicemailGreeting.bind(controller),
+  setRecordingRetention: controller.setRecordingRetention.bind(controller),
+  diffCallFlowVersions: controller.diffCallFlowVersions.bind(controller),
   getStats: controller.getStats.bind(controller),
   searchAvailableNumbers: controller.searchAvailableNumbers.bind(controller),
   provisionNumber: controller.provisionNumber.bind(controller),
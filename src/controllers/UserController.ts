@@ -1,7 +1,7 @@
 // backend/src/controllers/UsersController.ts
 import { Request, Response } from 'express';
-import { User, Company, UserInvitation, UserCompany } from '../models';
-import { UserRole } from '../types/enums';
+import { User, Company, UserInvitation, UserCompany, TrackingNumber } from '../models';
+import { UserRole, TrackingNumberStatus } from '../types/enums';
 import { InvitationStatus } from '../models/UserInvitation';
 import { AuthRequest } from '../middleware/auth';
 import { v4 as uuidv4 } from 'uuid';
@@ -554,6 +554,53 @@ export class UsersController {
     }
   }
 
+  /**
+   * Set (or clear) the tracking number a user's outbound calls and texts always go out from
+   */
+  async setCallerIdOverride(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { tracking_number_id } = req.body;
+
+      const userCompany = await UserCompany.findOne({
+        where: {
+          user_id: parseInt(id),
+          company_id: req.user!.company_id
+        }
+      });
+
+      if (!userCompany) {
+        res.status(404).json({ error: 'User not found in this company' });
+        return;
+      }
+
+      if (tracking_number_id !== null && tracking_number_id !== undefined) {
+        const trackingNumber = await TrackingNumber.findOne({
+          where: {
+            id: tracking_number_id,
+            company_id: req.user!.company_id,
+            status: TrackingNumberStatus.ACTIVE
+          }
+        });
+
+        if (!trackingNumber) {
+          res.status(400).json({ error: 'Tracking number must be an active number of this company' });
+          return;
+        }
+      }
+
+      await userCompany.update({ outbound_tracking_number_id: tracking_number_id ?? null } as any);
+
+      res.json({
+        user_id: userCompany.user_id,
+        outbound_tracking_number_id: userCompany.outbound_tracking_number_id ?? null
+      });
+    } catch (error) {
+      console.error('Error setting caller ID override:', error);
+      res.status(500).json({ error: 'Failed to set caller ID override' });
+    }
+  }
+
   /**
    * Get user statistics
    */
@@ -620,5 +667,6 @@ export default {
   deleteUser: controller.deleteUser.bind(controller),
   reactivateUser: controller.reactivateUser.bind(controller),
   resetUserPassword: controller.resetUserPassword.bind(controller),
+  setCallerIdOverride: controller.setCallerIdOverride.bind(controller),
   getUserStats: controller.getUserStats.bind(controller)
 };
\ No newline at end of file
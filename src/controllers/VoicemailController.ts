@@ -0,0 +1,183 @@
+// backend/src/controllers/VoicemailController.ts
+import { Response } from 'express';
+import { Includeable } from 'sequelize';
+import { AuthRequest } from '../middleware/auth';
+import { Call, TrackingNumber, User, Voicemail } from '../models';
+import { UserRole } from '../types/enums';
+import VoicemailService from '../services/VoicemailService';
+
+const VOICEMAIL_INCLUDES: Includeable[] = [
+  { model: TrackingNumber, attributes: ['id', 'phone_number', 'friendly_name'] },
+  { model: User, as: 'assignee', attributes: ['id', 'first_name', 'last_name', 'email'] },
+  { model: Call, attributes: ['id', 'uuid', 'call_sid', 'start_time', 'caller_city', 'caller_state', 'source'] }
+];
+
+class VoicemailController {
+  /**
+   * Voicemail inbox, newest first
+   */
+  async getVoicemails(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { status, assigned_to, tracking_number_id, page = 1, limit = 50 } = req.query;
+
+      const where: any = {
+        company_id: req.user!.company_id
+      };
+
+      if (status === 'unread') where.is_read = false;
+      if (status === 'read') where.is_read = true;
+      if (assigned_to === 'me') where.assigned_to = req.user!.id;
+      else if (assigned_to === 'unassigned') where.assigned_to = null;
+      else if (assigned_to) where.assigned_to = parseInt(assigned_to as string);
+      if (tracking_number_id) where.tracking_number_id = parseInt(tracking_number_id as string);
+
+      const offset = (parseInt(page as string) - 1) * parseInt(limit as string);
+
+      const [{ rows: voicemails, count }, unreadCount] = await Promise.all([
+        Voicemail.findAndCountAll({
+          where,
+          include: VOICEMAIL_INCLUDES,
+          limit: parseInt(limit as string),
+          offset,
+          order: [['created_at', 'DESC']]
+        }),
+        Voicemail.count({ where: { company_id: req.user!.company_id, is_read: false } })
+      ]);
+
+      res.json({
+        voicemails: voicemails.map(voicemail => VoicemailService.serialize(voicemail)),
+        unread_count: unreadCount,
+        pagination: {
+          total: count,
+          page: parseInt(page as string),
+          limit: parseInt(limit as string),
+          pages: Math.ceil(count / parseInt(limit as string))
+        }
+      });
+    } catch (error) {
+      console.error('Error fetching voicemails:', error);
+      res.status(500).json({ error: 'Failed to fetch voicemails' });
+    }
+  }
+
+  async getVoicemail(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const voicemail = await this.findVoicemail(req, VOICEMAIL_INCLUDES);
+
+      if (!voicemail) {
+        res.status(404).json({ error: 'Voicemail not found' });
+        return;
+      }
+
+      res.json(VoicemailService.serialize(voicemail));
+    } catch (error) {
+      console.error('Error fetching voicemail:', error);
+      res.status(500).json({ error: 'Failed to fetch voicemail' });
+    }
+  }
+
+  /**
+   * Redirect to the voicemail audio. Listening marks the voicemail as read.
+   */
+  async playVoicemail(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const voicemail = await this.findVoicemail(req);
+
+      if (!voicemail) {
+        res.status(404).json({ error: 'Voicemail not found' });
+        return;
+      }
+
+      const streamUrl = await VoicemailService.getPlaybackUrl(voicemail);
+
+      if (!voicemail.is_read) {
+        await VoicemailService.setRead(voicemail, true, req.user!.id);
+      }
+
+      res.redirect(streamUrl);
+    } catch (error) {
+      console.error('Error playing voicemail:', error);
+      res.status(500).json({ error: 'Failed to play voicemail' });
+    }
+  }
+
+  async markRead(req: AuthRequest, res: Response): Promise<void> {
+    await this.setRead(req, res, true);
+  }
+
+  async markUnread(req: AuthRequest, res: Response): Promise<void> {
+    await this.setRead(req, res, false);
+  }
+
+  /**
+   * Assign to a user (user_id null unassigns). Agents can only take or release their own voicemails.
+   */
+  async assignVoicemail(req: AuthRequest, res: Response): Promise<void> {
+    try {
+      const { user_id } = req.body;
+
+      if (user_id === undefined || (user_id !== null && !Number.isInteger(user_id))) {
+        res.status(400).json({ error: 'user_id must be a user id or null' });
+        return;
+      }
+
+      const voicemail = await this.findVoicemail(req);
+
+      if (!voicemail) {
+        res.status(404).json({ error: 'Voicemail not found' });
+        return;
+      }
+
+      const canManage = req.user!.role === UserRole.ADMIN || req.user!.role === UserRole.MANAGER;
+      const ownsTarget = user_id === null
+        ? !voicemail.assigned_to || voicemail.assigned_to === req.user!.id
+        : user_id === req.user!.id;
+      if (!canManage && !ownsTarget) {
+        res.status(403).json({ error: 'Only admins and managers can assign voicemails to others' });
+        return;
+      }
+
+      if (user_id !== null && !(await VoicemailService.isAssignableUser(req.user!.company_id, user_id))) {
+        res.status(400).json({ error: 'User not found in this company' });
+        return;
+      }
+
+      await VoicemailService.assign(voicemail, user_id);
+
+      res.json(VoicemailService.serialize(voicemail));
+    } catch (error) {
+      console.error('Error assigning voicemail:', error);
+      res.status(500).json({ error: 'Failed to assign voicemail' });
+    }
+  }
+
+  private async setRead(req: AuthRequest, res: Response, isRead: boolean): Promise<void> {
+    try {
+      const voicemail = await this.findVoicemail(req);
+
+      if (!voicemail) {
+        res.status(404).json({ error: 'Voicemail not found' });
+        return;
+      }
+
+      await VoicemailService.setRead(voicemail, isRead, req.user!.id);
+
+      res.json(VoicemailService.serialize(voicemail));
+    } catch (error) {
+      console.error('Error updating voicemail:', error);
+      res.status(500).json({ error: 'Failed to update voicemail' });
+    }
+  }
+
+  private async findVoicemail(req: AuthRequest, include?: Includeable[]): Promise<Voicemail | null> {
+    return await Voicemail.findOne({
+      where: {
+        id: parseInt(req.params.id),
+        company_id: req.user!.company_id
+      },
+      include
+    });
+  }
+}
+
+export default new VoicemailController();
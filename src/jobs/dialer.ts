@@ -0,0 +1,44 @@
+// backend/src/jobs/dialer.ts
+
+import cron, { ScheduledTask } from 'node-cron';
+import DialerService from '../services/DialerService';
+
+export class DialerJob {
+  private static job: ScheduledTask | null = null;
+
+  /**
+   * Start the dialer cron job
+   * Runs every minute to dial retries that came due and contacts whose calling window opened
+   */
+  static start(): void {
+    this.job = cron.schedule('* * * * *', async () => {
+      try {
+        const companyIds = await DialerService.getActiveCompanyIds();
+        let dialed = 0;
+
+        for (const companyId of companyIds) {
+          dialed += await DialerService.dispatch(companyId);
+        }
+
+        if (dialed > 0) {
+          console.log(`Dialer job started ${dialed} calls`);
+        }
+      } catch (error) {
+        console.error('Dialer job failed:', error);
+      }
+    });
+
+    console.log('Dialer job scheduled (runs every minute)');
+  }
+
+  /**
+   * Stop the cron job
+   */
+  static stop(): void {
+    if (this.job) {
+      this.job.stop();
+      this.job = null;
+      console.log('Dialer job stopped');
+    }
+  }
+}
@@ -0,0 +1,48 @@
+// backend/src/jobs/recordingRetention.ts
+
+import cron, { ScheduledTask } from 'node-cron';
+import RecordingRetentionService from '../services/RecordingRetentionService';
+
+export class RecordingRetentionJob {
+  private static job: ScheduledTask | null = null;
+  private static running = false;
+
+  /**
+   * Start the recording retention cron job
+   * Runs every hour to archive and delete recordings past their retention policy
+   */
+  static start(): void {
+    this.job = cron.schedule('15 * * * *', async () => {
+      // A large backlog can take longer than an hour: never run two passes at once
+      if (this.running) return;
+      this.running = true;
+
+      try {
+        const startTime = Date.now();
+        const { archived, deleted } = await RecordingRetentionService.applyPolicies();
+        const duration = Date.now() - startTime;
+
+        if (archived > 0 || deleted > 0) {
+          console.log(`Recording retention completed: ${archived} archived, ${deleted} deleted in ${duration}ms`);
+        }
+      } catch (error) {
+        console.error('Recording retention job failed:', error);
+      } finally {
+        this.running = false;
+      }
+    });
+
+    console.log('Recording retention job scheduled (runs every hour)');
+  }
+
+  /**
+   * Stop the cron job
+   */
+  static stop(): void {
+    if (this.job) {
+      this.job.stop();
+      this.job = null;
+      console.log('Recording retention job stopped');
+    }
+  }
+}
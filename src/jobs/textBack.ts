@@ -0,0 +1,39 @@
+// backend/src/jobs/textBack.ts
+
+import cron, { ScheduledTask } from 'node-cron';
+import TextBackService from '../services/TextBackService';
+
+export class TextBackJob {
+  private static job: ScheduledTask | null = null;
+
+  /**
+   * Start the text-back cron job
+   * Runs every minute to send queued missed-call texts that are due
+   */
+  static start(): void {
+    this.job = cron.schedule('* * * * *', async () => {
+      try {
+        const sent = await TextBackService.sendDueMessages();
+
+        if (sent > 0) {
+          console.log(`Text-back job sent ${sent} messages`);
+        }
+      } catch (error) {
+        console.error('Text-back job failed:', error);
+      }
+    });
+
+    console.log('Text-back job scheduled (runs every minute)');
+  }
+
+  /**
+   * Stop the cron job
+   */
+  static stop(): void {
+    if (this.job) {
+      this.job.stop();
+      this.job = null;
+      console.log('Text-back job stopped');
+    }
+  }
+}
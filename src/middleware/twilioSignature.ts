@@ -0,0 +1,63 @@
+// backend/src/middleware/twilioSignature.ts
+import { Request, Response, NextFunction } from 'express';
+import twilio from 'twilio';
+
+/**
+ * Signature checks can be switched off for local testing (never in production)
+ */
+export const isSignatureValidationBypassed = (): boolean =>
+  process.env.TWILIO_SKIP_SIGNATURE_VALIDATION === 'true' && process.env.NODE_ENV !== 'production';
+
+/**
+ * URLs Twilio may have signed: the URL as seen through any proxy, and the same
+ * path under BASE_URL (the address we hand Twilio in callbacks)
+ */
+const getCandidateUrls = (req: Request): string[] => {
+  const forwardedProto = req.get('x-forwarded-proto')?.split(',')[0].trim();
+  const forwardedHost = req.get('x-forwarded-host')?.split(',')[0].trim();
+  const urls = [`${forwardedProto || req.protocol}://${forwardedHost || req.get('host')}${req.originalUrl}`];
+
+  const baseUrl = process.env.BASE_URL?.replace(/\/+$/, '');
+  if (baseUrl) {
+    urls.push(`${baseUrl}${req.originalUrl}`);
+  }
+
+  return [...new Set(urls)];
+};
+
+/**
+ * Reject provider callbacks whose X-Twilio-Signature does not match the auth token
+ */
+export const validateTwilioSignature = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (isSignatureValidationBypassed()) {
+    next();
+    return;
+  }
+
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const signature = req.get('x-twilio-signature');
+  const params = req.method === 'POST' && req.body && typeof req.body === 'object' ? req.body : {};
+
+  if (!authToken) {
+    console.error(`Twilio signature check failed for ${req.method} ${req.originalUrl}: TWILIO_AUTH_TOKEN not configured`);
+    res.status(403).json({ error: 'Invalid request signature' });
+    return;
+  }
+
+  const valid = !!signature && getCandidateUrls(req).some(url =>
+    twilio.validateRequest(authToken, signature, url, params)
+  );
+
+  if (!valid) {
+    console.warn(`Rejected unsigned or forged Twilio request: ${req.method} ${req.originalUrl} from ${req.ip}` +
+      ` (signature ${signature ? 'mismatch' : 'missing'}, sid ${params.CallSid || params.MessageSid || 'none'})`);
+    res.status(403).json({ error: 'Invalid request signature' });
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,33 @@
+// backend/src/middleware/upload.ts
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { appConfig } from '../config/app';
+
+const audioUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: appConfig.upload.maxFileSize },
+  fileFilter: (req, file, callback) => {
+    if (appConfig.upload.allowedMimeTypes.includes(file.mimetype)) {
+      callback(null, true);
+    } else {
+      callback(new Error(`Unsupported audio type ${file.mimetype} (use WAV or MP3)`));
+    }
+  }
+});
+
+/**
+ * Accept a single audio file in the given multipart field (kept in memory as req.file)
+ */
+export const uploadAudio = (field: string) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  audioUpload.single(field)(req, res, (error: unknown) => {
+    if (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid upload' });
+      return;
+    }
+    next();
+  });
+};
@@ -18,7 +18,7 @@ import {
   AfterCreate
 } from 'sequelize-typescript';
 import { Op } from 'sequelize';
-import { CallStatus, CallDirection, CallDisposition, LeadStatus } from '../types/enums';
+import { CallStatus, CallDirection, CallDisposition, LeadStatus, SurveyStatus } from '../types/enums';
 import Company from './Company';
 import TrackingNumber from './TrackingNumber';
 import User from './User';
@@ -28,6 +28,8 @@ import Tag from './Tag';
 import CallTag from './CallTag';
 import SipEvent from './SipEvent';
 import Visitor from './Visitor';
+import Voicemail from './Voicemail';
+import { CallerIdReason, RecordingConsentPath, SurveyAnswers, TranscriptSegment } from '../types/interfaces';
 
 @Table({
   tableName: 'calls',
@@ -182,6 +184,22 @@ export default class Call extends Model<Call> {
   @Column(DataType.BOOLEAN)
   recording_enabled!: boolean;
 
+  // Consent path applied to an inbound call: recorded, recorded_with_disclaimer or not_recorded
+  @Column(DataType.STRING(30))
+  recording_consent?: RecordingConsentPath;
+
+  // Geo routing rule that picked the destination ("default" for the fallback)
+  @Column(DataType.STRING(64))
+  routing_rule?: string;
+
+  // Call flow version that was live when the call came in
+  @Column(DataType.INTEGER)
+  call_flow_version?: number;
+
+  // How the caller ID of an outbound call was chosen
+  @Column(DataType.STRING(20))
+  caller_id_reason?: CallerIdReason;
+
   @Column(DataType.STRING(500))
   recording_url?: string;
 
@@ -191,6 +209,20 @@ export default class Call extends Model<Call> {
   @Column(DataType.INTEGER)
   recording_duration?: number;
 
+  // Legal hold keeps the recording from being deleted by the retention policy
+  @Default(false)
+  @Column(DataType.BOOLEAN)
+  legal_hold!: boolean;
+
+  @Column(DataType.TEXT)
+  legal_hold_reason?: string;
+
+  @Column(DataType.INTEGER)
+  legal_hold_by?: number;
+
+  @Column(DataType.DATE)
+  legal_hold_at?: Date;
+
   @Default(false)
   @Column(DataType.BOOLEAN)
   transcription_enabled!: boolean;
@@ -204,6 +236,10 @@ export default class Call extends Model<Call> {
   @Column(DataType.DECIMAL(3, 2))
   transcription_confidence?: number;
 
+  // Speaker-labelled transcript lines (transcription holds the same as plain text)
+  @Column(DataType.JSONB)
+  transcript_segments?: TranscriptSegment[];
+
   // AI Analysis
   @Column(DataType.STRING(20))
   sentiment?: string;
@@ -225,6 +261,17 @@ export default class Call extends Model<Call> {
   @Column(DataType.STRING(50))
   audio_quality?: string;
 
+  // Post-call survey
+  @Column(DataType.STRING(20))
+  survey_status?: SurveyStatus;
+
+  @Column(DataType.JSONB)
+  survey_answers?: SurveyAnswers;
+
+  // Answer to the first rating question (1-5)
+  @Column(DataType.INTEGER)
+  csat_score?: number;
+
   // SIP details
   @Column(DataType.STRING(255))
   sip_call_id?: string;
@@ -330,6 +377,9 @@ export default class Call extends Model<Call> {
   @HasOne(() => CallRecording)
   recording?: CallRecording;
 
+  @HasOne(() => Voicemail)
+  voicemail?: Voicemail;
+
   @BelongsToMany(() => Tag, () => CallTag)
   tags!: Tag[];
 
@@ -0,0 +1,88 @@
+// backend/src/models/CallFlowVersion.ts
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  BelongsTo,
+  ForeignKey,
+  Default,
+  AllowNull,
+  CreatedAt,
+  UpdatedAt
+} from 'sequelize-typescript';
+import Company from './Company';
+import User from './User';
+import TrackingNumber from './TrackingNumber';
+import { CallFlowConfig } from '../types/interfaces';
+import { CallFlowVersionStatus } from '../types/enums';
+
+@Table({
+  tableName: 'call_flow_versions',
+  timestamps: true,
+  underscored: true
+})
+export default class CallFlowVersion extends Model<CallFlowVersion> {
+  @ForeignKey(() => Company)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  company_id!: number;
+
+  @ForeignKey(() => TrackingNumber)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  tracking_number_id!: number;
+
+  // 1, 2, 3... per tracking number
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  version!: number;
+
+  // Only one version per tracking number is published at a time
+  @Default(CallFlowVersionStatus.DRAFT)
+  @Column(DataType.STRING(20))
+  status!: CallFlowVersionStatus;
+
+  @AllowNull(false)
+  @Column(DataType.JSONB)
+  call_flow!: CallFlowConfig;
+
+  @Column(DataType.STRING(500))
+  notes?: string;
+
+  // Set when the version was created by rolling back to an earlier one
+  @Column(DataType.INTEGER)
+  restored_from?: number;
+
+  @Column(DataType.DATE)
+  published_at?: Date;
+
+  @ForeignKey(() => User)
+  @Column(DataType.INTEGER)
+  published_by?: number;
+
+  @ForeignKey(() => User)
+  @Column(DataType.INTEGER)
+  created_by?: number;
+
+  @CreatedAt
+  @Column({ field: 'created_at' })
+  created_at!: Date;
+
+  @UpdatedAt
+  @Column({ field: 'updated_at' })
+  updated_at!: Date;
+
+  // Associations
+  @BelongsTo(() => Company)
+  company!: Company;
+
+  @BelongsTo(() => TrackingNumber)
+  tracking_number!: TrackingNumber;
+
+  @BelongsTo(() => User, 'created_by')
+  creator?: User;
+
+  @BelongsTo(() => User, 'published_by')
+  publisher?: User;
+}
@@ -0,0 +1,110 @@
+// backend/src/models/CallQueue.ts
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  BelongsTo,
+  ForeignKey,
+  HasMany,
+  Default,
+  AllowNull,
+  CreatedAt,
+  UpdatedAt
+} from 'sequelize-typescript';
+import Company from './Company';
+import User from './User';
+import QueueEntry from './QueueEntry';
+import { CallDestination } from '../types/interfaces';
+
+@Table({
+  tableName: 'call_queues',
+  timestamps: true,
+  underscored: true
+})
+export default class CallQueue extends Model<CallQueue> {
+  @ForeignKey(() => Company)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  company_id!: number;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(255))
+  name!: string;
+
+  @Column(DataType.TEXT)
+  description?: string;
+
+  // Played while waiting (defaults to HOLD_MUSIC_URL)
+  @Column(DataType.TEXT)
+  hold_music_url?: string;
+
+  @Default(true)
+  @Column(DataType.BOOLEAN)
+  announce_position!: boolean;
+
+  @Default(true)
+  @Column(DataType.BOOLEAN)
+  announce_wait_time!: boolean;
+
+  @Default(60)
+  @Column(DataType.INTEGER)
+  announcement_interval_seconds!: number;
+
+  @Default(600)
+  @Column(DataType.INTEGER)
+  max_wait_seconds!: number;
+
+  // Callers beyond this many go straight to the overflow destination
+  @Default(50)
+  @Column(DataType.INTEGER)
+  max_size!: number;
+
+  // Where the call goes when the queue is full or the wait runs out (defaults to voicemail)
+  @Column(DataType.JSONB)
+  overflow_destination?: CallDestination;
+
+  // Key the caller can press while waiting to leave a voicemail instead
+  @Column(DataType.STRING(1))
+  voicemail_digit?: string;
+
+  // Calls answered within this many seconds count toward the service level
+  @Default(20)
+  @Column(DataType.INTEGER)
+  service_level_seconds!: number;
+
+  // Users that take calls from this queue; empty means every agent in the company
+  @Default([])
+  @Column(DataType.JSONB)
+  agent_ids!: number[];
+
+  // Resolved lazily once Twilio has created the queue
+  @Column(DataType.STRING(50))
+  twilio_queue_sid?: string;
+
+  @Default(true)
+  @Column(DataType.BOOLEAN)
+  is_active!: boolean;
+
+  @ForeignKey(() => User)
+  @Column(DataType.INTEGER)
+  created_by?: number;
+
+  @CreatedAt
+  @Column({ field: 'created_at' })
+  created_at!: Date;
+
+  @UpdatedAt
+  @Column({ field: 'updated_at' })
+  updated_at!: Date;
+
+  // Associations
+  @BelongsTo(() => Company)
+  company!: Company;
+
+  @BelongsTo(() => User, 'created_by')
+  creator?: User;
+
+  @HasMany(() => QueueEntry)
+  entries!: QueueEntry[];
+}
@@ -110,6 +110,14 @@ export default class CallRecording extends Model<CallRecording> {
   @Column(DataType.DATE)
   archived_at?: Date;
 
+  // Failed retention archive / delete attempts, retried with backoff from retention_retry_at
+  @Default(0)
+  @Column(DataType.INTEGER)
+  retention_failures?: number;
+
+  @Column(DataType.DATE)
+  retention_retry_at?: Date;
+
   @Default('completed')
   @Column(DataType.STRING(50))
   status?: string;
@@ -0,0 +1,75 @@
+// backend/src/models/CallerListEntry.ts
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  BelongsTo,
+  ForeignKey,
+  Default,
+  AllowNull,
+  CreatedAt,
+  UpdatedAt
+} from 'sequelize-typescript';
+import Company from './Company';
+import User from './User';
+import { CallerListType } from '../types/enums';
+
+export type CallerPatternType = 'exact' | 'prefix' | 'wildcard';
+
+@Table({
+  tableName: 'caller_list_entries',
+  timestamps: true,
+  underscored: true
+})
+export default class CallerListEntry extends Model<CallerListEntry> {
+  @ForeignKey(() => Company)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  company_id!: number;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(10))
+  list_type!: CallerListType;
+
+  // "+14165550100" (exact), "+1900*" (prefix) or "+1416XXXXXXX" (X matches any digit)
+  @AllowNull(false)
+  @Column(DataType.STRING(32))
+  pattern!: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(10))
+  pattern_type!: CallerPatternType;
+
+  @Column(DataType.STRING(255))
+  reason?: string;
+
+  @Column(DataType.DATE)
+  expires_at?: Date;
+
+  @Default(0)
+  @Column(DataType.INTEGER)
+  hit_count!: number;
+
+  @Column(DataType.DATE)
+  last_hit_at?: Date;
+
+  @ForeignKey(() => User)
+  @Column(DataType.INTEGER)
+  created_by?: number;
+
+  @CreatedAt
+  @Column({ field: 'created_at' })
+  created_at!: Date;
+
+  @UpdatedAt
+  @Column({ field: 'updated_at' })
+  updated_at!: Date;
+
+  // Associations
+  @BelongsTo(() => Company)
+  company!: Company;
+
+  @BelongsTo(() => User, 'created_by')
+  creator?: User;
+}
@@ -24,11 +24,20 @@ import TextConversation from './TextConversation';
 import CustomerProfile from './CustomerProfile';
 import Account from './Account';
 import UserCompany from './UserCompany';
+import Schedule from './Schedule';
+import { RecordingConsentRule, RecordingRetentionPolicy } from '../types/interfaces';
 
 interface CompanySettings {
   caller_id_lookup: boolean;
   spam_detection: boolean;
+  spam_flag_threshold?: number;  // score at which calls are marked is_spam (default 0.6)
+  spam_block_threshold?: number; // score at which calls are rejected (default 0.9)
   call_scoring: boolean;
+  recording_disclaimer_message?: string;
+  recording_disclaimer_audio_url?: string; // played instead of the message when set
+  recording_consent_rules?: RecordingConsentRule[];
+  call_transcription?: boolean; // transcribe every call recording
+  recording_retention?: RecordingRetentionPolicy; // tracking numbers can override
   api_key?: string;
 }
 
@@ -71,6 +80,14 @@ export default class Company extends Model<Company> {
   @Column(DataType.STRING(50))
   timezone!: string;
 
+  // Default business hours for tracking numbers without their own schedule
+  @ForeignKey(() => Schedule)
+  @Column(DataType.INTEGER)
+  schedule_id?: number;
+
+  @BelongsTo(() => Schedule, { foreignKey: 'schedule_id', constraints: false })
+  schedule?: Schedule;
+
   // SIP Configuration
   @AllowNull(false)
   @Column(DataType.STRING(255))
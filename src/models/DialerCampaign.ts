@@ -0,0 +1,115 @@
+// backend/src/models/DialerCampaign.ts
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  BelongsTo,
+  ForeignKey,
+  HasMany,
+  Default,
+  AllowNull,
+  CreatedAt,
+  UpdatedAt
+} from 'sequelize-typescript';
+import Company from './Company';
+import User from './User';
+import TrackingNumber from './TrackingNumber';
+import DialerContact from './DialerContact';
+import { DialerCallingWindow } from '../types/interfaces';
+import { DialerCallResult, DialerCampaignStatus } from '../types/enums';
+
+@Table({
+  tableName: 'dialer_campaigns',
+  timestamps: true,
+  underscored: true
+})
+export default class DialerCampaign extends Model<DialerCampaign> {
+  @ForeignKey(() => Company)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  company_id!: number;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(255))
+  name!: string;
+
+  @Column(DataType.TEXT)
+  description?: string;
+
+  // Calls are placed from (and show the caller ID of) this number
+  @ForeignKey(() => TrackingNumber)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  tracking_number_id!: number;
+
+  @Default(DialerCampaignStatus.DRAFT)
+  @Column(DataType.STRING(20))
+  status!: DialerCampaignStatus;
+
+  // Users that take calls for this campaign
+  @Default([])
+  @Column(DataType.JSONB)
+  agent_ids!: number[];
+
+  @Default({ start: '09:00', end: '20:00' })
+  @Column(DataType.JSONB)
+  calling_window!: DialerCallingWindow;
+
+  // For contacts without a timezone (defaults to the company timezone)
+  @Column(DataType.STRING(50))
+  timezone?: string;
+
+  @Default(3)
+  @Column(DataType.INTEGER)
+  max_attempts!: number;
+
+  @Default(60)
+  @Column(DataType.INTEGER)
+  retry_delay_minutes!: number;
+
+  // Unanswered results that are tried again (until max_attempts)
+  @Default([DialerCallResult.NO_ANSWER, DialerCallResult.BUSY])
+  @Column(DataType.JSONB)
+  retry_results!: DialerCallResult[];
+
+  @Default(30)
+  @Column(DataType.INTEGER)
+  ring_timeout_seconds!: number;
+
+  // Dispositions agents pick from after a connected call
+  @Default(['interested', 'not_interested', 'callback', 'wrong_number', 'do_not_call'])
+  @Column(DataType.JSONB)
+  dispositions!: string[];
+
+  @Column(DataType.DATE)
+  started_at?: Date;
+
+  @Column(DataType.DATE)
+  completed_at?: Date;
+
+  @ForeignKey(() => User)
+  @Column(DataType.INTEGER)
+  created_by?: number;
+
+  @CreatedAt
+  @Column({ field: 'created_at' })
+  created_at!: Date;
+
+  @UpdatedAt
+  @Column({ field: 'updated_at' })
+  updated_at!: Date;
+
+  // Associations
+  @BelongsTo(() => Company)
+  company!: Company;
+
+  @BelongsTo(() => TrackingNumber)
+  trackingNumber!: TrackingNumber;
+
+  @BelongsTo(() => User, 'created_by')
+  creator?: User;
+
+  @HasMany(() => DialerContact)
+  contacts!: DialerContact[];
+}
@@ -0,0 +1,117 @@
+// backend/src/models/DialerContact.ts
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  BelongsTo,
+  ForeignKey,
+  Default,
+  AllowNull,
+  CreatedAt,
+  UpdatedAt
+} from 'sequelize-typescript';
+import DialerCampaign from './DialerCampaign';
+import Company from './Company';
+import CustomerProfile from './CustomerProfile';
+import Call from './Call';
+import User from './User';
+import { DialerCallResult, DialerContactStatus } from '../types/enums';
+
+@Table({
+  tableName: 'dialer_contacts',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      unique: true,
+      fields: ['campaign_id', 'phone_number']
+    }
+  ]
+})
+export default class DialerContact extends Model<DialerContact> {
+  @ForeignKey(() => DialerCampaign)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  campaign_id!: number;
+
+  @ForeignKey(() => Company)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  company_id!: number;
+
+  @ForeignKey(() => CustomerProfile)
+  @Column(DataType.INTEGER)
+  customer_profile_id?: number;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(20))
+  phone_number!: string;
+
+  @Column(DataType.STRING(255))
+  name?: string;
+
+  // Calling window is applied in this timezone (falls back to the campaign's)
+  @Column(DataType.STRING(50))
+  timezone?: string;
+
+  @Default(DialerContactStatus.PENDING)
+  @Column(DataType.STRING(20))
+  status!: DialerContactStatus;
+
+  @Default(0)
+  @Column(DataType.INTEGER)
+  attempts!: number;
+
+  // Retries and callbacks wait until this time
+  @Column(DataType.DATE)
+  next_attempt_at?: Date;
+
+  @Column(DataType.DATE)
+  last_attempt_at?: Date;
+
+  @Column(DataType.STRING(20))
+  last_result?: DialerCallResult;
+
+  // Agent on the current (or last) attempt
+  @ForeignKey(() => User)
+  @Column(DataType.INTEGER)
+  agent_id?: number;
+
+  @ForeignKey(() => Call)
+  @Column(DataType.INTEGER)
+  call_id?: number;
+
+  @Column(DataType.STRING(50))
+  disposition?: string;
+
+  @Column(DataType.TEXT)
+  disposition_notes?: string;
+
+  @Column(DataType.DATE)
+  disposed_at?: Date;
+
+  @CreatedAt
+  @Column({ field: 'created_at' })
+  created_at!: Date;
+
+  @UpdatedAt
+  @Column({ field: 'updated_at' })
+  updated_at!: Date;
+
+  // Associations
+  @BelongsTo(() => DialerCampaign)
+  campaign!: DialerCampaign;
+
+  @BelongsTo(() => Company)
+  company!: Company;
+
+  @BelongsTo(() => CustomerProfile)
+  customerProfile?: CustomerProfile;
+
+  @BelongsTo(() => Call)
+  call?: Call;
+
+  @BelongsTo(() => User, 'agent_id')
+  agent?: User;
+}
@@ -0,0 +1,91 @@
+// backend/src/models/QueueEntry.ts
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  BelongsTo,
+  ForeignKey,
+  Default,
+  AllowNull,
+  CreatedAt,
+  UpdatedAt
+} from 'sequelize-typescript';
+import CallQueue from './CallQueue';
+import Company from './Company';
+import Call from './Call';
+import User from './User';
+import { QueueEntryStatus } from '../types/enums';
+
+@Table({
+  tableName: 'queue_entries',
+  timestamps: true,
+  underscored: true
+})
+export default class QueueEntry extends Model<QueueEntry> {
+  @ForeignKey(() => CallQueue)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  queue_id!: number;
+
+  @ForeignKey(() => Company)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  company_id!: number;
+
+  @ForeignKey(() => Call)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  call_id!: number;
+
+  @Default(QueueEntryStatus.WAITING)
+  @Column(DataType.STRING(20))
+  status!: QueueEntryStatus;
+
+  // Agent being rung or who answered
+  @ForeignKey(() => User)
+  @Column(DataType.INTEGER)
+  agent_id?: number;
+
+  @Default(DataType.NOW)
+  @Column(DataType.DATE)
+  enqueued_at!: Date;
+
+  @Column(DataType.DATE)
+  answered_at?: Date;
+
+  @Column(DataType.DATE)
+  left_at?: Date;
+
+  @Column(DataType.INTEGER)
+  wait_seconds?: number;
+
+  @Column(DataType.DATE)
+  last_announced_at?: Date;
+
+  // Agents that were rung for this caller and did not pick up
+  @Default([])
+  @Column(DataType.JSONB)
+  skipped_agent_ids!: number[];
+
+  @CreatedAt
+  @Column({ field: 'created_at' })
+  created_at!: Date;
+
+  @UpdatedAt
+  @Column({ field: 'updated_at' })
+  updated_at!: Date;
+
+  // Associations
+  @BelongsTo(() => CallQueue)
+  queue!: CallQueue;
+
+  @BelongsTo(() => Company)
+  company!: Company;
+
+  @BelongsTo(() => Call)
+  call!: Call;
+
+  @BelongsTo(() => User, 'agent_id')
+  agent?: User;
+}
@@ -0,0 +1,56 @@
+// backend/src/models/RecordingDataKey.ts
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  BelongsTo,
+  ForeignKey,
+  AllowNull,
+  CreatedAt,
+  UpdatedAt
+} from 'sequelize-typescript';
+import Company from './Company';
+
+@Table({
+  tableName: 'recording_data_keys',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      unique: true,
+      fields: ['company_id']
+    }
+  ]
+})
+export default class RecordingDataKey extends Model<RecordingDataKey> {
+  @ForeignKey(() => Company)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  company_id!: number;
+
+  // Company data key encrypted with the master key (never stored in clear)
+  @AllowNull(false)
+  @Column(DataType.TEXT)
+  wrapped_key!: string;
+
+  // Id of the master key that wrapped it
+  @AllowNull(false)
+  @Column(DataType.STRING(50))
+  master_key_id!: string;
+
+  @Column(DataType.DATE)
+  rotated_at?: Date;
+
+  @CreatedAt
+  @Column({ field: 'created_at' })
+  created_at!: Date;
+
+  @UpdatedAt
+  @Column({ field: 'updated_at' })
+  updated_at!: Date;
+
+  // Associations
+  @BelongsTo(() => Company)
+  company!: Company;
+}
@@ -0,0 +1,77 @@
+// backend/src/models/RecordingPurgeLog.ts
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  BelongsTo,
+  ForeignKey,
+  AllowNull,
+  CreatedAt
+} from 'sequelize-typescript';
+import Call from './Call';
+import Company from './Company';
+import { RecordingPurgeAction } from '../types/enums';
+
+@Table({
+  tableName: 'recording_purge_logs',
+  timestamps: true,
+  underscored: true,
+  createdAt: 'created_at',
+  updatedAt: false // audit entries are never changed
+})
+export default class RecordingPurgeLog extends Model<RecordingPurgeLog> {
+  @ForeignKey(() => Company)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  company_id!: number;
+
+  @ForeignKey(() => Call)
+  @Column(DataType.INTEGER)
+  call_id?: number;
+
+  // Not a foreign key: the entry outlives the recording
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  recording_id!: number;
+
+  @Column(DataType.STRING(100))
+  recording_sid?: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(20))
+  action!: RecordingPurgeAction;
+
+  // Storage location before the action, and after it for archives
+  @Column(DataType.STRING(500))
+  storage_key?: string;
+
+  @Column(DataType.STRING(500))
+  archive_key?: string;
+
+  @Column(DataType.STRING(50))
+  storage_provider?: string;
+
+  // Which policy applied: "company" or "tracking_number", and its day count for this action
+  @AllowNull(false)
+  @Column(DataType.STRING(20))
+  policy_source!: 'company' | 'tracking_number';
+
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  policy_days!: number;
+
+  @Column(DataType.DATE)
+  recorded_at?: Date;
+
+  @CreatedAt
+  @Column({ field: 'created_at' })
+  created_at!: Date;
+
+  // Associations
+  @BelongsTo(() => Company)
+  company!: Company;
+
+  @BelongsTo(() => Call)
+  call?: Call;
+}
@@ -0,0 +1,77 @@
+// backend/src/models/RingGroup.ts
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  BelongsTo,
+  ForeignKey,
+  HasMany,
+  Default,
+  AllowNull,
+  CreatedAt,
+  UpdatedAt
+} from 'sequelize-typescript';
+import Company from './Company';
+import User from './User';
+import RingGroupMember from './RingGroupMember';
+import { RingStrategy } from '../types/enums';
+import { CallDestination } from '../types/interfaces';
+
+@Table({
+  tableName: 'ring_groups',
+  timestamps: true,
+  underscored: true
+})
+export default class RingGroup extends Model<RingGroup> {
+  @ForeignKey(() => Company)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  company_id!: number;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(255))
+  name!: string;
+
+  @Column(DataType.TEXT)
+  description?: string;
+
+  @Default(RingStrategy.SIMULTANEOUS)
+  @Column(DataType.STRING(20))
+  strategy!: RingStrategy;
+
+  // Whole group for simultaneous, each member for sequential / round-robin
+  @Default(20)
+  @Column(DataType.INTEGER)
+  ring_timeout_seconds!: number;
+
+  // Where the call goes when nobody answers (defaults to the number's voicemail)
+  @Column(DataType.JSONB)
+  fallback_destination?: CallDestination;
+
+  @Default(true)
+  @Column(DataType.BOOLEAN)
+  is_active!: boolean;
+
+  @ForeignKey(() => User)
+  @Column(DataType.INTEGER)
+  created_by?: number;
+
+  @CreatedAt
+  @Column({ field: 'created_at' })
+  created_at!: Date;
+
+  @UpdatedAt
+  @Column({ field: 'updated_at' })
+  updated_at!: Date;
+
+  // Associations
+  @BelongsTo(() => Company)
+  company!: Company;
+
+  @BelongsTo(() => User, 'created_by')
+  creator?: User;
+
+  @HasMany(() => RingGroupMember)
+  members!: RingGroupMember[];
+}
@@ -0,0 +1,62 @@
+// backend/src/models/RingGroupMember.ts
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  BelongsTo,
+  ForeignKey,
+  Default,
+  AllowNull,
+  CreatedAt,
+  UpdatedAt
+} from 'sequelize-typescript';
+import RingGroup from './RingGroup';
+import User from './User';
+
+@Table({
+  tableName: 'ring_group_members',
+  timestamps: true,
+  underscored: true
+})
+export default class RingGroupMember extends Model<RingGroupMember> {
+  @ForeignKey(() => RingGroup)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  ring_group_id!: number;
+
+  // Either a company user or an external number
+  @ForeignKey(() => User)
+  @Column(DataType.INTEGER)
+  user_id?: number;
+
+  @Column(DataType.STRING(20))
+  phone_number?: string;
+
+  @Default(0)
+  @Column(DataType.INTEGER)
+  position!: number;
+
+  @Default(true)
+  @Column(DataType.BOOLEAN)
+  is_active!: boolean;
+
+  // Used by round-robin to pick the member who waited longest
+  @Column(DataType.DATE)
+  last_call_at?: Date;
+
+  @CreatedAt
+  @Column({ field: 'created_at' })
+  created_at!: Date;
+
+  @UpdatedAt
+  @Column({ field: 'updated_at' })
+  updated_at!: Date;
+
+  // Associations
+  @BelongsTo(() => RingGroup)
+  ring_group!: RingGroup;
+
+  @BelongsTo(() => User)
+  user?: User;
+}
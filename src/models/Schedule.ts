@@ -0,0 +1,75 @@
+// backend/src/models/Schedule.ts
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  BelongsTo,
+  ForeignKey,
+  HasMany,
+  Default,
+  AllowNull,
+  CreatedAt,
+  UpdatedAt
+} from 'sequelize-typescript';
+import Company from './Company';
+import User from './User';
+import TrackingNumber from './TrackingNumber';
+import { ScheduleClosure, ScheduleHoliday, WeeklyHours } from '../types/interfaces';
+
+@Table({
+  tableName: 'schedules',
+  timestamps: true,
+  underscored: true
+})
+export default class Schedule extends Model<Schedule> {
+  @ForeignKey(() => Company)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  company_id!: number;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(255))
+  name!: string;
+
+  @Column(DataType.TEXT)
+  description?: string;
+
+  // Falls back to the company timezone when empty
+  @Column(DataType.STRING(50))
+  timezone?: string;
+
+  @Default({})
+  @Column(DataType.JSONB)
+  weekly_hours!: WeeklyHours;
+
+  @Default([])
+  @Column(DataType.JSONB)
+  holidays!: ScheduleHoliday[];
+
+  @Default([])
+  @Column(DataType.JSONB)
+  closures!: ScheduleClosure[];
+
+  @ForeignKey(() => User)
+  @Column(DataType.INTEGER)
+  created_by?: number;
+
+  @CreatedAt
+  @Column({ field: 'created_at' })
+  created_at!: Date;
+
+  @UpdatedAt
+  @Column({ field: 'updated_at' })
+  updated_at!: Date;
+
+  // Associations
+  @BelongsTo(() => Company, 'company_id')
+  company!: Company;
+
+  @BelongsTo(() => User, 'created_by')
+  creator?: User;
+
+  @HasMany(() => TrackingNumber, 'schedule_id')
+  tracking_numbers!: TrackingNumber[];
+}
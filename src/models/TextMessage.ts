@@ -11,10 +11,12 @@ import {
   CreatedAt
   } from 'sequelize-typescript';
 import { MessageDirection, MessageStatus } from '../types/enums';
+import { CallerIdReason } from '../types/interfaces';
 import TextConversation from './TextConversation';
 import Company from './Company';
 import User from './User';
 import AgentSession from './AgentSession';
+import Call from './Call';
 
 @Table({
   tableName: 'text_messages',
@@ -86,6 +88,19 @@ export default class TextMessage extends Model {
   @Column(DataType.INTEGER)
   agent_session_id?: number;
 
+  // Automated messages sent about a call (e.g. missed-call text-back)
+  @ForeignKey(() => Call)
+  @Column(DataType.INTEGER)
+  call_id?: number;
+
+  // Queued messages are sent once this time has passed
+  @Column(DataType.DATE)
+  scheduled_at?: Date;
+
+  // How the sending number of an outbound message was chosen
+  @Column(DataType.STRING(20))
+  caller_id_reason?: CallerIdReason;
+
   @Column(DataType.DATE)
   read_at?: Date;
 
@@ -128,4 +143,7 @@ export default class TextMessage extends Model {
 
   @BelongsTo(() => AgentSession)
   agent_session?: AgentSession;
+
+  @BelongsTo(() => Call)
+  call?: Call;
 }
\ No newline at end of file
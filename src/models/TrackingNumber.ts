@@ -17,13 +17,9 @@ import Company from './Company';
 import Call from './Call';
 import TextConversation from './TextConversation';
 import Visitor from './Visitor';
-interface CallFlowConfig {
-  record_calls: boolean;
-  timeout_seconds: number;
-  voicemail_enabled: boolean;
-  voicemail_greeting: string;
-  voicemail_transcribe: boolean;
-}
+import Schedule from './Schedule';
+import CallFlowVersion from './CallFlowVersion';
+import { CallFlowConfig, RecordingRetentionPolicy } from '../types/interfaces';
 
 @Table({
   tableName: 'tracking_numbers',
@@ -59,6 +55,17 @@ export default class TrackingNumber extends Model<TrackingNumber> {
   @HasMany(() => Visitor) 
   visitors!: Visitor[];
 
+  @HasMany(() => CallFlowVersion)
+  call_flow_versions!: CallFlowVersion[];
+
+  // Business hours; falls back to the company schedule when not set
+  @ForeignKey(() => Schedule)
+  @Column(DataType.INTEGER)
+  schedule_id?: number;
+
+  @BelongsTo(() => Schedule, 'schedule_id')
+  schedule?: Schedule;
+
   @Unique
   @AllowNull(false)
   @Column(DataType.STRING(20))
@@ -107,6 +114,14 @@ export default class TrackingNumber extends Model<TrackingNumber> {
   @Column(DataType.JSONB)
   call_flow!: CallFlowConfig;
 
+  // Version number of the published call flow (call_flow holds its content)
+  @Column(DataType.INTEGER)
+  call_flow_version?: number;
+
+  // Overrides the company recording retention policy for calls to this number
+  @Column(DataType.JSONB)
+  recording_retention?: RecordingRetentionPolicy | null;
+
   // Provider details
   @Column(DataType.STRING(50))
   provider?: string;
@@ -13,6 +13,7 @@ import {
 import { UserRole } from '../types/enums';
 import User from './User';
 import Company from './Company';
+import TrackingNumber from './TrackingNumber';
 
 @Table({
   tableName: 'user_companies',
@@ -55,6 +56,11 @@ export default class UserCompany extends Model<UserCompany> {
   @Column(DataType.INTEGER)
   invited_by?: number;
 
+  // Caller ID for this user's outbound calls and texts, set by an admin (skips local presence)
+  @ForeignKey(() => TrackingNumber)
+  @Column(DataType.INTEGER)
+  outbound_tracking_number_id?: number;
+
   @CreatedAt
   @Column({ field: 'created_at' })
   created_at!: Date;
@@ -72,4 +78,7 @@ export default class UserCompany extends Model<UserCompany> {
 
   @BelongsTo(() => User, 'invited_by')
   inviter?: User;
+
+  @BelongsTo(() => TrackingNumber, 'outbound_tracking_number_id')
+  outboundTrackingNumber?: TrackingNumber;
 }
\ No newline at end of file
@@ -0,0 +1,117 @@
+// backend/src/models/Voicemail.ts
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  BelongsTo,
+  ForeignKey,
+  Default,
+  AllowNull,
+  CreatedAt,
+  UpdatedAt
+} from 'sequelize-typescript';
+import Call from './Call';
+import Company from './Company';
+import TrackingNumber from './TrackingNumber';
+import User from './User';
+import { VoicemailTranscriptionStatus } from '../types/enums';
+
+@Table({
+  tableName: 'voicemails',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    {
+      unique: true,
+      fields: ['call_id']
+    }
+  ]
+})
+export default class Voicemail extends Model<Voicemail> {
+  @ForeignKey(() => Company)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  company_id!: number;
+
+  @ForeignKey(() => Call)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  call_id!: number;
+
+  @ForeignKey(() => TrackingNumber)
+  @Column(DataType.INTEGER)
+  tracking_number_id?: number;
+
+  @Column(DataType.STRING(20))
+  caller_number?: string;
+
+  @Column(DataType.STRING(255))
+  caller_name?: string;
+
+  @Column(DataType.STRING(100))
+  recording_sid?: string;
+
+  @Column(DataType.INTEGER)
+  duration?: number;
+
+  // Audio lives in the same storage as call recordings
+  @Column(DataType.STRING(500))
+  file_url?: string;
+
+  @Column(DataType.STRING(500))
+  storage_key?: string;
+
+  @Default('remote')
+  @Column(DataType.STRING(50))
+  storage_provider!: string;
+
+  // Null when the call flow does not transcribe voicemails
+  @Column(DataType.STRING(20))
+  transcription_status?: VoicemailTranscriptionStatus;
+
+  @Column(DataType.TEXT)
+  transcription?: string;
+
+  @Default(false)
+  @Column(DataType.BOOLEAN)
+  is_read!: boolean;
+
+  @Column(DataType.DATE)
+  read_at?: Date;
+
+  @ForeignKey(() => User)
+  @Column(DataType.INTEGER)
+  read_by?: number;
+
+  @ForeignKey(() => User)
+  @Column(DataType.INTEGER)
+  assigned_to?: number;
+
+  @Column(DataType.DATE)
+  assigned_at?: Date;
+
+  @CreatedAt
+  @Column({ field: 'created_at' })
+  created_at!: Date;
+
+  @UpdatedAt
+  @Column({ field: 'updated_at' })
+  updated_at!: Date;
+
+  // Associations
+  @BelongsTo(() => Company)
+  company!: Company;
+
+  @BelongsTo(() => Call)
+  call!: Call;
+
+  @BelongsTo(() => TrackingNumber)
+  trackingNumber?: TrackingNumber;
+
+  @BelongsTo(() => User, 'assigned_to')
+  assignee?: User;
+
+  @BelongsTo(() => User, 'read_by')
+  reader?: User;
+}
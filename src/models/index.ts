@@ -23,6 +23,18 @@ import WebhookDelivery from './WebhookDelivery';
 import SipEvent from './SipEvent';
 import UserInvitation from './UserInvitation';
 import UserCompany from './UserCompany';
+import Schedule from './Schedule';
+import RingGroup from './RingGroup';
+import RingGroupMember from './RingGroupMember';
+import CallQueue from './CallQueue';
+import QueueEntry from './QueueEntry';
+import CallerListEntry from './CallerListEntry';
+import CallFlowVersion from './CallFlowVersion';
+import DialerCampaign from './DialerCampaign';
+import DialerContact from './DialerContact';
+import Voicemail from './Voicemail';
+import RecordingPurgeLog from './RecordingPurgeLog';
+import RecordingDataKey from './RecordingDataKey';
 
 // Initialize Sequelize with configuration
 const sequelize = new Sequelize({
@@ -60,6 +72,18 @@ const sequelize = new Sequelize({
     SipEvent,
     UserInvitation,
     UserCompany,
+    Schedule,
+    RingGroup,
+    RingGroupMember,
+    CallQueue,
+    QueueEntry,
+    CallerListEntry,
+    CallFlowVersion,
+    DialerCampaign,
+    DialerContact,
+    Voicemail,
+    RecordingPurgeLog,
+    RecordingDataKey,
   ],
   pool: {
     max: 5,
@@ -96,6 +120,18 @@ export {
   SipEvent,
   UserInvitation,
   UserCompany,
+  Schedule,
+  RingGroup,
+  RingGroupMember,
+  CallQueue,
+  QueueEntry,
+  CallerListEntry,
+  CallFlowVersion,
+  DialerCampaign,
+  DialerContact,
+  Voicemail,
+  RecordingPurgeLog,
+  RecordingDataKey,
 };
 
 export * from '../types/enums';
\ No newline at end of file
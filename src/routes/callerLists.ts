@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import CallerListController from '../controllers/CallerListController';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '../types/enums';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', CallerListController.getEntries.bind(CallerListController));
+router.get('/check', CallerListController.checkNumber.bind(CallerListController));
+router.post('/', authorize(UserRole.ADMIN, UserRole.MANAGER), CallerListController.createEntry.bind(CallerListController));
+router.delete('/:id', authorize(UserRole.ADMIN, UserRole.MANAGER), CallerListController.deleteEntry.bind(CallerListController));
+
+export default router;
@@ -1,5 +1,6 @@
 import CallController from '../controllers/CallController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '../types/enums';
 import { validatePagination, validateDateRange, validateRequest} from '../middleware/validation';
 import { query, param } from 'express-validator';
 import { Router, Request, Response } from 'express';
@@ -33,11 +34,19 @@ router.get('/:id/recording', authenticate, CallController.getRecordingUrl.bind(C
 // Stream recording
 router.get(
   '/:id/recording/stream',
-  [param('id').isInt()],
+  [param('id').isInt(), query('preview').optional().isBoolean()],
   validateRequest,
   CallController.streamRecording.bind(CallController)
 );
 
+// Call event timeline (IVR path, transfers, ...)
+router.get(
+  '/:id/events',
+  [param('id').isInt()],
+  validateRequest,
+  CallController.getCallEvents.bind(CallController)
+);
+
 router.get('/visitor-attribution', CallController.getCallsWithVisitors.bind(CallController));
 
 
@@ -55,8 +64,16 @@ router.delete('/:id/tags/:tagId', CallController.removeTag.bind(CallController))
 
 // Call actions
 router.post('/:id/transfer', CallController.transferCall.bind(CallController));
+router.post('/:id/transfer/complete', CallController.completeTransfer.bind(CallController));
+router.post('/:id/transfer/cancel', CallController.cancelTransfer.bind(CallController));
 router.post('/:id/hold', CallController.holdCall.bind(CallController));
 router.post('/:id/unhold', CallController.unholdCall.bind(CallController));
 router.post('/:id/hangup', CallController.hangupCall.bind(CallController));
+router.post('/:id/block', authorize(UserRole.ADMIN, UserRole.MANAGER), CallController.blockCaller.bind(CallController));
+router.put('/:id/legal-hold', authorize(UserRole.ADMIN, UserRole.MANAGER), CallController.setLegalHold.bind(CallController));
+
+// Supervision (monitor / whisper / barge)
+router.post('/:id/:mode(monitor|whisper|barge)', authorize(UserRole.ADMIN, UserRole.MANAGER), CallController.superviseCall.bind(CallController));
+router.delete('/:id/supervision', authorize(UserRole.ADMIN, UserRole.MANAGER), CallController.stopSupervision.bind(CallController));
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import DialerController from '../controllers/DialerController';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '../types/enums';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/campaigns', DialerController.getCampaigns.bind(DialerController));
+router.get('/campaigns/:id', DialerController.getCampaign.bind(DialerController));
+router.get('/campaigns/:id/progress', DialerController.getCampaignProgress.bind(DialerController));
+router.get('/campaigns/:id/contacts', DialerController.getContacts.bind(DialerController));
+router.post('/campaigns', authorize(UserRole.ADMIN, UserRole.MANAGER), DialerController.createCampaign.bind(DialerController));
+router.put('/campaigns/:id', authorize(UserRole.ADMIN, UserRole.MANAGER), DialerController.updateCampaign.bind(DialerController));
+router.delete('/campaigns/:id', authorize(UserRole.ADMIN, UserRole.MANAGER), DialerController.deleteCampaign.bind(DialerController));
+router.post('/campaigns/:id/start', authorize(UserRole.ADMIN, UserRole.MANAGER), DialerController.startCampaign.bind(DialerController));
+router.post('/campaigns/:id/pause', authorize(UserRole.ADMIN, UserRole.MANAGER), DialerController.pauseCampaign.bind(DialerController));
+router.post('/campaigns/:id/contacts', authorize(UserRole.ADMIN, UserRole.MANAGER), DialerController.addContacts.bind(DialerController));
+
+// Agent wrap-up
+router.get('/contacts/current', DialerController.getCurrentContact.bind(DialerController));
+router.post('/contacts/:contactId/disposition', DialerController.submitDisposition.bind(DialerController));
+
+export default router;
@@ -14,6 +14,13 @@ import recordingRoutes from './recordings';
 import sipRoutes from './sip';
 import dniRoutes from './dni';
 import newsletter from './newsletter';
+import scheduleRoutes from './schedules';
+import ringGroupRoutes from './ringGroups';
+import queueRoutes from './queues';
+import callerListRoutes from './callerLists';
+import dialerRoutes from './dialer';
+import voicemailRoutes from './voicemails';
+import mockTelephonyRoutes from './mockTelephony';
 
 const router = Router();
 
@@ -33,6 +40,17 @@ router.use('/journey', journeyRoutes);
 router.use('/webhooks', webhookRoutes);
 router.use('/agents', agentRoutes);
 router.use('/recordings', recordingRoutes);
+router.use('/schedules', scheduleRoutes);
+router.use('/ring-groups', ringGroupRoutes);
+router.use('/queues', queueRoutes);
+router.use('/caller-lists', callerListRoutes);
+router.use('/dialer', dialerRoutes);
+router.use('/voicemails', voicemailRoutes);
 router.use('/newsletter', newsletter);
 
+// In-memory telephony simulator for local development and end-to-end tests
+if (process.env.MOCK_TELEPHONY_ENABLED === 'true' && process.env.NODE_ENV !== 'production') {
+  router.use('/mock-telephony', mockTelephonyRoutes);
+}
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,20 @@
+// backend/src/routes/mockTelephony.ts
+import { Router } from 'express';
+import MockTelephonyController from '../controllers/MockTelephonyController';
+
+const router = Router();
+
+// Development only (mounted when MOCK_TELEPHONY_ENABLED=true outside production)
+router.get('/calls', MockTelephonyController.getCalls.bind(MockTelephonyController));
+router.post('/calls', MockTelephonyController.startCall.bind(MockTelephonyController));
+router.get('/calls/:sid', MockTelephonyController.getCall.bind(MockTelephonyController));
+router.post('/calls/:sid/gather', MockTelephonyController.gather.bind(MockTelephonyController));
+router.post('/calls/:sid/dial', MockTelephonyController.dialResult.bind(MockTelephonyController));
+router.post('/calls/:sid/status', MockTelephonyController.status.bind(MockTelephonyController));
+router.post('/calls/:sid/recording', MockTelephonyController.recording.bind(MockTelephonyController));
+router.get('/recordings/:file', MockTelephonyController.getRecordingAudio.bind(MockTelephonyController));
+router.get('/messages', MockTelephonyController.getMessages.bind(MockTelephonyController));
+router.get('/numbers', MockTelephonyController.getNumbers.bind(MockTelephonyController));
+router.post('/reset', MockTelephonyController.reset.bind(MockTelephonyController));
+
+export default router;
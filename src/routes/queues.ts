@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import QueueController from '../controllers/QueueController';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '../types/enums';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', QueueController.getQueues.bind(QueueController));
+router.get('/:id', QueueController.getQueue.bind(QueueController));
+router.get('/:id/metrics', QueueController.getQueueMetrics.bind(QueueController));
+router.get('/:id/entries', QueueController.getQueueEntries.bind(QueueController));
+router.post('/', authorize(UserRole.ADMIN, UserRole.MANAGER), QueueController.createQueue.bind(QueueController));
+router.put('/:id', authorize(UserRole.ADMIN, UserRole.MANAGER), QueueController.updateQueue.bind(QueueController));
+router.delete('/:id', authorize(UserRole.ADMIN, UserRole.MANAGER), QueueController.deleteQueue.bind(QueueController));
+
+export default router;
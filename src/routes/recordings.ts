@@ -1,20 +1,33 @@
 import { Router } from 'express';
+import { param, query } from 'express-validator';
 import RecordingController from '../controllers/RecordingController';
 import { authenticate, authorize } from '../middleware/auth';
 import { UserRole } from '../types/enums';
+import { validateRequest } from '../middleware/validation';
 
 const router = Router();
 
 // All routes require authentication
 router.use(authenticate);
 
+// Recording / consent settings and retention log (before /:id so they are not taken as an id)
+router.get('/settings', RecordingController.getSettings.bind(RecordingController));
+router.put('/settings', authorize(UserRole.ADMIN, UserRole.MANAGER), RecordingController.updateSettings.bind(RecordingController));
+router.get('/purge-log', authorize(UserRole.ADMIN, UserRole.MANAGER), RecordingController.getPurgeLog.bind(RecordingController));
+
 // Recording routes
 router.get('/:id', RecordingController.getRecording.bind(RecordingController));
-router.get('/:id/play', RecordingController.playRecording.bind(RecordingController));
+router.get(
+  '/:id/play',
+  [param('id').isInt(), query('preview').optional().isBoolean()],
+  validateRequest,
+  RecordingController.playRecording.bind(RecordingController)
+);
 router.get('/:id/download', RecordingController.downloadRecording.bind(RecordingController));
 // router.delete('/:id', authorize(UserRole.ADMIN, UserRole.MANAGER), RecordingController.deleteRecording.bind(RecordingController));
 
 // Transcription
 router.get('/calls/:id/transcription', RecordingController.getTranscription.bind(RecordingController));
+router.post('/calls/:id/transcription', authorize(UserRole.ADMIN, UserRole.MANAGER), RecordingController.requestTranscription.bind(RecordingController));
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import RingGroupController from '../controllers/RingGroupController';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '../types/enums';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', RingGroupController.getRingGroups.bind(RingGroupController));
+router.get('/:id', RingGroupController.getRingGroup.bind(RingGroupController));
+router.post('/', authorize(UserRole.ADMIN, UserRole.MANAGER), RingGroupController.createRingGroup.bind(RingGroupController));
+router.put('/:id', authorize(UserRole.ADMIN, UserRole.MANAGER), RingGroupController.updateRingGroup.bind(RingGroupController));
+router.delete('/:id', authorize(UserRole.ADMIN, UserRole.MANAGER), RingGroupController.deleteRingGroup.bind(RingGroupController));
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import ScheduleController from '../controllers/ScheduleController';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '../types/enums';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', ScheduleController.getSchedules.bind(ScheduleController));
+router.put('/default', authorize(UserRole.ADMIN, UserRole.MANAGER), ScheduleController.setDefaultSchedule.bind(ScheduleController));
+router.get('/:id', ScheduleController.getSchedule.bind(ScheduleController));
+router.get('/:id/status', ScheduleController.getScheduleStatus.bind(ScheduleController));
+router.post('/', authorize(UserRole.ADMIN, UserRole.MANAGER), ScheduleController.createSchedule.bind(ScheduleController));
+router.put('/:id', authorize(UserRole.ADMIN, UserRole.MANAGER), ScheduleController.updateSchedule.bind(ScheduleController));
+router.delete('/:id', authorize(UserRole.ADMIN, UserRole.MANAGER), ScheduleController.deleteSchedule.bind(ScheduleController));
+
+export default router;
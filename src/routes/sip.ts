@@ -1,15 +1,34 @@
 import { Router, Request, Response } from 'express';
 import SipController from '../controllers/SipController';
 import { authenticate } from '../middleware/auth';
+import { validateTwilioSignature } from '../middleware/twilioSignature';
 
 const router = Router();
 
-// Webhook endpoints for Twilio (no auth required)
-router.post('/incoming', SipController.handleIncomingCall.bind(SipController));
-router.post('/status', SipController.handleCallStatus.bind(SipController));
-router.post('/recording-status', SipController.handleRecordingStatus.bind(SipController));
-router.post('/fallback', SipController.handleFallback.bind(SipController));
-router.post('/outbound-handler', SipController.handleOutboundCall.bind(SipController));
+// Webhook endpoints for Twilio (signed by Twilio instead of user auth)
+router.post('/incoming', validateTwilioSignature, SipController.handleIncomingCall.bind(SipController));
+router.post('/status', validateTwilioSignature, SipController.handleCallStatus.bind(SipController));
+router.post('/dial-status', validateTwilioSignature, SipController.handleDialStatus.bind(SipController));
+router.post('/ivr/:trackingNumberId/:nodeId', validateTwilioSignature, SipController.handleIvrRequest.bind(SipController));
+router.post('/survey/:trackingNumberId/:questionIndex', validateTwilioSignature, SipController.handleSurveyAnswer.bind(SipController));
+router.post('/ring-group/:ringGroupId/status', validateTwilioSignature, SipController.handleRingGroupStatus.bind(SipController));
+router.post('/ring-group/:ringGroupId/answered', validateTwilioSignature, SipController.handleRingGroupAnswered.bind(SipController));
+router.post('/queue/:queueId/wait', validateTwilioSignature, SipController.handleQueueWait.bind(SipController));
+router.post('/queue/:queueId/option', validateTwilioSignature, SipController.handleQueueOption.bind(SipController));
+router.post('/queue/:queueId/leave', validateTwilioSignature, SipController.handleQueueLeave.bind(SipController));
+router.post('/queue/:queueId/connect', validateTwilioSignature, SipController.handleQueueConnect.bind(SipController));
+router.post('/queue/:queueId/connect-status', validateTwilioSignature, SipController.handleQueueConnectStatus.bind(SipController));
+router.post('/queue/:queueId/answered', validateTwilioSignature, SipController.handleQueueAnswered.bind(SipController));
+router.post('/dialer/:contactId/connect', validateTwilioSignature, SipController.handleDialerConnect.bind(SipController));
+router.post('/dialer/:contactId/answered', validateTwilioSignature, SipController.handleDialerAnswered.bind(SipController));
+router.post('/dialer/:contactId/result', validateTwilioSignature, SipController.handleDialerResult.bind(SipController));
+router.post('/whisper/:trackingNumberId', validateTwilioSignature, SipController.handleWhisper.bind(SipController));
+router.post('/whisper/:trackingNumberId/accept', validateTwilioSignature, SipController.handleWhisperAccept.bind(SipController));
+router.post('/recording-status', validateTwilioSignature, SipController.handleRecordingStatus.bind(SipController));
+router.post('/voicemail-recording', validateTwilioSignature, SipController.handleVoicemailRecording.bind(SipController));
+router.post('/voicemail-transcription', validateTwilioSignature, SipController.handleVoicemailTranscription.bind(SipController));
+router.post('/fallback', validateTwilioSignature, SipController.handleFallback.bind(SipController));
+router.post('/outbound-handler', validateTwilioSignature, SipController.handleOutboundCall.bind(SipController));
 
 // Protected routes
 router.use(authenticate);
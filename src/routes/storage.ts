@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import StorageController from '../controllers/StorageController';
+
+const router = Router();
+
+// Files of the local storage driver, reached through signed links (no auth header: players and the telephony provider fetch them)
+router.get('/*', StorageController.serveLocalFile.bind(StorageController));
+
+export default router;
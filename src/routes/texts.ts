@@ -1,11 +1,12 @@
 import { Router } from 'express';
 import TextController from '../controllers/TextController';
 import { authenticate } from '../middleware/auth';
+import { validateTwilioSignature } from '../middleware/twilioSignature';
 
 const router = Router();
 
-// Webhook endpoint (no auth required)
-router.post('/webhook/receive', TextController.receiveMessage.bind(TextController));
+// Webhook endpoint (signed by Twilio instead of user auth)
+router.post('/webhook/receive', validateTwilioSignature, TextController.receiveMessage.bind(TextController));
 
 // All other routes require authentication
 router.use(authenticate);
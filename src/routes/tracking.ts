@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import TrackingNumberController from '../controllers/TrackingNumberController';
 import { authenticate, authorize } from '../middleware/auth';
+import { uploadAudio } from '../middleware/upload';
 import { UserRole } from '../types/enums';
 
 const router = Router();
@@ -22,6 +23,19 @@ router.delete('/:id', authorize(UserRole.ADMIN), TrackingNumberController.delete
 // Call flow
 router.get('/:id/call-flow', TrackingNumberController.getCallFlow);
 router.put('/:id/call-flow', authorize(UserRole.ADMIN, UserRole.MANAGER), TrackingNumberController.updateCallFlow);
+router.post('/:id/call-flow/simulate', authorize(UserRole.ADMIN, UserRole.MANAGER), TrackingNumberController.simulateCallFlow);
+router.get('/:id/call-flow/versions', TrackingNumberController.getCallFlowVersions);
+router.get('/:id/call-flow/versions/diff', TrackingNumberController.diffCallFlowVersions);
+router.get('/:id/call-flow/versions/:version', TrackingNumberController.getCallFlowVersion);
+router.post('/:id/call-flow/versions', authorize(UserRole.ADMIN, UserRole.MANAGER), TrackingNumberController.createCallFlowDraft);
+router.put('/:id/call-flow/versions/:version', authorize(UserRole.ADMIN, UserRole.MANAGER), TrackingNumberController.updateCallFlowDraft);
+router.post('/:id/call-flow/versions/:version/publish', authorize(UserRole.ADMIN, UserRole.MANAGER), TrackingNumberController.publishCallFlowVersion);
+router.post('/:id/call-flow/rollback', authorize(UserRole.ADMIN, UserRole.MANAGER), TrackingNumberController.rollbackCallFlow);
+
+// Voicemail greeting audio (multipart field "greeting")
+router.post('/:id/voicemail-greeting', authorize(UserRole.ADMIN, UserRole.MANAGER), uploadAudio('greeting'), TrackingNumberController.uploadVoicemailGreeting);
+router.delete('/:id/voicemail-greeting', authorize(UserRole.ADMIN, UserRole.MANAGER), TrackingNumberController.removeVoicemailGreeting);
+router.put('/:id/recording-retention', authorize(UserRole.ADMIN, UserRole.MANAGER), TrackingNumberController.setRecordingRetention);
 
 // Statistics
 router.get('/:id/stats', TrackingNumberController.getStats);
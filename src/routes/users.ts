@@ -18,5 +18,6 @@ router.put('/:id', UserController.updateUser);
 router.delete('/:id', authorize(UserRole.ADMIN), UserController.deleteUser);
 router.post('/:id/reactivate', authorize(UserRole.ADMIN), UserController.reactivateUser);
 router.post('/:id/reset-password', authorize(UserRole.ADMIN), UserController.resetUserPassword);
+router.put('/:id/caller-id', authorize(UserRole.ADMIN), UserController.setCallerIdOverride);
 
 export default router;
\ No newline at end of file
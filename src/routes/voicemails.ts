@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import VoicemailController from '../controllers/VoicemailController';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Voicemail inbox
+router.get('/', VoicemailController.getVoicemails.bind(VoicemailController));
+router.get('/:id', VoicemailController.getVoicemail.bind(VoicemailController));
+router.get('/:id/play', VoicemailController.playVoicemail.bind(VoicemailController));
+router.post('/:id/read', VoicemailController.markRead.bind(VoicemailController));
+router.post('/:id/unread', VoicemailController.markUnread.bind(VoicemailController));
+router.put('/:id/assign', VoicemailController.assignVoicemail.bind(VoicemailController));
+
+export default router;
@@ -2,6 +2,9 @@ import { v4 as uuidv4 } from 'uuid';
 import { Op, WhereOptions } from 'sequelize';
 import { AgentSession, User, UserCompany, Company} from '../models';
 import { AgentStatus } from '../types/enums';
+import QueueService from './QueueService';
+import DialerService from './DialerService';
+import SurveyService from './SurveyService';
 
 export class AgentSessionService {
   async createSession(
@@ -136,6 +139,14 @@ if (!sessionCompanyId && user.userCompanies && user.userCompanies.length > 0) {
         session.break_reason = breakReason;
       }
       await session.setStatus(status);
+
+      // Pull the next queued caller (then the next dialer contact) as soon as the agent frees up
+      if (status === AgentStatus.AVAILABLE) {
+        QueueService.dispatch(session.company_id)
+          .catch(error => console.error('Error dispatching queue calls:', error))
+          .then(() => DialerService.dispatch(session.company_id))
+          .catch(error => console.error('Error dispatching dialer contacts:', error));
+      }
     }
   }
 
@@ -184,6 +195,32 @@ if (!sessionCompanyId && user.userCompanies && user.userCompanies.length > 0) {
     return users;
   }
 
+  /**
+   * Current status of each user in a company. Users without an open session are OFFLINE.
+   */
+  async getAgentStatuses(companyId: number, userIds: number[]): Promise<Map<number, AgentStatus>> {
+    const statuses = new Map<number, AgentStatus>(
+      userIds.map(id => [id, AgentStatus.OFFLINE])
+    );
+
+    if (userIds.length === 0) {
+      return statuses;
+    }
+
+    const sessions = await AgentSession.findAll({
+      where: {
+        company_id: companyId,
+        user_id: userIds,
+        is_online: true,
+        ended_at: { [Op.is]: null }
+      } as WhereOptions<AgentSession>
+    });
+
+    sessions.forEach(session => statuses.set(session.user_id, session.status));
+
+    return statuses;
+  }
+
   async getAgentMetrics(userId: number, companyId?: number, dateFrom?: Date, dateTo?: Date): Promise<any> {
     const where: any = { user_id: userId };
     
@@ -240,7 +277,10 @@ if (!sessionCompanyId && user.userCompanies && user.userCompanies.length > 0) {
       metrics.avg_handle_time = metrics.total_talk_time / metrics.total_calls_handled;
     }
 
-    return metrics;
+    // Post-call survey ratings of the calls the agent took
+    const csat = await SurveyService.getCsatMetrics(userId, companyId, dateFrom, dateTo);
+
+    return { ...metrics, csat };
   }
 
 
@@ -0,0 +1,367 @@
+// backend/src/services/CallControlService.ts
+import { Call, RingGroup, TrackingNumber } from '../models';
+import { CallStatus } from '../types/enums';
+import { CallDestination } from '../types/interfaces';
+import TelephonyService from './TelephonyService';
+import { TelephonyProvider } from './TelephonyProvider';
+import CallFlowService, { HOLD_MUSIC_URL } from './CallFlowService';
+import RingGroupService from './RingGroupService';
+import SipService from './SipService';
+
+const CONFERENCE_JOIN_ATTEMPTS = 10;
+const CONFERENCE_JOIN_DELAY_MS = 500;
+
+export type TransferMode = 'blind' | 'warm';
+export type TransferTarget = Pick<CallDestination, 'type' | 'user_id' | 'ring_group_id' | 'number'>;
+
+export interface ConferenceState {
+  name: string;
+  agent_call_sid: string;
+  started_at: string;
+}
+
+// Errors carry an HTTP status so controllers can pass them through
+export const controlError = (message: string, statusCode: number = 409): Error =>
+  Object.assign(new Error(message), { statusCode });
+
+export class CallControlService {
+  getConferenceName(call: Call): string {
+    return `call-${call.uuid}`;
+  }
+
+  isInConference(call: Call): boolean {
+    return !!call.metadata?.conference;
+  }
+
+  /**
+   * TwiML that puts a leg into the call's conference
+   */
+  buildConferenceTwiml(call: Call): string {
+    const twiml = CallFlowService.createResponse();
+    const dial = twiml.dial();
+    dial.conference({
+      beep: 'false',
+      startConferenceOnEnter: true,
+      endConferenceOnExit: true,
+      waitUrl: HOLD_MUSIC_URL
+    }, this.getConferenceName(call));
+    return twiml.toString();
+  }
+
+  /**
+   * Move a bridged call into a conference so legs can be held, added or removed.
+   * Only the agent leg is redirected: the caller's <Dial> then ends and its action
+   * callback returns the same conference TwiML (see SipController).
+   */
+  async ensureConference(call: Call): Promise<string> {
+    const name = this.getConferenceName(call);
+    const provider = await TelephonyService.forCall(call);
+
+    if (this.isInConference(call)) {
+      const existingSid = await provider.findConferenceSid(name);
+      if (existingSid) return existingSid;
+    }
+
+    this.assertActive(call);
+
+    const agentCallSid = await provider.getActiveChildCallSid(call.call_sid);
+    if (!agentCallSid) {
+      throw controlError('Call is not connected to an agent');
+    }
+
+    const conference: ConferenceState = {
+      name,
+      agent_call_sid: agentCallSid,
+      started_at: new Date().toISOString()
+    };
+    await call.update({ metadata: { ...call.metadata, conference } });
+
+    await provider.redirectCall(agentCallSid, this.buildConferenceTwiml(call));
+
+    return await this.waitForParticipants(provider, name, [call.call_sid, agentCallSid]);
+  }
+
+  async hold(call: Call, userId?: number): Promise<void> {
+    if (call.metadata?.hold_started_at) {
+      throw controlError('Call is already on hold');
+    }
+
+    const conferenceSid = await this.ensureConference(call);
+    const provider = await TelephonyService.forCall(call);
+
+    await provider.updateConferenceParticipant(conferenceSid, call.call_sid, {
+      hold: true,
+      holdUrl: HOLD_MUSIC_URL
+    });
+
+    await call.update({
+      metadata: { ...call.metadata, hold_started_at: new Date().toISOString() }
+    });
+
+    await SipService.recordCallEvent(call, 'hold', { user_id: userId });
+  }
+
+  async unhold(call: Call, userId?: number): Promise<number> {
+    const holdStartedAt = call.metadata?.hold_started_at;
+    if (!holdStartedAt) {
+      throw controlError('Call is not on hold');
+    }
+
+    const conferenceSid = await this.ensureConference(call);
+    const provider = await TelephonyService.forCall(call);
+
+    await provider.updateConferenceParticipant(conferenceSid, call.call_sid, { hold: false });
+
+    const heldSeconds = Math.max(0, Math.floor((Date.now() - new Date(holdStartedAt).getTime()) / 1000));
+    const { hold_started_at, ...metadata } = call.metadata;
+
+    await call.update({
+      hold_time: (call.hold_time || 0) + heldSeconds,
+      metadata
+    });
+
+    await SipService.recordCallEvent(call, 'unhold', { user_id: userId, held_seconds: heldSeconds });
+
+    return heldSeconds;
+  }
+
+  /**
+   * End the caller's leg. The provider's status callback finalizes duration and stats.
+   */
+  async hangup(call: Call, userId?: number): Promise<void> {
+    this.assertActive(call);
+
+    const provider = await TelephonyService.forCall(call);
+    await provider.endCall(call.call_sid);
+
+    await SipService.recordCallEvent(call, 'hangup_requested', { user_id: userId });
+  }
+
+  /**
+   * Transfer the caller. Blind transfers redirect the caller straight to the target;
+   * warm transfers hold the caller and ring the target into the conference first.
+   */
+  async transfer(call: Call, target: TransferTarget, mode: TransferMode, userId?: number): Promise<void> {
+    this.assertActive(call);
+
+    if (call.metadata?.transfer) {
+      throw controlError('A transfer is already in progress');
+    }
+
+    const trackingNumber = call.tracking_number_id
+      ? await TrackingNumber.findByPk(call.tracking_number_id)
+      : null;
+    if (!trackingNumber) {
+      throw controlError('Only tracking number calls can be transferred', 400);
+    }
+
+    if (mode === 'blind') {
+      await this.blindTransfer(call, trackingNumber, target, userId);
+    } else {
+      await this.startWarmTransfer(call, trackingNumber, target, userId);
+    }
+  }
+
+  /**
+   * Warm transfer: the target accepted, drop the original agent and take the caller off hold
+   */
+  async completeTransfer(call: Call, userId?: number): Promise<void> {
+    const transfer = call.metadata?.transfer;
+    if (!transfer) {
+      throw controlError('No transfer in progress');
+    }
+
+    const conferenceSid = await this.ensureConference(call);
+    const provider = await TelephonyService.forCall(call);
+    const agentCallSid = call.metadata.conference?.agent_call_sid;
+
+    // Keep the target in the conference when the original agent leaves
+    await provider.updateConferenceParticipant(conferenceSid, transfer.consult_call_sid, {
+      endConferenceOnExit: true
+    });
+    if (agentCallSid) {
+      await provider.updateConferenceParticipant(conferenceSid, agentCallSid, { endConferenceOnExit: false });
+      await provider.removeConferenceParticipant(conferenceSid, agentCallSid);
+    }
+
+    if (call.metadata.hold_started_at) {
+      await this.unhold(call, userId);
+    }
+
+    const { transfer: _transfer, ...metadata } = call.metadata;
+    await call.update({
+      ...(transfer.target.type === 'user' && transfer.target.user_id && { agent_id: transfer.target.user_id }),
+      metadata: {
+        ...metadata,
+        conference: { ...metadata.conference, agent_call_sid: transfer.consult_call_sid }
+      }
+    });
+
+    await SipService.recordCallEvent(call, 'transfer', {
+      transfer_type: 'warm',
+      transfer_from: transfer.from_user_id,
+      transfer_to: transfer.target_uri,
+      target: transfer.target,
+      user_id: userId
+    });
+  }
+
+  /**
+   * Warm transfer: the target declined or the agent changed their mind
+   */
+  async cancelTransfer(call: Call, userId?: number): Promise<void> {
+    const transfer = call.metadata?.transfer;
+    if (!transfer) {
+      throw controlError('No transfer in progress');
+    }
+
+    const conferenceSid = await this.ensureConference(call);
+    const provider = await TelephonyService.forCall(call);
+    await provider.removeConferenceParticipant(conferenceSid, transfer.consult_call_sid);
+
+    const { transfer: _transfer, ...metadata } = call.metadata;
+    await call.update({ metadata });
+
+    if (call.metadata.hold_started_at) {
+      await this.unhold(call, userId);
+    }
+
+    await SipService.recordCallEvent(call, 'transfer_cancelled', {
+      target: transfer.target,
+      user_id: userId
+    });
+  }
+
+  private async blindTransfer(call: Call, trackingNumber: TrackingNumber, target: TransferTarget, userId?: number): Promise<void> {
+    const twiml = CallFlowService.createResponse();
+    twiml.say({ voice: 'alice' }, 'Please hold while we transfer your call.');
+    await CallFlowService.appendDestination(twiml, trackingNumber, call, target);
+
+    // The caller leaves the conference (if any) and the original agent leg is dropped
+    const { conference, hold_started_at, ...metadata } = call.metadata || {};
+    const heldSeconds = hold_started_at
+      ? Math.max(0, Math.floor((Date.now() - new Date(hold_started_at).getTime()) / 1000))
+      : 0;
+
+    await call.update({
+      ...(target.type === 'user' && target.user_id && { agent_id: target.user_id }),
+      hold_time: (call.hold_time || 0) + heldSeconds,
+      metadata
+    });
+
+    await TelephonyService.forTrackingNumber(trackingNumber).redirectCall(call.call_sid, twiml.toString());
+
+    await SipService.recordCallEvent(call, 'transfer', {
+      transfer_type: 'blind',
+      transfer_from: userId,
+      transfer_to: this.describeTarget(target),
+      target,
+      user_id: userId
+    });
+  }
+
+  private async startWarmTransfer(call: Call, trackingNumber: TrackingNumber, target: TransferTarget, userId?: number): Promise<void> {
+    const targetUri = await this.resolveTargetUri(call, target);
+    if (!targetUri) {
+      throw controlError('Transfer target has no reachable endpoint', 400);
+    }
+
+    if (!call.metadata?.hold_started_at) {
+      await this.hold(call, userId);
+    }
+    const conferenceSid = await this.ensureConference(call);
+
+    const consultCallSid = await TelephonyService.forTrackingNumber(trackingNumber).addConferenceParticipant(conferenceSid, {
+      from: trackingNumber.phone_number,
+      to: targetUri,
+      label: 'transfer-target',
+      endConferenceOnExit: false,
+      timeout: 30
+    });
+
+    await call.update({
+      metadata: {
+        ...call.metadata,
+        transfer: {
+          mode: 'warm',
+          target,
+          target_uri: targetUri,
+          consult_call_sid: consultCallSid,
+          from_user_id: userId,
+          started_at: new Date().toISOString()
+        }
+      }
+    });
+
+    await SipService.recordCallEvent(call, 'transfer_started', {
+      transfer_type: 'warm',
+      target,
+      target_uri: targetUri,
+      user_id: userId
+    });
+  }
+
+  /**
+   * Dialable URI for a transfer target. Ring groups ring their first available member.
+   */
+  private async resolveTargetUri(call: Call, target: TransferTarget): Promise<string | null> {
+    switch (target.type) {
+      case 'user':
+        return target.user_id
+          ? await CallFlowService.resolveUserEndpoint(call.company_id, target.user_id)
+          : null;
+
+      case 'number':
+        return target.number || null;
+
+      case 'ring_group': {
+        const group = await RingGroup.findOne({
+          where: { id: target.ring_group_id, company_id: call.company_id, is_active: true }
+        });
+        if (!group) return null;
+
+        for (const member of await RingGroupService.getAvailableMembers(group)) {
+          const uri = member.user_id
+            ? await CallFlowService.resolveUserEndpoint(call.company_id, member.user_id)
+            : member.phone_number;
+          if (uri) return uri;
+        }
+        return null;
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  private describeTarget(target: TransferTarget): string {
+    switch (target.type) {
+      case 'user': return `user:${target.user_id}`;
+      case 'ring_group': return `ring_group:${target.ring_group_id}`;
+      default: return target.number || target.type;
+    }
+  }
+
+  private assertActive(call: Call): void {
+    if (call.status !== CallStatus.IN_PROGRESS) {
+      throw controlError('Call is not in progress');
+    }
+  }
+
+  private async waitForParticipants(provider: TelephonyProvider, name: string, callSids: string[]): Promise<string> {
+    for (let attempt = 0; attempt < CONFERENCE_JOIN_ATTEMPTS; attempt++) {
+      const conferenceSid = await provider.findConferenceSid(name);
+      if (conferenceSid) {
+        const participants = await provider.getConferenceParticipantSids(conferenceSid);
+        if (callSids.every(sid => participants.includes(sid))) {
+          return conferenceSid;
+        }
+      }
+      await new Promise(resolve => setTimeout(resolve, CONFERENCE_JOIN_DELAY_MS));
+    }
+
+    throw controlError('Timed out moving the call into a conference', 504);
+  }
+}
+
+export default new CallControlService();
@@ -0,0 +1,841 @@
+// backend/src/services/CallFlowService.ts
+import twilio from 'twilio';
+import VoiceResponse from 'twilio/lib/twiml/VoiceResponse';
+import { Call, CallQueue, Company, QueueEntry, RingGroup, RingGroupMember, TrackingNumber, User, UserCompany } from '../models';
+import { QueueEntryStatus, RingStrategy } from '../types/enums';
+import { CallDestination, CallFlowConfig, IvrNode, IvrOption } from '../types/interfaces';
+import RingGroupService from './RingGroupService';
+import QueueService from './QueueService';
+import TextBackService from './TextBackService';
+import SurveyService from './SurveyService';
+import GeoRoutingService from './GeoRoutingService';
+import ScheduleService from './ScheduleService';
+import IvrService from './IvrService';
+import SipService from './SipService';
+import TelephonyService from './TelephonyService';
+
+const DEFAULT_VOICEMAIL_GREETING = 'Please leave a message after the beep.';
+const DEFAULT_RECORDING_DISCLAIMER = 'This call may be recorded for quality and training purposes.';
+const DEFAULT_WHISPER_MESSAGE = 'Call from {source} – {campaign}. {first_time_caller}';
+
+export const HOLD_MUSIC_URL = process.env.HOLD_MUSIC_URL
+  || 'http://com.twilio.sounds.music.s3.amazonaws.com/MARKOVICHAMP-Borghestral.mp3';
+
+export class CallFlowService {
+  private readonly SIP_ENDPOINT = process.env.SIP_ENDPOINT || '';
+  private readonly SIP_USERNAME = process.env.SIP_USERNAME || '';
+  private readonly SIP_PASSWORD = process.env.SIP_PASSWORD || '';
+
+  createResponse(): VoiceResponse {
+    return new twilio.twiml.VoiceResponse();
+  }
+
+  /**
+   * URL Twilio requests to render an IVR node, or to submit the caller's input for it
+   */
+  getIvrUrl(trackingNumberId: number, nodeId: string, attempt: number = 1, gathered: boolean = false): string {
+    const url = `${process.env.BASE_URL}/api/sip/ivr/${trackingNumberId}/${encodeURIComponent(nodeId)}?attempt=${attempt}`;
+    return gathered ? `${url}&gathered=true` : url;
+  }
+
+  /**
+   * URL for ring group dial callbacks ('status' after each attempt, 'answered' when a member picks up)
+   */
+  getRingGroupUrl(ringGroupId: number, action: 'status' | 'answered', params: Record<string, string | number>): string {
+    const query = Object.entries(params)
+      .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+      .join('&');
+    return `${process.env.BASE_URL}/api/sip/ring-group/${ringGroupId}/${action}?${query}`;
+  }
+
+  /**
+   * URL for the whisper played to the answering party, or for their press-1-to-accept answer
+   */
+  getWhisperUrl(trackingNumberId: number, action?: 'accept', params: Record<string, string | number> = {}): string {
+    const url = `${process.env.BASE_URL}/api/sip/whisper/${trackingNumberId}`;
+    const query = Object.entries(params)
+      .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+      .join('&');
+    return `${action ? `${url}/${action}` : url}${query ? `?${query}` : ''}`;
+  }
+
+  /**
+   * Start media stream for live listening if WebSocket is available
+   */
+  appendLiveStream(twiml: VoiceResponse, call: Call): void {
+    if (process.env.ENABLE_LIVE_STREAMING !== 'true') return;
+
+    const stream = twiml.start();
+    stream.stream({
+      url: `wss://${process.env.BASE_DOMAIN}/api/sip/stream/${call.call_sid}`,
+      name: `stream_${call.call_sid}`,
+      track: 'both_tracks'
+    });
+  }
+
+  /**
+   * Tell the caller the call is recorded (company audio, company text or a default sentence)
+   */
+  appendRecordingDisclaimer(twiml: VoiceResponse, company: Company): void {
+    const audioUrl = company.settings?.recording_disclaimer_audio_url;
+
+    if (audioUrl) {
+      twiml.play(audioUrl);
+    } else {
+      twiml.say({ voice: 'alice' }, company.settings?.recording_disclaimer_message || DEFAULT_RECORDING_DISCLAIMER);
+    }
+  }
+
+  /**
+   * Dial options shared by every forwarding destination (recording + dial status callback)
+   */
+  private buildDialAttributes(
+    trackingNumber: TrackingNumber,
+    call: Call,
+    overrides: VoiceResponse.DialAttributes = {}
+  ): VoiceResponse.DialAttributes {
+    return {
+      timeout: trackingNumber.call_flow?.timeout_seconds || 30,
+      action: `${process.env.BASE_URL}/api/sip/dial-status`,
+      method: 'POST',
+      callerId: call.caller_number,
+      // Off when the consent path for this caller says not to record
+      ...(call.recording_enabled !== false && {
+        record: 'record-from-answer-dual', // Records both channels
+        recordingStatusCallback: `${process.env.BASE_URL}/api/sip/recording-status`,
+        recordingStatusCallbackMethod: 'POST',
+        recordingStatusCallbackEvent: ['completed', 'in-progress']
+      }),
+      ...overrides
+    };
+  }
+
+  /**
+   * Forward the call to a SIP endpoint (defaults to the configured SIP trunk)
+   */
+  appendSipDial(twiml: VoiceResponse, trackingNumber: TrackingNumber, call: Call, sipUri?: string): void {
+    const dial = twiml.dial(this.buildDialAttributes(trackingNumber, call));
+    const uri = sipUri
+      ? (sipUri.startsWith('sip:') ? sipUri : `sip:${sipUri}`)
+      : `sip:${this.SIP_ENDPOINT}`;
+
+    if (!sipUri && this.SIP_USERNAME && this.SIP_PASSWORD) {
+      dial.sip({
+        username: this.SIP_USERNAME,
+        password: this.SIP_PASSWORD,
+        ...this.getWhisperNounAttributes(trackingNumber)
+      }, uri);
+    } else {
+      dial.sip(this.getWhisperNounAttributes(trackingNumber), uri);
+    }
+  }
+
+  /**
+   * Forward the call to an external phone number
+   */
+  appendNumberDial(twiml: VoiceResponse, trackingNumber: TrackingNumber, call: Call, number: string): void {
+    const dial = twiml.dial(this.buildDialAttributes(trackingNumber, call));
+    dial.number(this.getWhisperNounAttributes(trackingNumber), number);
+  }
+
+  /**
+   * Announce the call to the answering party. With screening on they must press 1,
+   * otherwise the leg is dropped and the caller's dial moves on as if unanswered.
+   */
+  appendWhisper(
+    twiml: VoiceResponse,
+    trackingNumber: TrackingNumber,
+    call: Call,
+    acceptParams: Record<string, string | number> = {}
+  ): void {
+    const whisper = trackingNumber.call_flow?.whisper;
+    if (!whisper?.enabled) return;
+
+    const message = this.renderWhisperMessage(trackingNumber, call);
+
+    if (!whisper.screening) {
+      twiml.say({ voice: 'alice' }, message);
+      return;
+    }
+
+    const acceptUrl = this.getWhisperUrl(trackingNumber.id, 'accept', acceptParams);
+    const gather = twiml.gather({
+      numDigits: 1,
+      timeout: 5,
+      action: acceptUrl,
+      method: 'POST'
+    });
+    gather.say({ voice: 'alice' }, `${message} Press 1 to accept the call.`);
+
+    // No key pressed counts as a decline
+    twiml.redirect({ method: 'POST' }, acceptUrl);
+  }
+
+  /**
+   * Fill the whisper template. Placeholders without a value are dropped along
+   * with any separator left dangling, e.g. "Call from Google Ads – ." becomes "Call from Google Ads."
+   */
+  renderWhisperMessage(trackingNumber: TrackingNumber, call: Call): string {
+    const template = trackingNumber.call_flow?.whisper?.message || DEFAULT_WHISPER_MESSAGE;
+    const values: Record<string, string | undefined> = {
+      source: call.source || trackingNumber.source,
+      medium: call.medium || trackingNumber.medium,
+      campaign: call.campaign || trackingNumber.campaign,
+      friendly_name: trackingNumber.friendly_name,
+      tracking_number: trackingNumber.phone_number,
+      caller_name: call.caller_name,
+      caller_city: call.caller_city,
+      caller_state: call.caller_state,
+      first_time_caller: call.is_first_call ? 'First time caller.' : ''
+    };
+
+    let placeholders = 0;
+    let filled = 0;
+    const message = template
+      .replace(/\{(\w+)\}/g, (_, key: string) => {
+        placeholders++;
+        if (values[key]) filled++;
+        return values[key] || '';
+      })
+      .replace(/\s*[-–:,]\s*(?=[.!?]|$)/g, '')
+      .replace(/\s+([.,!?])/g, '$1')
+      .replace(/([.!?])[.,]+/g, '$1')
+      .replace(/\s{2,}/g, ' ')
+      .trim();
+
+    // Nothing known about the call: name the number that was dialed instead
+    return placeholders > 0 && filled === 0
+      ? `Call from ${trackingNumber.friendly_name || trackingNumber.phone_number}.`
+      : message;
+  }
+
+  /**
+   * Whether the answering party must press 1 before the call counts as answered
+   */
+  isScreening(trackingNumber: TrackingNumber): boolean {
+    const whisper = trackingNumber.call_flow?.whisper;
+    return !!(whisper?.enabled && whisper.screening);
+  }
+
+  /**
+   * Whether the agent leg that ended a <Dial> declined the screening prompt
+   */
+  wasScreenDeclined(call: Call, dialCallSid?: string): boolean {
+    return !!dialCallSid && ((call.metadata?.screen_declined as string[] | undefined) || []).includes(dialCallSid);
+  }
+
+  private getWhisperNounAttributes(trackingNumber: TrackingNumber): { url?: string; method?: string } {
+    return trackingNumber.call_flow?.whisper?.enabled
+      ? { url: this.getWhisperUrl(trackingNumber.id), method: 'POST' }
+      : {};
+  }
+
+  /**
+   * Play the voicemail greeting and record a message
+   */
+  appendVoicemail(twiml: VoiceResponse, callFlow: CallFlowConfig): void {
+    if (callFlow?.voicemail_greeting_audio_url) {
+      twiml.play(callFlow.voicemail_greeting_audio_url);
+    } else {
+      twiml.say({
+        voice: 'alice'
+      }, callFlow?.voicemail_greeting || DEFAULT_VOICEMAIL_GREETING);
+    }
+
+    twiml.record({
+      maxLength: 120, // 2 minutes max for voicemail
+      playBeep: true,
+      transcribe: callFlow?.voicemail_transcribe || false,
+      transcribeCallback: `${process.env.BASE_URL}/api/sip/voicemail-transcription`,
+      recordingStatusCallback: `${process.env.BASE_URL}/api/sip/voicemail-recording`,
+      recordingStatusCallbackMethod: 'POST'
+    });
+  }
+
+  /**
+   * Destination used when no IVR option applies
+   */
+  getDefaultDestination(callFlow: CallFlowConfig | undefined): CallDestination {
+    return callFlow?.destination || { type: 'sip' };
+  }
+
+  /**
+   * Calls built by the call flow simulator are never saved. Routing changes to
+   * them stay in memory and nothing is written for them (queue entries, events).
+   */
+  isSimulated(call: Call): boolean {
+    return call.isNewRecord;
+  }
+
+  /**
+   * First TwiML for an inbound call. Outside business hours the after-hours branch
+   * is used; otherwise geo routing, then the IVR root menu, then the default destination.
+   */
+  async generateInboundResponse(trackingNumber: TrackingNumber, call: Call, at: Date = new Date()): Promise<string> {
+    const twiml = TelephonyService.forTrackingNumber(trackingNumber).createResponse();
+
+    this.appendLiveStream(twiml, call);
+
+    // Played before any menu or dial (after-hours ones too) so the caller hears it before recording starts
+    if (call.metadata?.recording_consent?.disclaimer) {
+      const company = trackingNumber.company || await Company.findByPk(trackingNumber.company_id);
+      if (company) {
+        this.appendRecordingDisclaimer(twiml, company);
+      }
+    }
+
+    // Outside business hours the call goes to the after-hours branch instead
+    const schedule = await ScheduleService.getScheduleForTrackingNumber(trackingNumber);
+    if (schedule) {
+      const status = await ScheduleService.evaluate(schedule, at);
+
+      if (!status.is_open) {
+        const afterHours = trackingNumber.call_flow?.after_hours || { type: 'voicemail' };
+
+        await SipService.recordCallEvent(call, 'after_hours', {
+          schedule_id: schedule.id,
+          reason: status.reason,
+          label: status.label,
+          local_time: status.local_time,
+          destination: afterHours.type
+        });
+
+        await this.appendDestination(twiml, trackingNumber, call, afterHours);
+
+        console.log('Generated after-hours TwiML:', twiml.toString());
+        return twiml.toString();
+      }
+    }
+
+    // Where the caller is decides the first step (a rule may still point at an IVR menu)
+    const geoRouting = trackingNumber.call_flow?.geo_routing;
+    if (geoRouting?.enabled) {
+      const decision = GeoRoutingService.route(geoRouting, call);
+
+      await this.saveCall(call, {
+        routing_rule: decision.rule_id,
+        metadata: { ...call.metadata, geo_routing: decision }
+      });
+      await SipService.recordCallEvent(call, 'geo_routed', {
+        rule_id: decision.rule_id,
+        label: decision.label,
+        matched_on: decision.matched_on,
+        destination: decision.destination.type
+      });
+
+      await this.appendDestination(twiml, trackingNumber, call, decision.destination);
+
+      console.log('Generated geo-routed TwiML:', twiml.toString());
+      return twiml.toString();
+    }
+
+    const ivr = trackingNumber.call_flow?.ivr;
+    const rootNode = ivr?.enabled ? IvrService.findNode(ivr, ivr.root_node_id) : undefined;
+
+    if (rootNode) {
+      IvrService.appendNode(twiml, trackingNumber, rootNode);
+    } else {
+      await this.appendDestination(twiml, trackingNumber, call, this.getDefaultDestination(trackingNumber.call_flow));
+    }
+
+    console.log('Generated TwiML for SIP routing:', twiml.toString());
+    return twiml.toString();
+  }
+
+  /**
+   * Route the caller's answer to an IVR node: the chosen option's destination, the
+   * node again after no / invalid input, or its fallback once attempts run out.
+   * Returns the matched option, if any.
+   */
+  async appendIvrInput(
+    twiml: VoiceResponse,
+    trackingNumber: TrackingNumber,
+    call: Call,
+    node: IvrNode,
+    input: { digits?: string; speech?: string; confidence?: number },
+    attempt: number
+  ): Promise<IvrOption | undefined> {
+    const outOfAttempts = attempt >= IvrService.getMaxAttempts(node);
+    const fallback = node.no_input_destination || this.getDefaultDestination(trackingNumber.call_flow);
+
+    // Gather timed out without input
+    if (!input.digits && !input.speech) {
+      await SipService.recordCallEvent(call, 'ivr_no_input', { ivr_node_id: node.id, attempt });
+
+      if (outOfAttempts) {
+        await this.appendDestination(twiml, trackingNumber, call, fallback);
+      } else {
+        IvrService.appendNode(twiml, trackingNumber, node, attempt + 1);
+      }
+      return undefined;
+    }
+
+    const option = IvrService.matchOption(node, input.digits, input.speech);
+
+    await SipService.recordCallEvent(call, 'dtmf', {
+      ivr_node_id: node.id,
+      digit: input.digits,
+      speech: input.speech,
+      confidence: input.confidence,
+      option: option?.label
+    });
+
+    if (!option) {
+      if (outOfAttempts) {
+        await this.appendDestination(twiml, trackingNumber, call, fallback);
+      } else {
+        IvrService.appendInvalidInput(twiml, trackingNumber, node, attempt + 1);
+      }
+      return undefined;
+    }
+
+    await this.appendDestination(twiml, trackingNumber, call, option.destination);
+    return option;
+  }
+
+  /**
+   * Append the TwiML that sends the call to a call flow destination
+   */
+  async appendDestination(
+    twiml: VoiceResponse,
+    trackingNumber: TrackingNumber,
+    call: Call,
+    destination: CallDestination
+  ): Promise<void> {
+    switch (destination.type) {
+      case 'sip':
+        this.appendSipDial(twiml, trackingNumber, call, destination.sip_uri);
+        break;
+
+      case 'user': {
+        const uri = destination.user_id
+          ? await this.resolveUserEndpoint(trackingNumber.company_id, destination.user_id)
+          : null;
+
+        if (!uri) {
+          console.warn(`User ${destination.user_id} has no dialable endpoint, using default SIP endpoint`);
+          this.appendSipDial(twiml, trackingNumber, call);
+        } else if (uri.startsWith('sip:')) {
+          this.appendSipDial(twiml, trackingNumber, call, uri);
+        } else {
+          this.appendNumberDial(twiml, trackingNumber, call, uri);
+        }
+        break;
+      }
+
+      case 'number':
+        if (destination.number) {
+          this.appendNumberDial(twiml, trackingNumber, call, destination.number);
+        } else {
+          this.appendSipDial(twiml, trackingNumber, call);
+        }
+        break;
+
+      case 'ring_group': {
+        const group = destination.ring_group_id
+          ? await RingGroup.findOne({
+            where: { id: destination.ring_group_id, company_id: trackingNumber.company_id, is_active: true }
+          })
+          : null;
+
+        if (!group) {
+          console.warn(`Ring group ${destination.ring_group_id} not found, using default SIP endpoint`);
+          this.appendSipDial(twiml, trackingNumber, call);
+        } else {
+          await this.appendRingGroup(twiml, trackingNumber, call, group);
+        }
+        break;
+      }
+
+      case 'queue': {
+        const queue = destination.queue_id
+          ? await CallQueue.findOne({
+            where: { id: destination.queue_id, company_id: trackingNumber.company_id, is_active: true }
+          })
+          : null;
+
+        if (!queue) {
+          console.warn(`Queue ${destination.queue_id} not found, using default SIP endpoint`);
+          this.appendSipDial(twiml, trackingNumber, call);
+        } else {
+          await this.appendQueue(twiml, trackingNumber, call, queue);
+        }
+        break;
+      }
+
+      case 'voicemail':
+        this.appendVoicemail(twiml, trackingNumber.call_flow);
+        break;
+
+      case 'menu':
+        twiml.redirect({ method: 'POST' }, this.getIvrUrl(trackingNumber.id, destination.node_id || ''));
+        break;
+
+      case 'message':
+        if (destination.message) {
+          twiml.say({ voice: 'alice' }, destination.message);
+        }
+        twiml.hangup();
+        break;
+
+      case 'hangup':
+        twiml.hangup();
+        break;
+    }
+  }
+
+  /**
+   * Start ringing a group. The member order is stored on the call so the
+   * status callback can continue where the previous attempt left off.
+   */
+  async appendRingGroup(twiml: VoiceResponse, trackingNumber: TrackingNumber, call: Call, group: RingGroup): Promise<void> {
+    const members = await RingGroupService.getAvailableMembers(group);
+
+    await this.saveCall(call, {
+      metadata: {
+        ...call.metadata,
+        ring_group: {
+          id: group.id,
+          strategy: group.strategy,
+          member_ids: members.map(member => member.id)
+        }
+      }
+    });
+
+    await this.appendRingGroupAttempt(twiml, trackingNumber, call, group, members, 0);
+  }
+
+  /**
+   * Ring the group from the given member index: everyone at once for simultaneous,
+   * otherwise the next member that has a dialable endpoint.
+   */
+  async appendRingGroupAttempt(
+    twiml: VoiceResponse,
+    trackingNumber: TrackingNumber,
+    call: Call,
+    group: RingGroup,
+    members: RingGroupMember[],
+    startIndex: number
+  ): Promise<void> {
+    const endpoints: Array<{ member: RingGroupMember; uri: string; index: number }> = [];
+
+    for (let index = startIndex; index < members.length; index++) {
+      const member = members[index];
+      const uri = member.user_id
+        ? await this.resolveUserEndpoint(group.company_id, member.user_id)
+        : member.phone_number;
+
+      if (!uri) continue;
+
+      endpoints.push({ member, uri, index });
+      if (group.strategy !== RingStrategy.SIMULTANEOUS) break;
+    }
+
+    if (endpoints.length === 0) {
+      await this.appendRingGroupFallback(twiml, trackingNumber, call, group);
+      return;
+    }
+
+    const lastIndex = endpoints[endpoints.length - 1].index;
+    const dial = twiml.dial(this.buildDialAttributes(trackingNumber, call, {
+      timeout: group.ring_timeout_seconds || 20,
+      action: this.getRingGroupUrl(group.id, 'status', { index: lastIndex })
+    }));
+
+    for (const { member, uri } of endpoints) {
+      const nounAttributes = {
+        url: this.getRingGroupUrl(group.id, 'answered', { member_id: member.id }),
+        method: 'POST'
+      };
+
+      if (uri.startsWith('sip:')) {
+        dial.sip(nounAttributes, uri);
+      } else {
+        dial.number(nounAttributes, uri);
+      }
+    }
+  }
+
+  /**
+   * Nobody in the group answered
+   */
+  async appendRingGroupFallback(twiml: VoiceResponse, trackingNumber: TrackingNumber, call: Call, group: RingGroup): Promise<void> {
+    const fallback: CallDestination = group.fallback_destination
+      || (trackingNumber.call_flow?.voicemail_enabled ? { type: 'voicemail' } : { type: 'hangup' });
+
+    // Guard against a group that falls back to itself
+    if (fallback.type === 'ring_group' && fallback.ring_group_id === group.id) {
+      await this.appendDestination(twiml, trackingNumber, call, { type: 'voicemail' });
+      return;
+    }
+
+    await this.appendDestination(twiml, trackingNumber, call, fallback);
+  }
+
+  /**
+   * Put the caller in a queue, or straight to overflow when the queue is full
+   */
+  async appendQueue(twiml: VoiceResponse, trackingNumber: TrackingNumber, call: Call, queue: CallQueue): Promise<void> {
+    const simulated = this.isSimulated(call);
+
+    // Callers returning after an agent missed them keep their place
+    const returning = simulated ? null : await QueueService.findOpenEntry(queue.id, call.id);
+
+    if (!returning && await QueueService.isFull(queue)) {
+      if (!simulated) {
+        const entry = await QueueService.enqueue(queue, call);
+        await QueueService.markLeft(entry, call, QueueEntryStatus.OVERFLOWED);
+      }
+      await this.appendQueueOverflow(twiml, trackingNumber, call, queue);
+      return;
+    }
+
+    if (!simulated) {
+      await QueueService.enqueue(queue, call);
+    }
+
+    twiml.enqueue({
+      waitUrl: QueueService.getQueueUrl(queue.id, 'wait'),
+      waitUrlMethod: 'POST',
+      action: QueueService.getQueueUrl(queue.id, 'leave'),
+      method: 'POST'
+    }, QueueService.getQueueName(queue));
+  }
+
+  /**
+   * Hold music for one wait loop, preceded by an announcement when one is due.
+   * Twilio requests the wait URL again each time the music finishes.
+   */
+  appendQueueWait(twiml: VoiceResponse, queue: CallQueue, announcement: string | null): void {
+    const target = queue.voicemail_digit
+      ? twiml.gather({
+        numDigits: 1,
+        action: QueueService.getQueueUrl(queue.id, 'option'),
+        method: 'POST'
+      })
+      : twiml;
+
+    if (announcement) {
+      target.say({ voice: 'alice' }, announcement);
+    }
+    target.play(queue.hold_music_url || HOLD_MUSIC_URL);
+  }
+
+  /**
+   * Ring the agent picked for a queued caller
+   */
+  appendQueueConnect(
+    twiml: VoiceResponse,
+    trackingNumber: TrackingNumber,
+    call: Call,
+    entry: QueueEntry,
+    endpoint: string
+  ): void {
+    const dial = twiml.dial(this.buildDialAttributes(trackingNumber, call, {
+      action: QueueService.getQueueUrl(entry.queue_id, 'connect-status', { entry_id: entry.id })
+    }));
+    const nounAttributes = {
+      url: QueueService.getQueueUrl(entry.queue_id, 'answered', { entry_id: entry.id }),
+      method: 'POST'
+    };
+
+    if (endpoint.startsWith('sip:')) {
+      dial.sip(nounAttributes, endpoint);
+    } else {
+      dial.number(nounAttributes, endpoint);
+    }
+  }
+
+  /**
+   * The queue is full or the caller waited too long
+   */
+  async appendQueueOverflow(twiml: VoiceResponse, trackingNumber: TrackingNumber, call: Call, queue: CallQueue): Promise<void> {
+    const overflow: CallDestination = queue.overflow_destination || { type: 'voicemail' };
+
+    // Guard against a queue that overflows into itself
+    if (overflow.type === 'queue' && overflow.queue_id === queue.id) {
+      await this.appendDestination(twiml, trackingNumber, call, { type: 'voicemail' });
+      return;
+    }
+
+    await this.appendDestination(twiml, trackingNumber, call, overflow);
+  }
+
+  /**
+   * Resolve the SIP URI (or phone number) a company user should be dialed on
+   */
+  async resolveUserEndpoint(companyId: number, userId: number): Promise<string | null> {
+    const user = await User.findOne({
+      where: { id: userId, is_active: true },
+      include: [{
+        model: UserCompany,
+        where: { company_id: companyId, is_active: true },
+        required: true
+      }]
+    });
+
+    if (!user) return null;
+
+    if (user.sip_username) {
+      let realm = user.sip_realm;
+      if (!realm) {
+        const company = await Company.findByPk(companyId, { attributes: ['sip_domain'] });
+        realm = company?.sip_domain;
+      }
+      if (realm) return `sip:${user.sip_username}@${realm}`;
+    }
+
+    return user.phone || null;
+  }
+
+  private async saveCall(call: Call, values: Partial<Call>): Promise<void> {
+    if (this.isSimulated(call)) {
+      call.set(values);
+    } else {
+      await call.update(values);
+    }
+  }
+
+  /**
+   * Validate a call flow before it is saved. Returns a list of problems (empty when valid).
+   */
+  validateCallFlow(callFlow: Partial<CallFlowConfig>): string[] {
+    const errors: string[] = [];
+    const ivr = callFlow.ivr;
+    const nodeIds = new Set<string>((ivr?.nodes || []).map(node => node.id));
+
+    for (const key of ['record_calls', 'voicemail_enabled', 'voicemail_transcribe'] as const) {
+      if (callFlow[key] !== undefined && typeof callFlow[key] !== 'boolean') {
+        errors.push(`${key} must be true or false`);
+      }
+    }
+    if (callFlow.timeout_seconds !== undefined &&
+      (!Number.isInteger(callFlow.timeout_seconds) || callFlow.timeout_seconds < 5 || callFlow.timeout_seconds > 600)) {
+      errors.push('timeout_seconds must be a whole number between 5 and 600');
+    }
+    if (callFlow.voicemail_greeting !== undefined && typeof callFlow.voicemail_greeting !== 'string') {
+      errors.push('voicemail_greeting must be text');
+    }
+    if (callFlow.voicemail_greeting_audio_url !== undefined && callFlow.voicemail_greeting_audio_url !== null &&
+      (typeof callFlow.voicemail_greeting_audio_url !== 'string' || !/^https?:\/\//.test(callFlow.voicemail_greeting_audio_url))) {
+      errors.push('voicemail_greeting_audio_url must be an http(s) URL');
+    }
+
+    if (callFlow.destination) {
+      errors.push(...this.validateDestination(callFlow.destination, nodeIds, 'default'));
+    }
+
+    if (callFlow.after_hours) {
+      errors.push(...this.validateDestination(callFlow.after_hours, nodeIds, 'after-hours'));
+    }
+
+    if (callFlow.whisper?.message && callFlow.whisper.message.length > 500) {
+      errors.push('whisper.message must be 500 characters or fewer');
+    }
+
+    if (callFlow.whisper?.decline_destination) {
+      errors.push(...this.validateDestination(callFlow.whisper.decline_destination, nodeIds, 'whisper decline'));
+    }
+
+    if (callFlow.missed_call_text) {
+      errors.push(...TextBackService.validateConfig(callFlow.missed_call_text));
+    }
+
+    if (callFlow.survey) {
+      errors.push(...SurveyService.validateConfig(callFlow.survey));
+    }
+
+    if (callFlow.geo_routing) {
+      const geoRouting = callFlow.geo_routing;
+      errors.push(...GeoRoutingService.validateRules(geoRouting));
+      (Array.isArray(geoRouting.rules) ? geoRouting.rules : []).forEach((rule, index) => {
+        errors.push(...this.validateDestination(rule.destination, nodeIds, `geo routing rule "${rule.id || index + 1}"`));
+      });
+      errors.push(...this.validateDestination(geoRouting.default_destination, nodeIds, 'geo routing default'));
+    }
+
+    if (!ivr) return errors;
+
+    if (!Array.isArray(ivr.nodes) || ivr.nodes.length === 0) {
+      errors.push('ivr.nodes must contain at least one node');
+      return errors;
+    }
+
+    const seenIds = new Set<string>();
+    for (const node of ivr.nodes) {
+      if (!node.id) {
+        errors.push('Every IVR node needs an id');
+        continue;
+      }
+      if (seenIds.has(node.id)) {
+        errors.push(`Duplicate IVR node id "${node.id}"`);
+      }
+      seenIds.add(node.id);
+    }
+
+    if (!nodeIds.has(ivr.root_node_id)) {
+      errors.push(`ivr.root_node_id "${ivr.root_node_id}" does not match any node`);
+    }
+
+    for (const node of ivr.nodes) {
+      const seenDigits = new Set<string>();
+
+      for (const option of node.options || []) {
+        if (!option.digits && !(option.phrases && option.phrases.length)) {
+          errors.push(`Option "${option.label}" in node "${node.id}" needs digits or phrases`);
+        }
+        if (option.digits) {
+          if (seenDigits.has(option.digits)) {
+            errors.push(`Digits "${option.digits}" are used twice in node "${node.id}"`);
+          }
+          seenDigits.add(option.digits);
+        }
+        errors.push(...this.validateDestination(option.destination, nodeIds, `node "${node.id}" option "${option.label}"`));
+      }
+
+      if (node.no_input_destination) {
+        errors.push(...this.validateDestination(node.no_input_destination, nodeIds, `node "${node.id}" no-input`));
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate a destination configured outside a call flow (e.g. queue overflow).
+   * IVR menus belong to a tracking number, so they cannot be used here.
+   */
+  validateStandaloneDestination(destination: CallDestination | undefined, context: string): string[] {
+    return this.validateDestination(destination, new Set(), context);
+  }
+
+  private validateDestination(destination: CallDestination | undefined, nodeIds: Set<string>, context: string): string[] {
+    if (!destination || !destination.type) {
+      return [`Missing destination for ${context}`];
+    }
+
+    switch (destination.type) {
+      case 'user':
+        return destination.user_id ? [] : [`Destination for ${context} needs a user_id`];
+      case 'number':
+        return destination.number ? [] : [`Destination for ${context} needs a number`];
+      case 'ring_group':
+        return destination.ring_group_id ? [] : [`Destination for ${context} needs a ring_group_id`];
+      case 'queue':
+        return destination.queue_id ? [] : [`Destination for ${context} needs a queue_id`];
+      case 'menu':
+        return destination.node_id && nodeIds.has(destination.node_id)
+          ? []
+          : [`Destination for ${context} points to unknown node "${destination.node_id}"`];
+      case 'sip':
+      case 'voicemail':
+      case 'message':
+      case 'hangup':
+        return [];
+      default:
+        return [`Unknown destination type "${(destination as CallDestination).type}" for ${context}`];
+    }
+  }
+}
+
+export default new CallFlowService();
@@ -0,0 +1,239 @@
+// backend/src/services/CallFlowSimulatorService.ts
+import { Call, Company, TrackingNumber } from '../models';
+import { CallDirection, CallStatus } from '../types/enums';
+import { RecordingConsentPath } from '../types/interfaces';
+import CallFlowService from './CallFlowService';
+import IvrService from './IvrService';
+import RecordingConsentService from './RecordingConsentService';
+import SpamService, { ScreeningResult } from './SpamService';
+
+const MAX_STEPS = 25;
+const IVR_URL_PATTERN = /\/api\/sip\/ivr\/\d+\/([^?]+)\?attempt=(\d+)(&gathered=true)?/;
+
+export interface CallFlowSimulationInput {
+  caller_number: string;
+  caller_name?: string;
+  caller_city?: string;
+  caller_state?: string;
+  caller_zip?: string;
+  caller_country?: string;
+  at?: Date;         // when the call comes in (defaults to now)
+  inputs?: string[]; // answer for each menu in order: digits, speech, or "" for no input
+}
+
+export type CallFlowSimulationOutcomeType = 'dial' | 'queue' | 'voicemail' | 'hangup' | 'rejected' | 'menu' | 'error';
+
+export interface CallFlowSimulationOutcome {
+  type: CallFlowSimulationOutcomeType;
+  targets?: string[]; // dialed SIP URIs / numbers, queue name or IVR node
+}
+
+export interface CallFlowSimulationStep {
+  step: number;
+  request: 'incoming' | 'ivr_node' | 'ivr_input';
+  node_id?: string;
+  input?: string;
+  events: Array<{ type: string; data: Record<string, any> }>;
+  twiml: string;
+  outcome: CallFlowSimulationOutcome;
+}
+
+export interface CallFlowSimulation {
+  at: Date;
+  screening: ScreeningResult;
+  recording_consent?: RecordingConsentPath;
+  routing_rule?: string;
+  steps: CallFlowSimulationStep[];
+  outcome: CallFlowSimulationOutcome;
+}
+
+/**
+ * Walks a call through a tracking number's call flow without placing a call.
+ * Each step runs the same TwiML generation as a live call, on an unsaved Call,
+ * so nothing is written to the call log, queues or sip_events.
+ */
+export class CallFlowSimulatorService {
+  async simulate(trackingNumber: TrackingNumber, input: CallFlowSimulationInput): Promise<CallFlowSimulation> {
+    const at = input.at || new Date();
+    const company = trackingNumber.company || await Company.findByPk(trackingNumber.company_id);
+    if (!company) {
+      throw new Error('Company not found');
+    }
+
+    const screening = await SpamService.screenCall(company, input.caller_number, input.caller_name, false);
+    const steps: CallFlowSimulationStep[] = [];
+
+    if (screening.action === 'block') {
+      const twiml = CallFlowService.createResponse();
+      twiml.reject({ reason: 'rejected' });
+      steps.push(this.buildStep(steps, 'incoming', twiml.toString(), []));
+      return { at, screening, steps, outcome: steps[0].outcome };
+    }
+
+    const consent = RecordingConsentService.resolve(company, trackingNumber, {
+      state: input.caller_state,
+      country: input.caller_country
+    });
+
+    const call = Call.build({
+      call_sid: 'CA_SIMULATED',
+      company_id: trackingNumber.company_id,
+      tracking_number_id: trackingNumber.id,
+      caller_number: input.caller_number,
+      caller_name: input.caller_name,
+      caller_city: input.caller_city,
+      caller_state: input.caller_state,
+      caller_zip: input.caller_zip,
+      caller_country: input.caller_country,
+      destination_number: trackingNumber.phone_number,
+      direction: CallDirection.INBOUND,
+      status: CallStatus.RINGING,
+      start_time: at,
+      is_spam: screening.action === 'flag',
+      spam_score: screening.score,
+      recording_enabled: consent.record,
+      recording_consent: consent.path,
+      call_flow_version: trackingNumber.call_flow_version,
+      source: trackingNumber.source,
+      medium: trackingNumber.medium,
+      campaign: trackingNumber.campaign,
+      metadata: { recording_consent: consent }
+    } as any);
+
+    let twiml = await this.runStep(call, () => CallFlowService.generateInboundResponse(trackingNumber, call, at));
+    steps.push(this.buildStep(steps, 'incoming', twiml.document, twiml.events));
+
+    const inputs = [...(input.inputs || [])];
+
+    // Follow the IVR the way Twilio would: render menus, then post each answer back
+    while (steps.length < MAX_STEPS) {
+      const request = this.findIvrRequest(twiml.document);
+      if (!request) break;
+
+      const node = IvrService.findNode(trackingNumber.call_flow?.ivr, request.node_id);
+      if (!node) {
+        steps[steps.length - 1].outcome = { type: 'error', targets: [request.node_id] };
+        break;
+      }
+
+      // Out of answers: the caller is left at this menu
+      if (request.gathered && inputs.length === 0) break;
+
+      const response = CallFlowService.createResponse();
+
+      if (!request.gathered) {
+        IvrService.appendNode(response, trackingNumber, node, request.attempt);
+        twiml = { document: response.toString(), events: [] };
+        steps.push(this.buildStep(steps, 'ivr_node', twiml.document, [], node.id));
+        continue;
+      }
+
+      const answer = inputs.shift()!.trim();
+      const isDigits = /^[0-9*#]+$/.test(answer);
+
+      twiml = await this.runStep(call, async () => {
+        await CallFlowService.appendIvrInput(response, trackingNumber, call, node, {
+          digits: isDigits ? answer : undefined,
+          speech: !isDigits && answer ? answer : undefined
+        }, request.attempt);
+        return response.toString();
+      });
+      steps.push(this.buildStep(steps, 'ivr_input', twiml.document, twiml.events, node.id, answer));
+    }
+
+    return {
+      at,
+      screening,
+      recording_consent: consent.path,
+      routing_rule: call.routing_rule,
+      steps,
+      outcome: steps[steps.length - 1].outcome
+    };
+  }
+
+  /**
+   * What a TwiML document does with the caller
+   */
+  describeOutcome(twiml: string): CallFlowSimulationOutcome {
+    if (/<Reject\b/.test(twiml)) return { type: 'rejected' };
+
+    const ivrRequest = this.findIvrRequest(twiml);
+    if (ivrRequest) return { type: 'menu', targets: [ivrRequest.node_id] };
+
+    const queue = twiml.match(/<Enqueue\b[^>]*>([^<]+)<\/Enqueue>/);
+    if (queue) return { type: 'queue', targets: [this.unescape(queue[1])] };
+
+    const dial = twiml.match(/<Dial\b[^>]*>([\s\S]*?)<\/Dial>/);
+    if (dial) {
+      const targets = [...dial[1].matchAll(/<(?:Sip|Number|Client)\b[^>]*>([^<]+)</g)]
+        .map(match => this.unescape(match[1]));
+      return { type: 'dial', targets };
+    }
+
+    if (/<Record\b/.test(twiml)) return { type: 'voicemail' };
+
+    return { type: 'hangup' };
+  }
+
+  /**
+   * Run one request against the simulated call and collect the events it raised
+   */
+  private async runStep(
+    call: Call,
+    generate: () => Promise<string>
+  ): Promise<{ document: string; events: Array<{ type: string; data: Record<string, any> }> }> {
+    const before = call.metadata?.simulated_events?.length || 0;
+    const document = await generate();
+    return { document, events: (call.metadata?.simulated_events || []).slice(before) };
+  }
+
+  private buildStep(
+    steps: CallFlowSimulationStep[],
+    request: CallFlowSimulationStep['request'],
+    twiml: string,
+    events: CallFlowSimulationStep['events'],
+    nodeId?: string,
+    input?: string
+  ): CallFlowSimulationStep {
+    // Never hand SIP trunk credentials back to the browser
+    const document = twiml.replace(/password="[^"]*"/g, 'password="********"');
+
+    return {
+      step: steps.length + 1,
+      request,
+      ...(nodeId && { node_id: nodeId }),
+      ...(input !== undefined && { input }),
+      events,
+      twiml: document,
+      outcome: this.describeOutcome(document)
+    };
+  }
+
+  /**
+   * The IVR request Twilio makes next: a <Gather> action or a <Redirect> to a menu
+   */
+  private findIvrRequest(twiml: string): { node_id: string; attempt: number; gathered: boolean } | null {
+    const url = twiml.match(/<Gather\b[^>]*\saction="([^"]*)"/)?.[1]
+      || twiml.match(/<Redirect\b[^>]*>([^<]+)<\/Redirect>/)?.[1];
+    const match = url ? this.unescape(url).match(IVR_URL_PATTERN) : null;
+
+    if (!match) return null;
+
+    return {
+      node_id: decodeURIComponent(match[1]),
+      attempt: parseInt(match[2]) || 1,
+      gathered: !!match[3]
+    };
+  }
+
+  private unescape(value: string): string {
+    return value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+}
+
+export default new CallFlowSimulatorService();
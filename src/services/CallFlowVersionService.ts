@@ -0,0 +1,182 @@
+// backend/src/services/CallFlowVersionService.ts
+import { Transaction } from 'sequelize';
+import { CallFlowVersion, TrackingNumber, sequelize } from '../models';
+import { CallFlowVersionStatus } from '../types/enums';
+import { CallFlowConfig } from '../types/interfaces';
+
+export type CallFlowChangeType = 'added' | 'removed' | 'changed';
+
+export interface CallFlowChange {
+  path: string; // e.g. "ivr.nodes[0].greeting"
+  change: CallFlowChangeType;
+  from?: any;
+  to?: any;
+}
+
+/**
+ * Call flow history per tracking number. Edits are saved as drafts; publishing
+ * copies a version onto the tracking number (what live calls route through)
+ * and archives the previously published one, in a single transaction.
+ */
+export class CallFlowVersionService {
+  async list(trackingNumber: TrackingNumber): Promise<CallFlowVersion[]> {
+    return await CallFlowVersion.findAll({
+      where: { tracking_number_id: trackingNumber.id },
+      order: [['version', 'DESC']]
+    });
+  }
+
+  async get(trackingNumber: TrackingNumber, version: number): Promise<CallFlowVersion | null> {
+    return await CallFlowVersion.findOne({
+      where: { tracking_number_id: trackingNumber.id, version }
+    });
+  }
+
+  /**
+   * Record a new tracking number's starting call flow as published version 1
+   */
+  async createInitialVersion(trackingNumber: TrackingNumber, userId?: number): Promise<CallFlowVersion> {
+    return await sequelize.transaction(async (transaction) => {
+      const version = await this.createVersion(trackingNumber, trackingNumber.call_flow, transaction, {
+        created_by: userId,
+        notes: 'Initial call flow'
+      });
+      return await this.applyPublish(trackingNumber, version, transaction, userId);
+    });
+  }
+
+  async createDraft(
+    trackingNumber: TrackingNumber,
+    callFlow: CallFlowConfig,
+    userId?: number,
+    notes?: string
+  ): Promise<CallFlowVersion> {
+    return await sequelize.transaction(async (transaction) => {
+      return await this.createVersion(trackingNumber, callFlow, transaction, { created_by: userId, notes });
+    });
+  }
+
+  /**
+   * Publish a draft. Returns null when the version is no longer a draft.
+   */
+  async publish(trackingNumber: TrackingNumber, versionId: number, userId?: number): Promise<CallFlowVersion | null> {
+    return await sequelize.transaction(async (transaction) => {
+      await this.lockTrackingNumber(trackingNumber, transaction);
+
+      const version = await CallFlowVersion.findByPk(versionId, { transaction, lock: transaction.LOCK.UPDATE });
+      if (!version || version.status !== CallFlowVersionStatus.DRAFT) return null;
+
+      return await this.applyPublish(trackingNumber, version, transaction, userId);
+    });
+  }
+
+  /**
+   * Go back to an earlier version. Its call flow is copied into a new version
+   * that is published, so history only ever moves forward.
+   */
+  async rollback(trackingNumber: TrackingNumber, target: CallFlowVersion, userId?: number): Promise<CallFlowVersion> {
+    return await sequelize.transaction(async (transaction) => {
+      const version = await this.createVersion(trackingNumber, target.call_flow, transaction, {
+        created_by: userId,
+        notes: `Rollback to version ${target.version}`,
+        restored_from: target.version
+      });
+      return await this.applyPublish(trackingNumber, version, transaction, userId);
+    });
+  }
+
+  /**
+   * Field-by-field differences between two call flows. Arrays are compared by index.
+   */
+  diff(from: any, to: any, path: string = ''): CallFlowChange[] {
+    if (this.isEqual(from, to)) return [];
+
+    const bothObjects = this.isObject(from) && this.isObject(to);
+    const bothArrays = Array.isArray(from) && Array.isArray(to);
+
+    if (!bothObjects && !bothArrays) {
+      if (from === undefined) return [{ path, change: 'added', to }];
+      if (to === undefined) return [{ path, change: 'removed', from }];
+      return [{ path, change: 'changed', from, to }];
+    }
+
+    const keys = bothArrays
+      ? Array.from({ length: Math.max(from.length, to.length) }, (_, index) => String(index))
+      : [...new Set([...Object.keys(from), ...Object.keys(to)])];
+
+    return keys.flatMap(key => {
+      const childPath = bothArrays ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+      return this.diff(from[key], to[key], childPath);
+    });
+  }
+
+  private async createVersion(
+    trackingNumber: TrackingNumber,
+    callFlow: CallFlowConfig,
+    transaction: Transaction,
+    attributes: { created_by?: number; notes?: string; restored_from?: number }
+  ): Promise<CallFlowVersion> {
+    // Serializes version numbering for this tracking number
+    await this.lockTrackingNumber(trackingNumber, transaction);
+
+    const latest: number | null = await CallFlowVersion.max('version', {
+      where: { tracking_number_id: trackingNumber.id },
+      transaction
+    });
+
+    return await CallFlowVersion.create({
+      company_id: trackingNumber.company_id,
+      tracking_number_id: trackingNumber.id,
+      version: (latest || 0) + 1,
+      status: CallFlowVersionStatus.DRAFT,
+      call_flow: callFlow,
+      ...attributes
+    } as any, { transaction });
+  }
+
+  private async applyPublish(
+    trackingNumber: TrackingNumber,
+    version: CallFlowVersion,
+    transaction: Transaction,
+    userId?: number
+  ): Promise<CallFlowVersion> {
+    await CallFlowVersion.update(
+      { status: CallFlowVersionStatus.ARCHIVED },
+      {
+        where: { tracking_number_id: trackingNumber.id, status: CallFlowVersionStatus.PUBLISHED },
+        transaction
+      }
+    );
+
+    await version.update({
+      status: CallFlowVersionStatus.PUBLISHED,
+      published_at: new Date(),
+      published_by: userId
+    }, { transaction });
+
+    await trackingNumber.update({
+      call_flow: version.call_flow,
+      call_flow_version: version.version
+    }, { transaction });
+
+    return version;
+  }
+
+  private async lockTrackingNumber(trackingNumber: TrackingNumber, transaction: Transaction): Promise<void> {
+    await TrackingNumber.findByPk(trackingNumber.id, {
+      attributes: ['id'],
+      transaction,
+      lock: transaction.LOCK.UPDATE
+    });
+  }
+
+  private isObject(value: unknown): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b) && (a === undefined) === (b === undefined);
+  }
+}
+
+export default new CallFlowVersionService();
@@ -0,0 +1,116 @@
+// backend/src/services/CallbackGuardService.ts
+import { UniqueConstraintError } from 'sequelize';
+import { Call, SipEvent } from '../models';
+import { CallStatus } from '../types/enums';
+import redisClient from '../config/redis';
+
+const CLAIM_TTL_SECONDS = 2 * 24 * 60 * 60; // Twilio stops retrying well within this
+const CLAIM_EVENT_TYPE = 'callback_claimed';
+
+// Calls only move forward: ringing -> in progress -> voicemail -> a final status.
+// Voicemail is set by us, possibly before the provider's final callback, so it is not final.
+const STATUS_RANK: Record<CallStatus, number> = {
+  [CallStatus.RINGING]: 0,
+  [CallStatus.IN_PROGRESS]: 1,
+  [CallStatus.VOICEMAIL]: 2,
+  [CallStatus.COMPLETED]: 3,
+  [CallStatus.FAILED]: 3,
+  [CallStatus.BUSY]: 3,
+  [CallStatus.NO_ANSWER]: 3,
+  [CallStatus.CANCELED]: 3,
+  [CallStatus.MISSED]: 3
+};
+
+/**
+ * Keeps retried and out-of-order provider callbacks from being applied twice
+ * or from rolling a call back to an earlier status.
+ */
+export class CallbackGuardService {
+  statusCallbackKey(callSid: string, status: string, sequenceNumber?: string): string {
+    return `callback:${callSid}:status:${status}:${sequenceNumber ?? '-'}`;
+  }
+
+  recordingCallbackKey(callSid: string, recordingSid: string, status: string): string {
+    return `callback:${callSid}:recording:${recordingSid}:${status}`;
+  }
+
+  /**
+   * Claim a callback for processing. Returns false when it was already claimed
+   * (a retry or duplicate). Uses Redis, falling back to sip_events when Redis is down.
+   */
+  async claim(call: Call, key: string): Promise<boolean> {
+    if (redisClient.isReady) {
+      try {
+        const result = await redisClient.set(key, String(call.id), { NX: true, EX: CLAIM_TTL_SECONDS });
+        return result === 'OK';
+      } catch (error) {
+        console.error('Redis callback claim failed, using sip_events:', error);
+      }
+    }
+
+    // The unique index on (call_id, key) lets only one of two concurrent claims through
+    try {
+      await SipEvent.create({
+        company_id: call.company_id,
+        call_id: call.id,
+        event_type: CLAIM_EVENT_TYPE,
+        event_timestamp: new Date(),
+        event_data: { key },
+        sip_call_id: call.call_sid,
+        processed: true,
+        processed_at: new Date()
+      } as any);
+    } catch (error) {
+      if (error instanceof UniqueConstraintError) return false;
+      throw error;
+    }
+
+    return true;
+  }
+
+  /**
+   * Give a claim back after processing failed, so the provider's retry is applied
+   */
+  async release(call: Call, key: string): Promise<void> {
+    try {
+      if (redisClient.isReady) {
+        await redisClient.del(key);
+      }
+      await SipEvent.destroy({
+        where: { call_id: call.id, event_type: CLAIM_EVENT_TYPE, event_data: { key } } as any
+      });
+    } catch (error) {
+      console.error(`Error releasing callback claim ${key}:`, error);
+    }
+  }
+
+  isFinal(status: CallStatus): boolean {
+    return STATUS_RANK[status] === STATUS_RANK[CallStatus.COMPLETED];
+  }
+
+  /**
+   * Whether a call may move from one status to another: never backwards, and a final
+   * status only repeats itself (a completed call cannot turn into a failed one)
+   */
+  canTransition(from: CallStatus, to: CallStatus): boolean {
+    if (this.isFinal(from)) return to === from;
+    return (STATUS_RANK[to] ?? 0) >= (STATUS_RANK[from] ?? 0);
+  }
+
+  /**
+   * Whether a status callback is older than the last one applied to the call.
+   * Twilio's SequenceNumber orders callbacks for the same call when present.
+   */
+  isStale(call: Call, status: CallStatus, sequenceNumber?: string): boolean {
+    const lastSequence = call.metadata?.status_sequence;
+    const sequence = sequenceNumber !== undefined ? parseInt(sequenceNumber) : NaN;
+
+    if (!isNaN(sequence) && typeof lastSequence === 'number' && sequence < lastSequence) {
+      return true;
+    }
+
+    return !this.canTransition(call.status, status);
+  }
+}
+
+export default new CallbackGuardService();
@@ -0,0 +1,681 @@
+// backend/src/services/DialerService.ts
+import { Op, WhereOptions } from 'sequelize';
+import { formatInTimeZone } from 'date-fns-tz';
+import VoiceResponse from 'twilio/lib/twiml/VoiceResponse';
+import {
+  AgentSession,
+  Call,
+  Company,
+  CustomerProfile,
+  DialerCampaign,
+  DialerContact,
+  TrackingNumber
+} from '../models';
+import {
+  AgentStatus,
+  CallDirection,
+  CallDisposition,
+  CallStatus,
+  DialerCallResult,
+  DialerCampaignStatus,
+  DialerContactStatus
+} from '../types/enums';
+import { DialerCallingWindow, Weekday } from '../types/interfaces';
+import CallFlowService from './CallFlowService';
+import QueueService from './QueueService';
+import TelephonyService from './TelephonyService';
+import SocketManager from '../socket/SocketManager';
+
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DEFAULT_TIMEZONE = 'America/New_York';
+const MISSED_CALL_BREAK_REASON = 'Missed dialer call';
+
+// Contacts that tie up their agent until the disposition is in
+const OPEN_STATUSES = [DialerContactStatus.DIALING, DialerContactStatus.CONNECTED, DialerContactStatus.WRAP_UP];
+
+const RESULT_MESSAGES: Record<DialerCallResult, string> = {
+  [DialerCallResult.ANSWERED]: 'The call has ended. Please enter a disposition.',
+  [DialerCallResult.NO_ANSWER]: 'There was no answer.',
+  [DialerCallResult.BUSY]: 'The line was busy.',
+  [DialerCallResult.FAILED]: 'The call could not be completed.'
+};
+
+export interface DialerContactInput {
+  phone_number: string;
+  name?: string;
+  timezone?: string;
+}
+
+export interface DialerCampaignProgress {
+  campaign_id: number;
+  status: DialerCampaignStatus;
+  total: number;
+  by_status: Record<DialerContactStatus, number>;
+  by_result: Partial<Record<DialerCallResult, number>>;
+  by_disposition: Record<string, number>;
+  attempts: number;
+  percent_complete: number;
+}
+
+/**
+ * Power dialer: rings an idle campaign agent, then dials the campaign's next
+ * contact from the agent's leg. Unanswered contacts are retried per the
+ * campaign's rules; answered ones wait for the agent's disposition.
+ */
+export class DialerService {
+  private socketManager: SocketManager | null = null;
+  private dispatches = new Map<number, Promise<number>>();
+
+  setSocketManager(socketManager: SocketManager) {
+    this.socketManager = socketManager;
+  }
+
+  /**
+   * URL for dialer callbacks ('connect' once the agent picks up, 'answered' when the contact does,
+   * 'result' after the contact's leg ends)
+   */
+  getDialerUrl(contactId: number, action: 'connect' | 'answered' | 'result'): string {
+    return `${process.env.BASE_URL}/api/sip/dialer/${contactId}/${action}`;
+  }
+
+  /**
+   * Add contacts from customer profiles and/or an uploaded list.
+   * Numbers already in the campaign and profiles without a phone number are skipped.
+   */
+  async addContacts(
+    campaign: DialerCampaign,
+    customerProfileIds: number[] = [],
+    contacts: DialerContactInput[] = []
+  ): Promise<{ added: number; skipped: number }> {
+    const profiles = customerProfileIds.length > 0
+      ? await CustomerProfile.findAll({ where: { id: customerProfileIds, company_id: campaign.company_id } })
+      : [];
+
+    const candidates = [
+      ...profiles.map(profile => ({
+        customer_profile_id: profile.id,
+        phone_number: profile.phone_number,
+        name: [profile.first_name, profile.last_name].filter(Boolean).join(' ') || undefined,
+        timezone: profile.timezone
+      })),
+      ...contacts.map(contact => ({
+        customer_profile_id: undefined,
+        phone_number: contact.phone_number?.trim(),
+        name: contact.name?.trim() || undefined,
+        timezone: contact.timezone
+      }))
+    ];
+
+    const existing = await DialerContact.findAll({
+      where: { campaign_id: campaign.id },
+      attributes: ['phone_number']
+    });
+    const seen = new Set(existing.map(contact => contact.phone_number));
+
+    const rows = [];
+    for (const candidate of candidates) {
+      if (!candidate.phone_number || seen.has(candidate.phone_number)) continue;
+      seen.add(candidate.phone_number);
+
+      rows.push({
+        ...candidate,
+        campaign_id: campaign.id,
+        company_id: campaign.company_id,
+        // An unknown zone falls back to the campaign's rather than breaking the calling window
+        timezone: candidate.timezone && this.isValidTimezone(candidate.timezone) ? candidate.timezone : null,
+        status: DialerContactStatus.PENDING
+      });
+    }
+
+    if (rows.length > 0) {
+      await DialerContact.bulkCreate(rows as any);
+    }
+
+    // Profiles that were asked for but not found count as skipped too
+    return { added: rows.length, skipped: customerProfileIds.length + contacts.length - rows.length };
+  }
+
+  /**
+   * Hand the next contact of each active campaign to its idle agents.
+   * Dispatches for a company run one at a time so an agent is never handed two contacts.
+   */
+  async dispatch(companyId: number): Promise<number> {
+    const previous = this.dispatches.get(companyId) || Promise.resolve(0);
+    const current = previous
+      .catch(() => 0)
+      .then(() => this.dispatchNow(companyId));
+
+    this.dispatches.set(companyId, current);
+    current
+      .finally(() => {
+        if (this.dispatches.get(companyId) === current) this.dispatches.delete(companyId);
+      })
+      .catch(() => undefined);
+
+    return current;
+  }
+
+  /**
+   * The agent picked up: dial the contact from the agent's leg.
+   * Returns false when the contact should no longer be dialed, and the agent is hung up.
+   */
+  async appendContactDial(twiml: VoiceResponse, contact: DialerContact, call: Call): Promise<boolean> {
+    const campaign = await DialerCampaign.findByPk(contact.campaign_id);
+
+    if (!campaign || campaign.status !== DialerCampaignStatus.ACTIVE || contact.status !== DialerContactStatus.DIALING) {
+      if (contact.status === DialerContactStatus.DIALING) {
+        await this.releaseContact(contact);
+      }
+      return false;
+    }
+
+    await contact.update({ attempts: contact.attempts + 1, last_attempt_at: new Date() });
+    await call.update({ metadata: { ...call.metadata, dialer: { ...call.metadata?.dialer, attempt: contact.attempts } } });
+
+    twiml.say({ voice: 'alice' }, contact.name ? `Dialing ${contact.name}.` : 'Dialing the next contact.');
+
+    const dial = twiml.dial({
+      callerId: call.caller_number,
+      timeout: campaign.ring_timeout_seconds,
+      action: this.getDialerUrl(contact.id, 'result'),
+      method: 'POST',
+      ...(call.recording_enabled !== false && {
+        record: 'record-from-answer-dual',
+        recordingStatusCallback: `${process.env.BASE_URL}/api/sip/recording-status`,
+        recordingStatusCallbackMethod: 'POST',
+        recordingStatusCallbackEvent: ['completed', 'in-progress']
+      })
+    });
+    dial.number({ url: this.getDialerUrl(contact.id, 'answered'), method: 'POST' }, contact.phone_number);
+
+    this.emit(contact.company_id, 'dialer:contact:ringing', this.contactPayload(contact));
+    return true;
+  }
+
+  async markConnected(contact: DialerContact, call: Call): Promise<void> {
+    if (contact.status !== DialerContactStatus.DIALING) return;
+
+    await contact.update({ status: DialerContactStatus.CONNECTED });
+    await call.update({ answer_time: new Date(), disposition: CallDisposition.ANSWERED });
+
+    this.emit(contact.company_id, 'dialer:contact:connected', this.contactPayload(contact));
+  }
+
+  /**
+   * The contact's leg ended. Answered contacts wait for a disposition; the rest are
+   * scheduled for a retry or closed out.
+   */
+  async recordResult(contact: DialerContact, call: Call, dialStatus: string): Promise<DialerCallResult> {
+    const result = contact.status === DialerContactStatus.CONNECTED
+      ? DialerCallResult.ANSWERED
+      : this.mapDialStatus(dialStatus);
+
+    if (![DialerContactStatus.DIALING, DialerContactStatus.CONNECTED].includes(contact.status)) {
+      return result;
+    }
+
+    await call.update({
+      metadata: { ...call.metadata, dial_status: dialStatus, dialer: { ...call.metadata?.dialer, result } }
+    });
+
+    if (result === DialerCallResult.ANSWERED) {
+      await contact.update({ status: DialerContactStatus.WRAP_UP, last_result: result });
+      this.emit(contact.company_id, 'dialer:contact:wrap_up', this.contactPayload(contact));
+      return result;
+    }
+
+    const campaign = await DialerCampaign.findByPk(contact.campaign_id);
+    await this.closeUnanswered(campaign, contact, result);
+    return result;
+  }
+
+  describeResult(result: DialerCallResult): string {
+    return RESULT_MESSAGES[result];
+  }
+
+  /**
+   * The agent's leg is over. Cleans up after an agent who never picked up (the contact
+   * goes back in line and the agent is set AWAY) or a contact leg that never reported back.
+   */
+  async handleCallEnded(call: Call): Promise<void> {
+    const contact = await DialerContact.findOne({
+      where: { id: call.metadata?.dialer?.contact_id, call_id: call.id }
+    });
+
+    if (contact?.status === DialerContactStatus.DIALING) {
+      // The contact's number was rung (see appendContactDial) but its result never came back
+      if (call.metadata?.dialer?.attempt !== undefined) {
+        const campaign = await DialerCampaign.findByPk(contact.campaign_id);
+        await this.closeUnanswered(campaign, contact, DialerCallResult.NO_ANSWER);
+      } else {
+        await this.releaseContact(contact);
+      }
+
+      if (call.status !== CallStatus.COMPLETED && contact.agent_id) {
+        await this.pauseAgent(call.company_id, contact.agent_id, contact);
+      }
+    } else if (contact?.status === DialerContactStatus.CONNECTED) {
+      await contact.update({ status: DialerContactStatus.WRAP_UP, last_result: DialerCallResult.ANSWERED });
+      this.emit(contact.company_id, 'dialer:contact:wrap_up', this.contactPayload(contact));
+    }
+
+    await this.dispatch(call.company_id);
+  }
+
+  /**
+   * Close out a connected contact. With retry_at the contact is called again at that time
+   * (a callback) instead of being completed.
+   */
+  async submitDisposition(
+    contact: DialerContact,
+    disposition: string,
+    notes?: string,
+    retryAt?: Date
+  ): Promise<DialerContact> {
+    await contact.update({
+      status: retryAt ? DialerContactStatus.PENDING : DialerContactStatus.COMPLETED,
+      disposition,
+      disposition_notes: notes,
+      disposed_at: new Date(),
+      next_attempt_at: retryAt || null
+    } as any);
+
+    if (contact.call_id) {
+      const call = await Call.findByPk(contact.call_id);
+      if (call) {
+        await call.update({
+          metadata: { ...call.metadata, dialer: { ...call.metadata?.dialer, disposition, disposition_notes: notes } }
+        });
+      }
+    }
+
+    await this.contactClosed(contact, 'dialer:contact:disposed');
+
+    this.dispatch(contact.company_id)
+      .catch(error => console.error('Error dispatching dialer contacts:', error));
+
+    return contact;
+  }
+
+  /**
+   * The contact the agent is on or still owes a disposition for
+   */
+  async getAgentContact(companyId: number, agentId: number): Promise<DialerContact | null> {
+    return await DialerContact.findOne({
+      where: { company_id: companyId, agent_id: agentId, status: OPEN_STATUSES },
+      include: [{ model: DialerCampaign, attributes: ['id', 'name', 'dispositions'] }],
+      order: [['updated_at', 'DESC']]
+    });
+  }
+
+  async getProgress(campaign: DialerCampaign): Promise<DialerCampaignProgress> {
+    const where = { campaign_id: campaign.id };
+
+    const [byStatus, byResult, byDisposition, attempts] = await Promise.all([
+      DialerContact.count({ where, group: ['status'] }),
+      DialerContact.count({ where: { ...where, last_result: { [Op.ne]: null } } as WhereOptions<DialerContact>, group: ['last_result'] }),
+      DialerContact.count({ where: { ...where, disposition: { [Op.ne]: null } } as WhereOptions<DialerContact>, group: ['disposition'] }),
+      DialerContact.sum('attempts', { where })
+    ]);
+
+    const tally = (rows: any[], key: string) => rows.reduce((counts, row) => {
+      counts[row[key]] = Number(row.count);
+      return counts;
+    }, {} as Record<string, number>);
+
+    const statusCounts = Object.values(DialerContactStatus).reduce((counts, status) => {
+      counts[status] = 0;
+      return counts;
+    }, {} as Record<DialerContactStatus, number>);
+    Object.assign(statusCounts, tally(byStatus, 'status'));
+
+    const total = Object.values(statusCounts).reduce((sum, count) => sum + count, 0);
+
+    return {
+      campaign_id: campaign.id,
+      status: campaign.status,
+      total,
+      by_status: statusCounts,
+      by_result: tally(byResult, 'last_result'),
+      by_disposition: tally(byDisposition, 'disposition'),
+      attempts: Number(attempts) || 0,
+      percent_complete: total > 0
+        ? Math.round((statusCounts[DialerContactStatus.COMPLETED] / total) * 10000) / 100
+        : 0
+    };
+  }
+
+  /**
+   * Mark a campaign completed once every contact is done
+   */
+  async completeIfFinished(campaign: DialerCampaign): Promise<boolean> {
+    if (campaign.status !== DialerCampaignStatus.ACTIVE) return false;
+
+    const remaining = await DialerContact.count({
+      where: { campaign_id: campaign.id, status: { [Op.ne]: DialerContactStatus.COMPLETED } }
+    });
+    if (remaining > 0) return false;
+
+    await campaign.update({ status: DialerCampaignStatus.COMPLETED, completed_at: new Date() });
+    this.emit(campaign.company_id, 'dialer:campaign:status', { campaignId: campaign.id, status: campaign.status });
+    return true;
+  }
+
+  /**
+   * Companies with at least one active campaign (for the periodic dispatch)
+   */
+  async getActiveCompanyIds(): Promise<number[]> {
+    const campaigns = await DialerCampaign.findAll({
+      where: { status: DialerCampaignStatus.ACTIVE },
+      attributes: ['company_id'],
+      group: ['company_id']
+    });
+    return campaigns.map(campaign => campaign.company_id);
+  }
+
+  isWithinWindow(window: DialerCallingWindow, timezone: string, at: Date = new Date()): boolean {
+    const localTime = formatInTimeZone(at, timezone, 'HH:mm');
+    const dayIndex = parseInt(formatInTimeZone(at, timezone, 'i')) % 7; // ISO day: 7 = Sunday
+
+    if (window.days?.length && !window.days.includes(WEEKDAYS[dayIndex])) return false;
+
+    return localTime >= window.start && localTime < window.end;
+  }
+
+  isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Validate campaign settings. Returns a list of problems (empty when valid).
+   */
+  validateCampaign(data: Partial<Pick<DialerCampaign,
+    'calling_window' | 'timezone' | 'max_attempts' | 'retry_delay_minutes' | 'retry_results' |
+    'ring_timeout_seconds' | 'dispositions' | 'agent_ids'
+  >>): string[] {
+    const errors: string[] = [];
+
+    if (data.calling_window !== undefined) {
+      const { start, end, days } = data.calling_window || {} as DialerCallingWindow;
+      if (!TIME_PATTERN.test(start) || !TIME_PATTERN.test(end) || start >= end) {
+        errors.push('calling_window needs a start time before its end time, in HH:mm format');
+      }
+      if (days !== undefined && (!Array.isArray(days) || days.some(day => !WEEKDAYS.includes(day)))) {
+        errors.push(`calling_window.days must be weekdays (${WEEKDAYS.join(', ')})`);
+      }
+    }
+
+    if (data.timezone && !this.isValidTimezone(data.timezone)) {
+      errors.push(`Unknown timezone "${data.timezone}"`);
+    }
+
+    if (data.max_attempts !== undefined &&
+      (!Number.isInteger(data.max_attempts) || data.max_attempts < 1 || data.max_attempts > 10)) {
+      errors.push('max_attempts must be a whole number between 1 and 10');
+    }
+
+    if (data.retry_delay_minutes !== undefined &&
+      (!Number.isInteger(data.retry_delay_minutes) || data.retry_delay_minutes < 1 || data.retry_delay_minutes > 10080)) {
+      errors.push('retry_delay_minutes must be a whole number between 1 and 10080');
+    }
+
+    const retryable = [DialerCallResult.NO_ANSWER, DialerCallResult.BUSY, DialerCallResult.FAILED];
+    if (data.retry_results !== undefined &&
+      (!Array.isArray(data.retry_results) || data.retry_results.some(result => !retryable.includes(result)))) {
+      errors.push(`retry_results must be a list of: ${retryable.join(', ')}`);
+    }
+
+    if (data.ring_timeout_seconds !== undefined &&
+      (!Number.isInteger(data.ring_timeout_seconds) || data.ring_timeout_seconds < 5 || data.ring_timeout_seconds > 120)) {
+      errors.push('ring_timeout_seconds must be a whole number between 5 and 120');
+    }
+
+    if (data.dispositions !== undefined && (!Array.isArray(data.dispositions) || data.dispositions.length === 0 ||
+      data.dispositions.some(d => typeof d !== 'string' || !d.trim() || d.length > 50))) {
+      errors.push('dispositions must be a non-empty list of names up to 50 characters');
+    }
+
+    if (data.agent_ids !== undefined && (!Array.isArray(data.agent_ids) ||
+      data.agent_ids.some(id => !Number.isInteger(id)))) {
+      errors.push('agent_ids must be a list of user ids');
+    }
+
+    return errors;
+  }
+
+  private async dispatchNow(companyId: number): Promise<number> {
+    const campaigns = await DialerCampaign.findAll({
+      where: { company_id: companyId, status: DialerCampaignStatus.ACTIVE },
+      order: [['started_at', 'ASC']]
+    });
+    if (campaigns.length === 0) return 0;
+
+    // Agents on a dialer call or still owing a disposition are not dialed again
+    const [idle, open, company] = await Promise.all([
+      QueueService.getIdleAgentIds(companyId),
+      DialerContact.findAll({
+        where: { company_id: companyId, status: OPEN_STATUSES, agent_id: { [Op.ne]: null } } as WhereOptions<DialerContact>,
+        attributes: ['agent_id']
+      }),
+      Company.findByPk(companyId, { attributes: ['id', 'timezone'] })
+    ]);
+    const engaged = new Set(open.map(contact => contact.agent_id));
+    const available = idle.filter(userId => !engaged.has(userId));
+
+    const now = new Date();
+    let dispatched = 0;
+
+    for (const campaign of campaigns) {
+      const timezone = campaign.timezone || company?.timezone || DEFAULT_TIMEZONE;
+
+      for (const agentId of available.filter(userId => campaign.agent_ids.includes(userId))) {
+        const contact = await this.findNextContact(campaign, timezone, now);
+        if (!contact) break;
+
+        // Another dispatch may have claimed this contact in the meantime
+        const [claimed] = await DialerContact.update(
+          { status: DialerContactStatus.DIALING, agent_id: agentId },
+          { where: { id: contact.id, status: DialerContactStatus.PENDING } }
+        );
+        if (claimed === 0) continue;
+
+        try {
+          await contact.reload();
+          await this.startAttempt(campaign, contact, agentId);
+          available.splice(available.indexOf(agentId), 1);
+          dispatched++;
+        } catch (error) {
+          console.error(`Failed to dial dialer contact ${contact.id}:`, error);
+          await this.releaseContact(contact);
+        }
+      }
+
+      await this.completeIfFinished(campaign);
+    }
+
+    return dispatched;
+  }
+
+  /**
+   * Oldest due retry first, then fresh contacts, among contacts whose local time is inside the calling window
+   */
+  private async findNextContact(campaign: DialerCampaign, timezone: string, at: Date): Promise<DialerContact | null> {
+    const due: WhereOptions<DialerContact> = {
+      campaign_id: campaign.id,
+      status: DialerContactStatus.PENDING,
+      [Op.or]: [{ next_attempt_at: null }, { next_attempt_at: { [Op.lte]: at } }]
+    } as WhereOptions<DialerContact>;
+
+    const zones = await DialerContact.findAll({
+      where: due,
+      attributes: ['timezone'],
+      group: ['timezone'],
+      raw: true
+    });
+
+    const open = zones
+      .map(zone => zone.timezone || null)
+      .filter(zone => this.isWithinWindow(campaign.calling_window, zone || timezone, at));
+    if (open.length === 0) return null;
+
+    const named = open.filter((zone): zone is string => !!zone);
+
+    return await DialerContact.findOne({
+      where: {
+        [Op.and]: [
+          due,
+          {
+            [Op.or]: [
+              ...(named.length > 0 ? [{ timezone: named }] : []),
+              ...(open.includes(null) ? [{ timezone: null }] : [])
+            ]
+          }
+        ]
+      } as WhereOptions<DialerContact>,
+      order: [['next_attempt_at', 'ASC NULLS LAST'], ['id', 'ASC']]
+    });
+  }
+
+  /**
+   * Ring the agent. The contact is dialed from the 'connect' callback once they pick up.
+   */
+  private async startAttempt(campaign: DialerCampaign, contact: DialerContact, agentId: number): Promise<void> {
+    const trackingNumber = await TrackingNumber.findOne({
+      where: { id: campaign.tracking_number_id, company_id: campaign.company_id }
+    });
+    if (!trackingNumber) throw new Error(`Tracking number ${campaign.tracking_number_id} not found`);
+
+    const endpoint = await CallFlowService.resolveUserEndpoint(campaign.company_id, agentId);
+    if (!endpoint) throw new Error(`Agent ${agentId} has no SIP account or phone`);
+
+    const callSid = await TelephonyService.forTrackingNumber(trackingNumber).createCall({
+      url: this.getDialerUrl(contact.id, 'connect'),
+      to: endpoint,
+      from: trackingNumber.phone_number,
+      statusCallback: `${process.env.BASE_URL}/api/sip/status`,
+      statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed']
+    });
+
+    const call = await Call.create({
+      call_sid: callSid,
+      company_id: campaign.company_id,
+      tracking_number_id: trackingNumber.id,
+      caller_number: trackingNumber.phone_number,
+      caller_name: contact.name,
+      destination_number: contact.phone_number,
+      direction: CallDirection.OUTBOUND,
+      status: CallStatus.RINGING,
+      start_time: new Date(),
+      agent_id: agentId,
+      recording_enabled: trackingNumber.call_flow?.record_calls !== false,
+      metadata: {
+        dialer: { campaign_id: campaign.id, contact_id: contact.id },
+        ...(contact.customer_profile_id && { customer_profile_id: contact.customer_profile_id })
+      }
+    } as any);
+
+    await contact.update({ call_id: call.id });
+
+    this.emit(campaign.company_id, 'dialer:contact:dialing', {
+      ...this.contactPayload(contact),
+      callId: call.id,
+      callSid
+    });
+  }
+
+  /**
+   * Retry later when the campaign allows it, otherwise the contact is done
+   */
+  private async closeUnanswered(campaign: DialerCampaign | null, contact: DialerContact, result: DialerCallResult): Promise<void> {
+    const retry = !!campaign && campaign.retry_results.includes(result) && contact.attempts < campaign.max_attempts;
+
+    await contact.update({
+      status: retry ? DialerContactStatus.PENDING : DialerContactStatus.COMPLETED,
+      last_result: result,
+      next_attempt_at: retry ? new Date(Date.now() + campaign!.retry_delay_minutes * 60 * 1000) : null
+    } as any);
+
+    await this.contactClosed(contact, retry ? 'dialer:contact:retry' : 'dialer:contact:completed');
+  }
+
+  /**
+   * Put a claimed contact back in line without counting an attempt
+   */
+  private async releaseContact(contact: DialerContact): Promise<void> {
+    await DialerContact.update(
+      { status: DialerContactStatus.PENDING, agent_id: null } as any,
+      { where: { id: contact.id, status: DialerContactStatus.DIALING } }
+    );
+  }
+
+  /**
+   * An agent who lets a dialer call ring out is set AWAY so they are not rung again right away
+   */
+  private async pauseAgent(companyId: number, agentId: number, contact: DialerContact): Promise<void> {
+    const session = await AgentSession.findOne({
+      where: { company_id: companyId, user_id: agentId, ended_at: { [Op.is]: null } } as WhereOptions<AgentSession>
+    });
+    if (!session || session.status !== AgentStatus.AVAILABLE) return;
+
+    await session.setStatus(AgentStatus.AWAY, MISSED_CALL_BREAK_REASON);
+
+    this.emit(companyId, 'agent:status:changed', {
+      agent_id: agentId,
+      status: AgentStatus.AWAY,
+      reason: MISSED_CALL_BREAK_REASON
+    });
+    this.emit(companyId, 'dialer:agent:paused', { ...this.contactPayload(contact), agentId });
+  }
+
+  private async contactClosed(contact: DialerContact, event: string): Promise<void> {
+    this.emit(contact.company_id, event, this.contactPayload(contact));
+
+    const campaign = await DialerCampaign.findByPk(contact.campaign_id);
+    if (!campaign) return;
+
+    await this.completeIfFinished(campaign);
+    this.emit(contact.company_id, 'dialer:campaign:progress', await this.getProgress(campaign));
+  }
+
+  private mapDialStatus(dialStatus: string): DialerCallResult {
+    switch (dialStatus) {
+      case 'completed':
+      case 'answered':
+        return DialerCallResult.ANSWERED;
+      case 'busy':
+        return DialerCallResult.BUSY;
+      case 'failed':
+        return DialerCallResult.FAILED;
+      default:
+        return DialerCallResult.NO_ANSWER; // no-answer, or the agent hung up while it rang
+    }
+  }
+
+  private contactPayload(contact: DialerContact): Record<string, any> {
+    return {
+      campaignId: contact.campaign_id,
+      contactId: contact.id,
+      agentId: contact.agent_id,
+      callId: contact.call_id,
+      phoneNumber: contact.phone_number,
+      name: contact.name,
+      status: contact.status,
+      attempts: contact.attempts,
+      result: contact.last_result,
+      disposition: contact.disposition,
+      nextAttemptAt: contact.next_attempt_at
+    };
+  }
+
+  private emit(companyId: number, event: string, data: Record<string, any>): void {
+    this.socketManager?.emitToCompany(companyId, event, { ...data, timestamp: new Date() });
+  }
+}
+
+export default new DialerService();
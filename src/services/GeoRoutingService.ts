@@ -0,0 +1,110 @@
+// backend/src/services/GeoRoutingService.ts
+import { Call } from '../models';
+import { GeoRoutingConfig, GeoRoutingCriterion, GeoRoutingDecision, GeoRoutingRule } from '../types/interfaces';
+
+const MAX_RULES = 100;
+
+export class GeoRoutingService {
+  /**
+   * Pick the destination for a call from its caller's location. Rules are tried
+   * in order and the first match wins; otherwise the default destination applies.
+   */
+  route(config: GeoRoutingConfig, call: Call): GeoRoutingDecision {
+    for (const rule of config.rules || []) {
+      const matchedOn = this.matchRule(rule, call);
+      if (matchedOn) {
+        return { rule_id: rule.id, label: rule.label, matched_on: matchedOn, destination: rule.destination };
+      }
+    }
+
+    return { rule_id: 'default', matched_on: [], destination: config.default_destination };
+  }
+
+  /**
+   * The criteria a rule matched on, or null when any of its criteria fails
+   */
+  matchRule(rule: GeoRoutingRule, call: Call): GeoRoutingCriterion[] | null {
+    const checks: [GeoRoutingCriterion, string[] | undefined, (value: string) => boolean][] = [
+      ['state', rule.states, value => this.normalize(call.caller_state) === this.normalize(value)],
+      ['country', rule.countries, value => this.normalize(call.caller_country) === this.normalize(value)],
+      ['area_code', rule.area_codes, value => this.getAreaCode(call.caller_number) === value.trim()],
+      ['zip', rule.zip_prefixes, value => {
+        const zip = this.normalize(call.caller_zip);
+        return !!zip && zip.startsWith(this.normalize(value));
+      }]
+    ];
+
+    const matchedOn: GeoRoutingCriterion[] = [];
+    for (const [criterion, values, matches] of checks) {
+      if (!values || values.length === 0) continue;
+      if (!values.some(matches)) return null;
+      matchedOn.push(criterion);
+    }
+
+    // A rule without criteria never matches
+    return matchedOn.length > 0 ? matchedOn : null;
+  }
+
+  /**
+   * Area code of a North American (+1) number
+   */
+  getAreaCode(number?: string): string | null {
+    const digits = (number || '').replace(/\D/g, '');
+    if (digits.length === 11 && digits.startsWith('1')) return digits.slice(1, 4);
+    if (digits.length === 10 && (number || '').trim()[0] !== '+') return digits.slice(0, 3);
+    return null;
+  }
+
+  /**
+   * Validate the rules (destinations are checked by CallFlowService).
+   * Returns a list of problems (empty when valid).
+   */
+  validateRules(config: GeoRoutingConfig): string[] {
+    if (!Array.isArray(config.rules)) {
+      return ['geo_routing.rules must be a list'];
+    }
+    if (config.rules.length > MAX_RULES) {
+      return [`geo_routing supports at most ${MAX_RULES} rules`];
+    }
+
+    const errors: string[] = [];
+    const seenIds = new Set<string>();
+
+    config.rules.forEach((rule, index) => {
+      const name = rule.id ? `Geo routing rule "${rule.id}"` : `Geo routing rule ${index + 1}`;
+
+      if (!rule.id || !/^[\w-]{1,64}$/.test(rule.id)) {
+        errors.push(`${name} needs an id of up to 64 letters, digits, - or _`);
+      } else if (rule.id === 'default' || seenIds.has(rule.id)) {
+        errors.push(`${name} id must be unique and not "default"`);
+      }
+      seenIds.add(rule.id);
+
+      const criteria = [rule.states, rule.countries, rule.area_codes, rule.zip_prefixes];
+      if (criteria.some(values => values !== undefined && !Array.isArray(values))) {
+        errors.push(`${name} criteria must be lists`);
+        return;
+      }
+      if (criteria.every(values => !values || values.length === 0)) {
+        errors.push(`${name} needs at least one of states, countries, area_codes or zip_prefixes`);
+      }
+      if (rule.countries?.some(country => !/^[A-Za-z]{2}$/.test(country))) {
+        errors.push(`${name} countries must be 2-letter codes`);
+      }
+      if (rule.area_codes?.some(areaCode => !/^\d{3}$/.test(areaCode))) {
+        errors.push(`${name} area_codes must be 3 digits`);
+      }
+      if (rule.zip_prefixes?.some(prefix => !/^[A-Za-z0-9 ]{1,10}$/.test(prefix))) {
+        errors.push(`${name} has an invalid ZIP prefix`);
+      }
+    });
+
+    return errors;
+  }
+
+  private normalize(value?: string): string {
+    return (value || '').replace(/\s/g, '').toUpperCase();
+  }
+}
+
+export default new GeoRoutingService();
@@ -0,0 +1,81 @@
+// backend/src/services/IvrService.ts
+import VoiceResponse from 'twilio/lib/twiml/VoiceResponse';
+import { TrackingNumber } from '../models';
+import { IvrConfig, IvrNode, IvrOption } from '../types/interfaces';
+import CallFlowService from './CallFlowService';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_INVALID_MESSAGE = 'Sorry, that is not a valid option.';
+
+export class IvrService {
+  /**
+   * Find a node in the tracking number's IVR tree
+   */
+  findNode(ivr: IvrConfig | undefined, nodeId: string): IvrNode | undefined {
+    return ivr?.nodes?.find(node => node.id === nodeId);
+  }
+
+  getMaxAttempts(node: IvrNode): number {
+    return node.max_attempts || DEFAULT_MAX_ATTEMPTS;
+  }
+
+  /**
+   * Render a menu node: greeting inside a <Gather>, then redirect back with
+   * the next attempt number if the caller didn't enter anything.
+   */
+  appendNode(twiml: VoiceResponse, trackingNumber: TrackingNumber, node: IvrNode, attempt: number = 1): void {
+    const inputs = node.input && node.input.length ? node.input : ['dtmf'];
+    const hints = node.options
+      .flatMap(option => option.phrases || [])
+      .join(', ');
+
+    const gather = twiml.gather({
+      input: inputs as VoiceResponse.GatherAttributes['input'],
+      numDigits: node.num_digits || this.getDefaultNumDigits(node),
+      timeout: node.timeout_seconds || 5,
+      action: CallFlowService.getIvrUrl(trackingNumber.id, node.id, attempt, true),
+      method: 'POST',
+      actionOnEmptyResult: true,
+      ...(hints ? { hints } : {})
+    });
+
+    if (node.greeting_url) {
+      gather.play(node.greeting_url);
+    } else if (node.greeting) {
+      gather.say({ voice: 'alice' }, node.greeting);
+    }
+  }
+
+  /**
+   * Say the invalid-option message and replay the node
+   */
+  appendInvalidInput(twiml: VoiceResponse, trackingNumber: TrackingNumber, node: IvrNode, attempt: number): void {
+    twiml.say({ voice: 'alice' }, node.invalid_message || DEFAULT_INVALID_MESSAGE);
+    this.appendNode(twiml, trackingNumber, node, attempt);
+  }
+
+  /**
+   * Match caller input against a node's options. DTMF digits win over speech.
+   */
+  matchOption(node: IvrNode, digits?: string, speech?: string): IvrOption | undefined {
+    if (digits) {
+      return node.options.find(option => option.digits === digits);
+    }
+
+    if (speech) {
+      const normalized = speech.toLowerCase().replace(/[^\w\s]/g, '').trim();
+      return node.options.find(option =>
+        (option.phrases || []).some(phrase => normalized.includes(phrase.toLowerCase().trim()))
+      );
+    }
+
+    return undefined;
+  }
+
+  // Longest digit sequence among the options so multi-digit menus don't cut off early
+  private getDefaultNumDigits(node: IvrNode): number {
+    return node.options.reduce((max, option) => Math.max(max, option.digits?.length || 0), 1);
+  }
+}
+
+export default new IvrService();
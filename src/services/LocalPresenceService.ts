@@ -0,0 +1,125 @@
+// backend/src/services/LocalPresenceService.ts
+import { Op, WhereOptions } from 'sequelize';
+import { Call, TextConversation, TrackingNumber, UserCompany } from '../models';
+import { CallDirection, TrackingNumberStatus } from '../types/enums';
+import { CallerIdReason } from '../types/interfaces';
+import { getAreaCodeRegion, getRegionCountry } from '../utils/areaCodes';
+import GeoRoutingService from './GeoRoutingService';
+
+export type OutboundChannel = 'voice' | 'sms';
+
+export interface CallerIdSelection {
+  tracking_number: TrackingNumber;
+  reason: CallerIdReason;
+}
+
+/**
+ * Picks the company number an outbound call or text goes out from: the user's
+ * assigned number, else the number the customer already knows, else the number
+ * closest to them (same area code, then state / province, then country).
+ */
+export class LocalPresenceService {
+  async selectNumber(
+    companyId: number,
+    destination: string,
+    options: { userId?: number; channel?: OutboundChannel } = {}
+  ): Promise<CallerIdSelection | null> {
+    const candidates = await this.getCandidates(companyId, options.channel || 'voice');
+    if (candidates.length === 0) return null;
+
+    const pick = (id: number | undefined | null) => candidates.find(number => number.id === id);
+
+    if (options.userId) {
+      const membership = await UserCompany.findOne({
+        where: { user_id: options.userId, company_id: companyId, is_active: true },
+        attributes: ['outbound_tracking_number_id']
+      });
+      const assigned = pick(membership?.outbound_tracking_number_id);
+      if (assigned) return { tracking_number: assigned, reason: 'user_override' };
+    }
+
+    const previous = await this.findPreviousNumberIds(companyId, destination);
+    const known = previous.map(pick).find(Boolean);
+    if (known) return { tracking_number: known, reason: 'previous_contact' };
+
+    const areaCode = GeoRoutingService.getAreaCode(destination);
+    const region = getAreaCodeRegion(areaCode);
+    const country = region ? getRegionCountry(region) : null;
+
+    const byAreaCode = areaCode && candidates.find(number => GeoRoutingService.getAreaCode(number.phone_number) === areaCode);
+    if (byAreaCode) return { tracking_number: byAreaCode, reason: 'area_code' };
+
+    const byRegion = region && candidates.find(number => this.getRegion(number) === region);
+    if (byRegion) return { tracking_number: byRegion, reason: 'region' };
+
+    const byCountry = country && candidates.find(number => this.getCountry(number) === country);
+    if (byCountry) return { tracking_number: byCountry, reason: 'country' };
+
+    return { tracking_number: candidates[0], reason: 'default' };
+  }
+
+  /**
+   * Numbers that can place the call or send the text, company default first.
+   * DNI pool numbers are left out so callbacks are not credited to a website visitor.
+   */
+  private async getCandidates(companyId: number, channel: OutboundChannel): Promise<TrackingNumber[]> {
+    return await TrackingNumber.findAll({
+      where: {
+        company_id: companyId,
+        status: TrackingNumberStatus.ACTIVE,
+        is_pool_number: false,
+        ...(channel === 'sms' && { sms_enabled: true })
+      },
+      order: [['is_default', 'DESC'], ['id', 'ASC']]
+    });
+  }
+
+  /**
+   * Tracking numbers the customer has been in touch through, most recent first
+   */
+  private async findPreviousNumberIds(companyId: number, destination: string): Promise<number[]> {
+    const [call, conversation] = await Promise.all([
+      Call.findOne({
+        where: {
+          company_id: companyId,
+          tracking_number_id: { [Op.ne]: null },
+          [Op.or]: [
+            { direction: CallDirection.INBOUND, caller_number: destination },
+            { direction: CallDirection.OUTBOUND, destination_number: destination }
+          ]
+        } as WhereOptions<Call>,
+        attributes: ['tracking_number_id', 'start_time'],
+        order: [['start_time', 'DESC']]
+      }),
+      TextConversation.findOne({
+        where: {
+          company_id: companyId,
+          customer_number: destination,
+          tracking_number_id: { [Op.ne]: null }
+        } as WhereOptions<TextConversation>,
+        attributes: ['tracking_number_id', 'last_message_at'],
+        order: [['last_message_at', 'DESC']]
+      })
+    ]);
+
+    const contacts = [
+      call && { id: call.tracking_number_id!, at: call.start_time },
+      conversation && { id: conversation.tracking_number_id!, at: conversation.last_message_at }
+    ].filter((contact): contact is { id: number; at: Date } => !!contact);
+
+    return contacts
+      .sort((a, b) => new Date(b.at || 0).getTime() - new Date(a.at || 0).getTime())
+      .map(contact => contact.id);
+  }
+
+  private getRegion(trackingNumber: TrackingNumber): string | null {
+    return getAreaCodeRegion(GeoRoutingService.getAreaCode(trackingNumber.phone_number));
+  }
+
+  private getCountry(trackingNumber: TrackingNumber): string {
+    const region = this.getRegion(trackingNumber);
+    return region ? getRegionCountry(region) : trackingNumber.country_code;
+  }
+}
+
+export default new LocalPresenceService();
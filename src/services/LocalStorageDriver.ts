@@ -0,0 +1,131 @@
+// backend/src/services/LocalStorageDriver.ts
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ByteRange, ObjectInfo, PutObjectOptions, SignedUrlOptions, StorageDriver, StoredObject } from './StorageDriver';
+
+/**
+ * Files on the server's disk, served from /storage. Every link is HMAC-signed:
+ * private files get links that expire, public ones (greetings) links that don't.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+
+  constructor(
+    private root: string,
+    private signingSecret: string
+  ) {}
+
+  async putObject(key: string, body: Buffer | Readable, options: PutObjectOptions): Promise<StoredObject> {
+    const filePath = this.resolvePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write next to the target and rename, so readers never see a partial file
+    const tempPath = `${filePath}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+    try {
+      if (Buffer.isBuffer(body)) {
+        await fs.promises.writeFile(tempPath, body);
+      } else {
+        await pipeline(body, fs.createWriteStream(tempPath));
+      }
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    return {
+      key,
+      url: options.acl === 'public-read' ? this.getPublicUrl(key) : this.getBaseUrl(key)
+    };
+  }
+
+  async headObject(key: string): Promise<ObjectInfo> {
+    const stats = await fs.promises.stat(this.resolvePath(key));
+
+    return {
+      size: stats.size,
+      etag: `"${stats.size.toString(16)}-${stats.mtime.getTime().toString(16)}"`,
+      lastModified: stats.mtime
+    };
+  }
+
+  getObjectStream(key: string, range?: ByteRange): Readable {
+    return fs.createReadStream(this.resolvePath(key), range && { start: range.start, end: range.end });
+  }
+
+  async copyObject(fromKey: string, toKey: string): Promise<StoredObject> {
+    const target = this.resolvePath(toKey);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.copyFile(this.resolvePath(fromKey), target);
+
+    return { key: toKey, url: this.getBaseUrl(toKey) };
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    // Like S3, deleting a missing file is not an error
+    await fs.promises.rm(this.resolvePath(key), { force: true });
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + (options.expiresIn || 3600);
+    const params = new URLSearchParams({ expires: String(expires) });
+    if (options.downloadFilename) params.set('download', options.downloadFilename);
+    params.set('signature', this.sign(key, String(expires), options.downloadFilename));
+
+    return `${this.getBaseUrl(key)}?${params.toString()}`;
+  }
+
+  async checkConnection(): Promise<boolean> {
+    try {
+      await fs.promises.mkdir(this.root, { recursive: true });
+      await fs.promises.access(this.root, fs.constants.W_OK);
+      console.log('✅ Local storage is writable:', this.root);
+      return true;
+    } catch (error: any) {
+      console.error('❌ Local storage is not writable:', this.root, error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Check a /storage link. Links without expires are public links.
+   */
+  verifySignature(key: string, signature?: string, expires?: string, download?: string): boolean {
+    if (!signature) return false;
+    if (expires && (!/^\d+$/.test(expires) || parseInt(expires) * 1000 < Date.now())) return false;
+
+    const expected = Buffer.from(this.sign(key, expires, download));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Absolute path of a key. Keys cannot point outside the storage directory.
+   */
+  resolvePath(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return filePath;
+  }
+
+  private getPublicUrl(key: string): string {
+    return `${this.getBaseUrl(key)}?signature=${this.sign(key)}`;
+  }
+
+  private getBaseUrl(key: string): string {
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return `${process.env.BASE_URL}/storage/${encodedKey}`;
+  }
+
+  private sign(key: string, expires: string = '', download: string = ''): string {
+    return crypto
+      .createHmac('sha256', this.signingSecret)
+      .update(`${key}\n${expires}\n${download}`)
+      .digest('hex');
+  }
+}
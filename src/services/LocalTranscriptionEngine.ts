@@ -0,0 +1,90 @@
+// backend/src/services/LocalTranscriptionEngine.ts
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { EngineSegment, TranscriptionEngine, TranscriptionInput } from './TranscriptionEngine';
+
+const execFileAsync = promisify(execFile);
+
+const MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+const RUN_TIMEOUT_MS = 30 * 60 * 1000;
+
+interface WhisperOutput {
+  transcription?: {
+    offsets: { from: number; to: number }; // milliseconds
+    text: string;
+  }[];
+}
+
+/**
+ * Runs whisper.cpp on this machine's CPU. ffmpeg splits the recording into one
+ * 16 kHz mono file per channel, which is what whisper.cpp expects.
+ */
+export class LocalTranscriptionEngine implements TranscriptionEngine {
+  readonly name = 'local' as const;
+
+  private whisperBin = process.env.TRANSCRIPTION_WHISPER_BIN || 'whisper-cli';
+  private whisperModel = process.env.TRANSCRIPTION_WHISPER_MODEL || 'models/ggml-base.en.bin';
+  private ffmpegBin = process.env.TRANSCRIPTION_FFMPEG_BIN || 'ffmpeg';
+  private threads = process.env.TRANSCRIPTION_THREADS || String(Math.max(os.cpus().length - 1, 1));
+
+  async transcribe(input: TranscriptionInput): Promise<EngineSegment[]> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'transcription-'));
+
+    try {
+      const source = path.join(workDir, `recording.${input.format}`);
+      await fs.writeFile(source, input.audio);
+
+      const segments: EngineSegment[] = [];
+      for (let channel = 0; channel < Math.max(input.channels, 1); channel++) {
+        segments.push(...await this.transcribeChannel(workDir, source, channel, input.language));
+      }
+
+      return segments;
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  private async transcribeChannel(
+    workDir: string,
+    source: string,
+    channel: number,
+    language?: string
+  ): Promise<EngineSegment[]> {
+    const wavFile = path.join(workDir, `channel-${channel}.wav`);
+    const outputBase = path.join(workDir, `channel-${channel}`);
+
+    await execFileAsync(this.ffmpegBin, [
+      '-y', '-loglevel', 'error',
+      '-i', source,
+      '-af', `pan=mono|c0=c${channel}`,
+      '-ar', '16000',
+      wavFile
+    ], { timeout: RUN_TIMEOUT_MS });
+
+    await execFileAsync(this.whisperBin, [
+      '-m', this.whisperModel,
+      '-f', wavFile,
+      '-t', this.threads,
+      '-l', language || 'auto',
+      '-oj',
+      '-of', outputBase
+    ], { timeout: RUN_TIMEOUT_MS, maxBuffer: MAX_OUTPUT_BYTES });
+
+    const output: WhisperOutput = JSON.parse(await fs.readFile(`${outputBase}.json`, 'utf8'));
+
+    return (output.transcription || [])
+      .map(item => ({
+        channel,
+        start: item.offsets.from / 1000,
+        end: item.offsets.to / 1000,
+        text: item.text.trim()
+      }))
+      .filter(segment => segment.text && !/^\[.*\]$/.test(segment.text)); // drop [BLANK_AUDIO] and similar
+  }
+}
+
+export default new LocalTranscriptionEngine();
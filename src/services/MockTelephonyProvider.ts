@@ -0,0 +1,567 @@
+// backend/src/services/MockTelephonyProvider.ts
+import crypto from 'crypto';
+import twilio from 'twilio';
+import VoiceResponse from 'twilio/lib/twiml/VoiceResponse';
+import {
+  AvailableNumber,
+  ConferenceParticipantOptions,
+  ConferenceParticipantUpdate,
+  NumberConfiguration,
+  OutboundCallOptions,
+  ProvisionedNumber,
+  TelephonyProvider
+} from './TelephonyProvider';
+
+const ACCOUNT_SID = 'ACmock00000000000000000000000000';
+const ENDED_STATUSES = ['completed', 'busy', 'no-answer', 'failed', 'canceled'];
+const MAX_RECORDING_SECONDS = 60;
+
+export interface MockDocument {
+  url: string;
+  params: Record<string, string>;
+  status: number;
+  body: string;
+  at: Date;
+}
+
+export interface MockCall {
+  sid: string;
+  parent_sid?: string;
+  from: string;
+  to: string;
+  direction: 'inbound' | 'outbound-api' | 'outbound-dial';
+  status: string;
+  status_callback?: string;
+  conference_sid?: string;
+  participant?: ConferenceParticipantUpdate;
+  queue_sid?: string;
+  caller?: Record<string, string>;
+  documents: MockDocument[];
+  created_at: Date;
+}
+
+export interface MockMessage {
+  sid: string;
+  from: string;
+  to: string;
+  body: string;
+  created_at: Date;
+}
+
+export interface MockNumber extends ProvisionedNumber {
+  voiceUrl?: string;
+  smsUrl?: string;
+}
+
+export interface MockRecording {
+  sid: string;
+  call_sid: string;
+  duration: number;
+  url: string;
+}
+
+export interface SimulatedInboundCall {
+  from: string;
+  to: string;
+  caller_name?: string;
+  caller_city?: string;
+  caller_state?: string;
+  caller_zip?: string;
+  caller_country?: string;
+}
+
+/**
+ * In-memory carrier for local development and end-to-end tests. Nothing leaves the
+ * machine: simulated calls post Twilio-style webhooks to this server and record the
+ * TwiML it answers with.
+ */
+export class MockTelephonyProvider implements TelephonyProvider {
+  public readonly name = 'mock' as const;
+
+  private numbers = new Map<string, MockNumber>();
+  private calls = new Map<string, MockCall>();
+  private messages: MockMessage[] = [];
+  private conferences = new Map<string, { sid: string; name: string; participants: Set<string> }>();
+  private queues = new Map<string, { sid: string; name: string; members: string[] }>();
+  private recordings = new Map<string, MockRecording>();
+
+  async searchAvailableNumbers(areaCode?: string): Promise<AvailableNumber[]> {
+    const prefix = /^\d{3}$/.test(areaCode || '') ? areaCode : '555';
+    const taken = new Set([...this.numbers.values()].map(number => number.phoneNumber));
+
+    return Array.from({ length: 10 }, (_, index) => `+1${prefix}55501${String(index).padStart(2, '0')}`)
+      .filter(phoneNumber => !taken.has(phoneNumber))
+      .map(phoneNumber => ({
+        phone_number: phoneNumber,
+        friendly_name: `(${prefix}) 555-01${phoneNumber.slice(-2)}`,
+        locality: 'Mockville',
+        region: 'ON',
+        country: 'CA',
+        capabilities: { voice: true, sms: true, mms: false }
+      }));
+  }
+
+  async provisionNumber(phoneNumber: string, friendlyName?: string): Promise<ProvisionedNumber> {
+    if (this.findNumber(phoneNumber)) {
+      throw new Error('Phone number is already in use on your account');
+    }
+
+    const number: MockNumber = {
+      phoneNumber,
+      sid: this.createSid('PN'),
+      friendlyName: friendlyName || `Tracking - ${new Date().toISOString()}`,
+      capabilities: { voice: true, sms: true, mms: false }
+    };
+    this.numbers.set(number.sid, number);
+
+    return number;
+  }
+
+  async updateNumberConfiguration(phoneNumber: string, config: NumberConfiguration): Promise<void> {
+    const number = this.findNumber(phoneNumber);
+    if (!number) {
+      throw new Error('Number not found in mock account');
+    }
+
+    if (config.voiceUrl) number.voiceUrl = config.voiceUrl;
+    if (config.smsUrl) number.smsUrl = config.smsUrl;
+    if (config.friendlyName) number.friendlyName = config.friendlyName;
+  }
+
+  async releaseNumber(sid: string): Promise<void> {
+    if (!this.numbers.delete(sid)) {
+      throw new Error('Phone number not found in your mock account');
+    }
+  }
+
+  async sendSMS(from: string, to: string, body: string): Promise<string> {
+    const message = { sid: this.createSid('SM'), from, to, body, created_at: new Date() };
+    this.messages.push(message);
+    return message.sid;
+  }
+
+  /**
+   * The call connects straight away and fetches its TwiML in the background, like Twilio
+   */
+  async createCall(options: OutboundCallOptions): Promise<string> {
+    const call = this.addCall({
+      from: options.callerId || options.from,
+      to: options.to,
+      direction: 'outbound-api',
+      status: 'in-progress',
+      status_callback: options.statusCallback
+    });
+
+    this.request(call, options.url)
+      .catch(error => console.error(`Mock call ${call.sid} failed to fetch TwiML:`, error));
+
+    return call.sid;
+  }
+
+  async redirectCall(callSid: string, twiml: string): Promise<void> {
+    const call = this.getLiveCall(callSid);
+    this.applyDocument(call, { url: 'redirect', params: {}, status: 200, body: twiml, at: new Date() });
+
+    // A dialed leg leaving its <Dial> ends it, so the caller's Dial action runs (as on Twilio)
+    const parent = call.parent_sid ? this.calls.get(call.parent_sid) : undefined;
+    const action = parent && this.findAttribute(parent, 'Dial', 'action');
+    if (parent && action) {
+      this.request(parent, action, { DialCallStatus: 'completed', DialCallSid: call.sid, DialCallDuration: '0' })
+        .catch(error => console.error(`Mock dial action for ${parent.sid} failed:`, error));
+    }
+  }
+
+  async endCall(callSid: string): Promise<void> {
+    const call = this.calls.get(callSid);
+    if (!call || ENDED_STATUSES.includes(call.status)) {
+      console.log('Call already ended or not found:', callSid);
+      return;
+    }
+
+    this.finish(call, 'completed');
+    this.postStatus(call)
+      .catch(error => console.error(`Mock status callback for ${call.sid} failed:`, error));
+  }
+
+  async getActiveChildCallSid(parentCallSid: string): Promise<string | null> {
+    const child = [...this.calls.values()].find(call =>
+      call.parent_sid === parentCallSid && call.status === 'in-progress'
+    );
+    return child?.sid || null;
+  }
+
+  async findConferenceSid(friendlyName: string): Promise<string | null> {
+    const conference = [...this.conferences.values()].find(conf =>
+      conf.name === friendlyName && conf.participants.size > 0
+    );
+    return conference?.sid || null;
+  }
+
+  async getConferenceParticipantSids(conferenceSid: string): Promise<string[]> {
+    return [...(this.conferences.get(conferenceSid)?.participants || [])];
+  }
+
+  async addConferenceParticipant(conferenceSid: string, options: ConferenceParticipantOptions): Promise<string> {
+    const conference = this.conferences.get(conferenceSid);
+    if (!conference) {
+      throw new Error(`Conference ${conferenceSid} not found`);
+    }
+
+    const call = this.addCall({ from: options.from, to: options.to, direction: 'outbound-api', status: 'in-progress' });
+    call.conference_sid = conferenceSid;
+    call.participant = { muted: options.muted, coaching: options.coaching, callSidToCoach: options.callSidToCoach };
+    conference.participants.add(call.sid);
+
+    return call.sid;
+  }
+
+  async updateConferenceParticipant(conferenceSid: string, callSid: string, options: ConferenceParticipantUpdate): Promise<void> {
+    if (!this.conferences.get(conferenceSid)?.participants.has(callSid)) {
+      throw new Error(`Participant ${callSid} not found in conference ${conferenceSid}`);
+    }
+
+    const call = this.getLiveCall(callSid);
+    call.participant = { ...call.participant, ...options };
+  }
+
+  async removeConferenceParticipant(conferenceSid: string, callSid: string): Promise<void> {
+    const call = this.calls.get(callSid);
+    if (!call || !this.conferences.get(conferenceSid)?.participants.has(callSid)) {
+      console.log('Participant already left the conference:', callSid);
+      return;
+    }
+
+    this.finish(call, 'completed');
+  }
+
+  async findQueueSid(friendlyName: string): Promise<string | null> {
+    return [...this.queues.values()].find(queue => queue.name === friendlyName)?.sid || null;
+  }
+
+  async dequeueMember(queueSid: string, callSid: string, url: string): Promise<void> {
+    const queue = this.queues.get(queueSid);
+    if (!queue?.members.includes(callSid)) {
+      throw new Error(`Call ${callSid} is not waiting in queue ${queueSid}`);
+    }
+
+    queue.members = queue.members.filter(sid => sid !== callSid);
+    const call = this.getLiveCall(callSid);
+    call.queue_sid = undefined;
+
+    await this.request(call, url);
+  }
+
+  async deleteRecording(recordingSid: string): Promise<void> {
+    this.recordings.delete(recordingSid);
+  }
+
+  createResponse(): VoiceResponse {
+    return new twilio.twiml.VoiceResponse();
+  }
+
+  /**
+   * A caller dials one of our numbers
+   */
+  async simulateInboundCall(input: SimulatedInboundCall): Promise<MockCall> {
+    const caller: Record<string, string> = {};
+    if (input.caller_name) caller.CallerName = input.caller_name;
+    if (input.caller_city) caller.CallerCity = input.caller_city;
+    if (input.caller_state) caller.CallerState = input.caller_state;
+    if (input.caller_zip) caller.CallerZip = input.caller_zip;
+    if (input.caller_country) caller.CallerCountry = input.caller_country;
+
+    const call = this.addCall({ from: input.from, to: input.to, direction: 'inbound', status: 'ringing', caller });
+    const voiceUrl = this.findNumber(input.to)?.voiceUrl || '/api/sip/incoming';
+
+    const document = await this.request(call, voiceUrl);
+
+    // Any TwiML but <Reject> answers the call
+    if (document.status === 200 && !/<Reject\b/.test(document.body)) {
+      call.status = 'in-progress';
+    }
+
+    return call;
+  }
+
+  /**
+   * The caller presses keys or speaks at the <Gather> the call is waiting on
+   */
+  async simulateGather(callSid: string, input: { digits?: string; speech?: string }): Promise<MockDocument> {
+    const call = this.getLiveCall(callSid);
+    const action = this.findAttribute(call, 'Gather', 'action');
+    if (!action) {
+      throw new Error('The call is not waiting for input');
+    }
+
+    return await this.request(call, action, {
+      ...(input.digits !== undefined && { Digits: input.digits }),
+      ...(input.speech !== undefined && { SpeechResult: input.speech, Confidence: '0.9' })
+    });
+  }
+
+  /**
+   * End the <Dial> the call is running. Answered dials first run the dialed
+   * noun's url (whisper / answered hooks) on a new child leg.
+   */
+  async simulateDialResult(callSid: string, dialStatus: string, duration: number = 0): Promise<MockDocument> {
+    const call = this.getLiveCall(callSid);
+    const action = this.findAttribute(call, 'Dial', 'action');
+    if (!action) {
+      throw new Error('The call is not dialing');
+    }
+
+    const answered = dialStatus === 'completed' || dialStatus === 'answered';
+    const child = this.addCall({
+      from: call.from,
+      to: call.to,
+      direction: 'outbound-dial',
+      status: answered ? 'in-progress' : dialStatus,
+      parent_sid: call.sid
+    });
+
+    const nounUrl = this.findAttribute(call, 'Number|Sip|Client', 'url');
+    if (answered && nounUrl) {
+      await this.request(child, nounUrl, { ParentCallSid: call.sid });
+    }
+
+    if (dialStatus !== 'answered') {
+      this.finish(child, answered ? 'completed' : dialStatus);
+    }
+
+    return await this.request(call, action, {
+      DialCallStatus: dialStatus,
+      DialCallSid: child.sid,
+      DialCallDuration: String(duration)
+    });
+  }
+
+  /**
+   * Post a status callback (ringing, in-progress, completed, busy, no-answer...)
+   */
+  async simulateStatus(callSid: string, status: string, duration: number = 0): Promise<MockDocument> {
+    const call = this.calls.get(callSid);
+    if (!call) {
+      throw new Error(`Call ${callSid} not found`);
+    }
+
+    if (ENDED_STATUSES.includes(status)) {
+      this.finish(call, status);
+    } else {
+      call.status = status;
+    }
+
+    return await this.postStatus(call, duration);
+  }
+
+  /**
+   * A recording of the call finished. Its audio is served by the mock routes.
+   */
+  async simulateRecording(callSid: string, duration: number = 10): Promise<MockDocument> {
+    const call = this.calls.get(callSid);
+    if (!call) {
+      throw new Error(`Call ${callSid} not found`);
+    }
+
+    const sid = this.createSid('RE');
+    const recording: MockRecording = {
+      sid,
+      call_sid: call.sid,
+      duration,
+      url: `${process.env.BASE_URL}/api/mock-telephony/recordings/${sid}`
+    };
+    this.recordings.set(recording.sid, recording);
+
+    const callback = this.findAttribute(call, 'Dial', 'recordingStatusCallback', true) || '/api/sip/recording-status';
+
+    return await this.request(call, callback, {
+      RecordingSid: recording.sid,
+      RecordingUrl: recording.url,
+      RecordingStatus: 'completed',
+      RecordingDuration: String(duration),
+      RecordingChannels: '2',
+      RecordingSource: 'DialVerb'
+    });
+  }
+
+  /**
+   * Silent 8 kHz WAV standing in for the recording audio
+   */
+  getRecordingAudio(recordingSid: string): Buffer | null {
+    const recording = this.recordings.get(recordingSid);
+    if (!recording) return null;
+
+    const samples = Math.min(recording.duration, MAX_RECORDING_SECONDS) * 8000;
+    const header = Buffer.alloc(44);
+    header.write('RIFF', 0);
+    header.writeUInt32LE(36 + samples, 4);
+    header.write('WAVEfmt ', 8);
+    header.writeUInt32LE(16, 16);
+    header.writeUInt16LE(1, 20);    // PCM
+    header.writeUInt16LE(1, 22);    // mono
+    header.writeUInt32LE(8000, 24); // sample rate
+    header.writeUInt32LE(8000, 28); // byte rate
+    header.writeUInt16LE(1, 32);    // block align
+    header.writeUInt16LE(8, 34);    // bits per sample
+    header.write('data', 36);
+    header.writeUInt32LE(samples, 40);
+
+    return Buffer.concat([header, Buffer.alloc(samples, 0x80)]);
+  }
+
+  getCall(callSid: string): MockCall | undefined {
+    return this.calls.get(callSid);
+  }
+
+  listCalls(): MockCall[] {
+    return [...this.calls.values()];
+  }
+
+  listMessages(): MockMessage[] {
+    return [...this.messages];
+  }
+
+  listNumbers(): MockNumber[] {
+    return [...this.numbers.values()];
+  }
+
+  reset(): void {
+    this.numbers.clear();
+    this.calls.clear();
+    this.messages = [];
+    this.conferences.clear();
+    this.queues.clear();
+    this.recordings.clear();
+  }
+
+  /**
+   * Post a Twilio-style webhook for a call to this server and keep the TwiML it returns
+   */
+  private async request(call: MockCall, url: string, params: Record<string, string> = {}): Promise<MockDocument> {
+    const fields = { ...this.getCallParams(call), ...params };
+    const target = this.resolveUrl(url);
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+
+    // Sign like Twilio so webhook signature validation stays on against the mock
+    if (process.env.TWILIO_AUTH_TOKEN) {
+      headers['X-Twilio-Signature'] = twilio.getExpectedTwilioSignature(process.env.TWILIO_AUTH_TOKEN, target, fields);
+    }
+
+    const response = await fetch(target, {
+      method: 'POST',
+      headers,
+      body: new URLSearchParams(fields)
+    });
+
+    const document: MockDocument = { url, params, status: response.status, body: await response.text(), at: new Date() };
+    this.applyDocument(call, document);
+
+    return document;
+  }
+
+  private async postStatus(call: MockCall, duration: number = 0): Promise<MockDocument> {
+    return await this.request(call, call.status_callback || '/api/sip/status', { CallDuration: String(duration) });
+  }
+
+  /**
+   * Track what the TwiML puts the call into: a conference or a queue
+   */
+  private applyDocument(call: MockCall, document: MockDocument): void {
+    call.documents.push(document);
+
+    const conferenceName = document.body.match(/<Conference\b[^>]*>([^<]+)<\/Conference>/)?.[1];
+    if (conferenceName) {
+      const conference = [...this.conferences.values()].find(conf => conf.name === conferenceName)
+        || { sid: this.createSid('CF'), name: conferenceName, participants: new Set<string>() };
+      this.conferences.set(conference.sid, conference);
+      conference.participants.add(call.sid);
+      call.conference_sid = conference.sid;
+    }
+
+    const queueName = document.body.match(/<Enqueue\b[^>]*>([^<]+)<\/Enqueue>/)?.[1];
+    if (queueName) {
+      const queue = [...this.queues.values()].find(q => q.name === queueName)
+        || { sid: this.createSid('QU'), name: queueName, members: [] };
+      this.queues.set(queue.sid, queue);
+      if (!queue.members.includes(call.sid)) queue.members.push(call.sid);
+      call.queue_sid = queue.sid;
+    }
+  }
+
+  private finish(call: MockCall, status: string): void {
+    call.status = status;
+
+    if (call.conference_sid) {
+      this.conferences.get(call.conference_sid)?.participants.delete(call.sid);
+      call.conference_sid = undefined;
+    }
+    if (call.queue_sid) {
+      const queue = this.queues.get(call.queue_sid);
+      if (queue) queue.members = queue.members.filter(sid => sid !== call.sid);
+      call.queue_sid = undefined;
+    }
+  }
+
+  /**
+   * Attribute of a verb in the latest TwiML the call received (or in any earlier one)
+   */
+  private findAttribute(call: MockCall, verbs: string, attribute: string, searchHistory: boolean = false): string | null {
+    const pattern = new RegExp(`<(?:${verbs})\\b[^>]*\\s${attribute}="([^"]*)"`);
+    const documents = searchHistory ? [...call.documents].reverse() : call.documents.slice(-1);
+
+    for (const document of documents) {
+      const match = document.body.match(pattern);
+      if (match) return match[1].replace(/&amp;/g, '&');
+    }
+    return null;
+  }
+
+  private getCallParams(call: MockCall): Record<string, string> {
+    return {
+      AccountSid: ACCOUNT_SID,
+      ApiVersion: '2010-04-01',
+      CallSid: call.sid,
+      From: call.from,
+      To: call.to,
+      CallStatus: call.status,
+      Direction: call.direction,
+      ...(call.parent_sid && { ParentCallSid: call.parent_sid }),
+      ...call.caller
+    };
+  }
+
+  /**
+   * Callbacks built from BASE_URL (often a public tunnel) are delivered to the local server instead
+   */
+  private resolveUrl(url: string): string {
+    const localBase = process.env.MOCK_TELEPHONY_WEBHOOK_URL || `http://localhost:${process.env.PORT || 3001}`;
+    const baseUrl = process.env.BASE_URL;
+
+    if (baseUrl && url.startsWith(baseUrl)) return localBase + url.slice(baseUrl.length);
+    if (url.startsWith('/')) return localBase + url;
+    return url;
+  }
+
+  private addCall(call: Omit<MockCall, 'sid' | 'documents' | 'created_at'>): MockCall {
+    const created: MockCall = { ...call, sid: this.createSid('CA'), documents: [], created_at: new Date() };
+    this.calls.set(created.sid, created);
+    return created;
+  }
+
+  private getLiveCall(callSid: string): MockCall {
+    const call = this.calls.get(callSid);
+    if (!call || ENDED_STATUSES.includes(call.status)) {
+      throw new Error(`Call ${callSid} is not in progress`);
+    }
+    return call;
+  }
+
+  private findNumber(phoneNumber: string): MockNumber | undefined {
+    return [...this.numbers.values()].find(number => number.phoneNumber === phoneNumber);
+  }
+
+  private createSid(prefix: string): string {
+    return prefix + crypto.randomBytes(16).toString('hex');
+  }
+}
+
+export default new MockTelephonyProvider();
@@ -0,0 +1,393 @@
+// backend/src/services/QueueService.ts
+import { Op, WhereOptions } from 'sequelize';
+import { AgentSession, Call, CallQueue, QueueEntry } from '../models';
+import { AgentStatus, CallDisposition, CallStatus, QueueEntryStatus } from '../types/enums';
+import TelephonyService from './TelephonyService';
+import { TelephonyProvider } from './TelephonyProvider';
+
+const ETA_SAMPLE_MINUTES = 60;
+
+export interface QueueMetrics {
+  queue_id: number;
+  waiting_count: number;
+  longest_wait_seconds: number;
+  total_calls: number;
+  answered_calls: number;
+  abandoned_calls: number;
+  overflowed_calls: number;
+  voicemail_calls: number;
+  abandonment_rate: number;
+  service_level: number;
+  avg_wait_seconds: number;
+}
+
+export class QueueService {
+  getQueueName(queue: CallQueue): string {
+    return `queue-${queue.id}`;
+  }
+
+  /**
+   * URL for queue callbacks ('wait' while holding, 'leave' when the caller leaves the queue,
+   * 'option' for keys pressed while holding, 'connect' / 'connect-status' / 'answered' when an agent is rung)
+   */
+  getQueueUrl(
+    queueId: number,
+    action: 'wait' | 'leave' | 'option' | 'connect' | 'connect-status' | 'answered',
+    params: Record<string, string | number> = {}
+  ): string {
+    const query = Object.entries(params)
+      .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+      .join('&');
+    const url = `${process.env.BASE_URL}/api/sip/queue/${queueId}/${action}`;
+    return query ? `${url}?${query}` : url;
+  }
+
+  async isFull(queue: CallQueue): Promise<boolean> {
+    const waiting = await QueueEntry.count({
+      where: { queue_id: queue.id, status: [QueueEntryStatus.WAITING, QueueEntryStatus.CONNECTING] }
+    });
+    return waiting >= queue.max_size;
+  }
+
+  /**
+   * Start (or resume, after an agent missed it) the caller's stay in the queue
+   */
+  async enqueue(queue: CallQueue, call: Call): Promise<QueueEntry> {
+    const existing = await this.findOpenEntry(queue.id, call.id);
+    if (existing) {
+      await existing.update({ status: QueueEntryStatus.WAITING });
+      return existing;
+    }
+
+    const entry = await QueueEntry.create({
+      queue_id: queue.id,
+      company_id: queue.company_id,
+      call_id: call.id,
+      status: QueueEntryStatus.WAITING,
+      enqueued_at: new Date()
+    } as any);
+
+    await call.update({
+      metadata: { ...call.metadata, queue: { id: queue.id, entry_id: entry.id } }
+    });
+
+    return entry;
+  }
+
+  async findOpenEntry(queueId: number, callId: number): Promise<QueueEntry | null> {
+    return await QueueEntry.findOne({
+      where: {
+        queue_id: queueId,
+        call_id: callId,
+        status: [QueueEntryStatus.WAITING, QueueEntryStatus.CONNECTING]
+      },
+      order: [['enqueued_at', 'DESC']]
+    });
+  }
+
+  /**
+   * 1-based position among callers still waiting
+   */
+  async getPosition(entry: QueueEntry): Promise<number> {
+    const ahead = await QueueEntry.count({
+      where: {
+        queue_id: entry.queue_id,
+        status: [QueueEntryStatus.WAITING, QueueEntryStatus.CONNECTING],
+        enqueued_at: { [Op.lt]: entry.enqueued_at }
+      }
+    });
+    return ahead + 1;
+  }
+
+  /**
+   * Expected remaining wait, based on how long recently answered callers waited.
+   * Null when there is no recent history to go on.
+   */
+  async estimateWaitSeconds(entry: QueueEntry): Promise<number | null> {
+    const since = new Date(Date.now() - ETA_SAMPLE_MINUTES * 60 * 1000);
+    const average = await QueueEntry.aggregate('wait_seconds', 'avg', {
+      where: {
+        queue_id: entry.queue_id,
+        status: QueueEntryStatus.ANSWERED,
+        answered_at: { [Op.gte]: since }
+      }
+    }) as number | null;
+
+    if (!average) return null;
+
+    return Math.max(60, Math.round(Number(average) - this.getWaitSeconds(entry)));
+  }
+
+  getWaitSeconds(entry: QueueEntry, until: Date = new Date()): number {
+    return Math.max(0, Math.floor((until.getTime() - new Date(entry.enqueued_at).getTime()) / 1000));
+  }
+
+  /**
+   * An agent picked up: stop the queue clock and attribute the call
+   */
+  async markAnswered(entry: QueueEntry, call: Call): Promise<void> {
+    const now = new Date();
+    const waitSeconds = this.getWaitSeconds(entry, now);
+
+    await entry.update({
+      status: QueueEntryStatus.ANSWERED,
+      answered_at: now,
+      left_at: now,
+      wait_seconds: waitSeconds
+    });
+
+    await call.update({
+      queue_time: waitSeconds,
+      ...(entry.agent_id && { agent_id: entry.agent_id })
+    });
+  }
+
+  /**
+   * The caller left without reaching an agent. Hanging up in the queue counts as abandoned.
+   */
+  async markLeft(entry: QueueEntry, call: Call, status: QueueEntryStatus): Promise<void> {
+    const now = new Date();
+    const waitSeconds = this.getWaitSeconds(entry, now);
+
+    await entry.update({
+      status,
+      left_at: now,
+      wait_seconds: waitSeconds
+    });
+
+    await call.update({
+      queue_time: waitSeconds,
+      ...(status === QueueEntryStatus.ABANDONED && { disposition: CallDisposition.ABANDONED })
+    });
+  }
+
+  /**
+   * The caller hung up while still queued (or while an agent was being rung)
+   */
+  async abandonOpenEntries(call: Call): Promise<void> {
+    const entries = await QueueEntry.findAll({
+      where: { call_id: call.id, status: [QueueEntryStatus.WAITING, QueueEntryStatus.CONNECTING] }
+    });
+
+    for (const entry of entries) {
+      await this.markLeft(entry, call, QueueEntryStatus.ABANDONED);
+    }
+  }
+
+  /**
+   * An agent was rung but did not pick up: put the caller back in line and try someone else
+   */
+  async requeue(entry: QueueEntry): Promise<void> {
+    await entry.update({
+      status: QueueEntryStatus.WAITING,
+      agent_id: null,
+      skipped_agent_ids: entry.agent_id
+        ? [...(entry.skipped_agent_ids || []), entry.agent_id]
+        : entry.skipped_agent_ids
+    } as any);
+  }
+
+  /**
+   * Hand waiting callers to AVAILABLE agents, longest waiting caller first.
+   * Each caller is pulled out of the Twilio queue and sent to the 'connect' callback.
+   */
+  async dispatch(companyId: number): Promise<number> {
+    const queues = await CallQueue.findAll({
+      where: { company_id: companyId, is_active: true }
+    });
+    if (queues.length === 0) return 0;
+
+    const waiting = await QueueEntry.findAll({
+      where: { queue_id: queues.map(q => q.id), status: QueueEntryStatus.WAITING },
+      include: [{ model: Call, attributes: ['id', 'call_sid', 'tracking_number_id'] }],
+      order: [['enqueued_at', 'ASC']]
+    });
+    if (waiting.length === 0) return 0;
+
+    const available = await this.getIdleAgentIds(companyId);
+
+    let dispatched = 0;
+
+    for (const entry of waiting) {
+      const queue = queues.find(q => q.id === entry.queue_id)!;
+      const agentId = available.find(userId =>
+        (!queue.agent_ids?.length || queue.agent_ids.includes(userId)) &&
+        !(entry.skipped_agent_ids || []).includes(userId)
+      );
+      if (!agentId) continue;
+
+      // Another dispatch may have claimed this caller in the meantime
+      const [claimed] = await QueueEntry.update(
+        { status: QueueEntryStatus.CONNECTING, agent_id: agentId },
+        { where: { id: entry.id, status: QueueEntryStatus.WAITING } }
+      );
+      if (claimed === 0) continue;
+
+      try {
+        const provider = await TelephonyService.forCall(entry.call);
+        const queueSid = await this.getProviderQueueSid(queue, provider);
+        if (!queueSid) throw new Error(`Provider queue ${this.getQueueName(queue)} not found`);
+
+        await provider.dequeueMember(
+          queueSid,
+          entry.call.call_sid,
+          this.getQueueUrl(queue.id, 'connect', { entry_id: entry.id })
+        );
+
+        available.splice(available.indexOf(agentId), 1);
+        dispatched++;
+      } catch (error) {
+        console.error(`Failed to dispatch queue entry ${entry.id}:`, error);
+        await QueueEntry.update(
+          { status: QueueEntryStatus.WAITING, agent_id: null } as any,
+          { where: { id: entry.id } }
+        );
+      }
+    }
+
+    return dispatched;
+  }
+
+  async getMetrics(queue: CallQueue, dateFrom?: Date, dateTo?: Date): Promise<QueueMetrics> {
+    const now = new Date();
+
+    const open = await QueueEntry.findAll({
+      where: { queue_id: queue.id, status: [QueueEntryStatus.WAITING, QueueEntryStatus.CONNECTING] },
+      attributes: ['enqueued_at']
+    });
+
+    const where: any = {
+      queue_id: queue.id,
+      status: [QueueEntryStatus.ANSWERED, QueueEntryStatus.ABANDONED, QueueEntryStatus.OVERFLOWED, QueueEntryStatus.VOICEMAIL]
+    };
+    if (dateFrom || dateTo) {
+      where.enqueued_at = {
+        ...(dateFrom && { [Op.gte]: dateFrom }),
+        ...(dateTo && { [Op.lte]: dateTo })
+      };
+    }
+
+    const finished = await QueueEntry.findAll({
+      where,
+      attributes: ['status', 'wait_seconds']
+    });
+
+    const count = (status: QueueEntryStatus) => finished.filter(e => e.status === status).length;
+    const answered = count(QueueEntryStatus.ANSWERED);
+    const abandoned = count(QueueEntryStatus.ABANDONED);
+    const withinServiceLevel = finished.filter(e =>
+      e.status === QueueEntryStatus.ANSWERED && (e.wait_seconds || 0) <= queue.service_level_seconds
+    ).length;
+    const totalWait = finished.reduce((sum, e) => sum + (e.wait_seconds || 0), 0);
+    const ratio = (value: number) => finished.length > 0
+      ? Math.round((value / finished.length) * 10000) / 100
+      : 0;
+
+    return {
+      queue_id: queue.id,
+      waiting_count: open.length,
+      longest_wait_seconds: open.reduce((max, e) => Math.max(max, this.getWaitSeconds(e, now)), 0),
+      total_calls: finished.length,
+      answered_calls: answered,
+      abandoned_calls: abandoned,
+      overflowed_calls: count(QueueEntryStatus.OVERFLOWED),
+      voicemail_calls: count(QueueEntryStatus.VOICEMAIL),
+      abandonment_rate: ratio(abandoned),
+      service_level: ratio(withinServiceLevel),
+      avg_wait_seconds: finished.length > 0 ? Math.round(totalWait / finished.length) : 0
+    };
+  }
+
+  /**
+   * Validate queue payload. Returns a list of problems (empty when valid).
+   */
+  validateQueue(data: Partial<Pick<CallQueue,
+    'max_wait_seconds' | 'max_size' | 'announcement_interval_seconds' | 'service_level_seconds' | 'voicemail_digit' | 'agent_ids'
+  >>): string[] {
+    const errors: string[] = [];
+
+    if (data.max_wait_seconds !== undefined && (data.max_wait_seconds < 30 || data.max_wait_seconds > 3600)) {
+      errors.push('max_wait_seconds must be between 30 and 3600');
+    }
+
+    if (data.max_size !== undefined && (data.max_size < 1 || data.max_size > 1000)) {
+      errors.push('max_size must be between 1 and 1000');
+    }
+
+    if (data.announcement_interval_seconds !== undefined &&
+      (data.announcement_interval_seconds < 15 || data.announcement_interval_seconds > 600)) {
+      errors.push('announcement_interval_seconds must be between 15 and 600');
+    }
+
+    if (data.service_level_seconds !== undefined && data.service_level_seconds < 1) {
+      errors.push('service_level_seconds must be positive');
+    }
+
+    if (data.voicemail_digit && !/^[0-9*#]$/.test(data.voicemail_digit)) {
+      errors.push('voicemail_digit must be a single key (0-9, * or #)');
+    }
+
+    if (data.agent_ids !== undefined && (!Array.isArray(data.agent_ids) ||
+      data.agent_ids.some(id => !Number.isInteger(id)))) {
+      errors.push('agent_ids must be a list of user ids');
+    }
+
+    return errors;
+  }
+
+  /**
+   * AVAILABLE agents that are not being rung for a queue caller or talking on a call, longest idle first
+   */
+  async getIdleAgentIds(companyId: number): Promise<number[]> {
+    const [connecting, activeCalls] = await Promise.all([
+      QueueEntry.findAll({
+        where: { company_id: companyId, status: QueueEntryStatus.CONNECTING },
+        attributes: ['agent_id']
+      }),
+      Call.findAll({
+        where: {
+          company_id: companyId,
+          status: [CallStatus.RINGING, CallStatus.IN_PROGRESS],
+          agent_id: { [Op.ne]: null }
+        } as WhereOptions<Call>,
+        attributes: ['agent_id']
+      })
+    ]);
+    const busyAgentIds = new Set([...connecting, ...activeCalls].map(row => row.agent_id));
+
+    return (await this.getAvailableAgentIds(companyId))
+      .filter(userId => !busyAgentIds.has(userId));
+  }
+
+  // Longest idle first
+  private async getAvailableAgentIds(companyId: number): Promise<number[]> {
+    const sessions = await AgentSession.findAll({
+      where: {
+        company_id: companyId,
+        status: AgentStatus.AVAILABLE,
+        is_online: true,
+        current_call_id: { [Op.is]: null },
+        ended_at: { [Op.is]: null }
+      } as WhereOptions<AgentSession>,
+      attributes: ['user_id'],
+      order: [['last_activity', 'ASC']]
+    });
+
+    return sessions.map(session => session.user_id);
+  }
+
+  /**
+   * The carrier creates its queue the first time <Enqueue> uses the name. Twilio's sid is cached on the queue.
+   */
+  private async getProviderQueueSid(queue: CallQueue, provider: TelephonyProvider): Promise<string | null> {
+    if (provider.name === 'twilio' && queue.twilio_queue_sid) return queue.twilio_queue_sid;
+
+    const sid = await provider.findQueueSid(this.getQueueName(queue));
+    if (sid && provider.name === 'twilio') {
+      await queue.update({ twilio_queue_sid: sid });
+    }
+    return sid;
+  }
+}
+
+export default new QueueService();
@@ -0,0 +1,98 @@
+// backend/src/services/RecordingConsentService.ts
+import { Company, TrackingNumber } from '../models';
+import { RecordingConsentDecision, RecordingConsentRule } from '../types/interfaces';
+
+const CONSENT_ACTIONS = ['disclaimer', 'no_recording'];
+
+/**
+ * US states that require every party's consent to record. Used when a company
+ * has not configured its own rules, so callers there always hear the disclaimer.
+ */
+export const DEFAULT_CONSENT_RULES: RecordingConsentRule[] = [
+  'CA', 'CT', 'DE', 'FL', 'IL', 'MD', 'MA', 'MI', 'MT', 'NV', 'NH', 'PA', 'WA'
+].map(state => ({ country: 'US', state, action: 'disclaimer' }));
+
+export class RecordingConsentService {
+  /**
+   * Decide whether an inbound call is recorded and whether the caller hears a disclaimer.
+   * Recording switched off for the company or number wins, then the caller's jurisdiction,
+   * then the company-wide disclaimer setting.
+   */
+  resolve(
+    company: Company,
+    trackingNumber: TrackingNumber,
+    location: { state?: string; country?: string }
+  ): RecordingConsentDecision {
+    const caller = {
+      caller_state: location.state?.toUpperCase() || undefined,
+      caller_country: location.country?.toUpperCase() || undefined
+    };
+
+    if (!company.recording_enabled || trackingNumber.call_flow?.record_calls === false) {
+      return { path: 'not_recorded', record: false, disclaimer: false, reason: 'recording_disabled', ...caller };
+    }
+
+    const rule = this.findRule(this.getRules(company), caller.caller_country, caller.caller_state);
+    if (rule) {
+      return rule.action === 'no_recording'
+        ? { path: 'not_recorded', record: false, disclaimer: false, reason: 'jurisdiction_rule', rule, ...caller }
+        : { path: 'recorded_with_disclaimer', record: true, disclaimer: true, reason: 'jurisdiction_rule', rule, ...caller };
+    }
+
+    if (company.recording_disclaimer) {
+      return { path: 'recorded_with_disclaimer', record: true, disclaimer: true, reason: 'company_disclaimer', ...caller };
+    }
+
+    return { path: 'recorded', record: true, disclaimer: false, reason: 'default', ...caller };
+  }
+
+  getRules(company: Company): RecordingConsentRule[] {
+    return company.settings?.recording_consent_rules ?? DEFAULT_CONSENT_RULES;
+  }
+
+  /**
+   * State rules take precedence over country-wide rules
+   */
+  findRule(rules: RecordingConsentRule[], country?: string, state?: string): RecordingConsentRule | undefined {
+    if (!country) return undefined;
+
+    const inCountry = rules.filter(rule => rule.country.toUpperCase() === country);
+
+    return (state && inCountry.find(rule => rule.state?.toUpperCase() === state))
+      || inCountry.find(rule => !rule.state);
+  }
+
+  /**
+   * Validate consent rules. Returns a list of problems (empty when valid).
+   */
+  validateRules(rules: unknown): string[] {
+    if (!Array.isArray(rules)) {
+      return ['recording_consent_rules must be a list'];
+    }
+
+    const errors: string[] = [];
+    const seen = new Set<string>();
+
+    rules.forEach((rule: Partial<RecordingConsentRule>, index) => {
+      if (!rule.country || !/^[A-Za-z]{2}$/.test(rule.country)) {
+        errors.push(`Rule ${index + 1} needs a 2-letter country code`);
+      }
+      if (rule.state !== undefined && !/^[A-Za-z0-9]{1,3}$/.test(rule.state)) {
+        errors.push(`Rule ${index + 1} has an invalid state code`);
+      }
+      if (!rule.action || !CONSENT_ACTIONS.includes(rule.action)) {
+        errors.push(`Rule ${index + 1} action must be one of: ${CONSENT_ACTIONS.join(', ')}`);
+      }
+
+      const key = `${rule.country?.toUpperCase()}-${rule.state?.toUpperCase() || '*'}`;
+      if (seen.has(key)) {
+        errors.push(`Rule ${index + 1} duplicates another rule for ${key}`);
+      }
+      seen.add(key);
+    });
+
+    return errors;
+  }
+}
+
+export default new RecordingConsentService();
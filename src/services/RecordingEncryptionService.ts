@@ -0,0 +1,220 @@
+// backend/src/services/RecordingEncryptionService.ts
+import crypto, { Cipher, Decipher } from 'crypto';
+import { Op, WhereOptions } from 'sequelize';
+import { CallRecording, RecordingDataKey } from '../models';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+export const CIPHER_BLOCK_BYTES = 16;
+
+export interface RecordingEncryptionInfo {
+  algorithm: typeof ALGORITHM;
+  iv: string;       // base64
+  auth_tag: string; // base64
+}
+
+export interface RecordingEncryptor {
+  stream: Cipher;
+  dataKeyId: number;
+  /** IV and auth tag, available once the stream has ended */
+  getInfo(): RecordingEncryptionInfo;
+}
+
+/**
+ * Envelope encryption of call recordings. Each company has one data key that encrypts
+ * its audio (AES-256-GCM); the data key is stored wrapped by the master key from env,
+ * so rotating the master key only re-wraps data keys and never touches the audio.
+ *
+ * RECORDING_ENCRYPTION_KEY is the current master key (base64, 32 bytes) and
+ * RECORDING_ENCRYPTION_KEY_ID its id. Retired master keys stay readable through
+ * RECORDING_ENCRYPTION_PREVIOUS_KEYS ("id:base64key,id:base64key") until re-wrapped.
+ */
+export class RecordingEncryptionService {
+  // Unwrapped data keys by id. Re-wrapping does not change them, so entries never go stale.
+  private dataKeys = new Map<number, Buffer>();
+
+  isEnabled(): boolean {
+    return !!process.env.RECORDING_ENCRYPTION_KEY;
+  }
+
+  /**
+   * Cipher stream for a new recording of the company
+   */
+  async createEncryptor(companyId: number): Promise<RecordingEncryptor> {
+    const dataKey = await this.getCompanyDataKey(companyId);
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, dataKey.key, iv);
+
+    return {
+      stream: cipher,
+      dataKeyId: dataKey.id,
+      getInfo: () => ({
+        algorithm: ALGORITHM,
+        iv: iv.toString('base64'),
+        auth_tag: cipher.getAuthTag().toString('base64')
+      })
+    };
+  }
+
+  /**
+   * Decipher stream for an encrypted recording. The auth tag is checked when the stream ends.
+   */
+  async createDecryptor(recording: CallRecording): Promise<Decipher> {
+    const info = recording.metadata?.encryption as RecordingEncryptionInfo | undefined;
+    if (!recording.encrypted || !recording.encryption_key || !info) {
+      throw new Error(`Recording ${recording.id} is not encrypted`);
+    }
+
+    const key = await this.getDataKey(parseInt(recording.encryption_key));
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(info.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(info.auth_tag, 'base64'));
+
+    return decipher;
+  }
+
+  /**
+   * Decipher for the part of an encrypted recording that starts at a block boundary.
+   * GCM encrypts with AES-CTR, block n using counter IV | n + 2, so a range decrypts
+   * without reading the file from the start. The auth tag covers the whole file and
+   * is not checked here.
+   */
+  async createRangeDecryptor(recording: CallRecording, offset: number): Promise<Decipher> {
+    const info = recording.metadata?.encryption as RecordingEncryptionInfo | undefined;
+    if (!recording.encrypted || !recording.encryption_key || !info) {
+      throw new Error(`Recording ${recording.id} is not encrypted`);
+    }
+    if (offset % CIPHER_BLOCK_BYTES !== 0) {
+      throw new Error(`Range offset ${offset} is not aligned to the cipher block size`);
+    }
+
+    const key = await this.getDataKey(parseInt(recording.encryption_key));
+    const counter = Buffer.alloc(CIPHER_BLOCK_BYTES);
+    Buffer.from(info.iv, 'base64').copy(counter, 0, 0, IV_BYTES);
+    counter.writeUInt32BE(offset / CIPHER_BLOCK_BYTES + 2, IV_BYTES);
+
+    return crypto.createDecipheriv('aes-256-ctr', key, counter);
+  }
+
+  /**
+   * Re-wrap every data key that is not wrapped by the current master key
+   */
+  async rewrapDataKeys(): Promise<{ rewrapped: number; failed: number }> {
+    const currentId = this.getCurrentMasterKeyId();
+    const dataKeys = await RecordingDataKey.findAll({
+      where: { master_key_id: { [Op.ne]: currentId } } as WhereOptions<RecordingDataKey>,
+      order: [['id', 'ASC']]
+    });
+
+    let rewrapped = 0;
+    let failed = 0;
+
+    for (const dataKey of dataKeys) {
+      try {
+        const key = this.unwrap(dataKey.wrapped_key, dataKey.master_key_id);
+        await dataKey.update({
+          wrapped_key: this.wrap(key),
+          master_key_id: currentId,
+          rotated_at: new Date()
+        });
+        rewrapped++;
+      } catch (error) {
+        console.error(`Failed to re-wrap data key ${dataKey.id} (company ${dataKey.company_id}):`, error);
+        failed++;
+      }
+    }
+
+    return { rewrapped, failed };
+  }
+
+  private async getCompanyDataKey(companyId: number): Promise<{ id: number; key: Buffer }> {
+    const existing = await RecordingDataKey.findOne({ where: { company_id: companyId } });
+    if (existing) {
+      return { id: existing.id, key: await this.getDataKey(existing.id, existing) };
+    }
+
+    const key = crypto.randomBytes(KEY_BYTES);
+    const [dataKey, created] = await RecordingDataKey.findOrCreate({
+      where: { company_id: companyId },
+      defaults: {
+        company_id: companyId,
+        wrapped_key: this.wrap(key),
+        master_key_id: this.getCurrentMasterKeyId()
+      } as any
+    });
+
+    // Another upload may have created the key first: use that one
+    if (!created) {
+      return { id: dataKey.id, key: await this.getDataKey(dataKey.id, dataKey) };
+    }
+
+    this.dataKeys.set(dataKey.id, key);
+    return { id: dataKey.id, key };
+  }
+
+  private async getDataKey(id: number, record?: RecordingDataKey): Promise<Buffer> {
+    const cached = this.dataKeys.get(id);
+    if (cached) return cached;
+
+    const dataKey = record || await RecordingDataKey.findByPk(id);
+    if (!dataKey) {
+      throw new Error(`Recording data key ${id} not found`);
+    }
+
+    const key = this.unwrap(dataKey.wrapped_key, dataKey.master_key_id);
+    this.dataKeys.set(id, key);
+    return key;
+  }
+
+  /**
+   * Encrypt a data key with the current master key: base64(iv | auth tag | ciphertext)
+   */
+  private wrap(key: Buffer): string {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.getMasterKey(this.getCurrentMasterKeyId()), iv);
+    const encrypted = Buffer.concat([cipher.update(key), cipher.final()]);
+
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+  }
+
+  private unwrap(wrapped: string, masterKeyId: string): Buffer {
+    const data = Buffer.from(wrapped, 'base64');
+    const decipher = crypto.createDecipheriv(ALGORITHM, this.getMasterKey(masterKeyId), data.subarray(0, IV_BYTES));
+    decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+
+    return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+  }
+
+  private getCurrentMasterKeyId(): string {
+    if (!this.isEnabled()) {
+      throw new Error('RECORDING_ENCRYPTION_KEY is not configured');
+    }
+    return process.env.RECORDING_ENCRYPTION_KEY_ID || 'primary';
+  }
+
+  private getMasterKey(id: string): Buffer {
+    const keys = new Map<string, string>();
+
+    for (const entry of (process.env.RECORDING_ENCRYPTION_PREVIOUS_KEYS || '').split(',')) {
+      const separator = entry.indexOf(':');
+      if (separator > 0) keys.set(entry.slice(0, separator).trim(), entry.slice(separator + 1).trim());
+    }
+    if (process.env.RECORDING_ENCRYPTION_KEY) {
+      keys.set(process.env.RECORDING_ENCRYPTION_KEY_ID || 'primary', process.env.RECORDING_ENCRYPTION_KEY);
+    }
+
+    const encoded = keys.get(id);
+    if (!encoded) {
+      throw new Error(`Master key "${id}" is not configured`);
+    }
+
+    const key = Buffer.from(encoded, 'base64');
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`Master key "${id}" must be ${KEY_BYTES} bytes, base64 encoded`);
+    }
+    return key;
+  }
+}
+
+export default new RecordingEncryptionService();
@@ -0,0 +1,336 @@
+// backend/src/services/RecordingRetentionService.ts
+import { Op, WhereOptions } from 'sequelize';
+import { Call, CallRecording, Company, RecordingPurgeLog, TrackingNumber } from '../models';
+import { RecordingPurgeAction } from '../types/enums';
+import { RecordingRetentionPolicy } from '../types/interfaces';
+import { StorageService, STORAGE_DRIVERS } from './StorageService';
+import TelephonyService from './TelephonyService';
+
+const storage = new StorageService();
+
+const MAX_RETENTION_DAYS = 3650;
+const BATCH_SIZE = 200; // per policy and action on each run
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_RETRY_DELAY_HOURS = 168;
+
+export type RetentionPolicySource = 'company' | 'tracking_number';
+
+interface RetentionScope {
+  policy: RecordingRetentionPolicy;
+  source: RetentionPolicySource;
+  callWhere: WhereOptions<Call>;
+}
+
+export interface RetentionRunResult {
+  archived: number;
+  deleted: number;
+}
+
+/**
+ * Applies company and tracking number recording retention policies: recordings are moved
+ * to the archive prefix after archive_after_days and removed from storage after
+ * delete_after_days. Calls on legal hold are archived but never deleted.
+ */
+export class RecordingRetentionService {
+  async applyPolicies(): Promise<RetentionRunResult> {
+    const result: RetentionRunResult = { archived: 0, deleted: 0 };
+
+    for (const scope of await this.getScopes()) {
+      if (scope.policy.archive_after_days) {
+        result.archived += await this.archiveDue(scope);
+      }
+      if (scope.policy.delete_after_days) {
+        result.deleted += await this.deleteDue(scope);
+      }
+    }
+
+    return result;
+  }
+
+  async setLegalHold(call: Call, enabled: boolean, userId: number, reason?: string): Promise<Call> {
+    return await call.update({
+      legal_hold: enabled,
+      legal_hold_reason: enabled ? reason || null : null,
+      legal_hold_by: enabled ? userId : null,
+      legal_hold_at: enabled ? new Date() : null
+    } as any);
+  }
+
+  validatePolicy(policy: any): string[] {
+    if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+      return ['Retention policy must be an object'];
+    }
+
+    const errors: string[] = [];
+    for (const key of ['archive_after_days', 'delete_after_days']) {
+      const days = policy[key];
+      if (days !== undefined && days !== null && (!Number.isInteger(days) || days < 1 || days > MAX_RETENTION_DAYS)) {
+        errors.push(`${key} must be a whole number of days between 1 and ${MAX_RETENTION_DAYS}`);
+      }
+    }
+
+    if (errors.length === 0 && policy.archive_after_days && policy.delete_after_days
+      && policy.delete_after_days <= policy.archive_after_days) {
+      errors.push('delete_after_days must be greater than archive_after_days');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Policy as stored: both fields present, or null when it neither archives nor deletes
+   */
+  normalizePolicy(policy: RecordingRetentionPolicy | null | undefined): RecordingRetentionPolicy | null {
+    if (!this.hasPolicy(policy)) return null;
+
+    return {
+      archive_after_days: policy!.archive_after_days || null,
+      delete_after_days: policy!.delete_after_days || null
+    };
+  }
+
+  /**
+   * One scope per tracking number with its own policy, plus the company policy for all other calls
+   */
+  private async getScopes(): Promise<RetentionScope[]> {
+    const [companies, numbers] = await Promise.all([
+      Company.findAll({ attributes: ['id', 'settings'] }),
+      TrackingNumber.findAll({
+        where: { recording_retention: { [Op.ne]: null } } as WhereOptions<TrackingNumber>,
+        attributes: ['id', 'company_id', 'recording_retention']
+      })
+    ]);
+
+    const scopes: RetentionScope[] = [];
+
+    for (const company of companies) {
+      const overrides = numbers.filter(number =>
+        number.company_id === company.id && this.hasPolicy(number.recording_retention)
+      );
+
+      for (const number of overrides) {
+        scopes.push({
+          policy: number.recording_retention!,
+          source: 'tracking_number',
+          callWhere: { company_id: company.id, tracking_number_id: number.id }
+        });
+      }
+
+      const policy = company.settings?.recording_retention;
+      if (!this.hasPolicy(policy)) continue;
+
+      const overriddenIds = overrides.map(number => number.id);
+      scopes.push({
+        policy: policy!,
+        source: 'company',
+        callWhere: {
+          company_id: company.id,
+          ...(overriddenIds.length > 0 && {
+            [Op.or]: [
+              { tracking_number_id: null },
+              { tracking_number_id: { [Op.notIn]: overriddenIds } }
+            ]
+          })
+        } as WhereOptions<Call>
+      });
+    }
+
+    return scopes;
+  }
+
+  private async archiveDue(scope: RetentionScope): Promise<number> {
+    const days = scope.policy.archive_after_days!;
+    const recordings = await CallRecording.findAll({
+      where: {
+        archived: false,
+        status: 'completed',
+        storage_provider: { [Op.in]: STORAGE_DRIVERS },
+        storage_key: { [Op.ne]: null },
+        created_at: { [Op.lt]: new Date(Date.now() - days * DAY_MS) },
+        ...this.retryDueWhere()
+      } as WhereOptions<CallRecording>,
+      include: [{ model: Call, where: scope.callWhere }],
+      order: [['created_at', 'ASC']],
+      limit: BATCH_SIZE
+    });
+
+    let archived = 0;
+    for (const recording of recordings) {
+      try {
+        await this.archiveRecording(recording, scope);
+        archived++;
+      } catch (error) {
+        console.error('Failed to archive recording:', recording.id, error);
+        await this.markFailed(recording);
+      }
+    }
+
+    return archived;
+  }
+
+  private async deleteDue(scope: RetentionScope): Promise<number> {
+    const days = scope.policy.delete_after_days!;
+    const recordings = await CallRecording.findAll({
+      where: {
+        status: 'completed',
+        created_at: { [Op.lt]: new Date(Date.now() - days * DAY_MS) },
+        ...this.retryDueWhere()
+      } as WhereOptions<CallRecording>,
+      include: [{ model: Call, where: { ...scope.callWhere, legal_hold: false } as WhereOptions<Call> }],
+      order: [['created_at', 'ASC']],
+      limit: BATCH_SIZE
+    });
+
+    let deleted = 0;
+    for (const recording of recordings) {
+      try {
+        await this.deleteRecording(recording, scope);
+        deleted++;
+      } catch (error) {
+        console.error('Failed to delete recording:', recording.id, error);
+        await this.markFailed(recording);
+      }
+    }
+
+    return deleted;
+  }
+
+  private async archiveRecording(recording: CallRecording, scope: RetentionScope): Promise<void> {
+    const previousKey = recording.storage_key!;
+    const previousUrl = recording.file_url;
+    const { key, url } = await storage.moveObject(previousKey, this.getArchiveKey(previousKey), recording.storage_provider);
+    const deleteDays = scope.policy.delete_after_days;
+
+    await recording.update({
+      storage_key: key,
+      file_path: key,
+      file_url: url,
+      archived: true,
+      archived_at: new Date(),
+      retention_days: deleteDays || null,
+      delete_after: deleteDays ? new Date(recording.created_at.getTime() + deleteDays * DAY_MS) : null,
+      retention_failures: 0,
+      retention_retry_at: null
+    } as any);
+
+    await this.updateCallRecordingLinks(recording.call, previousKey, previousUrl, { key, url });
+
+    await this.log(recording, scope, RecordingPurgeAction.ARCHIVED, scope.policy.archive_after_days!, {
+      storage_key: previousKey,
+      archive_key: key
+    });
+  }
+
+  private async deleteRecording(recording: CallRecording, scope: RetentionScope): Promise<void> {
+    const previousKey = recording.storage_key;
+    const previousUrl = recording.file_url;
+
+    if (storage.isDriver(recording.storage_provider) && previousKey) {
+      await storage.deleteObject(previousKey, recording.storage_provider);
+    } else if (recording.recording_sid) {
+      const provider = await TelephonyService.forCall(recording.call);
+      await provider.deleteRecording(recording.recording_sid);
+    }
+
+    // The row stays (without its file) so call history and transcripts keep their recording reference
+    await recording.update({
+      status: 'deleted',
+      storage_key: null,
+      file_path: null,
+      file_url: null,
+      retention_failures: 0,
+      retention_retry_at: null,
+      metadata: { ...recording.metadata, deleted_at: new Date() }
+    } as any);
+
+    await this.updateCallRecordingLinks(recording.call, previousKey, previousUrl, null);
+
+    await this.log(recording, scope, RecordingPurgeAction.DELETED, scope.policy.delete_after_days!, {
+      storage_key: previousKey
+    });
+  }
+
+  /**
+   * Recordings that never failed, or whose backoff after a failure is over
+   */
+  private retryDueWhere(): WhereOptions<CallRecording> {
+    return {
+      [Op.or]: [
+        { retention_retry_at: null },
+        { retention_retry_at: { [Op.lte]: new Date() } }
+      ]
+    } as WhereOptions<CallRecording>;
+  }
+
+  /**
+   * Back off a recording that failed to archive or delete (1 hour, doubling up to a week),
+   * so a few broken files cannot fill every batch and stall the policy
+   */
+  private async markFailed(recording: CallRecording): Promise<void> {
+    const failures = (recording.retention_failures || 0) + 1;
+    const delayHours = Math.min(2 ** (failures - 1), MAX_RETRY_DELAY_HOURS);
+
+    try {
+      await recording.update({
+        retention_failures: failures,
+        retention_retry_at: new Date(Date.now() + delayHours * HOUR_MS)
+      });
+    } catch (error) {
+      console.error('Failed to record retention failure for recording:', recording.id, error);
+    }
+  }
+
+  /**
+   * Point the call's recording_key / recording_url at the new location (or clear them) when they reference this recording
+   */
+  private async updateCallRecordingLinks(
+    call: Call,
+    previousKey: string | undefined,
+    previousUrl: string | undefined,
+    location: { key: string; url: string } | null
+  ): Promise<void> {
+    const updates: Record<string, string | null> = {};
+
+    if (previousKey && call.recording_key === previousKey) updates.recording_key = location?.key || null;
+    if (previousUrl && call.recording_url === previousUrl) updates.recording_url = location?.url || null;
+
+    if (Object.keys(updates).length > 0) {
+      await call.update(updates);
+    }
+  }
+
+  private async log(
+    recording: CallRecording,
+    scope: RetentionScope,
+    action: RecordingPurgeAction,
+    policyDays: number,
+    keys: { storage_key?: string; archive_key?: string }
+  ): Promise<void> {
+    await RecordingPurgeLog.create({
+      company_id: recording.call.company_id,
+      call_id: recording.call_id,
+      recording_id: recording.id,
+      recording_sid: recording.recording_sid,
+      action,
+      ...keys,
+      storage_provider: recording.storage_provider,
+      policy_source: scope.source,
+      policy_days: policyDays,
+      recorded_at: recording.created_at
+    } as any);
+
+    console.log(`Recording ${recording.id} ${action} by ${scope.source} retention policy (${policyDays} days)`);
+  }
+
+  private getArchiveKey(key: string): string {
+    const prefix = (process.env.RECORDING_ARCHIVE_PREFIX || 'archive').replace(/\/+$/, '');
+    return `${prefix}/${key}`;
+  }
+
+  private hasPolicy(policy: RecordingRetentionPolicy | null | undefined): boolean {
+    return !!policy && (!!policy.archive_after_days || !!policy.delete_after_days);
+  }
+}
+
+export default new RecordingRetentionService();
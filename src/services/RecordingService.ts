@@ -1,9 +1,23 @@
+import axios from 'axios';
+import { ChildProcessByStdio, spawn } from 'child_process';
+import { once } from 'events';
+import { PassThrough, Readable, Transform, Writable, pipeline } from 'stream';
 import { Call, CallRecording, Company } from '../models';
 import {StorageService} from './StorageService';
-import TwilioService from './TwilioService';
+import { ByteRange, ObjectInfo, StorageDriverName } from './StorageDriver';
+import TelephonyService from './TelephonyService';
+import RecordingEncryptionService, { CIPHER_BLOCK_BYTES } from './RecordingEncryptionService';
+import TranscriptionService from './TranscriptionService';
 import { StoragePaths } from '../utils/storagePaths';
 
 const storage = new StorageService();
+
+// Preview transcodes running in this process
+let activePreviews = 0;
+
+/** Audio metadata; size is unknown when a legacy recording host omits Content-Length */
+export type RecordingAudioInfo = Omit<ObjectInfo, 'size'> & { size?: number };
+
 export class RecordingService {
   async processCallRecording(
     callId: number, 
@@ -30,11 +44,18 @@ export class RecordingService {
         return existingRecording;
       }
 
-      // Upload to Digital Ocean
-      const { url: doUrl, key: doKey } = await storage.uploadRecordingFromTwilio(
+      // Encrypted with the company data key when a master key is configured
+      const encryptor = RecordingEncryptionService.isEnabled()
+        ? await RecordingEncryptionService.createEncryptor(call.company_id)
+        : null;
+
+      // Upload to the configured storage driver
+      const { url: doUrl, key: doKey, provider } = await storage.uploadRecordingFromTwilio(
         `${recordingUrl}.mp3`,
         call.call_sid,
         call.company_id,
+        'recordings',
+        encryptor?.stream
       );
 
       // Create recording record
@@ -47,15 +68,18 @@ export class RecordingService {
         duration,
         format: 'mp3',
         channels: 2,
-        storage_provider: 'digitalocean',
-        storage_bucket: process.env.DO_SPACES_BUCKET,
+        storage_provider: provider,
+        storage_bucket: storage.getDriver(provider).bucket,
         storage_key: doKey,
+        encrypted: !!encryptor,
+        encryption_key: encryptor ? String(encryptor.dataKeyId) : undefined,
         status: 'completed',
         metadata: {
           twilio_url: recordingUrl,
           recording_sid: recordingSid,
           processed_at: new Date(),
-          company_id: call.company_id
+          company_id: call.company_id,
+          ...(encryptor && { encryption: encryptor.getInfo() })
         }
       } as any);
 
@@ -65,15 +89,24 @@ export class RecordingService {
         recording_duration: duration
       });
 
-      // Delete from Twilio after successful upload
+      // Delete from the provider after successful upload
       try {
-        await TwilioService.deleteRecording(recordingSid);
-        console.log('Deleted recording from Twilio:', recordingSid);
+        const provider = await TelephonyService.forCall(call);
+        await provider.deleteRecording(recordingSid);
+        console.log(`Deleted recording from ${provider.name}:`, recordingSid);
       } catch (error) {
-        console.error('Failed to delete Twilio recording:', recordingSid, error);
+        console.error('Failed to delete provider recording:', recordingSid, error);
         // Don't fail the process if deletion fails
       }
 
+      if (TranscriptionService.isEnabledFor(call, call.company)) {
+        try {
+          await TranscriptionService.enqueue(recording, call);
+        } catch (error) {
+          console.error('Failed to queue recording transcription:', recording.id, error);
+        }
+      }
+
       return recording;
     } catch (error) {
       console.error('Error processing recording:', error);
@@ -81,10 +114,160 @@ export class RecordingService {
     }
   }
 
+  /**
+   * Audio of the recording as a stream, decrypted when the file is encrypted at rest.
+   * With a range, only those bytes of the audio are read.
+   */
+  async getAudioStream(recording: CallRecording, range?: ByteRange): Promise<Readable> {
+    if (recording.encrypted) {
+      if (!recording.storage_key) {
+        throw new Error('Recording file not found');
+      }
+
+      if (range) {
+        return await this.getDecryptedRange(recording, range);
+      }
+
+      const decipher = await RecordingEncryptionService.createDecryptor(recording);
+      return pipeline(
+        storage.getObjectStream(recording.storage_key, recording.storage_provider),
+        decipher,
+        () => undefined
+      );
+    }
+
+    if (storage.isDriver(recording.storage_provider) && recording.storage_key) {
+      return storage.getObjectStream(recording.storage_key, recording.storage_provider, range);
+    }
+
+    const response = await axios.get<Readable>(await this.getRecordingUrl(recording), {
+      responseType: 'stream',
+      ...(range && { headers: { Range: `bytes=${range.start}-${range.end}` } })
+    });
+
+    if (range && response.status !== 206) {
+      response.data.destroy();
+      throw new Error(`Recording host ignored the range request for recording ${recording.id}`);
+    }
+    return response.data;
+  }
+
+  /**
+   * Size, ETag and modification date of the audio. Encrypted files have the same size as their audio.
+   */
+  async getAudioInfo(recording: CallRecording): Promise<RecordingAudioInfo> {
+    const contentType = this.getContentType(recording);
+
+    if (storage.isDriver(recording.storage_provider) && recording.storage_key) {
+      const info = await storage.headObject(recording.storage_key, recording.storage_provider);
+      return { ...info, contentType };
+    }
+
+    if (recording.encrypted) {
+      throw new Error('Recording file not found');
+    }
+
+    const response = await axios.head(await this.getRecordingUrl(recording));
+    const lastModified = response.headers['last-modified'];
+    const size = parseInt(response.headers['content-length']);
+
+    return {
+      size: Number.isNaN(size) ? undefined : size,
+      contentType,
+      etag: response.headers.etag,
+      lastModified: lastModified ? new Date(lastModified) : undefined
+    };
+  }
+
+  /**
+   * Whether another preview may be transcoded now (RECORDING_PREVIEW_CONCURRENCY, default 2)
+   */
+  canStartPreview(): boolean {
+    return activePreviews < parseInt(process.env.RECORDING_PREVIEW_CONCURRENCY || '2');
+  }
+
+  /**
+   * The recording transcoded by ffmpeg to a low-bitrate mono MP3, for playback on mobile.
+   * A transcode is killed after RECORDING_PREVIEW_TIMEOUT_SECONDS (default 600).
+   */
+  async getPreviewStream(recording: CallRecording): Promise<Readable> {
+    if (!this.canStartPreview()) {
+      throw new Error('Too many recording previews in progress');
+    }
+
+    // Counted from here so concurrent requests cannot all pass the check above
+    activePreviews++;
+    let timer: NodeJS.Timeout | undefined;
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      activePreviews--;
+      clearTimeout(timer);
+    };
+
+    let source: Readable | undefined;
+    let ffmpeg: ChildProcessByStdio<Writable, Readable, null>;
+    try {
+      source = await this.getAudioStream(recording);
+      ffmpeg = spawn(process.env.FFMPEG_BIN || process.env.TRANSCRIPTION_FFMPEG_BIN || 'ffmpeg', [
+        '-hide_banner', '-loglevel', 'error',
+        '-i', 'pipe:0',
+        '-vn', '-ac', '1', '-ar', '22050',
+        '-b:a', process.env.RECORDING_PREVIEW_BITRATE || '32k',
+        '-f', 'mp3', 'pipe:1'
+      ], { stdio: ['pipe', 'pipe', 'ignore'] });
+
+      await once(ffmpeg, 'spawn');
+    } catch (error) {
+      release();
+      source?.destroy();
+      throw error;
+    }
+
+    // Only ended once ffmpeg exits cleanly, so a failed transcode is not sent as a complete (but cut short) MP3
+    const output = new PassThrough();
+    ffmpeg.stdout.pipe(output, { end: false });
+
+    const fail = (error: Error) => {
+      if (output.destroyed) return;
+      console.error(`Error transcoding preview of recording ${recording.id}:`, error);
+      ffmpeg.kill('SIGKILL');
+      output.destroy(error);
+    };
+
+    timer = setTimeout(
+      () => fail(new Error('Preview transcoding timed out')),
+      parseInt(process.env.RECORDING_PREVIEW_TIMEOUT_SECONDS || '600') * 1000
+    );
+
+    pipeline(source, ffmpeg.stdin, (error) => {
+      // Once the client has gone away ffmpeg stops reading, which ends the source with EPIPE
+      if (error) fail(error);
+    });
+    output.on('close', () => {
+      if (ffmpeg.exitCode === null && ffmpeg.signalCode === null) ffmpeg.kill('SIGKILL');
+    });
+    ffmpeg.on('close', (code, signal) => {
+      release();
+      if (code === 0) output.end();
+      else fail(new Error(`ffmpeg exited with ${code ?? signal}`));
+    });
+
+    return output;
+  }
+
+  getContentType(recording: CallRecording): string {
+    return recording.format === 'mp3' ? 'audio/mpeg' : `audio/${recording.format}`;
+  }
+
+  /**
+   * Signed URL of the stored file. Encrypted recordings must be read with getAudioStream instead.
+   */
   async getRecordingUrl(recording: CallRecording): Promise<string> {
     // If using private ACL, generate signed URL
-    if (recording.storage_provider === 'digitalocean' && recording.storage_key) {
-      return storage.getSignedUrl(recording.storage_key, 3600); // 1 hour expiry
+    if (storage.isDriver(recording.storage_provider) && recording.storage_key) {
+      return storage.getSignedUrl(recording.storage_key, 3600, recording.storage_provider); // 1 hour expiry
     }
     
     if (!recording.file_url) {
@@ -94,6 +277,53 @@ export class RecordingService {
     return recording.file_url;
   }
 
+  /**
+   * Copy a recording's file to another storage driver and point the recording at the copy.
+   * The file is copied as stored, so encrypted recordings stay encrypted with the same key.
+   */
+  async moveToStorage(recording: CallRecording, target: StorageDriverName, deleteSource: boolean = false): Promise<CallRecording> {
+    const source = recording.storage_provider;
+    const key = recording.storage_key;
+
+    if (!storage.isDriver(source) || !key) {
+      throw new Error(`Recording ${recording.id} is not stored with a storage driver`);
+    }
+    if (source === target) return recording;
+
+    const driver = storage.getDriver(target);
+    const previousUrl = recording.file_url;
+    const { url } = await driver.putObject(key, storage.getObjectStream(key, source), {
+      contentType: recording.encrypted ? 'application/octet-stream' : 'audio/mpeg',
+      acl: 'private',
+      metadata: {
+        'recording-id': String(recording.id),
+        'migrated-from': source
+      }
+    });
+
+    await recording.update({
+      storage_provider: target,
+      storage_bucket: driver.bucket || null,
+      file_url: url,
+      metadata: { ...recording.metadata, storage_migrated_from: source, storage_migrated_at: new Date() }
+    } as any);
+
+    const call = recording.call || await Call.findByPk(recording.call_id);
+    if (call && previousUrl && call.recording_url === previousUrl) {
+      await call.update({ recording_url: url });
+    }
+
+    if (deleteSource) {
+      try {
+        await storage.deleteObject(key, source);
+      } catch (error) {
+        console.error(`Failed to delete ${source} copy of recording:`, recording.id, error);
+      }
+    }
+
+    return recording;
+  }
+
   // async deleteRecording(recordingId: number): Promise<void> {
   //   const recording = await CallRecording.findByPk(recordingId);
   //   if (!recording) throw new Error('Recording not found');
@@ -110,6 +340,34 @@ export class RecordingService {
   //   // Delete database record
   //   await recording.destroy();
   // }
+
+  /**
+   * Decrypt a byte range: read from the cipher block the range starts in, then drop the bytes before it
+   */
+  private async getDecryptedRange(recording: CallRecording, range: ByteRange): Promise<Readable> {
+    const offset = range.start - (range.start % CIPHER_BLOCK_BYTES);
+    const decipher = await RecordingEncryptionService.createRangeDecryptor(recording, offset);
+    let skip = range.start - offset;
+
+    const trim = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        if (skip >= chunk.length) {
+          skip -= chunk.length;
+          return callback();
+        }
+        const data = chunk.subarray(skip);
+        skip = 0;
+        callback(null, data);
+      }
+    });
+
+    return pipeline(
+      storage.getObjectStream(recording.storage_key!, recording.storage_provider, { start: offset, end: range.end }),
+      decipher,
+      trim,
+      () => undefined
+    );
+  }
 }
 
 export default new RecordingService();
\ No newline at end of file
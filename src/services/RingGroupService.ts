@@ -0,0 +1,96 @@
+// backend/src/services/RingGroupService.ts
+import { Call, RingGroup, RingGroupMember, sequelize } from '../models';
+import { AgentStatus, RingStrategy } from '../types/enums';
+import AgentSessionService from './AgentSessionService';
+
+export interface RingGroupMemberInput {
+  user_id?: number;
+  phone_number?: string;
+  position?: number;
+  is_active?: boolean;
+}
+
+export class RingGroupService {
+  /**
+   * Members that can be rung right now, in the order the strategy wants them rung.
+   * User members whose agent session is OFFLINE are skipped.
+   */
+  async getAvailableMembers(group: RingGroup): Promise<RingGroupMember[]> {
+    const members = await RingGroupMember.findAll({
+      where: { ring_group_id: group.id, is_active: true },
+      order: group.strategy === RingStrategy.ROUND_ROBIN
+        ? [[sequelize.literal('last_call_at IS NOT NULL'), 'ASC'], ['last_call_at', 'ASC'], ['position', 'ASC']]
+        : [['position', 'ASC'], ['id', 'ASC']]
+    });
+
+    const userIds = members
+      .filter(member => member.user_id)
+      .map(member => member.user_id!);
+
+    const statuses = await AgentSessionService.getAgentStatuses(group.company_id, userIds);
+
+    return members.filter(member =>
+      !member.user_id || statuses.get(member.user_id) !== AgentStatus.OFFLINE
+    );
+  }
+
+  /**
+   * A member picked up: attribute the call to them and move them to the back of the round-robin
+   */
+  async recordAnswer(call: Call, member: RingGroupMember): Promise<void> {
+    await member.update({ last_call_at: new Date() });
+
+    if (member.user_id) {
+      await call.update({ agent_id: member.user_id });
+    }
+  }
+
+  /**
+   * Replace a group's member list
+   */
+  async setMembers(group: RingGroup, members: RingGroupMemberInput[]): Promise<RingGroupMember[]> {
+    return await sequelize.transaction(async (transaction) => {
+      await RingGroupMember.destroy({
+        where: { ring_group_id: group.id },
+        transaction
+      });
+
+      return await RingGroupMember.bulkCreate(
+        members.map((member, index) => ({
+          ring_group_id: group.id,
+          user_id: member.user_id || null,
+          phone_number: member.phone_number || null,
+          position: member.position ?? index,
+          is_active: member.is_active ?? true
+        })) as any,
+        { transaction }
+      );
+    });
+  }
+
+  /**
+   * Validate ring group payload. Returns a list of problems (empty when valid).
+   */
+  validateRingGroup(data: { strategy?: string; ring_timeout_seconds?: number; members?: RingGroupMemberInput[] }): string[] {
+    const errors: string[] = [];
+
+    if (data.strategy && !Object.values(RingStrategy).includes(data.strategy as RingStrategy)) {
+      errors.push(`Unknown strategy "${data.strategy}"`);
+    }
+
+    if (data.ring_timeout_seconds !== undefined &&
+      (data.ring_timeout_seconds < 5 || data.ring_timeout_seconds > 600)) {
+      errors.push('ring_timeout_seconds must be between 5 and 600');
+    }
+
+    (data.members || []).forEach((member, index) => {
+      if (!member.user_id === !member.phone_number) {
+        errors.push(`Member ${index + 1} needs exactly one of user_id or phone_number`);
+      }
+    });
+
+    return errors;
+  }
+}
+
+export default new RingGroupService();
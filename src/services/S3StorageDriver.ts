@@ -0,0 +1,189 @@
+// backend/src/services/S3StorageDriver.ts
+import AWS from 'aws-sdk';
+import { Readable } from 'stream';
+import {
+  ByteRange,
+  ObjectInfo,
+  PutObjectOptions,
+  SignedUrlOptions,
+  StorageDriver,
+  StorageDriverName,
+  StoredObject
+} from './StorageDriver';
+
+export interface S3DriverConfig {
+  name: StorageDriverName;
+  endpoint?: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle?: boolean;
+}
+
+/**
+ * S3-compatible object storage: AWS S3, MinIO and DigitalOcean Spaces
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name: StorageDriverName;
+  readonly bucket: string;
+  private s3Client: AWS.S3;
+  private forcePathStyle: boolean;
+
+  constructor(config: S3DriverConfig) {
+    this.name = config.name;
+    this.bucket = config.bucket;
+    this.forcePathStyle = !!config.forcePathStyle;
+
+    this.s3Client = new AWS.S3({
+      ...(config.endpoint && { endpoint: new AWS.Endpoint(config.endpoint) }),
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+      region: config.region,
+      s3ForcePathStyle: this.forcePathStyle,
+      signatureVersion: 'v4'
+    });
+
+    // Log configuration (remove in production)
+    console.log(`Storage driver ${this.name} initialized with:`, {
+      endpoint: config.endpoint,
+      bucket: this.bucket,
+      region: config.region,
+      hasKey: !!config.accessKeyId,
+      hasSecret: !!config.secretAccessKey
+    });
+  }
+
+  async putObject(key: string, body: Buffer | Readable, options: PutObjectOptions): Promise<StoredObject> {
+    const result = await this.s3Client.upload({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: options.contentType,
+      ACL: options.acl || 'private', // Important: Keep recordings private
+      Metadata: options.metadata
+    }).promise();
+
+    return { key, url: result.Location };
+  }
+
+  async headObject(key: string): Promise<ObjectInfo> {
+    const head = await this.s3Client.headObject({ Bucket: this.bucket, Key: key }).promise();
+
+    return {
+      size: head.ContentLength || 0,
+      contentType: head.ContentType,
+      etag: head.ETag,
+      lastModified: head.LastModified
+    };
+  }
+
+  getObjectStream(key: string, range?: ByteRange): Readable {
+    return this.s3Client.getObject({
+      Bucket: this.bucket,
+      Key: key,
+      ...(range && { Range: `bytes=${range.start}-${range.end}` })
+    }).createReadStream();
+  }
+
+  async copyObject(fromKey: string, toKey: string): Promise<StoredObject> {
+    await this.s3Client.copyObject({
+      Bucket: this.bucket,
+      CopySource: encodeURI(`${this.bucket}/${fromKey}`),
+      Key: toKey,
+      ACL: 'private',
+      MetadataDirective: 'COPY'
+    }).promise();
+
+    return { key: toKey, url: this.getObjectUrl(toKey) };
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await this.s3Client.deleteObject({ Bucket: this.bucket, Key: key }).promise();
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    return await this.s3Client.getSignedUrlPromise('getObject', {
+      Bucket: this.bucket,
+      Key: key,
+      Expires: options.expiresIn || 3600,
+      ...(options.downloadFilename && {
+        ResponseContentDisposition: `attachment; filename="${options.downloadFilename}"`
+      })
+    });
+  }
+
+  async checkConnection(): Promise<boolean> {
+    try {
+      await this.s3Client.headBucket({ Bucket: this.bucket }).promise();
+      console.log(`✅ Successfully connected to ${this.name} bucket ${this.bucket}`);
+      return true;
+    } catch (error: any) {
+      console.error(`❌ Failed to connect to ${this.name} bucket ${this.bucket}:`, error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Create bucket if it doesn't exist
+   */
+  async ensureBucketExists(): Promise<void> {
+    try {
+      await this.s3Client.headBucket({ Bucket: this.bucket }).promise();
+      console.log('Bucket exists:', this.bucket);
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        console.log('Creating bucket:', this.bucket);
+        await this.s3Client.createBucket({
+          Bucket: this.bucket,
+          ACL: 'private'
+        }).promise();
+
+        // Set CORS configuration
+        await this.setCORSConfiguration();
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  private getObjectUrl(key: string): string {
+    const { protocol, host } = this.s3Client.endpoint;
+    return this.forcePathStyle
+      ? `${protocol}//${host}/${this.bucket}/${key}`
+      : `${protocol}//${this.bucket}.${host}/${key}`;
+  }
+
+  /**
+   * Set CORS configuration for the bucket
+   */
+  private async setCORSConfiguration(): Promise<void> {
+    const corsParams = {
+      Bucket: this.bucket,
+      CORSConfiguration: {
+        CORSRules: [
+          {
+            AllowedHeaders: ['*'],
+            AllowedMethods: ['GET', 'PUT', 'POST', 'DELETE', 'HEAD'],
+            AllowedOrigins: [
+              process.env.FRONTEND_URL || 'http://localhost:5173',
+              'http://localhost:3000',
+              'http://localhost:3001',
+              'https://0c6f6b3d8a66.ngrok-free.app',
+              'https://f04de7477bc3.ngrok-free.app',
+            ],
+            ExposeHeaders: ['ETag'],
+            MaxAgeSeconds: 3000
+          }
+        ]
+      }
+    };
+
+    try {
+      await this.s3Client.putBucketCors(corsParams).promise();
+      console.log('CORS configuration set successfully');
+    } catch (error) {
+      console.error('Error setting CORS:', error);
+    }
+  }
+}
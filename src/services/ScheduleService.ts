@@ -0,0 +1,139 @@
+// backend/src/services/ScheduleService.ts
+import { formatInTimeZone } from 'date-fns-tz';
+import { Company, Schedule, TrackingNumber } from '../models';
+import { ScheduleStatus, ScheduleTimeRange, Weekday } from '../types/interfaces';
+
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DEFAULT_TIMEZONE = 'America/New_York';
+
+export class ScheduleService {
+  /**
+   * Schedule that applies to a tracking number (its own, or the company default)
+   */
+  async getScheduleForTrackingNumber(trackingNumber: TrackingNumber): Promise<Schedule | null> {
+    if (trackingNumber.schedule_id) {
+      return await Schedule.findOne({
+        where: { id: trackingNumber.schedule_id, company_id: trackingNumber.company_id }
+      });
+    }
+
+    const company = trackingNumber.company || await Company.findByPk(trackingNumber.company_id);
+    if (!company?.schedule_id) return null;
+
+    return await Schedule.findOne({
+      where: { id: company.schedule_id, company_id: company.id }
+    });
+  }
+
+  /**
+   * Evaluate whether a schedule is open at the given moment
+   */
+  async evaluate(schedule: Schedule, at: Date = new Date()): Promise<ScheduleStatus> {
+    let timezone = schedule.timezone;
+    if (!timezone) {
+      const company = await Company.findByPk(schedule.company_id, { attributes: ['timezone'] });
+      timezone = company?.timezone || DEFAULT_TIMEZONE;
+    }
+
+    return this.evaluateInTimezone(schedule, timezone, at);
+  }
+
+  evaluateInTimezone(schedule: Schedule, timezone: string, at: Date = new Date()): ScheduleStatus {
+    const localDate = formatInTimeZone(at, timezone, 'yyyy-MM-dd');
+    const localTime = formatInTimeZone(at, timezone, 'HH:mm');
+    const dayIndex = parseInt(formatInTimeZone(at, timezone, 'i')) % 7; // ISO day: 7 = Sunday
+
+    const status = (is_open: boolean, reason: ScheduleStatus['reason'], label?: string): ScheduleStatus => ({
+      is_open,
+      reason,
+      label,
+      timezone,
+      local_time: `${localDate} ${localTime}`
+    });
+
+    // One-off closures take precedence over everything else
+    const closure = (schedule.closures || []).find(c =>
+      at >= new Date(c.start) && at < new Date(c.end)
+    );
+    if (closure) {
+      return status(false, 'closure', closure.reason);
+    }
+
+    const holiday = (schedule.holidays || []).find(h =>
+      h.recurring ? localDate.slice(5) === h.date.slice(-5) : localDate === h.date
+    );
+    if (holiday) {
+      return status(false, 'holiday', holiday.name);
+    }
+
+    const hours = schedule.weekly_hours || {};
+    const today = hours[WEEKDAYS[dayIndex]] || [];
+    const yesterday = hours[WEEKDAYS[(dayIndex + 6) % 7]] || [];
+
+    const openToday = today.some(range => this.isWithinRange(range, localTime));
+    // Overnight ranges started yesterday (e.g. 22:00-02:00)
+    const openFromYesterday = yesterday.some(range =>
+      range.close < range.open && localTime < range.close
+    );
+
+    return openToday || openFromYesterday
+      ? status(true, 'open')
+      : status(false, 'closed');
+  }
+
+  /**
+   * Validate schedule payload. Returns a list of problems (empty when valid).
+   */
+  validateSchedule(data: Partial<Schedule>): string[] {
+    const errors: string[] = [];
+
+    if (data.timezone) {
+      try {
+        formatInTimeZone(new Date(), data.timezone, 'HH:mm');
+      } catch {
+        errors.push(`Unknown timezone "${data.timezone}"`);
+      }
+    }
+
+    for (const [day, ranges] of Object.entries(data.weekly_hours || {})) {
+      if (!WEEKDAYS.includes(day as Weekday)) {
+        errors.push(`Unknown weekday "${day}"`);
+        continue;
+      }
+      for (const range of ranges || []) {
+        if (!TIME_PATTERN.test(range.open) || !TIME_PATTERN.test(range.close)) {
+          errors.push(`Invalid hours for ${day}: times must be HH:mm`);
+        } else if (range.open === range.close) {
+          errors.push(`Invalid hours for ${day}: open and close are the same`);
+        }
+      }
+    }
+
+    for (const holiday of data.holidays || []) {
+      if (!holiday.date || !/^(\d{4}-)?\d{2}-\d{2}$/.test(holiday.date)) {
+        errors.push(`Holiday "${holiday.name}" needs a date in YYYY-MM-DD format`);
+      }
+    }
+
+    for (const closure of data.closures || []) {
+      const start = new Date(closure.start);
+      const end = new Date(closure.end);
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+        errors.push(`Closure "${closure.reason || closure.start}" needs a valid start before end`);
+      }
+    }
+
+    return errors;
+  }
+
+  private isWithinRange(range: ScheduleTimeRange, time: string): boolean {
+    if (range.close < range.open) {
+      // Runs past midnight; the part after midnight is handled on the next day
+      return time >= range.open;
+    }
+    return time >= range.open && time < range.close;
+  }
+}
+
+export default new ScheduleService();
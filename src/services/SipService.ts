@@ -132,36 +132,77 @@ export class SipService {
         to_uri: event.to
       } as any);
 
-      // Update call based on event
-      switch (event.type) {
-        case 'answer':
-          await this.handleAnswerEvent(call, event);
-          break;
-        case 'hangup':
-          await this.handleHangupEvent(call, event);
-          break;
-        case 'transfer':
-          await this.handleTransferEvent(call, event);
-          break;
-        case 'recording_start':
-          await this.handleRecordingStartEvent(call, event);
-          break;
-        case 'recording_stop':
-          await this.handleRecordingStopEvent(call, event);
-          break;
-        case 'voicemail':
-          await this.handleVoicemailEvent(call, event);
-          break;
-        case 'dtmf':
-          await this.handleDtmfEvent(call, event);
-          break;
-      }
+      await this.applyEvent(call, event);
     } catch (error) {
       console.error('Error handling SIP event:', error);
       throw error;
     }
   }
 
+  /**
+   * Record an event raised by our own call handling (IVR, call control, ...) against a call
+   */
+  async recordCallEvent(call: Call, type: string, data: Record<string, any> = {}): Promise<void> {
+    // Simulated calls are never saved: their events stay on the call instance
+    if (call.isNewRecord) {
+      call.set('metadata', {
+        ...call.metadata,
+        simulated_events: [...(call.metadata?.simulated_events || []), { type, data }]
+      });
+      return;
+    }
+
+    const event: SipEventData = {
+      type,
+      call_id: call.sip_call_id || call.call_sid,
+      timestamp: new Date().toISOString(),
+      data
+    };
+
+    await SipEvent.create({
+      company_id: call.company_id,
+      call_id: call.id,
+      event_type: event.type,
+      event_timestamp: new Date(event.timestamp),
+      event_data: event.data,
+      sip_call_id: event.call_id
+    } as any);
+
+    await this.applyEvent(call, event);
+  }
+
+  /**
+   * Update call based on event
+   */
+  private async applyEvent(call: Call, event: SipEventData): Promise<void> {
+    switch (event.type) {
+      case 'answer':
+        await this.handleAnswerEvent(call, event);
+        break;
+      case 'hangup':
+        await this.handleHangupEvent(call, event);
+        break;
+      case 'transfer':
+        await this.handleTransferEvent(call, event);
+        break;
+      case 'recording_start':
+        await this.handleRecordingStartEvent(call, event);
+        break;
+      case 'recording_stop':
+        await this.handleRecordingStopEvent(call, event);
+        break;
+      case 'voicemail':
+        await this.handleVoicemailEvent(call, event);
+        break;
+      case 'dtmf':
+        await this.handleDtmfEvent(call, event);
+        break;
+      case 'after_hours':
+        await this.handleAfterHoursEvent(call, event);
+        break;
+    }
+  }
+
   private async handleAnswerEvent(call: Call, event: SipEventData): Promise<void> {
     await call.update({
       status: CallStatus.IN_PROGRESS,
@@ -306,10 +347,38 @@ export class SipService {
 
   private async handleDtmfEvent(call: Call, event: SipEventData): Promise<void> {
     // Store DTMF digits in metadata
+    const metadata = { ...call.metadata };
+
+    if (event.data.digit) {
+      metadata.dtmf_digits = (metadata.dtmf_digits || '') + event.data.digit;
+    }
+
+    // Keep the path the caller took through the IVR
+    if (event.data.ivr_node_id) {
+      metadata.ivr_path = [
+        ...(metadata.ivr_path || []),
+        {
+          node_id: event.data.ivr_node_id,
+          input: event.data.digit || event.data.speech || null,
+          option: event.data.option || null,
+          timestamp: event.timestamp
+        }
+      ];
+    }
+
+    await call.update({ metadata });
+  }
+
+  private async handleAfterHoursEvent(call: Call, event: SipEventData): Promise<void> {
     await call.update({
       metadata: {
         ...call.metadata,
-        dtmf_digits: (call.metadata.dtmf_digits || '') + event.data.digit
+        after_hours: {
+          schedule_id: event.data.schedule_id,
+          reason: event.data.reason,
+          label: event.data.label,
+          destination: event.data.destination
+        }
       }
     });
   }
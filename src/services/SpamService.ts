@@ -0,0 +1,216 @@
+// backend/src/services/SpamService.ts
+import { Op } from 'sequelize';
+import { Call, CallerListEntry, Company } from '../models';
+import { CallDirection, CallerListType } from '../types/enums';
+import { CallerPatternType } from '../models/CallerListEntry';
+
+const DEFAULT_FLAG_THRESHOLD = 0.6;
+const DEFAULT_BLOCK_THRESHOLD = 0.9;
+
+// Twilio / carrier placeholders for withheld caller ID
+const ANONYMOUS_CALLERS = ['anonymous', 'restricted', 'unknown', 'private', 'unavailable', '+266696687', '+86282452253', '+7378742833', '+2562533'];
+
+const SHORT_CALL_SECONDS = 10;
+const SHORT_CALL_WINDOW_HOURS = 24;
+const SHORT_CALL_LIMIT = 3;
+const BURST_WINDOW_MINUTES = 10;
+const BURST_LIMIT = 5;
+
+export type ScreeningAction = 'allow' | 'flag' | 'block';
+
+export interface ScreeningResult {
+  action: ScreeningAction;
+  score: number;
+  reasons: string[];
+  list_entry_id?: number;
+}
+
+export class SpamService {
+  /**
+   * Decide what to do with an inbound caller. The allowlist always wins, then the blocklist,
+   * then (when the company has spam_detection on) heuristics scored from 0 to 1.
+   * Pass countHit = false to screen without counting a blocklist hit (simulations).
+   */
+  async screenCall(company: Company, callerNumber: string, callerName?: string, countHit: boolean = true): Promise<ScreeningResult> {
+    const number = this.normalizeNumber(callerNumber);
+
+    const allowed = await this.findListMatch(company.id, CallerListType.ALLOW, number);
+    if (allowed) {
+      return { action: 'allow', score: 0, reasons: ['allowlist'], list_entry_id: allowed.id };
+    }
+
+    const blocked = await this.findListMatch(company.id, CallerListType.BLOCK, number);
+    if (blocked) {
+      if (countHit) {
+        await blocked.update({ hit_count: blocked.hit_count + 1, last_hit_at: new Date() });
+      }
+      return { action: 'block', score: 1, reasons: ['blocklist'], list_entry_id: blocked.id };
+    }
+
+    if (company.settings?.spam_detection === false) {
+      return { action: 'allow', score: 0, reasons: [] };
+    }
+
+    const { score, reasons } = await this.scoreCaller(company.id, number, callerName);
+    const blockThreshold = company.settings?.spam_block_threshold ?? DEFAULT_BLOCK_THRESHOLD;
+    const flagThreshold = company.settings?.spam_flag_threshold ?? DEFAULT_FLAG_THRESHOLD;
+
+    const action: ScreeningAction = score >= blockThreshold
+      ? 'block'
+      : score >= flagThreshold ? 'flag' : 'allow';
+
+    return { action, score, reasons };
+  }
+
+  /**
+   * Heuristic spam score: withheld caller ID, carrier spam labels,
+   * repeated short calls and bursts of calls from the same number
+   */
+  async scoreCaller(companyId: number, number: string, callerName?: string): Promise<{ score: number; reasons: string[] }> {
+    let score = 0;
+    const reasons: string[] = [];
+
+    if (this.isAnonymous(number)) {
+      score += 0.5;
+      reasons.push('anonymous_caller_id');
+    } else if (!/^\+?\d{7,15}$/.test(number)) {
+      score += 0.4;
+      reasons.push('invalid_caller_id');
+    }
+
+    if (callerName && /spam|scam|fraud|telemarket/i.test(callerName)) {
+      score += 0.4;
+      reasons.push('carrier_spam_label');
+    }
+
+    // Withheld numbers all look alike, so call history says nothing about them
+    if (!this.isAnonymous(number)) {
+      const since = new Date(Date.now() - SHORT_CALL_WINDOW_HOURS * 60 * 60 * 1000);
+      const shortCalls = await Call.count({
+        where: {
+          company_id: companyId,
+          caller_number: number,
+          direction: CallDirection.INBOUND,
+          start_time: { [Op.gte]: since },
+          duration: { [Op.lt]: SHORT_CALL_SECONDS }
+        }
+      });
+      if (shortCalls >= SHORT_CALL_LIMIT) {
+        score += Math.min(0.5, 0.15 * shortCalls);
+        reasons.push('repeated_short_calls');
+      }
+
+      const burstSince = new Date(Date.now() - BURST_WINDOW_MINUTES * 60 * 1000);
+      const recentCalls = await Call.count({
+        where: {
+          company_id: companyId,
+          caller_number: number,
+          direction: CallDirection.INBOUND,
+          start_time: { [Op.gte]: burstSince }
+        }
+      });
+      if (recentCalls >= BURST_LIMIT) {
+        score += 0.4;
+        reasons.push('call_burst');
+      }
+    }
+
+    return { score: Math.min(1, Math.round(score * 100) / 100), reasons };
+  }
+
+  /**
+   * Add a number (or pattern) to the company blocklist. Existing entries are reused.
+   */
+  async blockCaller(companyId: number, pattern: string, userId?: number, reason?: string): Promise<CallerListEntry> {
+    const normalized = this.normalizePattern(pattern);
+
+    const [entry] = await CallerListEntry.findOrCreate({
+      where: { company_id: companyId, list_type: CallerListType.BLOCK, pattern: normalized },
+      defaults: {
+        company_id: companyId,
+        list_type: CallerListType.BLOCK,
+        pattern: normalized,
+        pattern_type: this.getPatternType(normalized),
+        reason,
+        created_by: userId
+      } as any
+    });
+
+    return entry;
+  }
+
+  async findListMatch(companyId: number, listType: CallerListType, number: string): Promise<CallerListEntry | null> {
+    const entries = await CallerListEntry.findAll({
+      where: {
+        company_id: companyId,
+        list_type: listType,
+        [Op.or]: [
+          { expires_at: { [Op.is]: null } },
+          { expires_at: { [Op.gt]: new Date() } }
+        ]
+      } as any,
+      // Exact matches first, then the most specific pattern
+      order: [['pattern_type', 'ASC'], ['pattern', 'DESC']]
+    });
+
+    return entries.find(entry => this.matchesPattern(entry.pattern, number)) || null;
+  }
+
+  matchesPattern(pattern: string, number: string): boolean {
+    const normalized = this.normalizeNumber(number);
+
+    switch (this.getPatternType(pattern)) {
+      case 'exact':
+        return normalized === pattern;
+      case 'prefix':
+        return normalized.startsWith(pattern.slice(0, -1));
+      case 'wildcard':
+        return pattern.length === normalized.length &&
+          [...pattern].every((char, index) => char === 'X' || char === normalized[index]);
+    }
+  }
+
+  getPatternType(pattern: string): CallerPatternType {
+    if (pattern.endsWith('*')) return 'prefix';
+    if (pattern.includes('X')) return 'wildcard';
+    return 'exact';
+  }
+
+  normalizeNumber(number: string): string {
+    const trimmed = (number || '').trim();
+    if (this.isAnonymous(trimmed)) return trimmed.toLowerCase();
+    return trimmed.replace(/[\s().-]/g, '');
+  }
+
+  normalizePattern(pattern: string): string {
+    if (this.isAnonymous(pattern.trim())) return pattern.trim().toLowerCase();
+    return pattern.trim().replace(/[\s().-]/g, '').replace(/[x?]/gi, 'X');
+  }
+
+  /**
+   * Validate a list pattern. Returns a list of problems (empty when valid).
+   */
+  validatePattern(pattern: string | undefined): string[] {
+    if (!pattern || !pattern.trim()) {
+      return ['pattern is required'];
+    }
+
+    const normalized = this.normalizePattern(pattern);
+    if (this.isAnonymous(normalized)) return [];
+
+    if (!/^\+?[0-9X]+\*?$/.test(normalized)) {
+      return ['pattern may only contain digits, a leading +, X wildcards or a trailing *'];
+    }
+    if (normalized.replace(/\D/g, '').length < 2) {
+      return ['pattern must include at least 2 digits'];
+    }
+
+    return [];
+  }
+
+  private isAnonymous(number: string): boolean {
+    return !number || ANONYMOUS_CALLERS.includes(number.toLowerCase());
+  }
+}
+
+export default new SpamService();
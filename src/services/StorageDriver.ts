@@ -0,0 +1,50 @@
+// backend/src/services/StorageDriver.ts
+import { Readable } from 'stream';
+
+export type StorageDriverName = 'local' | 's3' | 'digitalocean';
+
+export interface PutObjectOptions {
+  contentType: string;
+  acl?: 'private' | 'public-read'; // public objects get a URL that never expires
+  metadata?: Record<string, string>;
+}
+
+export interface SignedUrlOptions {
+  expiresIn?: number;          // seconds, default 3600
+  downloadFilename?: string;   // served as an attachment with this name
+}
+
+export interface StoredObject {
+  key: string;
+  url: string;
+}
+
+export interface ObjectInfo {
+  size: number;
+  contentType?: string;
+  etag?: string;        // quoted, as sent in the ETag header
+  lastModified?: Date;
+}
+
+// Inclusive byte offsets, as in a Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A place files are stored. The driver name is saved with each file
+ * (storage_provider) so files stay readable after the default driver changes.
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  readonly bucket?: string;
+
+  putObject(key: string, body: Buffer | Readable, options: PutObjectOptions): Promise<StoredObject>;
+  headObject(key: string): Promise<ObjectInfo>;
+  getObjectStream(key: string, range?: ByteRange): Readable;
+  copyObject(fromKey: string, toKey: string): Promise<StoredObject>;
+  deleteObject(key: string): Promise<void>;
+  getSignedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+  checkConnection(): Promise<boolean>;
+}
@@ -1,49 +1,59 @@
 // backend/src/services/StorageService.ts
-import AWS from 'aws-sdk';
 import axios from 'axios';
+import { Readable, Transform, pipeline } from 'stream';
 import { storageConfig } from '../config/storage';
+import { ByteRange, ObjectInfo, StorageDriver, StorageDriverName, StoredObject } from './StorageDriver';
+import { S3StorageDriver } from './S3StorageDriver';
+import { LocalStorageDriver } from './LocalStorageDriver';
+
+export const STORAGE_DRIVERS: StorageDriverName[] = ['local', 's3', 'digitalocean'];
+
+// Shared by every StorageService instance so each driver connects once
+const drivers = new Map<StorageDriverName, StorageDriver>();
+
+export interface UploadedFile extends StoredObject {
+  provider: StorageDriverName;
+}
 
 export class StorageService {
-  private s3Client: AWS.S3;
-  private bucketName: string;
-
-  constructor() {
-    // Configure DigitalOcean Spaces (S3-compatible)
-    this.s3Client = new AWS.S3({
-      endpoint: new AWS.Endpoint(
-        process.env.DO_SPACES_ENDPOINT || 'https://nyc3.digitaloceanspaces.com'
-      ),
-      accessKeyId: process.env.DO_SPACES_KEY!,
-      secretAccessKey: process.env.DO_SPACES_SECRET!,
-      region: process.env.DO_SPACES_REGION || 'nyc3',
-      s3ForcePathStyle: false,
-      signatureVersion: 'v4'
-    });
-    
-    this.bucketName = process.env.DO_SPACES_BUCKET || 'crc-bucket';
-    
-    // Log configuration (remove in production)
-    console.log('Storage Service initialized with:', {
-      endpoint: process.env.DO_SPACES_ENDPOINT,
-      bucket: this.bucketName,
-      region: process.env.DO_SPACES_REGION,
-      hasKey: !!process.env.DO_SPACES_KEY,
-      hasSecret: !!process.env.DO_SPACES_SECRET
-    });
+  /**
+   * Driver by name (as saved in storage_provider), the configured default when omitted
+   */
+  getDriver(name?: string | null): StorageDriver {
+    const driverName = (name || this.getDefaultDriverName()) as StorageDriverName;
+    if (!this.isDriver(driverName)) {
+      throw new Error(`Unknown storage driver "${name}"`);
+    }
+
+    let driver = drivers.get(driverName);
+    if (!driver) {
+      driver = this.createDriver(driverName);
+      drivers.set(driverName, driver);
+    }
+    return driver;
+  }
+
+  /**
+   * Driver new files are written to
+   */
+  getDefaultDriverName(): StorageDriverName {
+    const name = storageConfig.provider === 'spaces' ? 'digitalocean' : storageConfig.provider;
+    return this.isDriver(name) ? name : 'digitalocean';
+  }
+
+  /**
+   * Whether a storage_provider value is one of our drivers (rather than a provider-hosted URL such as "twilio")
+   */
+  isDriver(name: unknown): name is StorageDriverName {
+    return STORAGE_DRIVERS.includes(name as StorageDriverName);
   }
 
   /**
    * Generate signed URL for secure file access
    */
-  async getSignedUrl(key: string, expiresIn: number = 3600): Promise<string> {
+  async getSignedUrl(key: string, expiresIn: number = 3600, provider?: string | null): Promise<string> {
     try {
-      const params = {
-        Bucket: this.bucketName,
-        Key: key,
-        Expires: expiresIn
-      };
-      
-      const url = await this.s3Client.getSignedUrlPromise('getObject', params);
+      const url = await this.getDriver(provider).getSignedUrl(key, { expiresIn });
       console.log('Generated signed URL for key:', key);
       return url;
     } catch (error) {
@@ -55,16 +65,9 @@ export class StorageService {
   /**
    * Generate signed URL for download with proper headers
    */
-  async getDownloadUrl(key: string, filename: string): Promise<string> {
+  async getDownloadUrl(key: string, filename: string, provider?: string | null): Promise<string> {
     try {
-      const params = {
-        Bucket: this.bucketName,
-        Key: key,
-        Expires: 3600,
-        ResponseContentDisposition: `attachment; filename="${filename}"`
-      };
-      
-      return await this.s3Client.getSignedUrlPromise('getObject', params);
+      return await this.getDriver(provider).getSignedUrl(key, { downloadFilename: filename });
     } catch (error) {
       console.error('Error generating download URL:', error);
       throw error;
@@ -72,13 +75,15 @@ export class StorageService {
   }
 
   /**
-   * Upload recording from Twilio to DO Spaces
+   * Upload recording from Twilio to the default driver. An encrypt stream, when given, is applied to the audio on the way.
    */
   async uploadRecordingFromTwilio(
     twilioUrl: string,
     callSid: string,
-    companyId: number
-  ): Promise<{ key: string; url: string }> {
+    companyId: number,
+    folder: string = 'recordings',
+    encrypt?: Transform
+  ): Promise<UploadedFile> {
     try {
       // Download from Twilio with auth
       const response = await axios({
@@ -93,31 +98,29 @@ export class StorageService {
 
       // Generate unique key
       const date = new Date();
-      const key = `recordings/${companyId}/${date.getFullYear()}/${
+      const key = `${folder}/${companyId}/${date.getFullYear()}/${
         date.getMonth() + 1
       }/${callSid}.mp3`;
 
-      // Upload to DO Spaces
-      const uploadParams = {
-        Bucket: this.bucketName,
-        Key: key,
-        Body: response.data,
-        ContentType: 'audio/mpeg',
-        ACL: 'private', // Important: Keep recordings private
-        Metadata: {
+      // A download error destroys the encrypt stream, which fails the upload
+      const body = encrypt
+        ? pipeline(response.data, encrypt, () => undefined)
+        : response.data;
+
+      const driver = this.getDriver();
+      const result = await driver.putObject(key, body, {
+        contentType: encrypt ? 'application/octet-stream' : 'audio/mpeg',
+        acl: 'private',
+        metadata: {
           'call-sid': callSid,
           'company-id': companyId.toString(),
-          'uploaded-at': new Date().toISOString()
+          'uploaded-at': new Date().toISOString(),
+          ...(encrypt && { encrypted: 'true' })
         }
-      };
-
-      const result = await this.s3Client.upload(uploadParams).promise();
-      console.log('Upload successful:', result.Location);
+      });
+      console.log('Upload successful:', result.url);
 
-      return {
-        key,
-        url: result.Location
-      };
+      return { ...result, provider: driver.name };
     } catch (error) {
       console.error('Error uploading recording:', error);
       throw error;
@@ -125,75 +128,108 @@ export class StorageService {
   }
 
   /**
-   * Check if bucket is accessible
+   * Upload an audio greeting. Greetings are public so the telephony provider can fetch them during a call.
    */
-  async testConnection(): Promise<boolean> {
+  async uploadGreeting(
+    audio: Buffer,
+    contentType: string,
+    companyId: number,
+    trackingNumberId: number
+  ): Promise<UploadedFile> {
     try {
-      await this.s3Client.headBucket({ Bucket: this.bucketName }).promise();
-      console.log('✅ Successfully connected to DigitalOcean Spaces');
-      return true;
-    } catch (error: any) {
-      console.error('❌ Failed to connect to DigitalOcean Spaces:', error.message);
-      return false;
+      const extension = contentType === 'audio/wav' ? 'wav' : 'mp3';
+      const key = `greetings/${companyId}/${trackingNumberId}-${Date.now()}.${extension}`;
+
+      const driver = this.getDriver();
+      const result = await driver.putObject(key, audio, {
+        contentType,
+        acl: 'public-read',
+        metadata: {
+          'company-id': companyId.toString(),
+          'tracking-number-id': trackingNumberId.toString(),
+          'uploaded-at': new Date().toISOString()
+        }
+      });
+      console.log('Greeting upload successful:', result.url);
+
+      return { ...result, provider: driver.name };
+    } catch (error) {
+      console.error('Error uploading greeting:', error);
+      throw error;
     }
   }
 
   /**
-   * Create bucket if it doesn't exist
+   * Read an object, or part of it, as a stream
    */
-  async ensureBucketExists(): Promise<void> {
-    try {
-      await this.s3Client.headBucket({ Bucket: this.bucketName }).promise();
-      console.log('Bucket exists:', this.bucketName);
-    } catch (error: any) {
-      if (error.statusCode === 404) {
-        console.log('Creating bucket:', this.bucketName);
-        await this.s3Client.createBucket({ 
-          Bucket: this.bucketName,
-          ACL: 'private'
-        }).promise();
-        
-        // Set CORS configuration
-        await this.setCORSConfiguration();
-      } else {
-        throw error;
-      }
-    }
+  getObjectStream(key: string, provider?: string | null, range?: ByteRange): Readable {
+    return this.getDriver(provider).getObjectStream(key, range);
   }
 
   /**
-   * Set CORS configuration for the bucket
+   * Size, ETag and modification date of an object
    */
-  private async setCORSConfiguration(): Promise<void> {
-    const corsParams = {
-      Bucket: this.bucketName,
-      CORSConfiguration: {
-        CORSRules: [
-          {
-            AllowedHeaders: ['*'],
-            AllowedMethods: ['GET', 'PUT', 'POST', 'DELETE', 'HEAD'],
-            AllowedOrigins: [
-              process.env.FRONTEND_URL || 'http://localhost:5173',
-              'http://localhost:3000',
-              'http://localhost:3001',
-              'https://0c6f6b3d8a66.ngrok-free.app',
-              'https://f04de7477bc3.ngrok-free.app',
-            ],
-            ExposeHeaders: ['ETag'],
-            MaxAgeSeconds: 3000
-          }
-        ]
-      }
-    };
+  async headObject(key: string, provider?: string | null): Promise<ObjectInfo> {
+    return await this.getDriver(provider).headObject(key);
+  }
 
+  /**
+   * Move an object to another key with the same driver (copy, then delete the original)
+   */
+  async moveObject(fromKey: string, toKey: string, provider?: string | null): Promise<StoredObject> {
     try {
-      await this.s3Client.putBucketCors(corsParams).promise();
-      console.log('CORS configuration set successfully');
+      const driver = this.getDriver(provider);
+      const result = await driver.copyObject(fromKey, toKey);
+      await driver.deleteObject(fromKey);
+      return result;
     } catch (error) {
-      console.error('Error setting CORS:', error);
+      console.error('Error moving object:', fromKey, error);
+      throw error;
+    }
+  }
+
+  async deleteObject(key: string, provider?: string | null): Promise<void> {
+    try {
+      await this.getDriver(provider).deleteObject(key);
+    } catch (error) {
+      console.error('Error deleting object:', key, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if the default driver is reachable
+   */
+  async testConnection(): Promise<boolean> {
+    return await this.getDriver().checkConnection();
+  }
+
+  private createDriver(name: StorageDriverName): StorageDriver {
+    switch (name) {
+      case 'local':
+        return new LocalStorageDriver(storageConfig.local.root, storageConfig.local.signingSecret);
+      case 's3':
+        return new S3StorageDriver({
+          name,
+          endpoint: storageConfig.s3.endpoint,
+          bucket: storageConfig.s3.bucket,
+          region: storageConfig.s3.region,
+          accessKeyId: storageConfig.s3.key,
+          secretAccessKey: storageConfig.s3.secret,
+          forcePathStyle: storageConfig.s3.forcePathStyle
+        });
+      case 'digitalocean':
+        return new S3StorageDriver({
+          name,
+          endpoint: storageConfig.spaces.endpoint,
+          bucket: storageConfig.spaces.bucket,
+          region: storageConfig.spaces.region,
+          accessKeyId: storageConfig.spaces.key,
+          secretAccessKey: storageConfig.spaces.secret
+        });
     }
   }
 }
 
 // Export singleton instance
-export default new StorageService();
\ No newline at end of file
+export default new StorageService();
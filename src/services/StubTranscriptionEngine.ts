@@ -0,0 +1,35 @@
+// backend/src/services/StubTranscriptionEngine.ts
+import { EngineSegment, TranscriptionEngine, TranscriptionInput } from './TranscriptionEngine';
+
+const TURN_SECONDS = 5;
+const DEFAULT_DURATION = 20;
+
+/**
+ * Deterministic engine for tests and development: the audio is not decoded and the
+ * same input always gives the same transcript. Channels take turns speaking every
+ * five seconds for the length of the recording.
+ */
+export class StubTranscriptionEngine implements TranscriptionEngine {
+  readonly name = 'stub' as const;
+
+  async transcribe(input: TranscriptionInput): Promise<EngineSegment[]> {
+    const duration = input.duration && input.duration > 0 ? input.duration : DEFAULT_DURATION;
+    const channels = Math.max(input.channels, 1);
+    const segments: EngineSegment[] = [];
+
+    for (let turn = 0; turn * TURN_SECONDS < duration; turn++) {
+      const channel = turn % channels;
+      segments.push({
+        channel,
+        start: turn * TURN_SECONDS,
+        end: Math.min((turn + 1) * TURN_SECONDS, duration),
+        text: `Stub transcript line ${turn + 1} on channel ${channel + 1}.`,
+        confidence: 0.95
+      });
+    }
+
+    return segments;
+  }
+}
+
+export default new StubTranscriptionEngine();
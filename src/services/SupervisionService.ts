@@ -0,0 +1,156 @@
+// backend/src/services/SupervisionService.ts
+import { Call, TrackingNumber } from '../models';
+import TelephonyService from './TelephonyService';
+import CallFlowService from './CallFlowService';
+import CallControlService, { controlError } from './CallControlService';
+import SipService from './SipService';
+
+export type SupervisionMode = 'monitor' | 'whisper' | 'barge';
+
+export const SUPERVISION_MODES: SupervisionMode[] = ['monitor', 'whisper', 'barge'];
+
+export interface SupervisorSession {
+  user_id: number;
+  call_sid: string;
+  mode: SupervisionMode;
+  started_at: string;
+}
+
+export class SupervisionService {
+  /**
+   * Dial a supervisor into the call's conference in the requested mode
+   */
+  async start(call: Call, userId: number, mode: SupervisionMode, to?: string): Promise<SupervisorSession> {
+    if (this.getSession(call, userId)) {
+      throw controlError('You are already supervising this call');
+    }
+
+    const endpoint = to || await CallFlowService.resolveUserEndpoint(call.company_id, userId);
+    if (!endpoint) {
+      throw controlError('No SIP account or phone number to reach you on', 400);
+    }
+
+    const conferenceSid = await CallControlService.ensureConference(call);
+    const trackingNumber = call.tracking_number_id
+      ? await TrackingNumber.findByPk(call.tracking_number_id)
+      : null;
+
+    const callSid = await TelephonyService.forTrackingNumber(trackingNumber).addConferenceParticipant(conferenceSid, {
+      from: trackingNumber?.phone_number || call.destination_number || call.caller_number,
+      to: endpoint,
+      label: `supervisor-${userId}`,
+      endConferenceOnExit: false,
+      ...this.getParticipantOptions(call, mode)
+    });
+
+    const session: SupervisorSession = {
+      user_id: userId,
+      call_sid: callSid,
+      mode,
+      started_at: new Date().toISOString()
+    };
+
+    await call.update({
+      metadata: {
+        ...call.metadata,
+        supervisors: [...(call.metadata.supervisors || []), session]
+      }
+    });
+
+    await SipService.recordCallEvent(call, 'supervision_start', {
+      user_id: userId,
+      mode,
+      supervisor_call_sid: callSid
+    });
+
+    return session;
+  }
+
+  /**
+   * Switch an active supervisor between monitor, whisper and barge
+   */
+  async changeMode(call: Call, userId: number, mode: SupervisionMode): Promise<SupervisorSession> {
+    const session = this.getSession(call, userId);
+    if (!session) {
+      throw controlError('You are not supervising this call');
+    }
+
+    const conferenceSid = await CallControlService.ensureConference(call);
+    const provider = await TelephonyService.forCall(call);
+    await provider.updateConferenceParticipant(
+      conferenceSid,
+      session.call_sid,
+      this.getParticipantOptions(call, mode)
+    );
+
+    const updated = { ...session, mode };
+    await call.update({
+      metadata: {
+        ...call.metadata,
+        supervisors: (call.metadata.supervisors as SupervisorSession[])
+          .map(s => s.user_id === userId ? updated : s)
+      }
+    });
+
+    await SipService.recordCallEvent(call, 'supervision_mode', {
+      user_id: userId,
+      from_mode: session.mode,
+      mode
+    });
+
+    return updated;
+  }
+
+  async stop(call: Call, userId: number): Promise<void> {
+    const session = this.getSession(call, userId);
+    if (!session) {
+      throw controlError('You are not supervising this call');
+    }
+
+    const provider = await TelephonyService.forCall(call);
+    const conferenceSid = await provider.findConferenceSid(CallControlService.getConferenceName(call));
+    if (conferenceSid) {
+      await provider.removeConferenceParticipant(conferenceSid, session.call_sid);
+    } else {
+      await provider.endCall(session.call_sid);
+    }
+
+    await call.update({
+      metadata: {
+        ...call.metadata,
+        supervisors: (call.metadata.supervisors as SupervisorSession[])
+          .filter(s => s.user_id !== userId)
+      }
+    });
+
+    await SipService.recordCallEvent(call, 'supervision_stop', {
+      user_id: userId,
+      mode: session.mode,
+      duration: Math.floor((Date.now() - new Date(session.started_at).getTime()) / 1000)
+    });
+  }
+
+  getSession(call: Call, userId: number): SupervisorSession | undefined {
+    return (call.metadata?.supervisors as SupervisorSession[] | undefined)
+      ?.find(s => s.user_id === userId);
+  }
+
+  // monitor: muted; whisper: only the agent hears the supervisor; barge: everyone hears
+  private getParticipantOptions(call: Call, mode: SupervisionMode) {
+    const agentCallSid = call.metadata?.conference?.agent_call_sid;
+
+    switch (mode) {
+      case 'monitor':
+        return { muted: true, coaching: false };
+      case 'whisper':
+        if (!agentCallSid) {
+          throw controlError('Call has no agent to whisper to');
+        }
+        return { muted: false, coaching: true, callSidToCoach: agentCallSid };
+      case 'barge':
+        return { muted: false, coaching: false };
+    }
+  }
+}
+
+export default new SupervisionService();
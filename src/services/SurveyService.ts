@@ -0,0 +1,218 @@
+// backend/src/services/SurveyService.ts
+import { Op, WhereOptions, fn, col, literal } from 'sequelize';
+import VoiceResponse from 'twilio/lib/twiml/VoiceResponse';
+import { Call, TrackingNumber } from '../models';
+import { CallDirection, CallDisposition, CallStatus, SurveyStatus } from '../types/enums';
+import { PostCallSurveyConfig, SurveyQuestion } from '../types/interfaces';
+
+const DEFAULT_INTRO = 'Before you go, please answer a short survey about your call.';
+const DEFAULT_THANK_YOU = 'Thank you for your feedback. Goodbye.';
+const INVALID_INPUT_MESSAGE = "Sorry, I didn't get that.";
+const SATISFIED_MIN_RATING = 4; // CSAT counts 4 and 5 as satisfied
+const QUESTION_TYPES = ['rating', 'yes_no'];
+const MAX_QUESTIONS = 5;
+
+export interface CsatMetrics {
+  responses: number;
+  csat_score: number | null;     // % of ratings that were 4 or 5
+  average_rating: number | null; // 1-5
+}
+
+/**
+ * Keypad survey the caller is sent to after the agent hangs up
+ */
+export class SurveyService {
+  /**
+   * Whether the caller of a just-ended agent leg should get the tracking number's survey.
+   * Voicemails, abandoned, blocked and spam calls are never surveyed.
+   */
+  shouldOffer(call: Call, trackingNumber: TrackingNumber | null): boolean {
+    const survey = trackingNumber?.call_flow?.survey;
+    if (!survey?.enabled || !survey.questions?.length) return false;
+    if (call.direction !== CallDirection.INBOUND || call.survey_status) return false;
+    if (call.is_spam || call.status === CallStatus.VOICEMAIL) return false;
+
+    return ![CallDisposition.VOICEMAIL, CallDisposition.ABANDONED, CallDisposition.BLOCKED]
+      .includes(call.disposition as CallDisposition);
+  }
+
+  /**
+   * Start the survey: intro and first question
+   */
+  async start(twiml: VoiceResponse, trackingNumber: TrackingNumber, call: Call): Promise<void> {
+    const survey = trackingNumber.call_flow.survey!;
+
+    await call.update({ survey_status: SurveyStatus.IN_PROGRESS, survey_answers: {} });
+
+    twiml.say({ voice: 'alice' }, survey.intro || DEFAULT_INTRO);
+    this.appendQuestion(twiml, trackingNumber, 0);
+  }
+
+  /**
+   * Store the answer to a question and continue with the next one. An invalid or
+   * missing answer asks the question once more, then moves on without an answer.
+   */
+  async handleAnswer(
+    twiml: VoiceResponse,
+    trackingNumber: TrackingNumber,
+    call: Call,
+    index: number,
+    digits: string | undefined,
+    attempt: number
+  ): Promise<void> {
+    const survey = trackingNumber.call_flow?.survey;
+    const question = survey?.questions?.[index];
+
+    if (!survey || !question) {
+      twiml.hangup();
+      return;
+    }
+
+    const answer = this.parseAnswer(question, digits);
+
+    if (answer === null && attempt < 2) {
+      twiml.say({ voice: 'alice' }, INVALID_INPUT_MESSAGE);
+      this.appendQuestion(twiml, trackingNumber, index, attempt + 1);
+      return;
+    }
+
+    const isLast = index >= survey.questions.length - 1;
+    const firstRating = survey.questions.find(item => item.type === 'rating');
+
+    await call.update({
+      survey_answers: answer === null
+        ? call.survey_answers
+        : { ...call.survey_answers, [question.id]: answer },
+      ...(answer !== null && question === firstRating && { csat_score: answer as number }),
+      ...(isLast && { survey_status: SurveyStatus.COMPLETED })
+    });
+
+    if (isLast) {
+      twiml.say({ voice: 'alice' }, survey.thank_you || DEFAULT_THANK_YOU);
+      twiml.hangup();
+      return;
+    }
+
+    this.appendQuestion(twiml, trackingNumber, index + 1);
+  }
+
+  /**
+   * Close a survey the caller hung up on
+   */
+  async finalize(call: Call): Promise<void> {
+    if (call.survey_status !== SurveyStatus.IN_PROGRESS) return;
+
+    const answered = Object.keys(call.survey_answers || {}).length > 0;
+    await call.update({ survey_status: answered ? SurveyStatus.PARTIAL : SurveyStatus.NO_RESPONSE });
+  }
+
+  /**
+   * CSAT for calls an agent handled, by call start time
+   */
+  async getCsatMetrics(agentId: number, companyId?: number, dateFrom?: Date, dateTo?: Date): Promise<CsatMetrics> {
+    const where: any = {
+      agent_id: agentId,
+      csat_score: { [Op.ne]: null }
+    };
+
+    if (companyId) where.company_id = companyId;
+    if (dateFrom || dateTo) {
+      where.start_time = {};
+      if (dateFrom) where.start_time[Op.gte] = dateFrom;
+      if (dateTo) where.start_time[Op.lte] = dateTo;
+    }
+
+    const [row] = await Call.findAll({
+      where: where as WhereOptions<Call>,
+      attributes: [
+        [fn('COUNT', col('csat_score')), 'responses'],
+        [fn('AVG', col('csat_score')), 'average_rating'],
+        [fn('SUM', literal(`CASE WHEN csat_score >= ${SATISFIED_MIN_RATING} THEN 1 ELSE 0 END`)), 'satisfied']
+      ],
+      raw: true
+    }) as unknown as { responses: string; average_rating: string | null; satisfied: string | null }[];
+
+    const responses = parseInt(row?.responses || '0');
+
+    return {
+      responses,
+      csat_score: responses > 0 ? Math.round((parseInt(row.satisfied || '0') / responses) * 1000) / 10 : null,
+      average_rating: responses > 0 ? Math.round(parseFloat(row.average_rating || '0') * 100) / 100 : null
+    };
+  }
+
+  validateConfig(config: PostCallSurveyConfig): string[] {
+    const errors: string[] = [];
+
+    if (typeof config.enabled !== 'boolean') {
+      errors.push('survey.enabled must be true or false');
+    }
+    if (!Array.isArray(config.questions) || config.questions.length === 0 || config.questions.length > MAX_QUESTIONS) {
+      errors.push(`survey.questions must contain between 1 and ${MAX_QUESTIONS} questions`);
+      return errors;
+    }
+
+    const seenIds = new Set<string>();
+    config.questions.forEach((question, index) => {
+      const label = `survey question ${question?.id ? `"${question.id}"` : index + 1}`;
+
+      if (!question?.id || typeof question.id !== 'string') {
+        errors.push(`${label} needs an id`);
+      } else if (seenIds.has(question.id)) {
+        errors.push(`Duplicate survey question id "${question.id}"`);
+      } else {
+        seenIds.add(question.id);
+      }
+      if (!QUESTION_TYPES.includes(question?.type)) {
+        errors.push(`${label} type must be one of: ${QUESTION_TYPES.join(', ')}`);
+      }
+      if (!question?.prompt || typeof question.prompt !== 'string' || !question.prompt.trim()) {
+        errors.push(`${label} needs a prompt`);
+      }
+    });
+
+    for (const key of ['intro', 'thank_you'] as const) {
+      if (config[key] !== undefined && (typeof config[key] !== 'string' || config[key]!.length > 500)) {
+        errors.push(`survey.${key} must be text of 500 characters or fewer`);
+      }
+    }
+
+    return errors;
+  }
+
+  getSurveyUrl(trackingNumberId: number, index: number, attempt: number = 1): string {
+    return `${process.env.BASE_URL}/api/sip/survey/${trackingNumberId}/${index}?attempt=${attempt}`;
+  }
+
+  private appendQuestion(twiml: VoiceResponse, trackingNumber: TrackingNumber, index: number, attempt: number = 1): void {
+    const question = trackingNumber.call_flow.survey!.questions[index];
+    const hint = question.type === 'rating'
+      ? 'Press a number from 1 to 5.'
+      : 'Press 1 for yes or 2 for no.';
+
+    const gather = twiml.gather({
+      input: ['dtmf'],
+      numDigits: 1,
+      timeout: 6,
+      action: this.getSurveyUrl(trackingNumber.id, index, attempt),
+      method: 'POST',
+      actionOnEmptyResult: true
+    });
+    gather.say({ voice: 'alice' }, `${question.prompt} ${hint}`);
+  }
+
+  private parseAnswer(question: SurveyQuestion, digits?: string): number | 'yes' | 'no' | null {
+    if (!digits || !/^\d$/.test(digits)) return null;
+
+    if (question.type === 'rating') {
+      const rating = parseInt(digits);
+      return rating >= 1 && rating <= 5 ? rating : null;
+    }
+
+    if (digits === '1') return 'yes';
+    if (digits === '2') return 'no';
+    return null;
+  }
+}
+
+export default new SurveyService();
@@ -0,0 +1,101 @@
+// backend/src/services/TelephonyProvider.ts
+import VoiceResponse from 'twilio/lib/twiml/VoiceResponse';
+
+export type TelephonyProviderName = 'twilio' | 'mock';
+
+export interface AvailableNumber {
+  phone_number: string;
+  friendly_name: string;
+  locality?: string;
+  region?: string;
+  country?: string;
+  capabilities: {
+    voice: boolean;
+    sms: boolean;
+    mms: boolean;
+  };
+}
+
+export interface ProvisionedNumber {
+  phoneNumber: string;
+  sid: string;
+  friendlyName: string;
+  capabilities: {
+    voice: boolean;
+    sms: boolean;
+    mms: boolean;
+  };
+}
+
+export interface NumberConfiguration {
+  voiceUrl?: string;
+  smsUrl?: string;
+  friendlyName?: string;
+}
+
+export interface OutboundCallOptions {
+  to: string;
+  from: string;
+  url: string; // call flow document fetched once the call connects
+  callerId?: string;
+  record?: boolean;
+  recordingStatusCallback?: string;
+  statusCallback?: string;
+  statusCallbackEvent?: string[];
+}
+
+export interface ConferenceParticipantOptions {
+  from: string;
+  to: string;
+  label?: string;
+  muted?: boolean;
+  coaching?: boolean;
+  callSidToCoach?: string;
+  endConferenceOnExit?: boolean;
+  timeout?: number;
+}
+
+export interface ConferenceParticipantUpdate {
+  hold?: boolean;
+  holdUrl?: string;
+  muted?: boolean;
+  coaching?: boolean;
+  callSidToCoach?: string;
+  endConferenceOnExit?: boolean;
+}
+
+/**
+ * Everything the app needs from a carrier. Call flows are rendered as TwiML documents,
+ * which every provider serves from our /api/sip webhooks.
+ */
+export interface TelephonyProvider {
+  readonly name: TelephonyProviderName;
+
+  // Numbers
+  searchAvailableNumbers(areaCode?: string): Promise<AvailableNumber[]>;
+  provisionNumber(phoneNumber: string, friendlyName?: string): Promise<ProvisionedNumber>;
+  updateNumberConfiguration(phoneNumber: string, config: NumberConfiguration): Promise<void>;
+  releaseNumber(sid: string): Promise<void>;
+
+  // Messaging
+  sendSMS(from: string, to: string, body: string): Promise<string>;
+
+  // Call control
+  createCall(options: OutboundCallOptions): Promise<string>;
+  redirectCall(callSid: string, twiml: string): Promise<void>;
+  endCall(callSid: string): Promise<void>;
+  getActiveChildCallSid(parentCallSid: string): Promise<string | null>;
+  findConferenceSid(friendlyName: string): Promise<string | null>;
+  getConferenceParticipantSids(conferenceSid: string): Promise<string[]>;
+  addConferenceParticipant(conferenceSid: string, options: ConferenceParticipantOptions): Promise<string>;
+  updateConferenceParticipant(conferenceSid: string, callSid: string, options: ConferenceParticipantUpdate): Promise<void>;
+  removeConferenceParticipant(conferenceSid: string, callSid: string): Promise<void>;
+  findQueueSid(friendlyName: string): Promise<string | null>;
+  dequeueMember(queueSid: string, callSid: string, url: string): Promise<void>;
+
+  // Recordings
+  deleteRecording(recordingSid: string): Promise<void>;
+
+  // Call flow rendering
+  createResponse(): VoiceResponse;
+}
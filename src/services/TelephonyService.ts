@@ -0,0 +1,48 @@
+// backend/src/services/TelephonyService.ts
+import { Call, TrackingNumber } from '../models';
+import { TelephonyProvider, TelephonyProviderName } from './TelephonyProvider';
+import { getTwilioService } from './TwilioService';
+import MockTelephonyProvider from './MockTelephonyProvider';
+
+export const TELEPHONY_PROVIDERS: TelephonyProviderName[] = ['twilio', 'mock'];
+
+export class TelephonyService {
+  getProvider(name?: string | null): TelephonyProvider {
+    switch (name || this.getDefaultProviderName()) {
+      case 'mock':
+        return MockTelephonyProvider;
+      case 'twilio':
+        return getTwilioService();
+      default:
+        throw new Error(`Unknown telephony provider "${name}"`);
+    }
+  }
+
+  /**
+   * Provider used for new numbers (and for numbers saved without one)
+   */
+  getDefaultProviderName(): TelephonyProviderName {
+    const name = process.env.TELEPHONY_PROVIDER as TelephonyProviderName;
+    return TELEPHONY_PROVIDERS.includes(name) ? name : 'twilio';
+  }
+
+  isProvider(name: unknown): name is TelephonyProviderName {
+    return TELEPHONY_PROVIDERS.includes(name as TelephonyProviderName);
+  }
+
+  forTrackingNumber(trackingNumber: TrackingNumber | null | undefined): TelephonyProvider {
+    return this.getProvider(trackingNumber?.provider);
+  }
+
+  /**
+   * Provider carrying a call, taken from the tracking number it came in on
+   */
+  async forCall(call: Call): Promise<TelephonyProvider> {
+    const trackingNumber = call.tracking_number
+      || (call.tracking_number_id ? await TrackingNumber.findByPk(call.tracking_number_id, { attributes: ['id', 'provider'] }) : null);
+
+    return this.forTrackingNumber(trackingNumber);
+  }
+}
+
+export default new TelephonyService();
@@ -0,0 +1,252 @@
+// backend/src/services/TextBackService.ts
+import { Op } from 'sequelize';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { Call, Company, TextConversation, TextMessage, TrackingNumber } from '../models';
+import { CallDisposition, CallStatus, MessageDirection, MessageStatus } from '../types/enums';
+import { MissedCallTextConfig, QuietHours } from '../types/interfaces';
+import TelephonyService from './TelephonyService';
+
+const DEFAULT_MESSAGE = 'Sorry we missed your call! Reply to this text and {company_name} will get back to you shortly.';
+const DEFAULT_DELAY_SECONDS = 60;
+const DEFAULT_MIN_INTERVAL_HOURS = 24;
+const DEFAULT_TIMEZONE = 'America/New_York';
+const SEND_BATCH_SIZE = 100;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export type MissedCallReason = 'no_answer' | 'busy' | 'voicemail' | 'abandoned';
+
+export class TextBackService {
+  /**
+   * Why a finished inbound call counts as missed, or null when someone picked up
+   */
+  getMissedReason(call: Call): MissedCallReason | null {
+    if (call.disposition === CallDisposition.VOICEMAIL || call.status === CallStatus.VOICEMAIL) {
+      return 'voicemail';
+    }
+
+    // Hung up while waiting in a queue
+    if (call.disposition === CallDisposition.ABANDONED) return 'abandoned';
+
+    // An agent picked up at some point (a later ring group member, a queue agent)
+    if (call.answer_time) return null;
+
+    // Last <Dial> outcome of a direct dial or ring group
+    const dialStatus = call.metadata?.dial_status;
+    if (call.status === CallStatus.BUSY || dialStatus === 'busy') return 'busy';
+    if (call.status === CallStatus.NO_ANSWER || dialStatus === 'no-answer') return 'no_answer';
+
+    return null;
+  }
+
+  /**
+   * Queue the tracking number's text-back for a missed call. Spam, blocked and
+   * withheld callers are skipped, as are callers who were texted recently.
+   * Returns the queued message, or null when nothing was scheduled.
+   */
+  async scheduleForCall(call: Call): Promise<TextMessage | null> {
+    const reason = this.getMissedReason(call);
+    if (!reason || call.metadata?.text_back) return null;
+
+    const trackingNumber = await TrackingNumber.findByPk(call.tracking_number_id);
+    const config = trackingNumber?.call_flow?.missed_call_text;
+    if (!trackingNumber || !config?.enabled || !trackingNumber.sms_enabled) return null;
+
+    const skip = async (skipReason: string) => {
+      await call.update({ metadata: { ...call.metadata, text_back: { skipped: skipReason } } });
+      return null;
+    };
+
+    if (call.is_spam || call.disposition === CallDisposition.BLOCKED) {
+      return await skip('spam');
+    }
+    if (!/^\+?\d{7,15}$/.test(call.caller_number || '')) {
+      return await skip('invalid_caller_number');
+    }
+
+    const company = await Company.findByPk(call.company_id);
+    if (!company) return null;
+
+    const [conversation] = await TextConversation.findOrCreate({
+      where: {
+        company_id: call.company_id,
+        tracking_number_id: trackingNumber.id,
+        customer_number: call.caller_number
+      },
+      defaults: {
+        customer_name: call.caller_name,
+        source: 'missed_call',
+        first_message_at: new Date()
+      } as any
+    });
+
+    const intervalHours = config.min_interval_hours ?? DEFAULT_MIN_INTERVAL_HOURS;
+    const recent = await TextMessage.count({
+      where: {
+        conversation_id: conversation.id,
+        direction: MessageDirection.OUTBOUND,
+        call_id: { [Op.ne]: null },
+        created_at: { [Op.gte]: new Date(Date.now() - intervalHours * 60 * 60 * 1000) }
+      } as any
+    });
+    if (recent > 0) {
+      return await skip('recently_texted');
+    }
+
+    const scheduledAt = this.getSendTime(config, company.timezone || DEFAULT_TIMEZONE);
+
+    const message = await TextMessage.create({
+      conversation_id: conversation.id,
+      company_id: call.company_id,
+      call_id: call.id,
+      direction: MessageDirection.OUTBOUND,
+      from_number: trackingNumber.phone_number,
+      to_number: call.caller_number,
+      body: this.renderMessage(config, company, trackingNumber, call),
+      status: MessageStatus.QUEUED,
+      scheduled_at: scheduledAt
+    } as any);
+
+    await call.update({
+      metadata: {
+        ...call.metadata,
+        text_back: { message_id: message.id, reason, scheduled_at: scheduledAt }
+      }
+    });
+
+    return message;
+  }
+
+  /**
+   * Send queued messages whose time has come. Each message is claimed before
+   * sending so overlapping runs never text a caller twice.
+   */
+  async sendDueMessages(): Promise<number> {
+    const due = await TextMessage.findAll({
+      where: {
+        status: MessageStatus.QUEUED,
+        scheduled_at: { [Op.lte]: new Date() }
+      },
+      order: [['scheduled_at', 'ASC']],
+      limit: SEND_BATCH_SIZE
+    });
+
+    let sent = 0;
+    for (const message of due) {
+      const [claimed] = await TextMessage.update(
+        { status: MessageStatus.SENDING },
+        { where: { id: message.id, status: MessageStatus.QUEUED } }
+      );
+      if (claimed === 0) continue;
+
+      try {
+        const conversation = await TextConversation.findByPk(message.conversation_id, {
+          include: [{ model: TrackingNumber, attributes: ['id', 'provider'] }]
+        });
+        const provider = TelephonyService.forTrackingNumber(conversation?.tracking_number);
+
+        const messageSid = await provider.sendSMS(message.from_number, message.to_number, message.body);
+        const now = new Date();
+
+        await message.update({
+          message_sid: messageSid,
+          status: MessageStatus.SENT,
+          provider: provider.name,
+          sent_at: now
+        });
+
+        await conversation?.update({
+          last_message_at: now,
+          last_message: message.body,
+          message_count: (conversation.message_count || 0) + 1
+        });
+
+        sent++;
+      } catch (error: any) {
+        console.error(`Error sending queued text ${message.id}:`, error);
+        await message.update({ status: MessageStatus.FAILED, error_message: error.message });
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Now plus the configured delay, pushed to the end of quiet hours when it lands inside them
+   */
+  getSendTime(config: MissedCallTextConfig, timezone: string, from: Date = new Date()): Date {
+    const sendAt = new Date(from.getTime() + (config.delay_seconds ?? DEFAULT_DELAY_SECONDS) * 1000);
+
+    if (!config.quiet_hours || !this.isQuietTime(config.quiet_hours, timezone, sendAt)) {
+      return sendAt;
+    }
+
+    // Quiet hours end today (local) unless they end tomorrow morning
+    const localDate = formatInTimeZone(sendAt, timezone, 'yyyy-MM-dd');
+    let end = fromZonedTime(`${localDate}T${config.quiet_hours.end}:00`, timezone);
+    if (end <= sendAt) {
+      end = fromZonedTime(`${this.nextDate(localDate)}T${config.quiet_hours.end}:00`, timezone);
+    }
+
+    return end;
+  }
+
+  isQuietTime(quietHours: QuietHours, timezone: string, at: Date = new Date()): boolean {
+    const localTime = formatInTimeZone(at, timezone, 'HH:mm');
+    const { start, end } = quietHours;
+
+    // Overnight windows (e.g. 21:00-08:00) wrap past midnight
+    return start <= end
+      ? localTime >= start && localTime < end
+      : localTime >= start || localTime < end;
+  }
+
+  renderMessage(config: MissedCallTextConfig, company: Company, trackingNumber: TrackingNumber, call: Call): string {
+    const values: Record<string, string | undefined> = {
+      company_name: company.name,
+      friendly_name: trackingNumber.friendly_name,
+      tracking_number: trackingNumber.phone_number,
+      caller_name: call.caller_name
+    };
+
+    return (config.message || DEFAULT_MESSAGE)
+      .replace(/\{(\w+)\}/g, (_, key: string) => values[key] || '')
+      .replace(/\s+([.,!?])/g, '$1')
+      .replace(/\s{2,}/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Validate a text-back config. Returns a list of problems (empty when valid).
+   */
+  validateConfig(config: MissedCallTextConfig): string[] {
+    const errors: string[] = [];
+
+    if (config.message !== undefined && (!config.message.trim() || config.message.length > 320)) {
+      errors.push('missed_call_text.message must be between 1 and 320 characters');
+    }
+    if (config.delay_seconds !== undefined &&
+      (!Number.isInteger(config.delay_seconds) || config.delay_seconds < 0 || config.delay_seconds > 86400)) {
+      errors.push('missed_call_text.delay_seconds must be a whole number between 0 and 86400');
+    }
+    if (config.min_interval_hours !== undefined &&
+      (typeof config.min_interval_hours !== 'number' || config.min_interval_hours < 0)) {
+      errors.push('missed_call_text.min_interval_hours must be zero or more');
+    }
+    if (config.quiet_hours) {
+      const { start, end } = config.quiet_hours;
+      if (!TIME_PATTERN.test(start) || !TIME_PATTERN.test(end) || start === end) {
+        errors.push('missed_call_text.quiet_hours needs different start and end times in HH:mm format');
+      }
+    }
+
+    return errors;
+  }
+
+  private nextDate(localDate: string): string {
+    const date = new Date(`${localDate}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + 1);
+    return date.toISOString().slice(0, 10);
+  }
+}
+
+export default new TextBackService();
@@ -0,0 +1,30 @@
+// backend/src/services/TranscriptionEngine.ts
+
+export type TranscriptionEngineName = 'local' | 'stub';
+
+export interface TranscriptionInput {
+  audio: Buffer;
+  format: string;    // file extension, e.g. "mp3"
+  channels: number;  // dual-channel recordings keep each party on its own channel
+  duration?: number; // seconds, when known
+  language?: string; // e.g. "en"; engines detect it when omitted
+}
+
+// Speech on one channel, times in seconds from the start of the recording
+export interface EngineSegment {
+  channel: number; // 0-based
+  start: number;
+  end: number;
+  text: string;
+  confidence?: number; // 0-1
+}
+
+/**
+ * Speech-to-text backend. Every channel is transcribed separately so the
+ * transcription pipeline can tell the caller from the agent.
+ */
+export interface TranscriptionEngine {
+  readonly name: TranscriptionEngineName;
+
+  transcribe(input: TranscriptionInput): Promise<EngineSegment[]>;
+}
@@ -0,0 +1,233 @@
+// backend/src/services/TranscriptionService.ts
+import Bull from 'bull';
+import { Call, CallRecording, Company } from '../models';
+import { TranscriptionStatus, WebhookEvent } from '../types/enums';
+import { TranscriptSegment, TranscriptSpeaker } from '../types/interfaces';
+import { TranscriptionEngine, TranscriptionEngineName, EngineSegment } from './TranscriptionEngine';
+import LocalTranscriptionEngine from './LocalTranscriptionEngine';
+import StubTranscriptionEngine from './StubTranscriptionEngine';
+import RecordingService from './RecordingService';
+import WebhookService from './WebhookService';
+
+export const TRANSCRIPTION_ENGINES: TranscriptionEngineName[] = ['local', 'stub'];
+
+const MAX_ATTEMPTS = 3;
+const SPEAKER_LABELS: Record<TranscriptSpeaker, string> = {
+  caller: 'Caller',
+  agent: 'Agent',
+  unknown: 'Speaker'
+};
+
+interface TranscriptionJob {
+  recordingId: number;
+}
+
+/**
+ * Queued speech-to-text for call recordings. Each channel of a dual-channel
+ * recording is one party, so the transcript comes out as speaker-labelled lines.
+ */
+export class TranscriptionService {
+  private queue: Bull.Queue<TranscriptionJob>;
+
+  constructor() {
+    this.queue = new Bull('call-transcription', {
+      redis: {
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+        password: process.env.REDIS_PASSWORD
+      }
+    });
+
+    // Transcription is CPU heavy: one recording at a time unless configured otherwise
+    this.queue.process(parseInt(process.env.TRANSCRIPTION_CONCURRENCY || '1'), async (job) => {
+      const isLastAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 1);
+      await this.transcribeRecording(job.data.recordingId, isLastAttempt);
+    });
+
+    this.queue.on('failed', (job, err) => {
+      console.error(`Transcription job ${job.id} failed:`, err);
+    });
+  }
+
+  getEngine(name?: string | null): TranscriptionEngine {
+    switch (name || this.getDefaultEngineName()) {
+      case 'stub':
+        return StubTranscriptionEngine;
+      case 'local':
+        return LocalTranscriptionEngine;
+      default:
+        throw new Error(`Unknown transcription engine "${name}"`);
+    }
+  }
+
+  getDefaultEngineName(): TranscriptionEngineName {
+    const name = process.env.TRANSCRIPTION_ENGINE as TranscriptionEngineName;
+    return TRANSCRIPTION_ENGINES.includes(name) ? name : 'local';
+  }
+
+  /**
+   * Whether a finished recording of the call should be transcribed
+   */
+  isEnabledFor(call: Call, company?: Company | null): boolean {
+    return call.transcription_enabled || !!company?.settings?.call_transcription;
+  }
+
+  /**
+   * Queue a recording for transcription. A recording already waiting in the queue is not added twice.
+   */
+  async enqueue(recording: CallRecording, call: Call): Promise<void> {
+    const job = await this.queue.add(
+      { recordingId: recording.id },
+      {
+        jobId: `recording-${recording.id}`,
+        attempts: MAX_ATTEMPTS,
+        backoff: {
+          type: 'exponential',
+          delay: 30000
+        },
+        removeOnComplete: true,
+        removeOnFail: true
+      }
+    );
+
+    await Promise.all([
+      recording.update({ transcription_job_id: String(job.id) }),
+      call.update({ transcription_status: TranscriptionStatus.QUEUED })
+    ]);
+  }
+
+  /**
+   * Transcribe a recording and store the transcript on its call.
+   * On the last failed attempt the call is marked failed; earlier failures go back to queued for the retry.
+   */
+  async transcribeRecording(recordingId: number, isLastAttempt: boolean = true): Promise<TranscriptSegment[] | null> {
+    const recording = await CallRecording.findByPk(recordingId, { include: [Call] });
+    if (!recording || !recording.call) {
+      console.error(`Recording ${recordingId} not found for transcription`);
+      return null;
+    }
+
+    const call = recording.call;
+    const engine = this.getEngine();
+
+    await call.update({ transcription_status: TranscriptionStatus.PROCESSING });
+
+    try {
+      const audio = await this.downloadAudio(recording);
+      const engineSegments = await engine.transcribe({
+        audio,
+        format: recording.format || 'mp3',
+        channels: recording.channels || 1,
+        duration: recording.duration
+      });
+
+      const segments = this.labelSegments(call, engineSegments, recording.channels || 1);
+      const text = this.toText(segments);
+      const confidence = this.averageConfidence(segments);
+
+      await call.update({
+        transcription: text,
+        transcript_segments: segments,
+        transcription_status: TranscriptionStatus.COMPLETED,
+        transcription_confidence: confidence,
+        metadata: {
+          ...call.metadata,
+          transcription: { engine: engine.name, completed_at: new Date() }
+        }
+      } as any);
+      await recording.update({ transcription_text: text });
+
+      await WebhookService.triggerWebhooks(
+        call.company_id,
+        WebhookEvent.TRANSCRIPTION_COMPLETED,
+        call.uuid,
+        {
+          call_id: call.uuid,
+          call_sid: call.call_sid,
+          recording_id: recording.id,
+          transcription: text,
+          segments,
+          confidence
+        }
+      );
+
+      console.log(`Transcribed recording ${recording.id} with ${engine.name} engine (${segments.length} segments)`);
+      return segments;
+    } catch (error) {
+      await call.update({
+        transcription_status: isLastAttempt ? TranscriptionStatus.FAILED : TranscriptionStatus.QUEUED,
+        metadata: {
+          ...call.metadata,
+          transcription: {
+            engine: engine.name,
+            error: error instanceof Error ? error.message : String(error),
+            failed_at: new Date()
+          }
+        }
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Which party is on each channel. Twilio puts the parent call leg on the first channel:
+   * the caller for inbound and outbound calls, the agent for dialer calls (which ring the agent first).
+   */
+  getChannelSpeakers(call: Call, channels: number): TranscriptSpeaker[] {
+    if (channels < 2) return ['unknown'];
+    return call.metadata?.dialer ? ['agent', 'caller'] : ['caller', 'agent'];
+  }
+
+  private labelSegments(call: Call, engineSegments: EngineSegment[], channels: number): TranscriptSegment[] {
+    const speakers = this.getChannelSpeakers(call, channels);
+
+    return engineSegments
+      .map(segment => ({
+        speaker: speakers[segment.channel] || 'unknown',
+        channel: segment.channel,
+        start: Math.round(segment.start * 100) / 100,
+        end: Math.round(segment.end * 100) / 100,
+        text: segment.text,
+        ...(segment.confidence !== undefined && { confidence: segment.confidence })
+      }))
+      .sort((a, b) => a.start - b.start || a.channel - b.channel);
+  }
+
+  /**
+   * Plain-text transcript, one line per change of speaker
+   */
+  private toText(segments: TranscriptSegment[]): string {
+    const lines: string[] = [];
+    let lastSpeaker: TranscriptSpeaker | null = null;
+
+    for (const segment of segments) {
+      if (segment.speaker === lastSpeaker) {
+        lines[lines.length - 1] += ` ${segment.text}`;
+      } else {
+        lines.push(`${SPEAKER_LABELS[segment.speaker]}: ${segment.text}`);
+        lastSpeaker = segment.speaker;
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private averageConfidence(segments: TranscriptSegment[]): number | null {
+    const scores = segments
+      .map(segment => segment.confidence)
+      .filter((score): score is number => typeof score === 'number');
+
+    if (scores.length === 0) return null;
+    return Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100) / 100;
+  }
+
+  private async downloadAudio(recording: CallRecording): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await RecordingService.getAudioStream(recording)) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+}
+
+export default new TranscriptionService();
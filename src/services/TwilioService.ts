@@ -1,6 +1,16 @@
 // backend/src/services/TwilioService.ts
 import twilio from 'twilio';
 import type { Twilio } from 'twilio';
+import VoiceResponse from 'twilio/lib/twiml/VoiceResponse';
+import {
+  AvailableNumber,
+  ConferenceParticipantOptions,
+  ConferenceParticipantUpdate,
+  NumberConfiguration,
+  OutboundCallOptions,
+  ProvisionedNumber,
+  TelephonyProvider
+} from './TelephonyProvider';
 
 interface TwilioConfig {
   accountSid: string;
@@ -8,17 +18,6 @@ interface TwilioConfig {
   baseUrl: string;
 }
 
-interface ProvisionedNumber {
-  phoneNumber: string;
-  sid: string;
-  friendlyName: string;
-  capabilities: {
-    voice: boolean;
-    sms: boolean;
-    mms: boolean;
-  };
-}
-
 // Define the options interface based on actual Twilio SDK
 interface AvailableNumberSearchOptions {
   areaCode?: number;
@@ -42,7 +41,8 @@ interface AvailableNumberSearchOptions {
   limit?: number;
 }
 
-export class TwilioService {
+export class TwilioService implements TelephonyProvider {
+  public readonly name = 'twilio' as const;
   public readonly client: Twilio; // Made public readonly for access in controllers
   private config: TwilioConfig;
 
@@ -67,7 +67,7 @@ export class TwilioService {
   /**
    * Search for available phone numbers
    */
-  async searchAvailableNumbers(areaCode?: string): Promise<any[]> {
+  async searchAvailableNumbers(areaCode?: string): Promise<AvailableNumber[]> {
     try {
       const options: AvailableNumberSearchOptions = {
         voiceEnabled: true,
@@ -87,7 +87,19 @@ export class TwilioService {
         .local
         .list(options as any); // Type assertion needed due to SDK typing issues
 
-      return numbers;
+      return numbers.map(num => ({
+        phone_number: num.phoneNumber,
+        friendly_name: num.friendlyName,
+        locality: num.locality,
+        region: num.region,
+        country: num.isoCountry,
+        // The API sends SMS/MMS in capitals, unlike the SDK typings
+        capabilities: {
+          voice: num.capabilities.voice,
+          sms: (num.capabilities as any).SMS,
+          mms: (num.capabilities as any).MMS
+        }
+      }));
     } catch (error) {
       console.error('Error searching for numbers:', error);
       throw new Error('Failed to search available numbers');
@@ -168,11 +180,7 @@ export class TwilioService {
    */
   async updateNumberConfiguration(
     phoneNumber: string,
-    config: {
-      voiceUrl?: string;
-      smsUrl?: string;
-      friendlyName?: string;
-    }
+    config: NumberConfiguration
   ): Promise<void> {
     try {
       const numbers = await this.client.incomingPhoneNumbers.list({
@@ -328,6 +336,119 @@ export class TwilioService {
     }
   }
 
+  /**
+   * Place an outbound call that runs the TwiML at options.url once connected
+   */
+  async createCall(options: OutboundCallOptions): Promise<string> {
+    const call = await this.client.calls.create({
+      ...options,
+      recordingStatusCallbackMethod: 'POST'
+    });
+    return call.sid;
+  }
+
+  /**
+   * Replace the TwiML a live call leg is executing
+   */
+  async redirectCall(callSid: string, twiml: string): Promise<void> {
+    await this.client.calls(callSid).update({ twiml });
+  }
+
+  /**
+   * End a live call leg
+   */
+  async endCall(callSid: string): Promise<void> {
+    try {
+      await this.client.calls(callSid).update({ status: 'completed' });
+    } catch (error: any) {
+      if (error.status === 404) {
+        console.log('Call already ended or not found:', callSid);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The in-progress child leg created by <Dial> for a parent call (the agent side)
+   */
+  async getActiveChildCallSid(parentCallSid: string): Promise<string | null> {
+    const children = await this.client.calls.list({
+      parentCallSid,
+      status: 'in-progress',
+      limit: 1
+    });
+    return children[0]?.sid || null;
+  }
+
+  /**
+   * Find an in-progress conference by its friendly name
+   */
+  async findConferenceSid(friendlyName: string): Promise<string | null> {
+    const conferences = await this.client.conferences.list({
+      friendlyName,
+      status: 'in-progress',
+      limit: 1
+    });
+    return conferences[0]?.sid || null;
+  }
+
+  async getConferenceParticipantSids(conferenceSid: string): Promise<string[]> {
+    const participants = await this.client.conferences(conferenceSid).participants.list();
+    return participants.map(participant => participant.callSid);
+  }
+
+  async addConferenceParticipant(
+    conferenceSid: string,
+    options: ConferenceParticipantOptions
+  ): Promise<string> {
+    const participant = await this.client.conferences(conferenceSid).participants.create({
+      beep: 'false',
+      earlyMedia: true,
+      ...options
+    });
+    return participant.callSid;
+  }
+
+  async updateConferenceParticipant(
+    conferenceSid: string,
+    callSid: string,
+    options: ConferenceParticipantUpdate
+  ): Promise<void> {
+    await this.client.conferences(conferenceSid).participants(callSid).update(options);
+  }
+
+  async removeConferenceParticipant(conferenceSid: string, callSid: string): Promise<void> {
+    try {
+      await this.client.conferences(conferenceSid).participants(callSid).remove();
+    } catch (error: any) {
+      if (error.status === 404) {
+        console.log('Participant already left the conference:', callSid);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Twilio creates a queue the first time <Enqueue> uses its name; look it up by that name
+   */
+  async findQueueSid(friendlyName: string): Promise<string | null> {
+    const queues = await this.client.queues.list();
+    return queues.find(queue => queue.friendlyName === friendlyName)?.sid || null;
+  }
+
+  /**
+   * Pull a specific caller out of a queue and run the TwiML at url for them
+   */
+  async dequeueMember(queueSid: string, callSid: string, url: string): Promise<void> {
+    await this.client.queues(queueSid).members(callSid).update({ url, method: 'POST' });
+  }
+
+  createResponse(): VoiceResponse {
+    return new twilio.twiml.VoiceResponse();
+  }
+
   public getClient(): Twilio {
     return this.client;
   }
@@ -335,7 +456,8 @@ export class TwilioService {
 
 let twilioServiceInstance: TwilioService | null = null;
 
-const getTwilioService = (): TwilioService => {
+// Created on first use so the app can run on the mock provider without Twilio credentials
+export const getTwilioService = (): TwilioService => {
   if (!twilioServiceInstance) {
     try {
       twilioServiceInstance = new TwilioService();
@@ -345,6 +467,4 @@ const getTwilioService = (): TwilioService => {
     }
   }
   return twilioServiceInstance;
-};
-
-export default getTwilioService();
\ No newline at end of file
+};
\ No newline at end of file
@@ -0,0 +1,198 @@
+// backend/src/services/VoicemailService.ts
+import { Call, TrackingNumber, User, Voicemail } from '../models';
+import { CallDisposition, CallStatus, VoicemailTranscriptionStatus, WebhookEvent } from '../types/enums';
+import { StorageService } from './StorageService';
+import TelephonyService from './TelephonyService';
+import WebhookService from './WebhookService';
+import SocketManager from '../socket/SocketManager';
+
+const storage = new StorageService();
+
+export interface VoicemailRecordingData {
+  recordingSid: string;
+  recordingUrl: string;
+  duration: number;
+}
+
+/**
+ * Stores voicemails left by callers and keeps their transcription, read and assignment state
+ */
+export class VoicemailService {
+  private socketManager: SocketManager | null = null;
+
+  setSocketManager(socketManager: SocketManager) {
+    this.socketManager = socketManager;
+  }
+
+  /**
+   * Save a finished voicemail recording and announce it (webhook + socket).
+   * Returns the existing voicemail when the recording was already saved.
+   */
+  async recordVoicemail(call: Call, data: VoicemailRecordingData): Promise<Voicemail> {
+    const existing = await Voicemail.findOne({ where: { call_id: call.id } });
+    if (existing) return existing;
+
+    const trackingNumber = call.tracking_number_id
+      ? await TrackingNumber.findByPk(call.tracking_number_id)
+      : null;
+
+    // Keep the provider copy when the upload fails so the voicemail is not lost
+    let file: { file_url: string; storage_key?: string; storage_provider: string };
+    try {
+      const { url, key, provider } = await storage.uploadRecordingFromTwilio(
+        `${data.recordingUrl}.mp3`,
+        call.call_sid,
+        call.company_id,
+        'voicemails'
+      );
+      file = { file_url: url, storage_key: key, storage_provider: provider };
+    } catch (error) {
+      console.error('Error uploading voicemail, keeping provider recording:', data.recordingSid, error);
+      file = { file_url: `${data.recordingUrl}.mp3`, storage_provider: 'remote' };
+    }
+
+    // The transcription callback can arrive before the recording one
+    const earlyTranscription = call.metadata?.voicemail_transcription as
+      { status: VoicemailTranscriptionStatus; text?: string } | undefined;
+
+    const voicemail = await Voicemail.create({
+      company_id: call.company_id,
+      call_id: call.id,
+      tracking_number_id: call.tracking_number_id,
+      caller_number: call.caller_number,
+      caller_name: call.caller_name,
+      recording_sid: data.recordingSid,
+      duration: data.duration,
+      ...file,
+      transcription_status: earlyTranscription?.status
+        || (trackingNumber?.call_flow?.voicemail_transcribe ? VoicemailTranscriptionStatus.PENDING : undefined),
+      transcription: earlyTranscription?.text
+    } as any);
+
+    const { voicemail_transcription, ...metadata } = call.metadata || {};
+    await call.update({
+      status: CallStatus.VOICEMAIL,
+      disposition: CallDisposition.VOICEMAIL,
+      voicemail_url: voicemail.file_url,
+      metadata: {
+        ...metadata,
+        voicemail_id: voicemail.id,
+        voicemail_duration: data.duration
+      }
+    });
+
+    if (storage.isDriver(voicemail.storage_provider)) {
+      try {
+        const provider = await TelephonyService.forCall(call);
+        await provider.deleteRecording(data.recordingSid);
+      } catch (error) {
+        console.error('Failed to delete provider voicemail recording:', data.recordingSid, error);
+      }
+    }
+
+    await WebhookService.triggerWebhooks(
+      call.company_id,
+      WebhookEvent.VOICEMAIL_RECEIVED,
+      call.uuid,
+      {
+        call_id: call.uuid,
+        call_sid: call.call_sid,
+        voicemail_id: voicemail.id,
+        caller_number: voicemail.caller_number,
+        tracking_number: trackingNumber?.phone_number,
+        voicemail_url: voicemail.file_url,
+        duration: voicemail.duration,
+        transcription: voicemail.transcription,
+        transcription_status: voicemail.transcription_status
+      }
+    );
+
+    this.emit(call.company_id, 'voicemail:new', { voicemail: this.serialize(voicemail) });
+
+    return voicemail;
+  }
+
+  /**
+   * Apply a transcription result. Kept on the call until the voicemail exists when it arrives first.
+   */
+  async applyTranscription(call: Call, status: VoicemailTranscriptionStatus, text?: string): Promise<Voicemail | null> {
+    const voicemail = await Voicemail.findOne({ where: { call_id: call.id } });
+
+    if (!voicemail) {
+      await call.update({
+        metadata: { ...call.metadata, voicemail_transcription: { status, text } }
+      });
+      return null;
+    }
+
+    await voicemail.update({
+      transcription_status: status,
+      transcription: status === VoicemailTranscriptionStatus.COMPLETED ? text : voicemail.transcription
+    });
+
+    this.emit(call.company_id, 'voicemail:transcribed', { voicemail: this.serialize(voicemail) });
+
+    return voicemail;
+  }
+
+  async setRead(voicemail: Voicemail, isRead: boolean, userId: number): Promise<Voicemail> {
+    await voicemail.update({
+      is_read: isRead,
+      read_at: isRead ? new Date() : null,
+      read_by: isRead ? userId : null
+    } as any);
+
+    this.emit(voicemail.company_id, 'voicemail:updated', { voicemail: this.serialize(voicemail) });
+    return voicemail;
+  }
+
+  async assign(voicemail: Voicemail, userId: number | null): Promise<Voicemail> {
+    await voicemail.update({
+      assigned_to: userId,
+      assigned_at: userId ? new Date() : null
+    } as any);
+
+    this.emit(voicemail.company_id, 'voicemail:updated', { voicemail: this.serialize(voicemail) });
+    if (userId) {
+      this.socketManager?.emitToUser(userId, 'voicemail:assigned', {
+        voicemail: this.serialize(voicemail),
+        timestamp: new Date()
+      });
+    }
+    return voicemail;
+  }
+
+  /**
+   * Short-lived URL for playing the voicemail audio
+   */
+  async getPlaybackUrl(voicemail: Voicemail): Promise<string> {
+    if (storage.isDriver(voicemail.storage_provider) && voicemail.storage_key) {
+      return storage.getSignedUrl(voicemail.storage_key, 3600, voicemail.storage_provider);
+    }
+
+    if (!voicemail.file_url) {
+      throw new Error('Voicemail audio not found');
+    }
+
+    return voicemail.file_url;
+  }
+
+  /**
+   * Whether the user can be assigned voicemails of the company
+   */
+  async isAssignableUser(companyId: number, userId: number): Promise<boolean> {
+    const user = await User.findByPk(userId);
+    return !!user && user.is_active && await user.hasAccessToCompany(companyId);
+  }
+
+  serialize(voicemail: Voicemail) {
+    const { storage_key, storage_provider, file_url, ...data } = voicemail.toJSON() as any;
+    return data;
+  }
+
+  private emit(companyId: number, event: string, data: Record<string, any>): void {
+    this.socketManager?.emitToCompany(companyId, event, { ...data, timestamp: new Date() });
+  }
+}
+
+export default new VoicemailService();
@@ -1,9 +1,10 @@
 import { Server as HttpServer } from 'http';
 import { Server, Socket } from 'socket.io';
 import AgentSessionService from '../services/AgentSessionService';
-import { AgentStatus } from '../types/enums';
+import { AgentStatus, UserRole } from '../types/enums';
 import { handleCallEvents } from './handlers/callHandler';
 import { handleAgentEvents } from './handlers/agentHandler';
+import { handleSupervisionEvents } from './handlers/supervisionHandler';
 import { verifyToken } from '../config/jwt';
 
 interface SocketData {
@@ -80,6 +81,11 @@ export class SocketManager {
         handleAgentEvents(socket, sessionId);
       }
 
+      // Supervisor events
+      if (role === UserRole.ADMIN || role === UserRole.MANAGER) {
+        handleSupervisionEvents(socket);
+      }
+
       // Common events
       socket.on('join:room', (room: string) => {
         socket.join(room);
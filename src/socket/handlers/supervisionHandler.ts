@@ -0,0 +1,71 @@
+import { Socket } from 'socket.io';
+import { Call } from '../../models';
+import SupervisionService, { SupervisionMode, SUPERVISION_MODES } from '../../services/SupervisionService';
+
+// Only registered for ADMIN/MANAGER sockets (see SocketManager)
+export const handleSupervisionEvents = (socket: Socket) => {
+  const { userId, companyId } = socket.data as { userId: number; companyId: number };
+
+  const findCall = (callId: number) => Call.findOne({
+    where: { id: callId, company_id: companyId }
+  });
+
+  // Start supervising, or switch mode when already supervising
+  socket.on('supervision:start', async (data: { callId: number; mode: SupervisionMode; to?: string }) => {
+    try {
+      if (!SUPERVISION_MODES.includes(data.mode)) {
+        socket.emit('error', { message: 'Invalid supervision mode' });
+        return;
+      }
+
+      const call = await findCall(data.callId);
+      if (!call) {
+        socket.emit('error', { message: 'Call not found' });
+        return;
+      }
+
+      const session = SupervisionService.getSession(call, userId)
+        ? await SupervisionService.changeMode(call, userId, data.mode)
+        : await SupervisionService.start(call, userId, data.mode, data.to);
+
+      socket.emit('supervision:started', { callId: call.id, session, timestamp: new Date() });
+
+      // Silent monitoring is not announced to the agent
+      if (data.mode !== 'monitor') {
+        socket.to(`call:${call.id}`).emit('call:supervision', {
+          callId: call.id,
+          userId,
+          mode: data.mode,
+          timestamp: new Date()
+        });
+      }
+    } catch (error: any) {
+      socket.emit('error', { message: error.statusCode ? error.message : 'Failed to start supervision' });
+    }
+  });
+
+  socket.on('supervision:stop', async (data: { callId: number }) => {
+    try {
+      const call = await findCall(data.callId);
+      if (!call) {
+        socket.emit('error', { message: 'Call not found' });
+        return;
+      }
+
+      const session = SupervisionService.getSession(call, userId);
+      await SupervisionService.stop(call, userId);
+
+      socket.emit('supervision:stopped', { callId: call.id, timestamp: new Date() });
+
+      if (session && session.mode !== 'monitor') {
+        socket.to(`call:${call.id}`).emit('call:supervision:ended', {
+          callId: call.id,
+          userId,
+          timestamp: new Date()
+        });
+      }
+    } catch (error: any) {
+      socket.emit('error', { message: error.statusCode ? error.message : 'Failed to stop supervision' });
+    }
+  });
+};
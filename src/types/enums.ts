@@ -108,6 +108,79 @@ export enum AgentStatus {
   IN_CALL = 'in_call'
 }
 
+export enum RingStrategy {
+  SIMULTANEOUS = 'simultaneous',
+  SEQUENTIAL = 'sequential',
+  ROUND_ROBIN = 'round_robin'
+}
+
+export enum CallerListType {
+  BLOCK = 'block',
+  ALLOW = 'allow'
+}
+
+export enum CallFlowVersionStatus {
+  DRAFT = 'draft',
+  PUBLISHED = 'published',
+  ARCHIVED = 'archived'
+}
+
+export enum DialerCampaignStatus {
+  DRAFT = 'draft',
+  ACTIVE = 'active',
+  PAUSED = 'paused',
+  COMPLETED = 'completed'
+}
+
+export enum DialerContactStatus {
+  PENDING = 'pending',     // waiting for its (next) attempt
+  DIALING = 'dialing',     // agent and then contact being rung
+  CONNECTED = 'connected', // agent talking to the contact
+  WRAP_UP = 'wrap_up',     // call over, waiting for the agent's disposition
+  COMPLETED = 'completed'
+}
+
+export enum DialerCallResult {
+  ANSWERED = 'answered',
+  NO_ANSWER = 'no_answer',
+  BUSY = 'busy',
+  FAILED = 'failed'
+}
+
+export enum SurveyStatus {
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed',
+  PARTIAL = 'partial',         // caller hung up part way through
+  NO_RESPONSE = 'no_response'  // caller hung up before answering
+}
+
+export enum TranscriptionStatus {
+  QUEUED = 'queued',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+export enum VoicemailTranscriptionStatus {
+  PENDING = 'pending',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+export enum RecordingPurgeAction {
+  ARCHIVED = 'archived',
+  DELETED = 'deleted'
+}
+
+export enum QueueEntryStatus {
+  WAITING = 'waiting',
+  CONNECTING = 'connecting',
+  ANSWERED = 'answered',
+  ABANDONED = 'abandoned',
+  OVERFLOWED = 'overflowed',
+  VOICEMAIL = 'voicemail'
+}
+
 export enum WebhookEvent {
   CALL_STARTED = 'call.started',
   CALL_ANSWERED = 'call.answered',
@@ -118,6 +191,7 @@ export enum WebhookEvent {
   FORM_SUBMITTED = 'form.submitted',
   VOICEMAIL_RECEIVED = 'voicemail.received',
   RECORDING_READY = 'recording.ready',
+  TRANSCRIPTION_COMPLETED = 'transcription.completed',
   RECORDING_COMPLETED = 'RECORDING_COMPLETED'
 }
 
@@ -15,13 +15,232 @@ export interface CallFlowConfig {
   timeout_seconds: number;
   voicemail_enabled: boolean;
   voicemail_greeting: string;
+  voicemail_greeting_audio_url?: string; // uploaded greeting played instead of voicemail_greeting when set
   voicemail_transcribe: boolean;
+  destination?: CallDestination; // Where calls go without an IVR (defaults to the SIP endpoint)
+  ivr?: IvrConfig;
+  after_hours?: CallDestination;
+  whisper?: WhisperConfig;
+  missed_call_text?: MissedCallTextConfig;
+  geo_routing?: GeoRoutingConfig; // runs before the IVR / default destination
+  survey?: PostCallSurveyConfig;  // offered to the caller when the agent hangs up
+}
+
+// Announcement played to whoever answers, before the caller is connected
+export interface WhisperConfig {
+  enabled: boolean;
+  // Template with {source}, {medium}, {campaign}, {friendly_name}, {tracking_number},
+  // {caller_name}, {caller_city}, {caller_state} and {first_time_caller}
+  message?: string;
+  screening?: boolean;                   // require the agent to press 1 to accept
+  decline_destination?: CallDestination; // after a declined direct dial (defaults to voicemail)
+}
+
+// Ordered rules that pick a destination from where the caller is. The first match wins.
+export interface GeoRoutingConfig {
+  enabled: boolean;
+  rules: GeoRoutingRule[];
+  default_destination: CallDestination; // when no rule matches
+}
+
+// Every criterion set on a rule must match; values within a criterion are alternatives
+export interface GeoRoutingRule {
+  id: string;
+  label?: string;
+  states?: string[];       // state / province codes, e.g. ["ON", "QC"]
+  countries?: string[];    // ISO country codes, e.g. ["CA"]
+  area_codes?: string[];   // North American area codes, e.g. ["416", "647"]
+  zip_prefixes?: string[]; // ZIP / postal code prefixes, e.g. ["M5", "902"]
+  destination: CallDestination;
+}
+
+export type GeoRoutingCriterion = 'state' | 'country' | 'area_code' | 'zip';
+
+// Routing decision stored on the call for reporting
+export interface GeoRoutingDecision {
+  rule_id: string; // "default" when no rule matched
+  label?: string;
+  matched_on: GeoRoutingCriterion[];
+  destination: CallDestination;
+}
+
+// SMS sent from the tracking number when a call ends unanswered, busy or in voicemail
+export interface MissedCallTextConfig {
+  enabled: boolean;
+  // Template with {company_name}, {friendly_name}, {tracking_number} and {caller_name}
+  message?: string;
+  delay_seconds?: number;      // wait before sending (defaults to 60)
+  quiet_hours?: QuietHours;    // texts due inside the window wait until it ends
+  min_interval_hours?: number; // at most one text-back per caller in this window (defaults to 24)
+}
+
+// Keypad survey played to the caller after an answered call, e.g. "rate us 1-5"
+export interface PostCallSurveyConfig {
+  enabled: boolean;
+  intro?: string;     // spoken before the first question
+  questions: SurveyQuestion[];
+  thank_you?: string; // spoken after the last question
+}
+
+export interface SurveyQuestion {
+  id: string;
+  type: SurveyQuestionType; // rating: press 1-5, yes_no: 1 for yes / 2 for no
+  prompt: string;
+}
+
+export type SurveyQuestionType = 'rating' | 'yes_no';
+
+// Survey answers by question id
+export type SurveyAnswers = Record<string, number | 'yes' | 'no'>;
+
+// Daily window in the company timezone, e.g. 21:00-08:00
+export interface QuietHours {
+  start: string; // HH:mm
+  end: string;   // HH:mm
+}
+
+// Why an outbound call or text went out from its tracking number (local presence)
+export type CallerIdReason =
+  | 'requested'        // number picked by the agent
+  | 'conversation'     // reply in an existing text conversation
+  | 'user_override'    // number an admin assigned to the user
+  | 'previous_contact' // number the customer last called or texted with
+  | 'area_code'
+  | 'region'
+  | 'country'
+  | 'default';
+
+// Where a call is sent by a call flow step
+export type CallDestinationType = 'sip' | 'user' | 'number' | 'ring_group' | 'queue' | 'voicemail' | 'menu' | 'message' | 'hangup';
+
+export interface CallDestination {
+  type: CallDestinationType;
+  sip_uri?: string;       // sip: overrides the default SIP endpoint
+  user_id?: number;       // user: dials the user's SIP account or phone
+  number?: string;        // number: external E.164 number
+  ring_group_id?: number; // ring_group: rings the group's members
+  queue_id?: number;      // queue: holds the caller until an agent is free
+  node_id?: string;       // menu: IVR node to jump to
+  message?: string;       // message: spoken before hanging up
+}
+
+export type IvrInputType = 'dtmf' | 'speech';
+
+export interface IvrOption {
+  digits?: string;
+  phrases?: string[];
+  label: string;
+  destination: CallDestination;
+}
+
+export interface IvrNode {
+  id: string;
+  name?: string;
+  greeting?: string;
+  greeting_url?: string;
+  input?: IvrInputType[];
+  num_digits?: number;
+  timeout_seconds?: number;
+  max_attempts?: number;
+  invalid_message?: string;
+  options: IvrOption[];
+  no_input_destination?: CallDestination;
+}
+
+export interface IvrConfig {
+  enabled: boolean;
+  root_node_id: string;
+  nodes: IvrNode[];
+}
+
+// Business hours
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export interface ScheduleTimeRange {
+  open: string;   // HH:mm, local to the schedule timezone
+  close: string;  // HH:mm, earlier than open means the range runs past midnight
+}
+
+export type WeeklyHours = Partial<Record<Weekday, ScheduleTimeRange[]>>;
+
+export interface ScheduleHoliday {
+  date: string;        // YYYY-MM-DD (MM-DD when recurring)
+  name: string;
+  recurring?: boolean; // Same day every year
+}
+
+export interface ScheduleClosure {
+  start: string;  // ISO timestamp
+  end: string;    // ISO timestamp
+  reason?: string;
+}
+
+export interface ScheduleStatus {
+  is_open: boolean;
+  reason: 'open' | 'closed' | 'holiday' | 'closure';
+  label?: string;
+  timezone: string;
+  local_time: string;
+}
+
+// Hours a dialer campaign may ring contacts, local to each contact's timezone
+export interface DialerCallingWindow {
+  start: string;    // HH:mm
+  end: string;      // HH:mm, later than start
+  days?: Weekday[]; // defaults to every day
+}
+
+// Who is speaking in a call transcript. Mono recordings can't be split, so their segments are "unknown".
+export type TranscriptSpeaker = 'caller' | 'agent' | 'unknown';
+
+// Transcript line, times in seconds from the start of the recording
+export interface TranscriptSegment {
+  speaker: TranscriptSpeaker;
+  channel: number;
+  start: number;
+  end: number;
+  text: string;
+  confidence?: number;
+}
+
+// Jurisdiction-specific recording behaviour, matched on the caller's location
+export type RecordingConsentAction = 'disclaimer' | 'no_recording';
+
+export interface RecordingConsentRule {
+  country: string; // ISO 3166-1 alpha-2, e.g. "US"
+  state?: string;  // state / province code, e.g. "CA"; omit to cover the whole country
+  action: RecordingConsentAction;
+}
+
+// How long call recordings are kept, in days from when they were recorded. Omitted or null: never.
+export interface RecordingRetentionPolicy {
+  archive_after_days?: number | null; // moved to cold storage
+  delete_after_days?: number | null;  // removed from storage, unless the call is on legal hold
+}
+
+export type RecordingConsentPath = 'recorded' | 'recorded_with_disclaimer' | 'not_recorded';
+
+export interface RecordingConsentDecision {
+  path: RecordingConsentPath;
+  record: boolean;
+  disclaimer: boolean;
+  reason: 'recording_disabled' | 'jurisdiction_rule' | 'company_disclaimer' | 'default';
+  rule?: RecordingConsentRule;
+  caller_state?: string;
+  caller_country?: string;
 }
 
 export interface CompanySettings {
   caller_id_lookup: boolean;
   spam_detection: boolean;
+  spam_flag_threshold?: number;  // score at which calls are marked is_spam (default 0.6)
+  spam_block_threshold?: number; // score at which calls are rejected (default 0.9)
   call_scoring: boolean;
+  recording_disclaimer_message?: string;
+  recording_disclaimer_audio_url?: string; // played instead of the message when set
+  recording_consent_rules?: RecordingConsentRule[];
+  call_transcription?: boolean; // transcribe every call recording
+  recording_retention?: RecordingRetentionPolicy; // tracking numbers can override
 }
 
 export interface UserPreferences {
@@ -0,0 +1,116 @@
+// backend/src/utils/recordingAudio.ts
+import { Request, Response } from 'express';
+import { Readable, pipeline } from 'stream';
+import { CallRecording } from '../models';
+import RecordingService from '../services/RecordingService';
+import { ByteRange } from '../services/StorageDriver';
+
+export interface RecordingAudioOptions {
+  filename: string;
+  disposition: 'inline' | 'attachment';
+  preview?: boolean; // low-bitrate mono MP3, transcoded on the fly
+}
+
+/**
+ * If-Range only allows a partial response while the client's copy is current.
+ * ETags are compared strongly, so weak ETags never match.
+ */
+const isRangeFresh = (req: Request, etag?: string, lastModified?: Date): boolean => {
+  const ifRange = req.get('If-Range');
+  if (!ifRange) return true;
+
+  if (ifRange.includes('"')) {
+    return !!etag && !etag.startsWith('W/') && ifRange === etag;
+  }
+  return !!lastModified && Math.floor(lastModified.getTime() / 1000) * 1000 <= Date.parse(ifRange);
+};
+
+/**
+ * Send a recording's audio proxied from storage, with Range / 206 Partial Content,
+ * ETag and Last-Modified so players can seek and revalidate. Previews are always sent whole.
+ */
+export const sendRecordingAudio = async (
+  req: Request,
+  res: Response,
+  recording: CallRecording,
+  options: RecordingAudioOptions
+): Promise<void> => {
+  const info = await RecordingService.getAudioInfo(recording);
+  const etag = options.preview ? info.etag?.replace(/"$/, '-preview"') : info.etag;
+
+  if (etag) res.setHeader('ETag', etag);
+  if (info.lastModified) res.setHeader('Last-Modified', info.lastModified.toUTCString());
+  res.setHeader('Cache-Control', 'private, no-cache');
+
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  if (options.preview && !RecordingService.canStartPreview()) {
+    res.removeHeader('ETag');
+    res.removeHeader('Last-Modified');
+    res.setHeader('Retry-After', '30');
+    res.status(503).json({ error: 'Too many recording previews in progress, try again later' });
+    return;
+  }
+
+  const headOnly = req.method === 'HEAD';
+  let audio: Readable | undefined;
+
+  if (options.preview) {
+    if (!headOnly) audio = await RecordingService.getPreviewStream(recording);
+
+    res.setHeader('Content-Type', 'audio/mpeg');
+    res.setHeader('Content-Disposition', `${options.disposition}; filename="${options.filename.replace(/\.\w+$/, '.mp3')}"`);
+    res.setHeader('Accept-Ranges', 'none');
+  } else {
+    let range: ByteRange | undefined;
+    let whole = true;
+
+    // Without a known size ranges cannot be resolved, so the whole file is sent
+    if (info.size !== undefined && req.headers.range && isRangeFresh(req, etag, info.lastModified)) {
+      const ranges = req.range(info.size, { combine: true });
+      if (ranges === -1) {
+        res.setHeader('Content-Range', `bytes */${info.size}`);
+        res.status(416).end();
+        return;
+      }
+      // Malformed and multi-range requests get the whole file
+      if (Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1) {
+        range = ranges[0];
+        whole = range.start === 0 && range.end === info.size - 1;
+      }
+    }
+
+    if (!headOnly) {
+      // A range covering the whole file is read in one go, so encrypted audio is still authenticated
+      audio = await RecordingService.getAudioStream(recording, whole ? undefined : range);
+    }
+
+    res.setHeader('Content-Type', info.contentType || 'audio/mpeg');
+    res.setHeader('Content-Disposition', `${options.disposition}; filename="${options.filename}"`);
+    res.setHeader('Accept-Ranges', info.size === undefined ? 'none' : 'bytes');
+    if (info.size !== undefined) {
+      res.setHeader('Content-Length', range ? range.end - range.start + 1 : info.size);
+    }
+
+    if (range) {
+      res.status(206);
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${info.size}`);
+    }
+  }
+
+  if (!audio) {
+    res.end();
+    return;
+  }
+
+  // Headers are already sent when reading fails mid-stream: the response is cut off.
+  // Players abort requests all the time while seeking, which is not worth logging.
+  pipeline(audio, res, (error) => {
+    if (error && (error as NodeJS.ErrnoException).code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+      console.error('Error streaming recording:', recording.id, error);
+    }
+  });
+};
@@ -0,0 +1,4 @@
+// backend/tests/setup.ts
+process.env.NODE_ENV = 'test';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+process.env.BASE_URL = process.env.BASE_URL || 'http://localhost:3001';
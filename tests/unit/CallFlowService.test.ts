@@ -0,0 +1,70 @@
+// backend/tests/unit/CallFlowService.test.ts
+jest.mock('../../src/models', () => ({
+  Call: {},
+  CallQueue: {},
+  Company: { findByPk: jest.fn() },
+  QueueEntry: {},
+  RingGroup: {},
+  RingGroupMember: {},
+  TrackingNumber: {},
+  User: {},
+  UserCompany: {}
+}));
+jest.mock('../../src/services/ScheduleService', () => ({
+  __esModule: true,
+  default: { getScheduleForTrackingNumber: jest.fn(), evaluate: jest.fn() }
+}));
+jest.mock('../../src/services/SipService', () => ({
+  __esModule: true,
+  default: { recordCallEvent: jest.fn() }
+}));
+
+import CallFlowService from '../../src/services/CallFlowService';
+import ScheduleService from '../../src/services/ScheduleService';
+
+const getSchedule = ScheduleService.getScheduleForTrackingNumber as jest.Mock;
+const evaluateSchedule = ScheduleService.evaluate as jest.Mock;
+
+const makeTrackingNumber = (callFlow: Record<string, any>): any => ({
+  id: 3,
+  company_id: 1,
+  provider: 'mock',
+  call_flow: callFlow,
+  company: { id: 1, settings: { recording_disclaimer_message: 'This call is recorded.' } }
+});
+
+const makeCall = (metadata: Record<string, any> = {}): any => ({
+  id: 10,
+  call_sid: 'CA123',
+  caller_number: '+15551230000',
+  company_id: 1,
+  metadata
+});
+
+describe('CallFlowService.generateInboundResponse', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getSchedule.mockResolvedValue({ id: 7 });
+    evaluateSchedule.mockResolvedValue({ is_open: false, reason: 'closed', local_time: '22:00' });
+  });
+
+  it('plays the recording disclaimer before an after-hours forward', async () => {
+    const trackingNumber = makeTrackingNumber({ after_hours: { type: 'number', number: '+15559870000' } });
+    const call = makeCall({ recording_consent: { disclaimer: true } });
+
+    const twiml = await CallFlowService.generateInboundResponse(trackingNumber, call);
+
+    expect(twiml).toContain('<Say voice="alice">This call is recorded.</Say>');
+    expect(twiml).toContain('record="record-from-answer-dual"');
+    expect(twiml.indexOf('<Say')).toBeLessThan(twiml.indexOf('<Dial'));
+  });
+
+  it('skips the disclaimer when the consent path does not ask for one', async () => {
+    const trackingNumber = makeTrackingNumber({ after_hours: { type: 'number', number: '+15559870000' } });
+
+    const twiml = await CallFlowService.generateInboundResponse(trackingNumber, makeCall());
+
+    expect(twiml).not.toContain('<Say');
+    expect(twiml).toContain('<Number');
+  });
+});
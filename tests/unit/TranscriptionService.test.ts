@@ -0,0 +1,206 @@
+// backend/tests/unit/TranscriptionService.test.ts
+import { Readable } from 'stream';
+import { TranscriptionStatus, WebhookEvent } from '../../src/types/enums';
+
+const mockQueue = {
+  processors: [] as Array<(job: any) => Promise<void>>,
+  add: jest.fn(async (_data: any, opts: any) => ({ id: opts.jobId })),
+  process: jest.fn((_concurrency: number, processor: (job: any) => Promise<void>) => {
+    mockQueue.processors.push(processor);
+  }),
+  on: jest.fn()
+};
+
+jest.mock('bull', () => jest.fn(() => mockQueue));
+jest.mock('../../src/models', () => ({
+  Call: {},
+  Company: {},
+  CallRecording: { findByPk: jest.fn() }
+}));
+jest.mock('../../src/services/RecordingService', () => ({
+  __esModule: true,
+  default: { getAudioStream: jest.fn() }
+}));
+jest.mock('../../src/services/WebhookService', () => ({
+  __esModule: true,
+  default: { triggerWebhooks: jest.fn() }
+}));
+
+import TranscriptionService from '../../src/services/TranscriptionService';
+import { CallRecording } from '../../src/models';
+import RecordingService from '../../src/services/RecordingService';
+import WebhookService from '../../src/services/WebhookService';
+
+const findRecording = CallRecording.findByPk as jest.Mock;
+const getAudioStream = RecordingService.getAudioStream as jest.Mock;
+const triggerWebhooks = WebhookService.triggerWebhooks as jest.Mock;
+
+// Model stand-in: update() applies the values and remembers each transcription status it was given
+const makeModel = (values: Record<string, any>) => {
+  const model: any = {
+    ...values,
+    statuses: [] as TranscriptionStatus[],
+    update: jest.fn(async (changes: Record<string, any>) => {
+      if (changes.transcription_status) model.statuses.push(changes.transcription_status);
+      Object.assign(model, changes);
+      return model;
+    })
+  };
+  return model;
+};
+
+const makeCall = (metadata: Record<string, any> = {}) => makeModel({
+  id: 10,
+  uuid: 'call-uuid',
+  call_sid: 'CA123',
+  company_id: 1,
+  metadata
+});
+
+const makeRecording = (call: any, channels: number, duration: number) => makeModel({
+  id: 5,
+  call_id: call.id,
+  format: 'mp3',
+  channels,
+  duration,
+  call
+});
+
+describe('TranscriptionService', () => {
+  const originalEngine = process.env.TRANSCRIPTION_ENGINE;
+
+  beforeAll(() => {
+    process.env.TRANSCRIPTION_ENGINE = 'stub';
+  });
+
+  afterAll(() => {
+    if (originalEngine === undefined) delete process.env.TRANSCRIPTION_ENGINE;
+    else process.env.TRANSCRIPTION_ENGINE = originalEngine;
+  });
+
+  let consoleSpies: jest.SpyInstance[] = [];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    consoleSpies = [
+      jest.spyOn(console, 'log').mockImplementation(() => undefined),
+      jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    ];
+    getAudioStream.mockImplementation(async () => Readable.from([Buffer.from('audio')]));
+  });
+
+  afterEach(() => {
+    consoleSpies.forEach(spy => spy.mockRestore());
+  });
+
+  it('uses the stub engine from TRANSCRIPTION_ENGINE', () => {
+    expect(TranscriptionService.getEngine().name).toBe('stub');
+  });
+
+  describe('enqueue', () => {
+    it('adds one job per recording and marks the call queued', async () => {
+      const call = makeCall();
+      const recording = makeRecording(call, 2, 12);
+
+      await TranscriptionService.enqueue(recording, call);
+
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        { recordingId: 5 },
+        expect.objectContaining({ jobId: 'recording-5', attempts: 3 })
+      );
+      expect(recording.transcription_job_id).toBe('recording-5');
+      expect(call.statuses).toEqual([TranscriptionStatus.QUEUED]);
+    });
+  });
+
+  describe('queued job', () => {
+    it('transcribes the recording into speaker-labelled segments', async () => {
+      const call = makeCall();
+      const recording = makeRecording(call, 2, 12);
+      findRecording.mockResolvedValue(recording);
+
+      await TranscriptionService.enqueue(recording, call);
+      await mockQueue.processors[0]({ data: { recordingId: 5 }, attemptsMade: 0, opts: { attempts: 3 } });
+
+      expect(call.statuses).toEqual([
+        TranscriptionStatus.QUEUED,
+        TranscriptionStatus.PROCESSING,
+        TranscriptionStatus.COMPLETED
+      ]);
+      expect(call.transcript_segments.map((segment: any) => [segment.speaker, segment.start, segment.end])).toEqual([
+        ['caller', 0, 5],
+        ['agent', 5, 10],
+        ['caller', 10, 12]
+      ]);
+      expect(call.transcription).toBe([
+        'Caller: Stub transcript line 1 on channel 1.',
+        'Agent: Stub transcript line 2 on channel 2.',
+        'Caller: Stub transcript line 3 on channel 1.'
+      ].join('\n'));
+      expect(call.transcription_confidence).toBe(0.95);
+      expect(call.metadata.transcription.engine).toBe('stub');
+      expect(recording.transcription_text).toBe(call.transcription);
+      expect(triggerWebhooks).toHaveBeenCalledWith(
+        1,
+        WebhookEvent.TRANSCRIPTION_COMPLETED,
+        'call-uuid',
+        expect.objectContaining({ recording_id: 5, segments: call.transcript_segments })
+      );
+    });
+  });
+
+  describe('transcribeRecording', () => {
+    it('puts the agent on the first channel of dialer calls', async () => {
+      const call = makeCall({ dialer: { campaign_id: 2 } });
+      findRecording.mockResolvedValue(makeRecording(call, 2, 8));
+
+      const segments = await TranscriptionService.transcribeRecording(5);
+
+      expect(segments!.map(segment => segment.speaker)).toEqual(['agent', 'caller']);
+      expect(call.transcription.split('\n')[0]).toMatch(/^Agent: /);
+    });
+
+    it('keeps a mono recording as one unlabelled speaker', async () => {
+      const call = makeCall();
+      findRecording.mockResolvedValue(makeRecording(call, 1, 12));
+
+      const segments = await TranscriptionService.transcribeRecording(5);
+
+      expect(segments!.every(segment => segment.speaker === 'unknown')).toBe(true);
+      expect(call.transcription.split('\n')).toHaveLength(1);
+      expect(call.transcription).toMatch(/^Speaker: /);
+    });
+
+    it('goes back to queued when an attempt fails and retries remain', async () => {
+      const call = makeCall();
+      findRecording.mockResolvedValue(makeRecording(call, 2, 12));
+      getAudioStream.mockRejectedValue(new Error('storage unavailable'));
+
+      await expect(
+        mockQueue.processors[0]({ data: { recordingId: 5 }, attemptsMade: 0, opts: { attempts: 3 } })
+      ).rejects.toThrow('storage unavailable');
+
+      expect(call.statuses).toEqual([TranscriptionStatus.PROCESSING, TranscriptionStatus.QUEUED]);
+      expect(call.metadata.transcription.error).toBe('storage unavailable');
+    });
+
+    it('is marked failed after the last attempt', async () => {
+      const call = makeCall();
+      findRecording.mockResolvedValue(makeRecording(call, 2, 12));
+      getAudioStream.mockRejectedValue(new Error('storage unavailable'));
+
+      await expect(
+        mockQueue.processors[0]({ data: { recordingId: 5 }, attemptsMade: 2, opts: { attempts: 3 } })
+      ).rejects.toThrow('storage unavailable');
+
+      expect(call.statuses).toEqual([TranscriptionStatus.PROCESSING, TranscriptionStatus.FAILED]);
+      expect(triggerWebhooks).not.toHaveBeenCalled();
+    });
+
+    it('skips recordings that no longer exist', async () => {
+      findRecording.mockResolvedValue(null);
+
+      await expect(TranscriptionService.transcribeRecording(99)).resolves.toBeNull();
+    });
+  });
+});